@@ -0,0 +1,20 @@
+//! Belly model exercised by the cucumber test in `tests/belly.rs`.
+
+#[derive(Debug, Default)]
+pub struct Belly {
+    cukes: u32,
+}
+
+impl Belly {
+    pub fn add(&mut self, count: u32) {
+        self.cukes += count;
+    }
+
+    pub fn eat(&mut self, count: u32) {
+        self.cukes = self.cukes.saturating_sub(count);
+    }
+
+    pub fn cukes(&self) -> u32 {
+        self.cukes
+    }
+}
@@ -0,0 +1,59 @@
+use std::str::FromStr;
+
+use cucumber::{given, then, when, Parameter, World};
+use rust_cucumber_demo::Belly;
+
+#[derive(Debug, Default, World)]
+pub struct BellyWorld {
+    belly: Belly,
+}
+
+#[derive(Debug, Default, Parameter)]
+#[param(name = "animal", regex = "cat|dog")]
+enum Animal {
+    #[default]
+    Cat,
+    Dog,
+}
+
+impl FromStr for Animal {
+    type Err = String;
+
+    fn from_str(s: &str) -> Result<Self, Self::Err> {
+        match s {
+            "cat" => Ok(Self::Cat),
+            "dog" => Ok(Self::Dog),
+            other => Err(format!("unknown animal: {other}")),
+        }
+    }
+}
+
+#[given("an empty belly")]
+async fn empty_belly(world: &mut BellyWorld) {
+    world.belly = Belly::default();
+}
+
+#[given(expr = "I have {int} cukes in my belly")]
+async fn have_cukes(world: &mut BellyWorld, count: u32) {
+    world.belly.add(count);
+}
+
+#[when(regex = r"^I eat (\d+) cukes?$")]
+async fn eat_cukes(world: &mut BellyWorld, count: u32) {
+    world.belly.eat(count);
+}
+
+#[then(expr = "I should have {int} cuke(s) left")]
+async fn cukes_left(world: &mut BellyWorld, count: u32) {
+    assert_eq!(world.belly.cukes(), count);
+}
+
+#[then(expr = "the {animal} is happy")]
+async fn animal_is_happy(_world: &mut BellyWorld, animal: Animal) {
+    assert!(matches!(animal, Animal::Cat | Animal::Dog));
+}
+
+#[tokio::main]
+async fn main() {
+    BellyWorld::run("tests/features").await;
+}
@@ -0,0 +1,8 @@
+Feature: Belly
+
+  Scenario: Eating cucumbers
+    Given an empty belly
+    And I have 3 cukes in my belly
+    When I eat 2 cukes
+    Then I should have 1 cuke left
+    And the cat is happy
@@ -1,6 +1,13 @@
 import { describe, expect, it } from 'vitest';
-import { isUnboundBindingDiagnostic } from '../features/author/scaffoldInsert';
+import type * as vscode from 'vscode';
+import {
+    authorStepRefFromDiagnostic,
+    authorStepText,
+    isUnboundBindingDiagnostic,
+} from '../features/author/scaffoldInsert';
 import { BINDINGS_DIAGNOSTIC_SOURCE, UNBOUND_STEP_DIAGNOSTIC_CODE } from '../core/domain/constants';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { createMockDocument } from './mocks/vscode';
 
 describe('bindingCodeActions', () => {
     it('isUnboundBindingDiagnostic matches Guardian unbound code only', () => {
@@ -23,4 +30,31 @@ describe('bindingCodeActions', () => {
             })
         ).toBe(false);
     });
+
+    it('authors Examples row diagnostics from the row text of their outline step', () => {
+        const text = [
+            'Feature: Cart',
+            '  Scenario Outline: Add',
+            '    Given I have <count> items',
+            '    Examples:',
+            '      | count |',
+            '      | 2     |',
+            '      | many  |',
+        ].join('\n');
+        const step = parseFeatureDocument(createMockDocument(text, '/ws/cart.feature') as vscode.TextDocument)!.allSteps[0];
+        const row = { range: { start: { line: 6 } } };
+
+        const ref = authorStepRefFromDiagnostic('file:///ws/cart.feature', {
+            ...row,
+            relatedInformation: [{ location: { range: { start: { line: 2 } } } }],
+        });
+        expect(ref).toEqual({ documentUri: 'file:///ws/cart.feature', line: 2, rowLine: 6 });
+        expect(authorStepText(step, ref.rowLine)).toBe('I have many items');
+
+        expect(authorStepRefFromDiagnostic('file:///ws/cart.feature', row)).toEqual({
+            documentUri: 'file:///ws/cart.feature',
+            line: 6,
+        });
+        expect(authorStepText(step)).toBe('I have <count> items');
+    });
 });
@@ -33,6 +33,22 @@ describe('resolveHoverFrameworkContext', () => {
         expect(ctx.snippetKind).toBe('js-cucumber');
     });
 
+    it('infers kotlin-cucumber from .kt binding path', () => {
+        const ctx = resolveHoverFrameworkContext({
+            selection: mockSelection('java-cucumber', 'Java Cucumber'),
+            bindingUriPath: '/proj/src/test/kotlin/LoginSteps.kt',
+        });
+        expect(ctx.snippetKind).toBe('kotlin-cucumber');
+    });
+
+    it('uses pytest-bdd for .py bindings when pytest-bdd is primary', () => {
+        const ctx = resolveHoverFrameworkContext({
+            selection: mockSelection('python-pytestbdd', 'Python pytest-bdd'),
+            bindingUriPath: '/proj/tests/conftest.py',
+        });
+        expect(ctx.snippetKind).toBe('python-pytestbdd');
+    });
+
     it('falls back to generic C# when selection is null', () => {
         const ctx = resolveHoverFrameworkContext({ selection: null });
         expect(ctx.snippetKind).toBe('generic-csharp-fallback');
@@ -58,12 +74,70 @@ describe('buildUnboundBindingSnippet', () => {
         expect(s.code).toContain('@Then("I see (.*)")');
     });
 
+    it('produces Kotlin snippet (raw string when the pattern has backslashes or quotes)', () => {
+        expect(buildUnboundBindingSnippet('kotlin-cucumber', 'When', 'I log in').code).toBe(
+            '@When("I log in")\nfun stepDefinition() {\n}'
+        );
+        const s = buildUnboundBindingSnippet('kotlin-cucumber', 'Given', 'I have (\\d+) "(.*)"');
+        expect(s.fenceLanguage).toBe('kotlin');
+        expect(s.code).toContain('@Given("""I have (\\d+) "(.*)"""")');
+    });
+
+    it('produces Behat snippet with a turnip pattern', () => {
+        const s = buildUnboundBindingSnippet('php-behat', 'Given', 'I add (\\d+) items to "(.*)"\\.');
+        expect(s.fenceLanguage).toBe('php');
+        expect(s.code).toContain(' * @Given I add :arg1 items to :arg2.\n');
+        expect(s.code).toContain('public function stepDefinition()');
+        expect(buildUnboundBindingSnippet('php-behat', 'When', 'I pay and/or (cancel)').code).toContain(
+            '@When I pay and\\/or \\(cancel\\)'
+        );
+    });
+
+    it('produces cucumber-rs snippet (literal without parameters, else an expr Cucumber Expression)', () => {
+        expect(buildUnboundBindingSnippet('rust-cucumber', 'When', 'I log in\\.').code).toBe(
+            '#[when("I log in.")]\nasync fn step_definition(world: &mut World) {\n    todo!()\n}'
+        );
+        const s = buildUnboundBindingSnippet('rust-cucumber', 'Given', 'I add (\\d+) items to "(.*)" (today)');
+        expect(s.fenceLanguage).toBe('rust');
+        expect(s.code).toContain('#[given(expr = r#"I add {int} items to {string} \\(today\\)"#)]\n');
+        expect(s.code).toContain('async fn step_definition(world: &mut World, arg1: i32, arg2: String) {');
+    });
+
+    it('produces Cucumber Ruby snippet like its own snippets', () => {
+        const s = buildUnboundBindingSnippet('ruby-cucumber', 'Given', 'I add (\\d+) of "(.*)" and (\\d+) more');
+        expect(s.fenceLanguage).toBe('ruby');
+        expect(s.code).toBe(
+            "Given('I add {int} of {string} and {int} more') do |int, string, int2|\n" +
+                '  pending # Write code here that turns the phrase above into concrete actions\nend'
+        );
+        expect(buildUnboundBindingSnippet('ruby-cucumber', 'When', "I pay (today) at Joe's").code).toContain(
+            "When('I pay \\\\(today\\\\) at Joe\\'s') do\n"
+        );
+        expect(buildUnboundBindingSnippet('ruby-cucumber', 'Then', 'I see (.*) items').code).toContain(
+            'Then(/^I see (.*) items$/) do |arg1|\n'
+        );
+    });
+
     it('produces Behave snippet', () => {
         const s = buildUnboundBindingSnippet('python-behave', 'When', 'I search');
         expect(s.fenceLanguage).toBe('python');
         expect(s.code).toContain("@when('I search')");
     });
 
+    it('turns suggested regex groups into behave parse fields', () => {
+        const s = buildUnboundBindingSnippet('python-behave', 'Given', 'I move (\\d+) to (\\d+) in "(.*)"\\.');
+        expect(s.code).toContain(`@given('I move {n:d} to {n2:d} in "{text}".')`);
+    });
+
+    it('produces pytest-bdd snippet (plain string, or parsers.re for regex patterns)', () => {
+        expect(buildUnboundBindingSnippet('python-pytestbdd', 'When', 'I search').code).toContain(
+            "@when('I search')\ndef step_definition():"
+        );
+        expect(buildUnboundBindingSnippet('python-pytestbdd', 'Given', 'I have (\\d+) items').code).toContain(
+            "@given(parsers.re(r'I have (\\d+) items'))"
+        );
+    });
+
     it('produces Godog snippet with InitializeScenario comment', () => {
         const s = buildUnboundBindingSnippet('go-godog', 'Given', 'there are (\\d+) items');
         expect(s.fenceLanguage).toBe('go');
@@ -77,6 +151,8 @@ describe('getPreviewFenceLanguage', () => {
         expect(getPreviewFenceLanguage('/a/Bindings.cs')).toBe('csharp');
         expect(getPreviewFenceLanguage('/a/steps.ts')).toBe('typescript');
         expect(getPreviewFenceLanguage('/a/Steps.java')).toBe('java');
+        expect(getPreviewFenceLanguage('/a/Steps.kt')).toBe('kotlin');
+        expect(getPreviewFenceLanguage('/a/FeatureContext.php')).toBe('php');
         expect(getPreviewFenceLanguage('/a/steps.py')).toBe('python');
         expect(getPreviewFenceLanguage('/a/steps.go')).toBe('go');
     });
@@ -0,0 +1,168 @@
+/**
+ * Reqnroll method-name steps and [Binding] inheritance across files
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    linkCSharpBindingInheritance,
+    methodNameToStepPattern,
+    parseCSharpBindingsFromText,
+    parseCSharpClassDeclarationsFromText,
+} from '../core/parsing/csharpBindingParser';
+import { WorkspaceIndex } from '../core/index/workspaceIndex';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const CALCULATOR_STEPS = `using Reqnroll;
+
+[Binding]
+public class CalculatorSteps
+{
+    [Given]
+    public void Given_I_have_entered_P0_into_the_calculator(int number) { }
+
+    [When, Scope(Tag = "web")]
+    public void When_WHO_adds_WHAT(string who, string what) { }
+
+    [Then]
+    public void ThenTheResultShouldBeP0OnTheScreen(int result) { }
+
+    [Given(@"^plain (\\d+)$")]
+    public void Plain(int n) { }
+}
+`;
+
+const BASE_STEPS = `using Reqnroll;
+
+namespace Shop.Steps
+{
+    [Scope(Tag = "shop")]
+    public abstract class BaseSteps
+    {
+        [Given(@"^I am logged in$")]
+        public void GivenIAmLoggedIn() { }
+    }
+}
+`;
+
+const DERIVED_STEPS = `using Reqnroll;
+
+namespace Shop.Steps
+{
+    [Binding, Scope(Tag = "web")]
+    public class WebSteps : Shop.Steps.BaseSteps, IDisposable
+    {
+        public void Dispose() { }
+    }
+
+    [Binding]
+    public sealed class ApiSteps : BaseSteps
+    {
+    }
+}
+`;
+
+const BASE_URI = vscode.Uri.file('/shop/Steps/BaseSteps.cs');
+const DERIVED_URI = vscode.Uri.file('/shop/Steps/DerivedSteps.cs');
+
+describe('method-name steps', () => {
+    it('derives the pattern from the method name, P0 / upper-case parameter tokens and PascalCase', () => {
+        const bindings = parseCSharpBindingsFromText(CALCULATOR_STEPS, vscode.Uri.file('/t/CalculatorSteps.cs'));
+        expect(bindings.map((b) => [b.keyword, b.methodName])).toEqual([
+            ['Given', 'Given_I_have_entered_P0_into_the_calculator'],
+            ['When', 'When_WHO_adds_WHAT'],
+            ['Then', 'ThenTheResultShouldBeP0OnTheScreen'],
+            ['Given', 'Plain'],
+        ]);
+        const [given, when, then, plain] = bindings;
+
+        expect(given.expressionType).toBe('regex');
+        expect(given.regex.exec('I have entered 50 into the calculator')?.[1]).toBe('50');
+        expect(given.regex.test('i have entered 50 into the Calculator')).toBe(true);
+        expect(given.stepArgument).toBe('none');
+        expect(when.regex.exec('Ann adds "the dishes"')?.slice(1)).toEqual(['Ann', 'the dishes']);
+        expect(when.scopeTags).toEqual(['web']);
+        expect(then.regex.test('the result should be 120 on the screen')).toBe(true);
+        expect(plain.regex.test('PLAIN 1')).toBe(false);
+    });
+
+    it('keeps words that only look like parameters', () => {
+        expect(methodNameToStepPattern('Given_I_have_P1_and_AN_item', ['count'])).toBe(
+            'I\\W*have\\W*P1\\W*and\\W*AN\\W*item'
+        );
+    });
+});
+
+describe('[Binding] inheritance', () => {
+    const classes = [
+        ...parseCSharpClassDeclarationsFromText(BASE_STEPS, BASE_URI),
+        ...parseCSharpClassDeclarationsFromText(DERIVED_STEPS, DERIVED_URI),
+    ];
+
+    it('reads base types, [Binding], abstract and class scope', () => {
+        expect(classes.map((c) => [c.name, c.baseTypes, c.isBinding, c.isAbstract, c.scopeTags])).toEqual([
+            ['BaseSteps', [], false, true, ['shop']],
+            ['WebSteps', ['BaseSteps', 'IDisposable'], true, false, ['web']],
+            ['ApiSteps', ['BaseSteps'], true, false, []],
+        ]);
+    });
+
+    it('registers base-class steps through each derived [Binding] class with inherited scope', () => {
+        const declared = parseCSharpBindingsFromText(BASE_STEPS, BASE_URI);
+        const linked = linkCSharpBindingInheritance(declared, classes);
+
+        expect(linked.map((b) => [b.className, b.signature, b.scopeTags, b.uri.fsPath])).toEqual([
+            ['WebSteps', 'WebSteps.GivenIAmLoggedIn', ['web', 'shop'], BASE_URI.fsPath],
+            ['ApiSteps', 'ApiSteps.GivenIAmLoggedIn', ['shop'], BASE_URI.fsPath],
+        ]);
+        // a second pass over its own output gives the same result
+        expect(linkCSharpBindingInheritance(linked, classes)).toEqual(linked);
+        // without the derived classes the base binding is back as declared
+        expect(linkCSharpBindingInheritance(linked, classes.slice(0, 1))).toEqual(declared);
+    });
+
+    it('WorkspaceIndex.linkBindings relinks after the derived file is removed', () => {
+        const index = new WorkspaceIndex();
+        index.addBindings(parseCSharpBindingsFromText(BASE_STEPS, BASE_URI), 'csharp-reqnroll');
+        index.setClassDeclarations(BASE_URI, classes.slice(0, 1));
+        index.setClassDeclarations(DERIVED_URI, classes.slice(1));
+        index.linkBindings('csharp-reqnroll', linkCSharpBindingInheritance);
+        expect(index.getBindingsByKeyword('Given').map((b) => b.className)).toEqual(['WebSteps', 'ApiSteps']);
+
+        index.removeBindingsForUri(DERIVED_URI);
+        index.linkBindings('csharp-reqnroll', linkCSharpBindingInheritance);
+        expect(index.getAllBindings().map((b) => b.className)).toEqual(['BaseSteps']);
+        expect(index.getBindingsByProvider('csharp-reqnroll')).toHaveLength(1);
+    });
+
+    it('loadProject links steps of base classes declared in other files', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-inherit-'));
+        try {
+            mkdirSync(join(dir, 'Steps'), { recursive: true });
+            writeFileSync(join(dir, 'Steps', 'BaseSteps.cs'), BASE_STEPS, 'utf8');
+            writeFileSync(join(dir, 'Steps', 'DerivedSteps.cs'), DERIVED_STEPS, 'utf8');
+            writeFileSync(
+                join(dir, 'Shop.feature'),
+                [
+                    'Feature: Shop',
+                    '  @web @shop',
+                    '  Scenario: Web',
+                    '    Given I am logged in',
+                    '  @mobile',
+                    '  Scenario: Mobile',
+                    '    Given I am logged in',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.bindings.map((b) => b.binding.className)).toEqual(['WebSteps', 'ApiSteps']);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 2, unbound: 1, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
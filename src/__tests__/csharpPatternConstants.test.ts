@@ -0,0 +1,188 @@
+/**
+ * C# step patterns built from const strings, `+` and `$"…"` interpolation — same file and across files
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    linkCSharpBindings,
+    parseCSharpBindingsFromText,
+    parseCSharpClassDeclarationsFromText,
+} from '../core/parsing/csharpBindingParser';
+import {
+    createCSharpConstantResolver,
+    parseCSharpStringConstants,
+    parseCSharpStringExpression,
+} from '../core/parsing/csharpStringConstants';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const STEP_TEXTS = `namespace Shop.Steps;
+
+public static class StepTexts
+{
+    public const string User = "the user";
+    public const string UserLoggedIn = User + " is logged in";
+    public const string Saves = @"saves the ""{word}"" form", Deletes = $"deletes {{x}} as {User}";
+    public static readonly string NotConst = "ignored";
+}
+`;
+
+const FORM_STEPS = `using Reqnroll;
+
+namespace Shop.Steps
+{
+    [Binding]
+    public class FormSteps
+    {
+        private const string Prefix = "^I ";
+
+        [Given(StepTexts.UserLoggedIn)]
+        public void GivenLoggedIn() { }
+
+        [When(Prefix + "open the (.*) page$")]
+        public void WhenOpen(string page) { }
+
+        [When($"{Prefix}close it$", Culture = "en-US")]
+        public void WhenClose() { }
+
+        [Then(Shop.Steps.StepTexts.Saves)]
+        public void ThenSaves(string word) { }
+
+        [Then(Missing.Text)]
+        public void ThenMissing() { }
+
+        [Then(Texts.Get("x"))]
+        public void ThenCall() { }
+    }
+}
+`;
+
+const STEP_TEXTS_URI = vscode.Uri.file('/shop/Steps/StepTexts.cs');
+const FORM_STEPS_URI = vscode.Uri.file('/shop/Steps/FormSteps.cs');
+
+describe('C# constant string expressions', () => {
+    it('reads literals, references, concatenation, interpolation and nameof', () => {
+        expect(parseCSharpStringExpression('Prefix + "a\\tb" + @"c""d"')).toEqual([
+            { kind: 'reference', name: 'Prefix' },
+            { kind: 'text', value: 'a\tbc"d' },
+        ]);
+        expect(parseCSharpStringExpression('$"{global::Shop.Texts.A} {{x}} " + nameof(Shop.Save)')).toEqual([
+            { kind: 'reference', name: 'Shop.Texts.A' },
+            { kind: 'text', value: ' {x} Save' },
+        ]);
+        expect(parseCSharpStringExpression('$"{Count:D2}"')).toBeNull();
+        expect(parseCSharpStringExpression('Texts.Get("x")')).toBeNull();
+        expect(parseCSharpStringExpression('"""raw"""')).toBeNull();
+    });
+
+    it('reads const string fields, several declarators per statement', () => {
+        expect(parseCSharpStringConstants(STEP_TEXTS).map((c) => [c.name, c.expression])).toEqual([
+            ['User', '"the user"'],
+            ['UserLoggedIn', 'User + " is logged in"'],
+            ['Saves', '@"saves the ""{word}"" form"'],
+            ['Deletes', '$"deletes {{x}} as {User}"'],
+        ]);
+    });
+
+    it('indexes constants per class and namespace and resolves them across classes', () => {
+        const classes = [
+            ...parseCSharpClassDeclarationsFromText(STEP_TEXTS, STEP_TEXTS_URI),
+            ...parseCSharpClassDeclarationsFromText(FORM_STEPS, FORM_STEPS_URI),
+        ];
+        expect(classes.map((c) => [c.name, c.namespace, Object.keys(c.stringConstants ?? {})])).toEqual([
+            ['StepTexts', 'Shop.Steps', ['User', 'UserLoggedIn', 'Saves', 'Deletes']],
+            ['FormSteps', 'Shop.Steps', ['Prefix']],
+        ]);
+
+        const resolve = createCSharpConstantResolver(classes);
+        const context = { className: 'FormSteps', namespace: 'Shop.Steps' };
+        expect(resolve('StepTexts.Deletes', context)).toBe('deletes {x} as the user');
+        expect(resolve('Prefix + StepTexts.UserLoggedIn', context)).toBe('^I the user is logged in');
+        expect(resolve('User', context)).toBeUndefined();
+        expect(resolve('User', { className: 'StepTexts' })).toBe('the user');
+    });
+
+    it('resolves constants across files with the base classes of the declaring class', () => {
+        const base = parseCSharpClassDeclarationsFromText(
+            'public abstract class BaseSteps { protected const string Start = "I start"; }',
+            vscode.Uri.file('/shop/BaseSteps.cs')
+        );
+        const derived = parseCSharpClassDeclarationsFromText(
+            'public class Steps : BaseSteps { const string Loop = Loop + "x"; }',
+            vscode.Uri.file('/shop/Steps.cs')
+        );
+        const resolve = createCSharpConstantResolver([...base, ...derived]);
+        expect(resolve('Start + " now"', { className: 'Steps' })).toBe('I start now');
+        expect(resolve('Loop', { className: 'Steps' })).toBeUndefined();
+    });
+});
+
+describe('constant-expression step patterns', () => {
+    const parsed = parseCSharpBindingsFromText(FORM_STEPS, FORM_STEPS_URI);
+
+    it('resolves same-file constants while parsing and marks the rest unresolvable', () => {
+        expect(parsed.map((b) => [b.methodName, b.patternRaw, b.patternUnresolved])).toEqual([
+            ['GivenLoggedIn', 'StepTexts.UserLoggedIn', true],
+            ['WhenOpen', '^I open the (.*) page$', undefined],
+            ['WhenClose', '^I close it$', undefined],
+            ['ThenSaves', 'Shop.Steps.StepTexts.Saves', true],
+            ['ThenMissing', 'Missing.Text', true],
+            ['ThenCall', 'Texts.Get("x")', true],
+        ]);
+        const [loggedIn, open] = parsed;
+        expect(open.patternExpression).toBe('Prefix + "open the (.*) page$"');
+        expect(open.regex.exec('I open the home page')?.[1]).toBe('home');
+        expect(loggedIn.regex.test('StepTexts.UserLoggedIn')).toBe(false);
+    });
+
+    it('linkCSharpBindings resolves constants from other files and is repeatable', () => {
+        const classes = [
+            ...parseCSharpClassDeclarationsFromText(STEP_TEXTS, STEP_TEXTS_URI),
+            ...parseCSharpClassDeclarationsFromText(FORM_STEPS, FORM_STEPS_URI),
+        ];
+        const linked = linkCSharpBindings(parsed, classes);
+        const [loggedIn, , , saves, missing] = linked;
+
+        expect(loggedIn.patternRaw).toBe('the user is logged in');
+        expect(loggedIn.patternUnresolved).toBeUndefined();
+        expect(loggedIn.regex.test('the user is logged in')).toBe(true);
+        expect(saves.patternRaw).toBe('saves the "{word}" form');
+        expect(saves.regex.test('saves the "contact" form')).toBe(true);
+        expect(missing.patternUnresolved).toBe(true);
+        expect(linkCSharpBindings(linked, classes)).toEqual(linked);
+        // the constants file is gone again: back to unresolvable
+        expect(linkCSharpBindings(linked, classes.slice(1))[0]).toMatchObject({
+            patternRaw: 'StepTexts.UserLoggedIn',
+            patternUnresolved: true,
+        });
+    });
+
+    it('loadProject resolves cross-file constants and reports unresolvable patterns apart from orphans', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-csconst-'));
+        try {
+            mkdirSync(join(dir, 'Steps'), { recursive: true });
+            writeFileSync(join(dir, 'Steps', 'StepTexts.cs'), STEP_TEXTS, 'utf8');
+            writeFileSync(join(dir, 'Steps', 'FormSteps.cs'), FORM_STEPS, 'utf8');
+            writeFileSync(
+                join(dir, 'Form.feature'),
+                [
+                    'Feature: Form',
+                    '  Scenario: Save',
+                    '    Given the user is logged in',
+                    '    When I open the contact page',
+                    '    Then saves the "contact" form',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const report = buildAnalyzeReport(loadProject(dir));
+            expect(report.counts).toMatchObject({ steps: 3, bound: 3, orphanBindings: 1, unresolvablePatterns: 2 });
+            expect(report.unresolvablePatterns.map((r) => r.pattern)).toEqual(['Missing.Text', 'Texts.Get("x")']);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
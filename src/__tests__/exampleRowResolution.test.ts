@@ -0,0 +1,149 @@
+/**
+ * Scenario Outline — every Examples row resolved on its own (values, Examples tags, row cap)
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
+import { createResolver } from '../core/matching/resolver';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+import { buildResolveStepReport } from '../cli/resolveStep';
+import { createMockDocument, Uri } from './mocks/vscode';
+
+const STEPS = [
+    '[Binding] public class Steps {',
+    '  [Given(@"I have (\\d+) items")] public void Items(int n) {}',
+    '  [Scope(Tag = "web")]',
+    '  [When(@"I open the page")] public void Open() {}',
+    '}',
+].join('\n');
+
+function outline(rowCount: number, badRow: number): string {
+    const rows = Array.from({ length: rowCount }, (_, i) =>
+        `      | ${i + 1 === badRow ? 'many' : String(i + 1)} |`
+    );
+    return [
+        'Feature: Cart',
+        '  Scenario Outline: Add items',
+        '    Given I have <count> items',
+        '    Examples:',
+        '      | count |',
+        ...rows,
+    ].join('\n');
+}
+
+function parse(text: string, maxExampleRows?: number) {
+    const doc = createMockDocument(text, '/ws/cart.feature');
+    return parseFeatureDocument(doc as vscode.TextDocument, { maxExampleRows })!;
+}
+
+const bindings = parseCSharpBindingsFromText(STEPS, Uri.file('/ws/Steps.cs') as vscode.Uri);
+const resolve = createResolver({
+    getAllBindings: () => bindings,
+    getBindingsByKeyword: (k) => bindings.filter((b) => b.keyword === k),
+});
+
+describe('gherkinParser — Examples rows', () => {
+    it('builds one row instance per Examples row with its line and text', () => {
+        const step = parse(outline(30, 0)).allSteps[0];
+
+        expect(step.exampleRows).toHaveLength(30);
+        expect(step.exampleRows![29]).toMatchObject({
+            text: 'I have 30 items',
+            examplesIndex: 0,
+            rowNumber: 30,
+            lineNumber: 34,
+        });
+        expect(step.candidateTexts.length).toBeLessThanOrEqual(20);
+    });
+
+    it('caps rows per Examples block and keeps the total count', () => {
+        const feature = parse(outline(12, 0), 5);
+        const examples = feature.scenarios[0].examples[0];
+
+        expect(feature.allSteps[0].exampleRows).toHaveLength(5);
+        expect(examples.rows).toHaveLength(5);
+        expect(examples.totalRowCount).toBe(12);
+    });
+});
+
+describe('resolver — per-row status', () => {
+    it('flags the one row that breaks the (\\d+) group among 200', () => {
+        const result = resolve(parse(outline(200, 143)).allSteps[0]);
+
+        expect(result.status).toBe('unbound');
+        expect(result.best?.binding.methodName).toBe('Items');
+        const failing = result.rows!.filter((r) => r.status !== 'bound');
+        expect(failing.map((r) => [r.row.rowNumber, r.row.text])).toEqual([[143, 'I have many items']]);
+    });
+
+    it('is bound when every row binds', () => {
+        const result = resolve(parse(outline(200, 0)).allSteps[0]);
+        expect(result.status).toBe('bound');
+        expect(result.rows).toHaveLength(200);
+    });
+
+    it('adds Examples block tags to the scope of each row', () => {
+        const feature = parse(
+            [
+                'Feature: Pages',
+                '  Scenario Outline: Open <name>',
+                '    When I open the page',
+                '    @web',
+                '    Examples: Browser',
+                '      | name |',
+                '      | home |',
+                '    @api',
+                '    Examples: Service',
+                '      | name |',
+                '      | users |',
+            ].join('\n')
+        );
+        const result = resolve(feature.allSteps[0]);
+
+        expect(result.rows!.map((r) => [r.row.tags, r.status])).toEqual([
+            [['@web'], 'bound'],
+            [['@api'], 'unbound'],
+        ]);
+        expect(result.rows![1].row.lineNumber).toBe(10);
+        expect(result.status).toBe('unbound');
+    });
+});
+
+describe('guardian-cli — Examples rows', () => {
+    it('analyze and resolve-step list the failing rows', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-rows-'));
+        try {
+            writeFileSync(join(dir, 'cart.feature'), outline(200, 143), 'utf8');
+            writeFileSync(join(dir, 'Steps.cs'), STEPS, 'utf8');
+            const project = loadProject(dir);
+
+            const analyze = buildAnalyzeReport(project);
+            expect(analyze.counts.unbound).toBe(1);
+            expect(analyze.unbound[0].exampleRows).toEqual([
+                { line: 148, row: 143, text: 'I have many items', status: 'unbound' },
+            ]);
+
+            const report = buildResolveStepReport(project, 'cart.feature', 2);
+            expect(report.status).toBe('unbound');
+            expect(report.exampleRows).toEqual([
+                { line: 147, row: 143, text: 'I have many items', status: 'unbound', matches: [] },
+            ]);
+
+            const capped = buildAnalyzeReport(loadProject(dir, { maxExampleRows: 100 }));
+            expect(capped.counts.bound).toBe(1);
+            // the unchecked rows (row 143 among them) are reported, not silently dropped
+            expect(capped.counts.truncatedExamples).toBe(1);
+            expect(capped.truncatedExamples).toEqual([
+                { feature: 'cart.feature', line: 4, resolvedRows: 100, totalRows: 200 },
+            ]);
+            expect(analyze.truncatedExamples).toEqual([]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
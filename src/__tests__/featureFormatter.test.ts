@@ -0,0 +1,134 @@
+/**
+ * Feature formatter — indentation, table alignment, tags/blank lines, range edits, `guardian format`
+ */
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { writeFileSync, readFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { formatFeatureText, formatFeatureRange } from '../core/formatting';
+import { runCli } from '../cli/main';
+
+const MESSY = [
+    '',
+    '@smoke    @web',
+    'Feature:   Cart',
+    ' Shoppers keep items',
+    '',
+    '',
+    '      Background:',
+    'Given a user',
+    'Rule: Pricing',
+    '@a',
+    '  Scenario Outline: Add <n>',
+    '  Given I have <n> items',
+    '          | name | qty |',
+    '      |   milk |  2|',
+    '     And a payload',
+    '            """json',
+    '            {',
+    '              "a": 1',
+    '            }',
+    '            """',
+    '   # rows',
+    '   Examples:',
+    '   | n |',
+    '   |  10 |   ',
+    '',
+    '',
+].join('\n');
+
+const FORMATTED = [
+    '@smoke @web',
+    'Feature: Cart',
+    '  Shoppers keep items',
+    '',
+    '  Background:',
+    '    Given a user',
+    '  Rule: Pricing',
+    '    @a',
+    '    Scenario Outline: Add <n>',
+    '      Given I have <n> items',
+    '        | name | qty |',
+    '        | milk | 2   |',
+    '      And a payload',
+    '        """json',
+    '        {',
+    '          "a": 1',
+    '        }',
+    '        """',
+    '      # rows',
+    '      Examples:',
+    '        | n  |',
+    '        | 10 |',
+    '',
+].join('\n');
+
+describe('formatFeatureText', () => {
+    it('normalizes indentation, tables, tags and blank lines', () => {
+        expect(formatFeatureText(MESSY)).toBe(FORMATTED);
+    });
+
+    it('is idempotent', () => {
+        expect(formatFeatureText(FORMATTED)).toBe(FORMATTED);
+    });
+
+    it('honors indent size, tabs and CRLF', () => {
+        const text = 'Feature: F\r\nScenario: S\r\nGiven a step\r\n';
+        expect(formatFeatureText(text, { indentSize: 4 })).toBe('Feature: F\r\n    Scenario: S\r\n        Given a step\r\n');
+        expect(formatFeatureText(text, { useTabs: true })).toBe('Feature: F\r\n\tScenario: S\r\n\t\tGiven a step\r\n');
+    });
+
+    it('keeps escaped pipes inside cells', () => {
+        const text = ['Feature: F', 'Scenario: S', 'Given rows', '| a\\|b | c |', '| d | e |'].join('\n');
+        expect(formatFeatureText(text).split('\n').slice(3, 5)).toEqual(['      | a\\|b | c |', '      | d    | e |']);
+    });
+
+    it('uses the file dialect for keywords', () => {
+        const text = ['# language: es', 'Característica: Carrito', 'Escenario: Vacío', 'Dado un carrito'].join('\n');
+        expect(formatFeatureText(text)).toBe(
+            ['# language: es', 'Característica: Carrito', '  Escenario: Vacío', '    Dado un carrito', ''].join('\n')
+        );
+    });
+});
+
+describe('formatFeatureRange', () => {
+    it('only touches the selected lines but aligns the whole table', () => {
+        const text = ['Feature: F', '  Scenario: S', '    Given rows', '      | a | b |', '      | long value | c |'].join('\n');
+        const edit = formatFeatureRange(text, 3, 3);
+
+        expect(edit).toEqual({
+            startLine: 3,
+            startCharacter: 0,
+            endLine: 4,
+            endCharacter: 0,
+            newText: '      | a          | b |\n',
+        });
+        expect(formatFeatureRange(FORMATTED, 0, 30)).toBeUndefined();
+    });
+});
+
+describe('guardian-cli — format', () => {
+    it('--check reports files, then format rewrites them', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-format-'));
+        const logs: string[] = [];
+        const prevLog = console.log;
+        console.log = (msg?: unknown) => {
+            logs.push(String(msg));
+        };
+        try {
+            writeFileSync(join(dir, 'cart.feature'), MESSY, 'utf8');
+            writeFileSync(join(dir, 'clean.feature'), FORMATTED, 'utf8');
+
+            expect(runCli(['format', dir, '--check'])).toBe(1);
+            expect(JSON.parse(logs.pop()!)).toMatchObject({ check: true, counts: { features: 2, changed: 1 }, changed: ['cart.feature'] });
+            expect(readFileSync(join(dir, 'cart.feature'), 'utf8')).toBe(MESSY);
+
+            expect(runCli(['format', dir])).toBe(0);
+            expect(readFileSync(join(dir, 'cart.feature'), 'utf8')).toBe(FORMATTED);
+            expect(runCli(['format', dir, '--check'])).toBe(0);
+        } finally {
+            console.log = prevLog;
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,334 @@
+/**
+ * Framework configuration files: feature paths, glue paths and languages
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    buildGlueScopes,
+    parseFrameworkConfig,
+    readCsprojAssemblyName,
+    toGherkinLanguage,
+} from '../core/parsing/frameworkConfigParser';
+import { createGlueFilter, globToRegExp, splitGlobBase } from '../core/matching/glueScope';
+import { createResolver } from '../core/matching/resolver';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseJsCucumberBindingsFromText } from '../core/parsing/jsCucumberBindingParser';
+import { createMockDocument } from './mocks/vscode';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+import { buildDiscoverReport } from '../cli/discover';
+
+const CUCUMBER_JS = `const common = { requireModule: ['ts-node/register'] };
+
+module.exports = {
+    default: {
+        ...common,
+        paths: ['features/**/*.feature'],
+        require: ['e2e/glue/**/*.ts', "support/world.ts"],
+        format: ['progress'],
+    },
+    ci: '--require ci/steps --format json:out.json --tags "not @wip" features/smoke',
+};
+`;
+
+const CUCUMBER_YML = `# cucumber-ruby
+default: --publish-quiet -r features/support -r features/step_definitions features
+html: <%= std_opts %> --format html --out report.html
+fr:
+  paths:
+    - french/**/*.feature
+  import: [french/steps/*.mjs]
+  language: fr
+`;
+
+const SETUP_CFG = `[metadata]
+name = shop
+
+[behave]
+paths = tests/features
+    tests/smoke
+lang = de
+format = progress
+`;
+
+const GODOG_TEST = `package shop
+
+import "github.com/cucumber/godog"
+
+func TestFeatures(t *testing.T) {
+    suite := godog.TestSuite{
+        ScenarioInitializer: InitializeScenario,
+        Options: &godog.Options{Format: "pretty", Paths: []string{"features", \`../shared/features\`}},
+    }
+}
+`;
+
+const JUNIT4_RUNNER = `package com.shop.orders;
+
+import io.cucumber.junit.Cucumber;
+import io.cucumber.junit.CucumberOptions;
+
+@RunWith(Cucumber.class)
+@CucumberOptions(
+    features = "classpath:features/orders",
+    glue = {"com.shop.orders.steps", "com.shop.common.hooks"},
+    plugin = {"pretty"}
+)
+public class RunOrdersTest {}
+`;
+
+const JUNIT5_SUITE = `package com.shop.billing
+
+import org.junit.platform.suite.api.*
+import io.cucumber.junit.platform.engine.Constants.GLUE_PROPERTY_NAME
+
+@Suite
+@IncludeEngines("cucumber")
+@SelectClasspathResource("features/billing")
+@ConfigurationParameter(key = GLUE_PROPERTY_NAME, value = "com.shop.billing.steps")
+class BillingSuiteTest
+`;
+
+describe('framework config files', () => {
+    it('reads reqnroll.json language and binding assemblies', () => {
+        const [config] = parseFrameworkConfig(
+            '/s/Specs/reqnroll.json',
+            `{
+                // comments are allowed
+                "language": { "feature": "de-DE" },
+                "bindingAssemblies": [ { "assembly": "Shop.SharedSteps" } ]
+            }`
+        );
+        expect(config).toEqual({
+            kind: 'reqnroll',
+            featurePaths: [],
+            gluePaths: [],
+            bindingAssemblies: ['Shop.SharedSteps'],
+            language: 'de-DE',
+        });
+        expect(readCsprojAssemblyName('/s/Shared/Shop.SharedSteps.csproj', '<Project></Project>')).toBe(
+            'Shop.SharedSteps'
+        );
+
+        const [scope] = buildGlueScopes('/s/Specs/reqnroll.json', [config], new Map([['Shop.SharedSteps', '/s/Shared']]));
+        expect(scope).toEqual({
+            source: '/s/Specs/reqnroll.json',
+            features: ['/s/Specs/**/*.feature'],
+            glue: ['/s/Specs/**', '/s/Shared/**'],
+            language: 'de',
+        });
+    });
+
+    it('reads cucumber.js profile objects and command-line profiles', () => {
+        const configs = parseFrameworkConfig('/p/cucumber.js', CUCUMBER_JS);
+        expect(configs.map((c) => [c.profile, c.featurePaths, c.gluePaths])).toEqual([
+            ['default', ['features/**/*.feature'], ['e2e/glue/**/*.ts', 'support/world.ts']],
+            ['ci', ['features/smoke'], ['ci/steps']],
+        ]);
+        expect(buildGlueScopes('/p/cucumber.js', configs).map((s) => [s.features, s.glue])).toEqual([
+            [['/p/features/**/*.feature'], ['/p/e2e/glue/**/*.ts', '/p/support/world.ts']],
+            [['/p/features/smoke/**/*.feature'], ['/p/ci/steps/**']],
+        ]);
+    });
+
+    it('reads cucumber.yml command lines and profile maps', () => {
+        const configs = parseFrameworkConfig('/r/cucumber.yml', CUCUMBER_YML);
+        expect(configs.map((c) => [c.profile, c.featurePaths, c.gluePaths, c.language])).toEqual([
+            ['default', ['features'], ['features/support', 'features/step_definitions'], undefined],
+            ['html', [], [], undefined],
+            ['fr', ['french/**/*.feature'], ['french/steps/*.mjs'], 'fr'],
+        ]);
+        // without --require, support code is loaded next to the features
+        expect(buildGlueScopes('/r/cucumber.yml', [configs[1]])[0].glue).toEqual(['/r/features/**']);
+    });
+
+    it('reads [behave] sections and godog options', () => {
+        const [behave] = parseFrameworkConfig('/py/setup.cfg', SETUP_CFG);
+        expect(behave).toEqual({
+            kind: 'behave',
+            featurePaths: ['tests/features', 'tests/smoke'],
+            gluePaths: [],
+            language: 'de',
+        });
+        expect(buildGlueScopes('/py/setup.cfg', [behave])[0].glue).toEqual([
+            '/py/tests/features/steps/**',
+            '/py/tests/features/environment.py',
+            '/py/tests/smoke/steps/**',
+            '/py/tests/smoke/environment.py',
+        ]);
+        expect(parseFrameworkConfig('/py/setup.cfg', '[metadata]\nname = x\n')).toEqual([]);
+
+        const [godog] = parseFrameworkConfig('/go/shop/shop_test.go', GODOG_TEST);
+        expect(buildGlueScopes('/go/shop/shop_test.go', [godog])[0]).toMatchObject({
+            features: ['/go/shop/features/**/*.feature', '/go/shared/features/**/*.feature'],
+            glue: ['/go/shop/**'],
+        });
+        expect(parseFrameworkConfig('/go/x_test.go', 'package x')).toEqual([]);
+    });
+
+    it('reads Cucumber-JVM runners and junit-platform.properties', () => {
+        const [junit4] = parseFrameworkConfig('/j/orders/src/test/java/com/shop/orders/RunOrdersTest.java', JUNIT4_RUNNER);
+        expect(junit4).toEqual({
+            kind: 'cucumber-jvm',
+            runner: 'RunOrdersTest',
+            featurePaths: ['classpath:features/orders'],
+            gluePaths: ['com.shop.orders.steps', 'com.shop.common.hooks'],
+        });
+        expect(buildGlueScopes('/j/orders/src/test/java/com/shop/orders/RunOrdersTest.java', [junit4])[0]).toMatchObject({
+            runner: 'RunOrdersTest',
+            features: ['/j/orders/src/*/resources/features/orders/**/*.feature'],
+            glue: ['/j/orders/**/com/shop/orders/steps/**', '/j/orders/**/com/shop/common/hooks/**'],
+        });
+
+        const [junit5] = parseFrameworkConfig('/j/billing/src/test/kotlin/BillingSuiteTest.kt', JUNIT5_SUITE);
+        expect(junit5).toMatchObject({
+            runner: 'BillingSuiteTest',
+            featurePaths: ['classpath:features/billing'],
+            gluePaths: ['com.shop.billing.steps'],
+        });
+
+        // without glue, @CucumberOptions scans the runner's package
+        const [defaults] = parseFrameworkConfig('/j/a/RunCucumberTest.java', 'package a.b;\n@CucumberOptions(plugin = "pretty")\nclass RunCucumberTest {}');
+        expect(defaults).toMatchObject({ featurePaths: ['classpath:a/b'], gluePaths: ['a/b'] });
+        expect(parseFrameworkConfig('/j/a/LoginTest.java', 'package a;\nclass LoginTest { @Test void x() {} }')).toEqual([]);
+
+        const [properties] = parseFrameworkConfig(
+            '/j/web/src/test/resources/junit-platform.properties',
+            'cucumber.publish.quiet=true\ncucumber.glue = com.shop.web.steps, com.shop.common\n'
+        );
+        expect(buildGlueScopes('/j/web/src/test/resources/junit-platform.properties', [properties])[0]).toMatchObject({
+            features: ['/j/web/**/*.feature'],
+            glue: ['/j/web/**/com/shop/web/steps/**', '/j/web/**/com/shop/common/**'],
+        });
+        expect(parseFrameworkConfig('/j/x/junit-platform.properties', 'junit.jupiter.execution.parallel.enabled=true')).toEqual([]);
+    });
+
+    it('maps languages and .NET cultures to Gherkin dialects', () => {
+        expect(toGherkinLanguage('fr')).toBe('fr');
+        expect(toGherkinLanguage('de-AT')).toBe('de');
+        expect(toGherkinLanguage('en-AU')).toBe('en-au');
+        expect(toGherkinLanguage('xx-YY')).toBeUndefined();
+    });
+});
+
+describe('glue scopes', () => {
+    it('matches globs with **, *, ? and alternatives', () => {
+        expect(globToRegExp('/p/**/*.{ts,js}').test('/p/a/b/steps.ts')).toBe(true);
+        expect(globToRegExp('/p/**/*.{ts,js}').test('/p/steps.js')).toBe(true);
+        expect(globToRegExp('/p/*.ts').test('/p/a/steps.ts')).toBe(false);
+        expect(globToRegExp('/p/step?.ts').test('/p/steps.ts')).toBe(true);
+        expect(splitGlobBase('/p/e2e/**/*.ts')).toEqual({ base: '/p/e2e', pattern: '**/*.ts' });
+    });
+
+    it('limits the bindings of covered features to their glue', () => {
+        const scopes = [
+            { source: '/m/a/cucumber.js', features: ['/m/a/features/**/*.feature'], glue: ['/m/a/steps/**'] },
+            { source: '/m/b/cucumber.js', features: ['/m/b/features/**/*.feature'], glue: ['/m/b/steps/**'] },
+        ];
+        const stepsOf = (dir: string) =>
+            parseJsCucumberBindingsFromText(
+                "import { Given } from '@cucumber/cucumber';\nGiven('I log in', () => {});\n",
+                vscode.Uri.file(`/m/${dir}/steps/login.ts`)
+            );
+        const bindings = [...stepsOf('a'), ...stepsOf('b')];
+        const featureAt = (featurePath: string) =>
+            parseFeatureDocument(
+                createMockDocument('Feature: F\n  Scenario: S\n    Given I log in', featurePath) as never,
+                { defaultLanguage: 'en' }
+            )!.allSteps[0];
+
+        const deps = {
+            getAllBindings: () => bindings,
+            getBindingsByKeyword: () => bindings,
+        };
+        expect(createResolver(deps)(featureAt('/m/a/features/x.feature')).status).toBe('ambiguous');
+
+        const resolve = createResolver({ ...deps, glueScopes: scopes });
+        const inA = resolve(featureAt('/m/a/features/x.feature'));
+        expect(inA.status).toBe('bound');
+        expect(inA.best?.binding.uri.fsPath).toBe('/m/a/steps/login.ts');
+        // a feature no configuration covers still sees every binding
+        expect(resolve(featureAt('/m/docs/x.feature')).status).toBe('ambiguous');
+        expect(createGlueFilter(scopes, '/m/docs/x.feature')).toBeUndefined();
+    });
+
+    it('loadProject pairs features with their glue, reads glue outside the default globs and the language', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-glue-'));
+        const write = (rel: string, text: string) => {
+            mkdirSync(join(dir, rel, '..'), { recursive: true });
+            writeFileSync(join(dir, rel), text, 'utf8');
+        };
+        const steps = "import { Given } from '@cucumber/cucumber';\nGiven('I log in', () => {});\n";
+        try {
+            write('web/cucumber.js', "module.exports = { default: { paths: ['specs'], require: ['e2e/glue/**/*.ts'] } };");
+            write('web/specs/login.feature', 'Feature: Web\n  Scenario: S\n    Given I log in');
+            write('web/e2e/glue/login.ts', steps);
+            write('api/cucumber.yml', 'default:\n  paths: [features]\n  language: fr\n');
+            write('api/features/login.feature', 'Fonctionnalité: Api\n  Scénario: S\n    Soit I log in');
+            write('api/features/step_definitions/login_steps.ts', steps);
+
+            const project = loadProject(dir);
+            expect(project.bindings.map((b) => b.binding.uri.fsPath.slice(dir.length + 1)).sort()).toEqual([
+                join('api', 'features', 'step_definitions', 'login_steps.ts'),
+                join('web', 'e2e', 'glue', 'login.ts'),
+            ]);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 2, bound: 2, ambiguous: 0 });
+
+            expect(buildDiscoverReport(project).glueScopes).toEqual([
+                {
+                    source: 'api/cucumber.yml',
+                    profile: 'default',
+                    runner: null,
+                    features: ['api/features/**/*.feature'],
+                    glue: ['api/features/**'],
+                    language: 'fr',
+                },
+                {
+                    source: 'web/cucumber.js',
+                    profile: 'default',
+                    runner: null,
+                    features: ['web/specs/**/*.feature'],
+                    glue: ['web/e2e/glue/**/*.ts'],
+                    language: null,
+                },
+            ]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('loadProject limits Java features to the glue packages of their runner', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-jvm-'));
+        const write = (rel: string, text: string) => {
+            mkdirSync(join(dir, rel, '..'), { recursive: true });
+            writeFileSync(join(dir, rel), text, 'utf8');
+        };
+        const steps = (pkg: string) =>
+            `package ${pkg};\nimport io.cucumber.java.en.Given;\npublic class LoginSteps {\n    @Given("I log in")\n    public void login() {}\n}\n`;
+        try {
+            write('orders/src/test/java/com/shop/orders/RunOrdersTest.java', JUNIT4_RUNNER);
+            write('orders/src/test/resources/features/orders/login.feature', 'Feature: Orders\n  Scenario: S\n    Given I log in');
+            write('orders/src/test/java/com/shop/orders/steps/LoginSteps.java', steps('com.shop.orders.steps'));
+            write('orders/src/test/java/com/shop/admin/steps/LoginSteps.java', steps('com.shop.admin.steps'));
+
+            const project = loadProject(dir);
+            expect(project.bindings).toHaveLength(2);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 1, bound: 1, ambiguous: 0 });
+            expect(buildDiscoverReport(project).glueScopes).toEqual([
+                {
+                    source: 'orders/src/test/java/com/shop/orders/RunOrdersTest.java',
+                    profile: null,
+                    runner: 'RunOrdersTest',
+                    features: ['orders/src/*/resources/features/orders/**/*.feature'],
+                    glue: ['orders/**/com/shop/orders/steps/**', 'orders/**/com/shop/common/hooks/**'],
+                    language: null,
+                },
+            ]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * Localized Gherkin — dialect table, `# language:` header, parser and autocomplete.
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import {
+    detectLanguageHeader,
+    getGherkinDialect,
+    getGherkinLanguageCodes,
+    matchGherkinBlockLine,
+    matchGherkinStepLine,
+    resolveGherkinDialect,
+} from '../core/parsing/gherkinDialects';
+import { findPreviousStrongKeyword, parseStepCompletionLine } from '../core/autocomplete';
+import { featureDocumentToGherkinModel } from '../features/coach/featureDocumentAdapter';
+import { computeCoachQuickFixInserts } from '../features/coach/quickFixBatch';
+import { findTagLineAbove } from '../features/coach/rules/redundantTagsRule';
+import { createMockDocument } from './mocks/vscode';
+
+const SPANISH_FEATURE = [
+    '# language: es',
+    '@pagos',
+    'Característica: Pagos',
+    '',
+    '  Antecedentes:',
+    '    Dado que estoy autenticado',
+    '',
+    '  Escenario: Pago con tarjeta',
+    '    Cuando pago 10 euros',
+    '    Y confirmo el pago',
+    '    Entonces veo el recibo',
+    '',
+    '  Esquema del escenario: Pago de <importe>',
+    '    Cuando pago <importe> euros',
+    '    Ejemplos:',
+    '      | importe |',
+    '      | 5       |',
+].join('\n');
+
+function parse(text: string, defaultLanguage?: string) {
+    const doc = createMockDocument(text, '/ws/pagos.feature');
+    return parseFeatureDocument(doc as vscode.TextDocument, { defaultLanguage });
+}
+
+describe('gherkinDialects', () => {
+    it('ships the official language table', () => {
+        expect(getGherkinLanguageCodes().length).toBeGreaterThanOrEqual(70);
+        expect(getGherkinDialect('es')?.given).toContain('Dado ');
+        expect(getGherkinDialect('pt-BR')).toBeUndefined();
+        expect(getGherkinDialect('PT')?.code).toBe('pt');
+    });
+
+    it('reads the # language: header only before content', () => {
+        expect(detectLanguageHeader('# language: fr\nFonctionnalité: X')).toBe('fr');
+        expect(detectLanguageHeader('\n# comment\n#language:de\nFunktionalität: X')).toBe('de');
+        expect(detectLanguageHeader('Feature: X\n# language: es')).toBeUndefined();
+    });
+
+    it('falls back to the default, then English, for unknown languages', () => {
+        expect(resolveGherkinDialect('# language: xx\n', 'es').code).toBe('es');
+        expect(resolveGherkinDialect('Feature: X', 'nope').code).toBe('en');
+        expect(resolveGherkinDialect('# language: de\n', 'es').code).toBe('de');
+    });
+
+    it('matches localized block and step lines', () => {
+        const es = getGherkinDialect('es')!;
+        expect(matchGherkinBlockLine('  Esquema del escenario: X', es)).toEqual({
+            kind: 'scenarioOutline',
+            keyword: 'Esquema del escenario',
+            name: 'X',
+        });
+        expect(matchGherkinBlockLine('Ejemplos:', es)?.kind).toBe('examples');
+        expect(matchGherkinStepLine('    Dadas las cuentas', es)).toMatchObject({
+            keyword: 'Given',
+            keywordText: 'Dadas',
+            text: 'las cuentas',
+            textStart: 10,
+        });
+        expect(matchGherkinStepLine('Entoncesx', es)).toBeNull();
+    });
+
+    it('matches keywords that take no trailing space', () => {
+        const zh = getGherkinDialect('zh-CN')!;
+        expect(matchGherkinStepLine('假如我有一个账户', zh)).toMatchObject({
+            keyword: 'Given',
+            text: '我有一个账户',
+        });
+    });
+});
+
+describe('gherkinParser — localized files', () => {
+    it('indexes steps of a # language: es file', () => {
+        const feature = parse(SPANISH_FEATURE)!;
+
+        expect(feature.featureName).toBe('Pagos');
+        expect(feature.backgroundSteps.map((s) => s.rawText)).toEqual(['que estoy autenticado']);
+        expect(feature.scenarios.map((s) => s.type)).toEqual(['Scenario', 'Scenario Outline']);
+        expect(feature.allSteps.map((s) => [s.keywordOriginal, s.keywordResolved])).toEqual([
+            ['Given', 'Given'],
+            ['When', 'When'],
+            ['And', 'When'],
+            ['Then', 'Then'],
+            ['When', 'When'],
+        ]);
+        expect(feature.allSteps[4].candidateTexts).toContain('pago 5 euros');
+        expect(feature.allSteps[0].tagsEffective).toEqual(['@pagos']);
+    });
+
+    it('uses the workspace default when the header is missing', () => {
+        const body = SPANISH_FEATURE.split('\n').slice(1).join('\n');
+
+        expect(parse(body, 'en')).toBeUndefined();
+        expect(parse(body, 'es')?.allSteps).toHaveLength(5);
+    });
+
+    it('lets the header override the workspace default', () => {
+        const english = '# language: en\nFeature: F\n  Scenario: S\n    Given x';
+        expect(parse(english, 'es')?.allSteps).toHaveLength(1);
+    });
+
+    it('feeds the Coach model with canonical keywords', () => {
+        const model = featureDocumentToGherkinModel(parse(SPANISH_FEATURE)!);
+        expect(model.scenarios[0].steps.map((s) => s.keyword)).toEqual(['When', 'And', 'Then']);
+    });
+});
+
+describe('localized autocomplete and Coach quick fixes', () => {
+    const es = getGherkinDialect('es')!;
+
+    it('parseStepCompletionLine understands localized keywords', () => {
+        const ctx = parseStepCompletionLine('    Y confirmo', 'When', es);
+        expect(ctx).toMatchObject({ eligible: true, keywordResolved: 'When', prefix: 'confirmo' });
+        expect(ctx.bodyStartColumn).toBe(6);
+        expect(parseStepCompletionLine('  Escenario: X', 'Given', es).eligible).toBe(false);
+        expect(findPreviousStrongKeyword(['  Entonces veo', '  Y algo'], 'Given', es)).toBe('Then');
+    });
+
+    it('inserts a localized Examples block and finds tags above localized scenarios', () => {
+        const text = [
+            '# language: es',
+            'Característica: F',
+            '  @lento',
+            '  Esquema del escenario: Pago de <importe>',
+            '    Cuando pago <importe> euros',
+        ].join('\n');
+
+        const inserts = computeCoachQuickFixInserts(text, [{ line: 3, ruleId: 'coach/outline-examples' }]);
+        expect(inserts[0].newText).toContain('Ejemplos:');
+        expect(findTagLineAbove(text.split('\n'), 3, '@lento')).toBe(2);
+        expect(findTagLineAbove(text.split('\n'), 4, '@lento')).toBeNull();
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Gherkin `Rule:` support — parser model, Coach adapter, Index API DTO.
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { featureDocumentToGherkinModel } from '../features/coach/featureDocumentAdapter';
+import { redundantTagsRule } from '../features/coach/rules/redundantTagsRule';
+import { mapWorkspaceToSnapshotDto } from '../api/indexSnapshotMapper';
+import { WorkspaceIndex } from '../core/index/workspaceIndex';
+import { createMockDocument } from './mocks/vscode';
+
+const RULES_FEATURE = [
+    '@billing',
+    'Feature: Invoices',
+    '',
+    '  Background:',
+    '    Given I am logged in',
+    '',
+    '  Scenario: Top-level scenario',
+    '    When I open invoices',
+    '    Then I see the list',
+    '',
+    '  @discounts',
+    '  Rule: Discounts apply to loyal customers',
+    '',
+    '    Background:',
+    '      Given a loyal customer',
+    '',
+    '    @smoke',
+    '    Scenario: Ten percent off',
+    '      When I buy a book',
+    '      Then I pay 90',
+    '',
+    '    @discounts',
+    '    Scenario: No discount below minimum',
+    '      When I buy a pen',
+    '      Then I pay 1',
+    '',
+    '  Rule: Refunds',
+    '',
+    '    Scenario: Full refund',
+    '      When I return a book',
+    '      Then I get 100 back',
+].join('\n');
+
+function parse(text: string) {
+    const doc = createMockDocument(text, '/ws/invoices.feature');
+    return parseFeatureDocument(doc as vscode.TextDocument)!;
+}
+
+describe('gherkinParser — Rule blocks', () => {
+    it('groups scenarios under their Rule and keeps the flat scenario list', () => {
+        const feature = parse(RULES_FEATURE);
+
+        expect(feature.scenarios.map((s) => s.name)).toEqual([
+            'Top-level scenario',
+            'Ten percent off',
+            'No discount below minimum',
+            'Full refund',
+        ]);
+        expect(feature.rules.map((r) => r.name)).toEqual([
+            'Discounts apply to loyal customers',
+            'Refunds',
+        ]);
+        expect(feature.rules[0].scenarios.map((s) => s.name)).toEqual([
+            'Ten percent off',
+            'No discount below minimum',
+        ]);
+        expect(feature.scenarios[0].ruleName).toBeUndefined();
+        expect(feature.scenarios[3].ruleName).toBe('Refunds');
+    });
+
+    it('keeps Rule Background steps out of the Feature Background', () => {
+        const feature = parse(RULES_FEATURE);
+
+        expect(feature.backgroundSteps.map((s) => s.rawText)).toEqual(['I am logged in']);
+        expect(feature.rules[0].backgroundSteps.map((s) => s.rawText)).toEqual(['a loyal customer']);
+        expect(feature.rules[0].backgroundSteps[0].ruleName).toBe('Discounts apply to loyal customers');
+        expect(feature.rules[1].backgroundSteps).toHaveLength(0);
+    });
+
+    it('adds Rule tags to tagsEffective of rule steps only', () => {
+        const feature = parse(RULES_FEATURE);
+        const stepAt = (text: string) => feature.allSteps.find((s) => s.rawText === text)!;
+
+        expect(stepAt('I open invoices').tagsEffective).toEqual(['@billing']);
+        expect(stepAt('a loyal customer').tagsEffective).toEqual(['@billing', '@discounts']);
+        expect(stepAt('I buy a book').tagsEffective).toEqual(['@billing', '@discounts', '@smoke']);
+        expect(stepAt('I return a book').tagsEffective).toEqual(['@billing']);
+        expect(feature.rules[0].tags).toEqual(['@discounts']);
+        expect(feature.scenarios[1].tags).toEqual(['@smoke']);
+    });
+
+    it('resets keyword resolution at each Rule', () => {
+        const feature = parse(
+            ['Feature: F', '  Scenario: A', '    Then done', '  Rule: R', '    Background:', '      And ready'].join('\n')
+        );
+        expect(feature.rules[0].backgroundSteps[0].keywordResolved).toBe('Given');
+    });
+});
+
+describe('Rule blocks downstream', () => {
+    it('Coach model carries rules and rule tags', () => {
+        const model = featureDocumentToGherkinModel(parse(RULES_FEATURE));
+
+        expect(model.rules).toHaveLength(2);
+        expect(model.rules![0]).toMatchObject({
+            title: 'Discounts apply to loyal customers',
+            line: 11,
+            tags: ['@discounts'],
+            scenarioLines: [17, 22],
+        });
+        expect(model.rules![0].background?.steps).toHaveLength(1);
+        expect(model.scenarios[2].ruleTags).toEqual(['@discounts']);
+    });
+
+    it('redundant-tags flags scenario tags repeated from the enclosing Rule', () => {
+        const findings = redundantTagsRule.run(featureDocumentToGherkinModel(parse(RULES_FEATURE)));
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0].message).toBe('Redundant tag "@discounts": already declared on Rule.');
+        expect(findings[0].line).toBe(21);
+    });
+
+    it('Index API DTO exposes rules and rule tags', () => {
+        const index = new WorkspaceIndex();
+        index.setFeature(parse(RULES_FEATURE));
+        index.markIndexed();
+
+        const dto = mapWorkspaceToSnapshotDto(index);
+        const feature = dto.features[0];
+
+        expect(feature.rules).toEqual([
+            { name: 'Discounts apply to loyal customers', tags: ['@discounts'], scenarioCount: 2, backgroundStepCount: 1 },
+            { name: 'Refunds', tags: [], scenarioCount: 1, backgroundStepCount: 0 },
+        ]);
+        expect(feature.scenarios[0].rule).toBeUndefined();
+        expect(feature.scenarios[1].rule).toBe('Discounts apply to loyal customers');
+        expect(dto.tags?.some((t) => t.name === '@discounts')).toBe(true);
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * `*` bullet steps and the Example / Scenario Template / Scenarios synonyms.
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
+import { createResolver } from '../core/matching/resolver';
+import { findPreviousStrongKeyword, parseStepCompletionLine } from '../core/autocomplete';
+import { featureDocumentToGherkinModel } from '../features/coach/featureDocumentAdapter';
+import { gwtStructureRule } from '../features/coach/rules/gwtStructureRule';
+import { createMockDocument, Uri } from './mocks/vscode';
+
+const FEATURE = [
+    'Feature: Shopping list',
+    '  Notes for readers:',
+    '  * bullets here are description text',
+    '',
+    '  Example: Bullets only',
+    '    * I have a list',
+    '    * I add milk',
+    '',
+    '  Example: Bullets after keywords',
+    '    Given I have a list',
+    '    * I have a basket',
+    '    When I add milk',
+    '    * I add eggs',
+    '    Then the list has 2 items',
+    '',
+    '  Scenario Template: Add <item>',
+    '    When I add <item>',
+    '    Scenarios:',
+    '      | item  |',
+    '      | bread |',
+].join('\n');
+
+function parse(text: string) {
+    return parseFeatureDocument(createMockDocument(text, '/ws/list.feature') as vscode.TextDocument)!;
+}
+
+describe('gherkinParser — bullets and synonyms', () => {
+    const feature = parse(FEATURE);
+
+    it('reads Example, Scenario Template and Scenarios blocks', () => {
+        expect(feature.scenarios.map((s) => [s.type, s.name])).toEqual([
+            ['Scenario', 'Bullets only'],
+            ['Scenario', 'Bullets after keywords'],
+            ['Scenario Outline', 'Add <item>'],
+        ]);
+        expect(feature.scenarios[2].examples[0].rows).toEqual([['bread']]);
+        expect(feature.scenarios[2].steps[0].candidateTexts).toContain('I add bread');
+    });
+
+    it('resolves `*` to the previous keyword, like And', () => {
+        const steps = feature.scenarios[1].steps;
+        expect(steps.map((s) => [s.keywordOriginal, s.keywordResolved])).toEqual([
+            ['Given', 'Given'],
+            ['*', 'Given'],
+            ['When', 'When'],
+            ['*', 'When'],
+            ['Then', 'Then'],
+        ]);
+        expect(feature.scenarios[0].steps.map((s) => s.keywordResolved)).toEqual(['Given', 'Given']);
+    });
+
+    it('keeps bullets in descriptions out of the step list', () => {
+        expect(feature.allSteps.some((s) => s.rawText.startsWith('bullets here'))).toBe(false);
+        expect(feature.allSteps).toHaveLength(8);
+    });
+
+    it('binds bullet steps like any other step', () => {
+        const bindings = parseCSharpBindingsFromText(
+            [
+                '[Binding] public class Steps {',
+                '  [Given(@"I have a (\\w+)")] public void Have(string what) {}',
+                '  [When(@"I add (\\w+)")] public void Add(string item) {}',
+                '}',
+            ].join('\n'),
+            Uri.file('/ws/Steps.cs') as vscode.Uri
+        );
+        const resolve = createResolver({
+            getAllBindings: () => bindings,
+            getBindingsByKeyword: (k) => bindings.filter((b) => b.keyword === k),
+        });
+        const statuses = feature.scenarios[1].steps.slice(0, 4).map((s) => resolve(s).status);
+        expect(statuses).toEqual(['bound', 'bound', 'bound', 'bound']);
+    });
+});
+
+describe('bullets in autocomplete and Coach', () => {
+    it('completes after `* ` with the inherited keyword', () => {
+        const ctx = parseStepCompletionLine('    * I ad', 'When');
+        expect(ctx).toMatchObject({ eligible: true, keywordResolved: 'When', prefix: 'I ad', bodyStartColumn: 6 });
+        expect(parseStepCompletionLine('    *', 'Then').eligible).toBe(true);
+        expect(findPreviousStrongKeyword(['    When I add milk', '    * I add eggs'])).toBe('When');
+    });
+
+    it('GWT structure ignores bullet steps', () => {
+        const findings = gwtStructureRule.run(featureDocumentToGherkinModel(parse(FEATURE)));
+        // Only the template (When only) is reported; bullet-only and mixed scenarios pass
+        expect([...new Set(findings.map((f) => f.line))]).toEqual([15]);
+
+        const missingWhen = parse(
+            ['Feature: F', '  Scenario: S', '    Given a list', '    * I add milk', '    Then it has 1 item'].join('\n')
+        );
+        expect(gwtStructureRule.run(featureDocumentToGherkinModel(missingWhen)).map((f) => f.message)).toEqual([
+            'Scenario "S" is missing a When step (action).',
+        ]);
+    });
+});
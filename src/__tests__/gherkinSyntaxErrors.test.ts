@@ -0,0 +1,114 @@
+/**
+ * Error-tolerant parsing — syntax errors with ranges, recovery, and the analyze `syntaxErrors` section
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+import { createMockDocument } from './mocks/vscode';
+
+function parse(lines: string[]) {
+    const doc = createMockDocument(lines.join('\n'), '/ws/broken.feature');
+    return parseFeatureDocument(doc as vscode.TextDocument)!;
+}
+
+function codes(lines: string[]): [string, number][] {
+    return parse(lines).syntaxErrors.map((e) => [e.code, e.lineNumber]);
+}
+
+describe('gherkinParser — syntax errors', () => {
+    it('is clean for a well-formed file', () => {
+        expect(codes(['Feature: F', '  Scenario: S', '    Given a step'])).toEqual([]);
+    });
+
+    it('reports a step before any Scenario and still indexes it', () => {
+        const feature = parse(['Feature: F', '  Given a stray step', '  Scenario: S', '    When it runs']);
+
+        expect(feature.syntaxErrors.map((e) => [e.code, e.lineNumber])).toEqual([
+            ['gherkin/step-outside-scenario', 1],
+        ]);
+        expect(feature.syntaxErrors[0].range.end.character).toBe('  Given a stray step'.length);
+        expect(feature.allSteps.map((s) => s.rawText)).toEqual(['a stray step', 'it runs']);
+    });
+
+    it('reports Examples under a Scenario without placeholders', () => {
+        expect(codes([
+            'Feature: F',
+            '  Scenario: Plain',
+            '    Given a step',
+            '    Examples:',
+            '      | a |',
+            '      | 1 |',
+        ])).toEqual([['gherkin/examples-without-placeholders', 3]]);
+    });
+
+    it('reports table rows with the wrong cell count', () => {
+        const feature = parse([
+            'Feature: F',
+            '  Scenario Outline: O',
+            '    Given I have <n> items',
+            '      | name | qty |',
+            '      | milk |',
+            '    Examples:',
+            '      | n |',
+            '      | 1 | 2 |',
+        ]);
+
+        expect(feature.syntaxErrors.map((e) => [e.code, e.lineNumber, e.message])).toEqual([
+            ['gherkin/table-cell-count', 4, 'Table row has 1 cell, expected 2.'],
+            ['gherkin/table-cell-count', 7, 'Table row has 2 cells, expected 1.'],
+        ]);
+    });
+
+    it('reports a second Feature and keeps the first', () => {
+        const feature = parse(['Feature: First', '  Scenario: S', '    Given a step', 'Feature: Second']);
+
+        expect(feature.featureName).toBe('First');
+        expect(feature.syntaxErrors.map((e) => [e.code, e.lineNumber])).toEqual([['gherkin/duplicate-feature', 3]]);
+    });
+
+    it('recovers from an unclosed doc string and keeps indexing the steps below it', () => {
+        const feature = parse([
+            'Feature: F',
+            '  Scenario: S',
+            '    Given a payload',
+            '      """',
+            '      { "id": 1 }',
+            '    When I send it',
+            '    Then it is stored',
+        ]);
+
+        expect(feature.syntaxErrors.map((e) => [e.code, e.lineNumber])).toEqual([['gherkin/unclosed-doc-string', 3]]);
+        expect(feature.allSteps.map((s) => s.rawText)).toEqual(['a payload', 'I send it', 'it is stored']);
+    });
+});
+
+describe('guardian-cli — syntaxErrors', () => {
+    it('analyze lists syntax errors with 1-based lines', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-syntax-'));
+        try {
+            writeFileSync(
+                join(dir, 'broken.feature'),
+                ['Feature: F', '  Given a stray step', '  Scenario: S', '    When it runs'].join('\n'),
+                'utf8'
+            );
+            const report = buildAnalyzeReport(loadProject(dir));
+
+            expect(report.counts.syntaxErrors).toBe(1);
+            expect(report.syntaxErrors).toEqual([
+                {
+                    feature: 'broken.feature',
+                    line: 2,
+                    code: 'gherkin/step-outside-scenario',
+                    message: 'Step is not inside a Scenario or Background.',
+                },
+            ]);
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
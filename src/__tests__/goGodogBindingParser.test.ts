@@ -46,6 +46,60 @@ func initSteps(ctx *godog.ScenarioContext) {
         expect(bindings[0].regex.test('I have 5 items')).toBe(true);
     });
 
+    it('reads double-quoted patterns, regexp variables, constants and inline handlers', () => {
+        const text = `
+package steps_test
+
+import (
+    "regexp"
+
+    "github.com/cucumber/godog"
+)
+
+var reEat = regexp.MustCompile(\`^I eat (\\d+)$\`)
+
+const (
+    leftPattern = "^there should be (\\\\d+) \\"left\\"$"
+)
+
+type api struct{}
+
+func (a *api) shouldBeLeft(count int) error { return nil }
+
+func InitializeScenario(ctx *godog.ScenarioContext) {
+    a := &api{}
+    ctx.Before(func(ctx context.Context, sc *godog.Scenario) (context.Context, error) { return ctx, nil })
+    ctx.Given("^there are (\\\\d+) godogs$", func(ctx context.Context, n int) (context.Context, error) {
+        return ctx, nil
+    })
+    ctx.When(reEat, iEat)
+    ctx.Then(leftPattern, a.shouldBeLeft)
+    ctx.Step(regexp.MustCompile("^I pay$"), func() error { return nil })
+    ctx.Then(\`I have {int} cukes in my {word}\`, func(n int, w string, doc *godog.DocString) error {
+        return nil
+    })
+}
+`;
+        const bindings = parseGoGodogBindingsFromText(text, vscode.Uri.file('/steps_test.go'));
+        expect(bindings.map((b) => [b.keyword, b.methodName, b.patternRaw, b.expressionType])).toEqual([
+            ['Given', 'InitializeScenario.func2', '^there are (\\d+) godogs$', 'regex'],
+            ['When', 'iEat', '^I eat (\\d+)$', 'regex'],
+            ['Then', 'shouldBeLeft', '^there should be (\\d+) "left"$', 'regex'],
+            ['Given', 'InitializeScenario.func3', '^I pay$', 'regex'],
+            ['When', 'InitializeScenario.func3', '^I pay$', 'regex'],
+            ['Then', 'InitializeScenario.func3', '^I pay$', 'regex'],
+            ['Then', 'InitializeScenario.func4', 'I have {int} cukes in my {word}', 'cucumber'],
+        ]);
+        const [given, , left, , , , cukes] = bindings;
+        expect(given.regex.test('there are 3 godogs')).toBe(true);
+        expect(given.stepArgument).toBe('none');
+        expect(given.signature).toMatch(/:22:InitializeScenario\.func2:Given$/);
+        expect(left.regex.test('there should be 2 "left"')).toBe(true);
+        expect(left.stepArgument).toBe('none');
+        expect(cukes.regex.test('I have 5 cukes in my belly')).toBe(true);
+        expect(cukes.stepArgument).toBe('docString');
+    });
+
     it('ignores .go files without godog step patterns', () => {
         const text = `package main\nfunc main() {}\n`;
         expect(looksLikeGodogBindingFile(text)).toBe(false);
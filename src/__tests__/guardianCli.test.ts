@@ -21,6 +21,7 @@ describe('guardian-cli', () => {
         expect(report.features.some((f) => f.path.endsWith('.feature'))).toBe(true);
         expect(report.bindings.some((b) => b.pattern.length > 0)).toBe(true);
         expect(report.providersDetected).toContain('csharp-reqnroll');
+        expect(report.features.every((f) => Array.isArray(f.rules) && f.scenarioCount > 0)).toBe(true);
     });
 
     it('buildAnalyzeReport counts bound steps in binding-demo', () => {
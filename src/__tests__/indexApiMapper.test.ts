@@ -22,6 +22,8 @@ function mockFeature(path: string): FeatureDocument {
         range: new vscode.Range(1, 0, 3, 0),
       },
     ],
+    rules: [],
+    syntaxErrors: [],
     allSteps: [],
   };
 }
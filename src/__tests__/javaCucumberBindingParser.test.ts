@@ -78,3 +78,100 @@ public class LegacySteps {
         expect(bindings[0].patternRaw).toBe('legacy step');
     });
 });
+
+describe('parseJavaCucumberBindingsFromText — annotation forms', () => {
+    const uri = vscode.Uri.file('/src/test/java/steps/Steps.java');
+
+    it('indexes @And / @But and every entry of a value array', () => {
+        const text = [
+            'import io.cucumber.java.en.*;',
+            'public class Steps {',
+            '    @And("I am logged in")',
+            '    public void loggedIn() {}',
+            '',
+            '    @But(value = { "I am not an admin", "I am a guest" })',
+            '    public void notAdmin() {}',
+            '}',
+        ].join('\n');
+        const bindings = parseJavaCucumberBindingsFromText(text, uri);
+        expect(bindings.map((b) => [b.patternRaw, b.methodName, b.lineNumber])).toEqual([
+            ['I am logged in', 'loggedIn', 2],
+            ['I am not an admin', 'notAdmin', 5],
+            ['I am a guest', 'notAdmin', 5],
+        ]);
+    });
+
+    it('indexes localized annotations of the imported language packages', () => {
+        const text = [
+            'import io.cucumber.java.es.Dado;',
+            'import io.cucumber.java.es.Entonces;',
+            'public class Pasos {',
+            '    @Dado("que tengo {int} pepinos")',
+            '    public void tengo(int n) {}',
+            '    @Entonces("me quedan {int}")',
+            '    public void quedan(int n) {}',
+            '    @io.cucumber.java.de.Angenommen("ich habe {int} Gurken")',
+            '    public void habe(int n) {}',
+            '}',
+        ].join('\n');
+        const bindings = parseJavaCucumberBindingsFromText(text, uri);
+        expect(bindings.map((b) => [b.keyword, b.methodName])).toEqual([
+            ['Given', 'tengo'],
+            ['Then', 'quedan'],
+            ['Given', 'habe'],
+        ]);
+        expect(bindings[0].regex.test('que tengo 3 pepinos')).toBe(true);
+    });
+
+    it('reads text blocks and concatenated constants', () => {
+        const text = [
+            'import io.cucumber.java.en.Given;',
+            'public class Steps {',
+            '    private static final String AMOUNT = "(\\\\d+)";',
+            '    static final String PREFIX = "the basket " + "has ";',
+            '',
+            '    @Given(PREFIX + AMOUNT + " items")',
+            '    public void basket(int n) {}',
+            '',
+            '    @Given("""',
+            '        a very long step with {int} parts',
+            '        """)',
+            '    public void longStep(int n) {}',
+            '',
+            '    @Given(Other.UNKNOWN + " x")',
+            '    public void unresolved() {}',
+            '}',
+        ].join('\n');
+        const [basket, longStep, ...rest] = parseJavaCucumberBindingsFromText(text, uri);
+        expect(basket.patternRaw).toBe('the basket has (\\d+) items');
+        expect(basket.regex.test('the basket has 4 items')).toBe(true);
+        expect(basket.stepArgument).toBe('none');
+        expect(longStep.methodName).toBe('longStep');
+        expect(longStep.regex.test('a very long step with 2 parts')).toBe(true);
+        expect(rest).toHaveLength(0);
+    });
+
+    it('indexes cucumber-java8 lambdas', () => {
+        const text = [
+            'import io.cucumber.datatable.DataTable;',
+            'import io.cucumber.java8.En;',
+            'public class LambdaSteps implements En {',
+            '    public LambdaSteps() {',
+            '        Given("I have {int} cukes", (Integer n) -> {',
+            '        });',
+            '        When("I eat them", () -> {});',
+            '        And("these users:", (DataTable table) -> {});',
+            '        Then("done", n -> {});',
+            '    }',
+            '}',
+        ].join('\n');
+        const bindings = parseJavaCucumberBindingsFromText(text, uri);
+        expect(bindings.map((b) => [b.keyword, b.patternRaw, b.lineNumber, b.stepArgument])).toEqual([
+            ['Given', 'I have {int} cukes', 4, 'none'],
+            ['When', 'I eat them', 6, 'none'],
+            ['Given', 'these users:', 7, 'dataTable'],
+            ['Then', 'done', 8, 'any'],
+        ]);
+        expect(bindings.every((b) => b.className === 'LambdaSteps' && b.methodName === 'lambda')).toBe(true);
+    });
+});
@@ -79,3 +79,37 @@ describe('JavaCucumberProvider.detect', () => {
         expect(result.confidence).toBe(0);
     });
 });
+
+describe('JavaCucumberProvider.detect — Kotlin', () => {
+    beforeEach(() => {
+        mockFindFiles.mockReset();
+        mockReadFile.mockReset();
+    });
+
+    it('reads build.gradle.kts and reports Kotlin for Kotlin JVM builds', async () => {
+        const gradle = vscode.Uri.file('/workspace/build.gradle.kts');
+        mockFindFiles.mockImplementation((pattern: string) =>
+            Promise.resolve(pattern === '**/build.gradle.kts' ? [gradle] : [])
+        );
+        mockReadFile.mockResolvedValue(
+            Buffer.from(`plugins { kotlin("jvm") version "2.0.0" }
+dependencies { testImplementation(platform("io.cucumber:cucumber-bom:7.18.0")) }`)
+        );
+
+        const result = await new JavaCucumberProvider().detect([{ uri: vscode.Uri.file('/workspace') } as any]);
+        expect(result.confidence).toBeGreaterThan(0.7);
+        expect(result.primaryLanguages).toEqual(['java', 'kotlin']);
+    });
+
+    it('falls back to io.cucumber imports in .kt sources', async () => {
+        const steps = vscode.Uri.file('/workspace/app/src/test/kotlin/LoginSteps.kt');
+        mockFindFiles.mockImplementation((pattern: string) =>
+            Promise.resolve(pattern === '**/*.kt' ? [steps] : [])
+        );
+        mockReadFile.mockResolvedValue(Buffer.from('package app\n\nimport io.cucumber.java8.En\n'));
+
+        const result = await new JavaCucumberProvider().detect([{ uri: vscode.Uri.file('/workspace') } as any]);
+        expect(result.confidence).toBeGreaterThan(0.7);
+        expect(result.primaryLanguages).toEqual(['kotlin']);
+    });
+});
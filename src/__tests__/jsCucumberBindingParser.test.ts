@@ -1,6 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import * as vscode from 'vscode';
-import { parseJsCucumberBindingsFromText } from '../core/parsing/jsCucumberBindingParser';
+import {
+    parseJsCucumberBindingsFromText,
+    parseJsParameterTypesFromText,
+    findPlaywrightBddGeneratedSource,
+} from '../core/parsing/jsCucumberBindingParser';
 
 describe('parseJsCucumberBindingsFromText', () => {
     it('parses Given/When/Then with Cucumber Expressions and regex literals', () => {
@@ -29,5 +33,90 @@ Then(/I should see "([^"]+)" in results/, function (expected) {});
         const bindings = parseJsCucumberBindingsFromText(text, vscode.Uri.file('/x.ts'));
         expect(bindings).toHaveLength(0);
     });
-});
 
+    it('parses Cypress cucumber preprocessor step definitions', () => {
+        const text = `
+import { Given, Then, defineParameterType } from '@badeball/cypress-cucumber-preprocessor';
+
+defineParameterType({ name: 'engine', regexp: /duckduckgo|google/ });
+Given('I visit {engine}', (engine: string) => { cy.visit(engine); });
+Then("I should see these results:", function (table: DataTable) {});
+`;
+        const uri = vscode.Uri.file('/app/cypress/e2e/search.ts');
+        const bindings = parseJsCucumberBindingsFromText(text, uri);
+        expect(bindings.map((b) => b.keyword)).toEqual(['Given', 'Then']);
+        expect(bindings[1].stepArgument).toBe('dataTable');
+        expect(parseJsParameterTypesFromText(text, uri).map((d) => d.name)).toEqual(['engine']);
+    });
+
+    it('parses playwright-bdd createBdd steps, skipping the fixtures argument', () => {
+        const text = `
+import { createBdd } from 'playwright-bdd';
+import { test } from './fixtures';
+
+const { Given, When, Then } = createBdd(test);
+
+Given('I open {string}', async ({ page }, url: string) => { await page.goto(url); });
+When('I add todos:', { tags: '@todo' }, async ({ page }, table: DataTable) => {});
+Then('I see the title', async ({ page }) => {});
+`;
+        const bindings = parseJsCucumberBindingsFromText(text, vscode.Uri.file('/app/steps/todo.ts'));
+        expect(bindings.map((b) => [b.keyword, b.stepArgument])).toEqual([
+            ['Given', 'none'],
+            ['When', 'dataTable'],
+            ['Then', 'none'],
+        ]);
+        expect(bindings[0].regex.test('I open "https://example.com"')).toBe(true);
+    });
+
+    it('parses playwright-bdd steps imported from a local fixtures module', () => {
+        const text = `
+import { Given, When } from './fixtures';
+
+Given('I am on the home page', async ({ page }) => {});
+`;
+        const bindings = parseJsCucumberBindingsFromText(text, vscode.Uri.file('/app/steps/home.ts'));
+        expect(bindings).toHaveLength(1);
+        expect(bindings[0].stepArgument).toBe('none');
+    });
+
+    it('parses playwright-bdd decorator steps in page object classes', () => {
+        const text = `
+import { Fixture, Given, When } from 'playwright-bdd/decorators';
+
+export @Fixture('todoPage')
+class TodoPage {
+  @Given('I am on the todo page')
+  async open() {}
+
+  @When(/^I add todo "(.*)"$/)
+  @Step
+  async addTodo(text: string) {}
+}
+`;
+        const bindings = parseJsCucumberBindingsFromText(text, vscode.Uri.file('/app/steps/TodoPage.ts'));
+        expect(bindings.map((b) => [b.keyword, b.className, b.methodName, b.expressionType])).toEqual([
+            ['Given', 'TodoPage', 'open', 'cucumber'],
+            ['When', 'TodoPage', 'addTodo', 'regex'],
+        ]);
+        expect(bindings[1].stepArgument).toBe('none');
+    });
+
+    it('never parses playwright-bdd output under .features-gen', () => {
+        const text = `// Generated from: features/home.feature
+import { test } from "../steps/fixtures.ts";
+import { Given } from "../steps/fixtures.ts";
+
+test('Open', async ({ Given, page }) => {
+  await Given('I am on the home page', null, { page });
+});
+`;
+        expect(parseJsCucumberBindingsFromText(text, vscode.Uri.file('/app/.features-gen/features/home.feature.spec.js'))).toHaveLength(0);
+        expect(findPlaywrightBddGeneratedSource(text)).toEqual({
+            path: 'features/home.feature',
+            lineNumber: 0,
+            startCharacter: 19,
+            endCharacter: 40,
+        });
+    });
+});
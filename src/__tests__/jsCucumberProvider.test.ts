@@ -48,5 +48,17 @@ describe('JsCucumberProvider.detect', () => {
         const result = await provider.detect([{ uri: vscode.Uri.file('/workspace') } as any]);
         expect(result.confidence).toBe(0);
     });
-});
 
+    it('detects playwright-bdd and the Cypress cucumber preprocessor', async () => {
+        const pkg = vscode.Uri.file('/workspace/package.json');
+        mockFindFiles.mockResolvedValue([pkg]);
+        const provider = new JsCucumberProvider();
+
+        for (const dependency of ['playwright-bdd', '@badeball/cypress-cucumber-preprocessor']) {
+            mockReadFile.mockResolvedValue(Buffer.from(JSON.stringify({ devDependencies: { [dependency]: '*' } })));
+            const result = await provider.detect([{ uri: vscode.Uri.file('/workspace') } as any]);
+            expect(result.confidence).toBeGreaterThan(0.7);
+            expect(result.reasons).toContain(`Found ${dependency} in package.json`);
+        }
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Kotlin Cucumber-JVM glue — annotations, raw strings, constants, java8 lambdas, CLI load
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    parseKotlinCucumberBindingsFromText,
+    parseKotlinParameterTypesFromText,
+} from '../core/parsing/kotlinCucumberBindingParser';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const URI = vscode.Uri.file('/app/src/test/kotlin/com/example/LoginSteps.kt');
+
+const ANNOTATED = `
+package com.example
+
+import io.cucumber.datatable.DataTable
+import io.cucumber.java.ParameterType
+import io.cucumber.java.en.Given
+import io.cucumber.java.en.Then
+import io.cucumber.java.en.When
+
+private const val USER = "the user"
+
+class LoginSteps {
+    companion object {
+        const val GREETING: String = "Hello, " + USER
+    }
+
+    @ParameterType("admin|guest")
+    fun role(name: String): Role = Role.valueOf(name)
+
+    @Given("$USER has {int} attempts left")
+    fun attemptsLeft(attempts: Int) {
+    }
+
+    @When(value = """^I log in as "([^"]*)" with \\d+ retries$""")
+    fun logIn(name: String) {
+    }
+
+    @Then("I see \${GREETING}") fun greeting() {}
+
+    @Then("""
+        the accounts are:
+    """.trimIndent())
+    fun accounts(table: DataTable?) {
+    }
+
+    @Given("a \`quoted\` step")
+    fun \`a backticked step\`(doc: String) {
+    }
+}
+`;
+
+describe('parseKotlinCucumberBindingsFromText', () => {
+    it('parses annotated functions with templates, raw strings and constants', () => {
+        const bindings = parseKotlinCucumberBindingsFromText(ANNOTATED, URI);
+
+        expect(bindings.map((b) => [b.keyword, b.patternRaw, b.methodName])).toEqual([
+            ['Given', 'the user has {int} attempts left', 'attemptsLeft'],
+            ['When', '^I log in as "([^"]*)" with \\d+ retries$', 'logIn'],
+            ['Then', 'I see Hello, the user', 'greeting'],
+            ['Then', 'the accounts are:', 'accounts'],
+            ['Given', 'a `quoted` step', 'a backticked step'],
+        ]);
+        expect(bindings.every((b) => b.providerId === 'java-cucumber' && b.className === 'LoginSteps')).toBe(true);
+
+        const [attempts, login, , accounts, quoted] = bindings;
+        expect(attempts.regex.test('the user has 3 attempts left')).toBe(true);
+        expect(attempts.stepArgument).toBe('none');
+        expect(login.regex.test('I log in as "ann" with 3 retries')).toBe(true);
+        expect(accounts.stepArgument).toBe('dataTable');
+        expect(quoted.stepArgument).toBe('docString');
+    });
+
+    it('indexes cucumber-java8 lambdas', () => {
+        const text = `
+import io.cucumber.java8.En
+
+class CartSteps : En {
+    init {
+        Given("I have {int} items in my cart") { count: Int ->
+            cart.fill(count)
+        }
+        When("I check out") {
+            cart.checkout()
+        }
+        Then("the receipt lists:", { table: io.cucumber.datatable.DataTable -> })
+        And("""a "raw" step""") { }
+    }
+}
+`;
+        const bindings = parseKotlinCucumberBindingsFromText(text, vscode.Uri.file('/app/CartSteps.kt'));
+        expect(bindings.map((b) => [b.keyword, b.patternRaw, b.methodName, b.stepArgument])).toEqual([
+            ['Given', 'I have {int} items in my cart', 'lambda', 'none'],
+            ['When', 'I check out', 'lambda', 'none'],
+            ['Then', 'the receipt lists:', 'lambda', 'dataTable'],
+            ['Given', 'a "raw" step', 'lambda', 'none'],
+        ]);
+    });
+
+    it('ignores files without cucumber java imports', () => {
+        expect(parseKotlinCucumberBindingsFromText('@Given("x")\nfun x() {}', URI)).toHaveLength(0);
+    });
+});
+
+describe('parseKotlinParameterTypesFromText', () => {
+    it('names @ParameterType functions', () => {
+        expect(parseKotlinParameterTypesFromText(ANNOTATED, URI).map((d) => [d.name, d.regexps])).toEqual([
+            ['role', ['admin|guest']],
+        ]);
+    });
+});
+
+describe('guardian-cli — Kotlin glue', () => {
+    it('loadProject indexes .kt step definitions with the Java Cucumber provider', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-kotlin-'));
+        try {
+            mkdirSync(join(dir, 'src', 'test', 'kotlin'), { recursive: true });
+            mkdirSync(join(dir, 'src', 'test', 'resources'), { recursive: true });
+            writeFileSync(join(dir, 'src', 'test', 'kotlin', 'LoginSteps.kt'), ANNOTATED, 'utf8');
+            writeFileSync(
+                join(dir, 'src', 'test', 'resources', 'login.feature'),
+                [
+                    'Feature: Login',
+                    '  Scenario: Attempts',
+                    '    Given the user has 2 attempts left',
+                    '    Then I see Hello, the user',
+                    '    And nobody is logged in',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.providersDetected).toEqual(['java-cucumber']);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 3, unbound: 1, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Per-provider matching profiles — keyword policy, ambiguity policy and regex anchoring
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import type { Binding } from '../core/domain/types';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
+import { parseJsCucumberBindingsFromText } from '../core/parsing/jsCucumberBindingParser';
+import { parseGoGodogBindingsFromText } from '../core/parsing/goGodogBindingParser';
+import { parsePythonBehaveBindingsFromText } from '../core/parsing/pythonBehaveBindingParser';
+import { createResolver } from '../core/matching/resolver';
+import { getMatchingProfile } from '../core/matching/matchingProfile';
+import { createMockDocument } from './mocks/vscode';
+
+function resolveAll(bindings: Binding[], stepLines: string[]) {
+    const feature = parseFeatureDocument(
+        createMockDocument(['Feature: F', '  Scenario: S', ...stepLines.map((l) => `    ${l}`)].join('\n'), '/ws/f.feature') as vscode.TextDocument
+    )!;
+    const resolve = createResolver({
+        getAllBindings: () => bindings,
+        getBindingsByKeyword: (k) => bindings.filter((b) => b.keyword === k),
+    });
+    return feature.allSteps.map((step) => resolve(step));
+}
+
+describe('getMatchingProfile', () => {
+    it('falls back to the Reqnroll profile for unknown or missing providers', () => {
+        expect(getMatchingProfile(undefined).id).toBe('csharp-reqnroll');
+        expect(getMatchingProfile('nope').keywords).toBe('fallback');
+        expect(getMatchingProfile('python-behave')).toMatchObject({ keywords: 'strict', ambiguity: 'first' });
+    });
+});
+
+describe('resolver — matching profiles', () => {
+    it('Cucumber.js binds a When step to a Given definition without penalty', () => {
+        const bindings = parseJsCucumberBindingsFromText(
+            [
+                "const { Given, When } = require('@cucumber/cucumber');",
+                "Given('I log in', function () {});",
+                "When('I log in as admin', function () {});",
+            ].join('\n'),
+            vscode.Uri.file('/ws/steps.js')
+        );
+        const [result] = resolveAll(bindings, ['When I log in']);
+
+        expect(result.status).toBe('bound');
+        expect(result.candidates[0].binding.keyword).toBe('Given');
+        expect(result.candidates[0].keywordMatched).toBe(false);
+        expect(result.candidates[0].score).toBe(resolveAll(bindings, ['Given I log in'])[0].candidates[0].score);
+    });
+
+    it('Cucumber.js reports definitions of different keywords as ambiguous', () => {
+        const bindings = parseJsCucumberBindingsFromText(
+            [
+                "const { Given, When } = require('@cucumber/cucumber');",
+                "Given('I log in', function () {});",
+                "When('I log in', function () {});",
+            ].join('\n'),
+            vscode.Uri.file('/ws/steps.js')
+        );
+        expect(resolveAll(bindings, ['When I log in'])[0].status).toBe('ambiguous');
+    });
+
+    it('Cucumber.js regex literals match as written (unanchored unless ^/$)', () => {
+        const bindings = parseJsCucumberBindingsFromText(
+            ["const { Given } = require('@cucumber/cucumber');", 'Given(/I have (\\d+) items/, function (n) {});'].join('\n'),
+            vscode.Uri.file('/ws/steps.js')
+        );
+        expect(resolveAll(bindings, ['Given now I have 3 items in my cart'])[0].status).toBe('bound');
+    });
+
+    it('Reqnroll keeps same-keyword preference and anchored patterns', () => {
+        const bindings = parseCSharpBindingsFromText(
+            [
+                '[Binding] public class Steps {',
+                '  [Given(@"I log in")] public void LogIn() {}',
+                '  [When(@"I have (\\d+) items")] public void Items(int n) {}',
+                '}',
+            ].join('\n'),
+            vscode.Uri.file('/ws/Steps.cs')
+        );
+        const [fallback, unanchored] = resolveAll(bindings, ['When I log in', 'When now I have 3 items']);
+
+        expect(fallback.status).toBe('bound');
+        expect(fallback.candidates[0].score).toBeLessThan(resolveAll(bindings, ['Given I log in'])[0].candidates[0].score);
+        expect(unanchored.status).toBe('unbound');
+    });
+
+    it('Behave only matches the step keyword and takes the first registered definition', () => {
+        const bindings = parsePythonBehaveBindingsFromText(
+            [
+                'from behave import given, when',
+                '',
+                "@given('I log in')",
+                'def log_in(context):',
+                '    pass',
+                '',
+                "@given('I have {n} items')",
+                'def have_items(context, n):',
+                '    pass',
+                '',
+                "@given('I have {n} {fruit}')",
+                'def have_fruit(context, n, fruit):',
+                '    pass',
+                '',
+                "@given('I have {n} apples')",
+                'def have_apples(context, n):',
+                '    pass',
+            ].join('\n'),
+            vscode.Uri.file('/ws/features/steps/steps.py')
+        );
+        const [crossKeyword, first] = resolveAll(bindings, ['When I log in', 'Given I have 3 apples']);
+
+        expect(crossKeyword.status).toBe('unbound');
+        expect(first.status).toBe('bound');
+        expect(first.candidates).toHaveLength(2);
+        expect(first.best?.binding.methodName).toBe('have_fruit');
+    });
+
+    it('Godog matches unanchored regexes and indexes Step once', () => {
+        const bindings = parseGoGodogBindingsFromText(
+            [
+                'import "github.com/cucumber/godog"',
+                'func InitializeScenario(ctx *godog.ScenarioContext) {',
+                '    ctx.Step(`I have (\\d+) godogs`, iHaveGodogs)',
+                '}',
+            ].join('\n'),
+            vscode.Uri.file('/ws/godogs_test.go')
+        );
+        const results = resolveAll(bindings, ['Given I have 3 godogs', 'And then I have 4 godogs left', 'Then I have 5 godogs']);
+
+        expect(results.map((r) => r.status)).toEqual(['bound', 'bound', 'bound']);
+        expect(results.map((r) => r.candidates.length)).toEqual([1, 1, 1]);
+    });
+});
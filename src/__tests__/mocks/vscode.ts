@@ -30,12 +30,13 @@ export class Range {
   constructor(
     public readonly start: Position | number,
     public readonly end: Position | number,
-    startChar?: number,
+    endLine?: number,
     endChar?: number
   ) {
+    // new Range(startLine, startCharacter, endLine, endCharacter) — same order as VS Code
     if (typeof start === 'number' && typeof end === 'number') {
-      this.start = new Position(start, startChar ?? 0);
-      this.end = new Position(end, endChar ?? 0);
+      this.start = new Position(start, end);
+      this.end = new Position(endLine ?? start, endChar ?? end);
     }
   }
 }
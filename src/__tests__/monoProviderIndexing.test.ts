@@ -1,4 +1,25 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+
+const documents = new Map<string, string>();
+
+vi.mock('vscode', async () => {
+    const mocks = await import('./mocks/vscode');
+    return {
+        ...mocks,
+        workspace: {
+            ...mocks.workspace,
+            openTextDocument: async (uri: { fsPath: string }) =>
+                mocks.createMockDocument(documents.get(uri.fsPath) ?? '', uri.fsPath),
+        },
+    };
+});
+
+import * as vscode from 'vscode';
+import { IndexManager } from '../core/index/indexManager';
+import { WorkspaceIndex } from '../core/index/workspaceIndex';
+import { getProviderManager } from '../providers/bindings/providerManager';
+import { PythonBehaveProvider } from '../providers/bindings/pythonBehaveProvider';
+import { PythonPytestBddProvider } from '../providers/bindings/pythonPytestBddProvider';
 import {
     formatIndexingModeLog,
     resolveProvidersToIndex,
@@ -73,3 +94,29 @@ describe('formatIndexingModeLog', () => {
         expect(formatIndexingModeLog('all', [provider])).toBe('all (JavaScript Cucumber)');
     });
 });
+
+describe('IndexManager.indexBindingFile', () => {
+    it('re-indexes a file with every provider that claims its extension', async () => {
+        const behave = new PythonBehaveProvider();
+        const pytestBdd = new PythonPytestBddProvider();
+        const output = vscode.window.createOutputChannel('test') as unknown as vscode.OutputChannel;
+        const index = new WorkspaceIndex();
+        const manager = new IndexManager(index, output);
+        const detect = vi
+            .spyOn(getProviderManager(), 'detectProviders')
+            .mockResolvedValue(selection([behave, pytestBdd], behave));
+        try {
+            documents.set(
+                '/ws/tests/step_defs/test_cart.py',
+                'from pytest_bdd import given\n\n@given("an empty cart")\ndef empty_cart():\n    pass\n'
+            );
+            const uri = vscode.Uri.file('/ws/tests/step_defs/test_cart.py');
+            expect(await manager.indexBindingFile(uri)).toBe(true);
+            expect(index.getBindingsByProvider('python-pytestbdd').map((b) => b.patternRaw)).toEqual(['an empty cart']);
+            expect(index.getBindingsByProvider('python-behave')).toHaveLength(0);
+        } finally {
+            detect.mockRestore();
+            documents.clear();
+        }
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * Custom parameter types — definitions per provider, CE compilation, index recompile, navigation helper, CLI
+ */
+import { describe, it, expect, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { compileCucumberExpressionToRegex } from '../core/parsing/cucumberExpression';
+import { compileBindingRegex } from '../core/parsing/bindingRegex';
+import { applyParameterTypes, findParameterTypeAt } from '../core/parsing/parameterTypes';
+import {
+    parseJsCucumberBindingsFromText,
+    parseJsParameterTypesFromText,
+} from '../core/parsing/jsCucumberBindingParser';
+import {
+    parseJavaCucumberBindingsFromText,
+    parseJavaParameterTypesFromText,
+} from '../core/parsing/javaCucumberBindingParser';
+import { parseCSharpBindingsFromText, parseCSharpParameterTypesFromText } from '../core/parsing/csharpBindingParser';
+import {
+    parsePythonBehaveBindingsFromText,
+    parsePythonBehaveParameterTypesFromText,
+} from '../core/parsing/pythonBehaveBindingParser';
+import { WorkspaceIndex } from '../core/index/workspaceIndex';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const JS_TYPES = [
+    "const { defineParameterType } = require('@cucumber/cucumber');",
+    '',
+    'defineParameterType({',
+    "    name: 'color',",
+    '    regexp: /red|blue|yellow/,',
+    '    transformer: (s) => s,',
+    '});',
+    'defineParameterType({',
+    "    name: 'airport',",
+    "    regexp: ['[A-Z]{3}', /Gate \\d+/],",
+    '});',
+].join('\n');
+
+const JS_STEPS = [
+    "const { Given } = require('@cucumber/cucumber');",
+    "Given('I paint it {color}', function (color) {});",
+    "Given('I fly from {airport}', function (airport) {});",
+].join('\n');
+
+describe('compileCucumberExpressionToRegex — custom parameter types', () => {
+    it('uses the given regexps and still rejects unknown types', () => {
+        const types = new Map([['color', ['red|blue']], ['code', ['[A-Z]{3}', '\\d{3}']]]);
+        const re = compileCucumberExpressionToRegex('I paint it {color} with {code}', false, types)!;
+        expect(re.exec('I paint it blue with 123')?.slice(1, 3)).toEqual(['blue', '123']);
+        expect(re.test('I paint it green with 123')).toBe(false);
+        expect(compileCucumberExpressionToRegex('I paint it {color}')).toBeNull();
+    });
+
+    it('compiles undefined custom types quietly until the lookup exists', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        try {
+            expect(compileBindingRegex('I paint it {color}')?.test('I paint it {color}')).toBe(true);
+            expect(warn).not.toHaveBeenCalled();
+            compileBindingRegex('I paint it (red', { expressionType: 'regex' });
+            expect(warn).toHaveBeenCalledTimes(1);
+        } finally {
+            warn.mockRestore();
+        }
+    });
+});
+
+describe('parameter type definitions', () => {
+    it('Cucumber.js defineParameterType with regex, string and array regexps', () => {
+        const defs = parseJsParameterTypesFromText(JS_TYPES, vscode.Uri.file('/ws/features/support/types.js'));
+        expect(defs.map((d) => [d.name, d.regexps, d.lineNumber, d.providerId])).toEqual([
+            ['color', ['red|blue|yellow'], 2, 'js-cucumber'],
+            ['airport', ['[A-Z]{3}', 'Gate \\d+'], 7, 'js-cucumber'],
+        ]);
+    });
+
+    it('Cucumber-JVM @ParameterType (method name or name attribute)', () => {
+        const text = [
+            'import io.cucumber.java.ParameterType;',
+            'public class Types {',
+            '    @ParameterType("red|blue")',
+            '    public Color color(String value) { return new Color(value); }',
+            '',
+            '    @ParameterType(value = "(\\\\d+) days? ago", name = "past")',
+            '    public LocalDate daysAgo(String days) { return null; }',
+            '}',
+        ].join('\n');
+        const defs = parseJavaParameterTypesFromText(text, vscode.Uri.file('/ws/src/test/java/Types.java'));
+        expect(defs.map((d) => [d.name, d.regexps[0], d.lineNumber])).toEqual([
+            ['color', 'red|blue', 2],
+            ['past', '(\\d+) days? ago', 5],
+        ]);
+    });
+
+    it('Reqnroll [StepArgumentTransformation] named after the return type', () => {
+        const text = [
+            '[Binding] public class Transforms {',
+            '    [StepArgumentTransformation(@"(\\d+) days? ago")]',
+            '    public DateTime DaysAgo(int days) => DateTime.Today.AddDays(-days);',
+            '    [StepArgumentTransformation(@"red|blue", Name = "color")]',
+            '    public static Color ToColor(string s) => new Color(s);',
+            '    [StepArgumentTransformation]',
+            '    public Table Identity(Table t) => t;',
+            '}',
+        ].join('\n');
+        const defs = parseCSharpParameterTypesFromText(text, vscode.Uri.file('/ws/Transforms.cs'));
+        expect(defs.map((d) => [d.name, d.regexps[0], d.providerId])).toEqual([
+            ['DateTime', '(\\d+) days? ago', undefined],
+            ['color', 'red|blue', undefined],
+        ]);
+    });
+
+    it('behave register_type with parse.with_pattern', () => {
+        const text = [
+            'import parse',
+            'from behave import given, register_type',
+            '',
+            '@parse.with_pattern(r"red|blue")',
+            'def parse_color(text):',
+            '    return text',
+            '',
+            'def parse_any(text):',
+            '    return text',
+            '',
+            'register_type(Color=parse_color, Any=parse_any)',
+            '',
+            "@given('I paint it {c:Color}')",
+            'def paint(context, c):',
+            '    pass',
+        ].join('\n');
+        const uri = vscode.Uri.file('/ws/features/steps/paint.py');
+        const defs = parsePythonBehaveParameterTypesFromText(text, uri);
+        expect(defs.map((d) => [d.name, d.regexps[0], d.lineNumber])).toEqual([
+            ['Color', 'red|blue', 3],
+            ['Any', '.+?', 10],
+        ]);
+
+        const [paint] = applyParameterTypes(parsePythonBehaveBindingsFromText(text, uri), defs);
+        expect(paint.regex.test('I paint it red')).toBe(true);
+        expect(paint.regex.test('I paint it green')).toBe(false);
+    });
+});
+
+describe('applyParameterTypes', () => {
+    it('recompiles only bindings of the same provider that use the types', () => {
+        const typesUri = vscode.Uri.file('/ws/features/support/types.js');
+        const defs = parseJsParameterTypesFromText(JS_TYPES, typesUri);
+        const jsBindings = parseJsCucumberBindingsFromText(JS_STEPS, vscode.Uri.file('/ws/features/steps.js'));
+        const csBindings = parseCSharpBindingsFromText(
+            '[Binding] public class S { [Given("I paint it {color}")] public void Paint(string c) {} }',
+            vscode.Uri.file('/ws/S.cs')
+        );
+        expect(jsBindings[0].regex.test('I paint it red')).toBe(false);
+
+        const [paint, fly, csPaint] = applyParameterTypes([...jsBindings, ...csBindings], defs);
+        expect(paint.regex.test('I paint it red')).toBe(true);
+        expect(fly.regex.test('I fly from LHR')).toBe(true);
+        expect(fly.regex.test('I fly from Gate 7')).toBe(true);
+        expect(csPaint).toBe(csBindings[0]);
+    });
+
+    it('Cucumber-JVM bindings use the @ParameterType regex', () => {
+        const text = [
+            'import io.cucumber.java.en.Given;',
+            'import io.cucumber.java.ParameterType;',
+            'public class Steps {',
+            '    @ParameterType("red|blue")',
+            '    public Color color(String value) { return null; }',
+            '    @Given("I paint it {color}")',
+            '    public void paint(Color color) {}',
+            '}',
+        ].join('\n');
+        const uri = vscode.Uri.file('/ws/src/test/java/Steps.java');
+        const [paint] = applyParameterTypes(
+            parseJavaCucumberBindingsFromText(text, uri),
+            parseJavaParameterTypesFromText(text, uri)
+        );
+        expect(paint.regex.test('I paint it blue')).toBe(true);
+    });
+
+    it('WorkspaceIndex recompiles when the definitions change', () => {
+        const index = new WorkspaceIndex();
+        const typesUri = vscode.Uri.file('/ws/features/support/types.js');
+        index.addBindings(parseJsCucumberBindingsFromText(JS_STEPS, vscode.Uri.file('/ws/features/steps.js')), 'js-cucumber');
+
+        index.setParameterTypes(typesUri, parseJsParameterTypesFromText(JS_TYPES, typesUri));
+        index.applyParameterTypes();
+        expect(index.getBindingsByKeyword('Given')[0].regex.test('I paint it red')).toBe(true);
+        expect(index.getBindingsByProvider('js-cucumber')[0]).toBe(index.getAllBindings()[0]);
+        expect(index.findParameterType('color', 'js-cucumber')?.lineNumber).toBe(2);
+
+        index.removeBindingsForUri(typesUri);
+        index.applyParameterTypes();
+        expect(index.getAllBindings()[0].regex.test('I paint it red')).toBe(false);
+        expect(index.findParameterType('color', 'js-cucumber')).toBeUndefined();
+    });
+});
+
+describe('findParameterTypeAt', () => {
+    it('returns the type name under the cursor', () => {
+        const line = "Given('I paint {color} on {c:Color}', fn)";
+        expect(findParameterTypeAt(line, line.indexOf('color'))).toBe('color');
+        expect(findParameterTypeAt(line, line.indexOf('Color'))).toBe('Color');
+        expect(findParameterTypeAt(line, 3)).toBeUndefined();
+    });
+});
+
+describe('guardian-cli — custom parameter types', () => {
+    it('loadProject applies types from support files', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-params-'));
+        try {
+            mkdirSync(join(dir, 'features', 'support'), { recursive: true });
+            mkdirSync(join(dir, 'features', 'step_definitions'), { recursive: true });
+            writeFileSync(join(dir, 'features', 'support', 'parameter_types.js'), JS_TYPES, 'utf8');
+            writeFileSync(join(dir, 'features', 'step_definitions', 'paint.steps.js'), JS_STEPS, 'utf8');
+            writeFileSync(
+                join(dir, 'features', 'paint.feature'),
+                ['Feature: Paint', '  Scenario: Red', '    Given I paint it red', '    And I fly from AMS'].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.parameterTypes.map((d) => d.name)).toEqual(['color', 'airport']);
+            const report = buildAnalyzeReport(project);
+            expect(report.counts).toMatchObject({ steps: 2, unbound: 0, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * Behat (PHP) — docblock annotations, PHP 8 attributes, turnip patterns, CLI load
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { parsePhpBehatBindingsFromText, turnipToRegexSource } from '../core/parsing/phpBehatBindingParser';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const CONTEXT = `<?php
+
+use Behat\\Behat\\Context\\Context;
+use Behat\\Gherkin\\Node\\TableNode;
+use Behat\\Step\\Given;
+use Behat\\Step\\Then;
+
+class FeatureContext implements Context
+{
+    /**
+     * @Given /^there (?:is|are) (\\d+) products? in the catalog$/
+     */
+    public function thereAreProducts(int $count)
+    {
+    }
+
+    /**
+     * @When I add :count apple(s) to the basket/cart
+     * @When I put :count apple(s) in the basket
+     */
+    public function iAddApples($count)
+    {
+    }
+
+    /** @Then /the total is (\\d+) EUR/i */
+    public function theTotalIs(string $total) {}
+
+    #[Given('the following customers:')]
+    public function theFollowingCustomers(TableNode $customers): void
+    {
+    }
+
+    #[Then(pattern: "I should see \\"Welcome\\" \\\\(:name\\\\)"), \\Behat\\Step\\Then('the :page page opens')]
+    public function iShouldSee(string $name): void
+    {
+    }
+}
+`;
+
+function parse(text = CONTEXT) {
+    return parsePhpBehatBindingsFromText(text, vscode.Uri.file('/shop/features/bootstrap/FeatureContext.php'));
+}
+
+describe('parsePhpBehatBindingsFromText', () => {
+    it('parses docblock annotations and PHP 8 attributes', () => {
+        const bindings = parse();
+        expect(bindings.map((b) => [b.keyword, b.methodName, b.lineNumber])).toEqual([
+            ['Given', 'thereAreProducts', 10],
+            ['When', 'iAddApples', 17],
+            ['When', 'iAddApples', 18],
+            ['Then', 'theTotalIs', 24],
+            ['Given', 'theFollowingCustomers', 27],
+            ['Then', 'iShouldSee', 32],
+            ['Then', 'iShouldSee', 32],
+        ]);
+        expect(bindings.every((b) => b.providerId === 'php-behat' && b.className === 'FeatureContext')).toBe(true);
+    });
+
+    it('compiles regex patterns with their flags and turnip patterns like Behat', () => {
+        const [products, add, put, total, customers, welcome, page] = parse();
+
+        expect(products.expressionType).toBe('regex');
+        expect(products.patternRaw).toBe('^there (?:is|are) (\\d+) products? in the catalog$');
+        expect(products.regex.test('there are 3 products in the catalog')).toBe(true);
+        expect(total.regex.test('THE TOTAL IS 12 eur')).toBe(true);
+
+        expect(add.expressionType).toBeUndefined();
+        expect(add.patternRaw).toBe('I add :count apple(s) to the basket/cart');
+        expect(add.regex.exec('I add 3 apples to the cart')?.[1]).toBe('3');
+        expect(add.regex.exec('i add "two" apple to the basket')?.[1]).toBe('two');
+        expect(put.regex.test('I put 1 apple in the basket')).toBe(true);
+        expect(add.regex.test('I add 3 pears to the cart')).toBe(false);
+
+        expect(welcome.regex.exec('I should see "Welcome" (Ann)')?.[1]).toBe('Ann');
+        expect(page.regex.exec("the 'checkout' page opens")?.[1]).toBe('checkout');
+        expect(customers.regex.test('the following customers:')).toBe(true);
+    });
+
+    it('reads TableNode / PyStringNode parameters as the step argument', () => {
+        const [products, , , , customers] = parse();
+        expect(products.stepArgument).toBe('none');
+        expect(customers.stepArgument).toBe('dataTable');
+    });
+
+    it('skips attributes that are commented out or inside string literals', () => {
+        const text = [
+            '<?php',
+            'use Behat\\Step\\Then;',
+            'class FeatureContext implements Context',
+            '{',
+            '    // #[Then(\'not a real one\')]',
+            '    # #[Then(\'a shell-style comment\')]',
+            '    /* #[Then(\'a block comment\')] */',
+            '    #[Then(\'the basket is empty\')]',
+            '    public function theBasketIsEmpty(): void',
+            '    {',
+            '        $s = "#[Then(\'fake\')]";',
+            "        $t = '#[Then(\"fake too\")]';",
+            '    }',
+            '',
+            '    // "#[Then(\'quoted in a comment\')]"',
+            '    public function helper(): void',
+            '    {',
+            '        return <<<EOT',
+            "        It's #[Then('in a heredoc')]",
+            '        EOT;',
+            '    }',
+            '',
+            "    #[Then('the total is shown')]",
+            '    public function theTotalIsShown(): void {}',
+            '}',
+        ].join('\n');
+        expect(parse(text).map((b) => [b.patternRaw, b.methodName, b.lineNumber])).toEqual([
+            ['the basket is empty', 'theBasketIsEmpty', 7],
+            ['the total is shown', 'theTotalIsShown', 22],
+        ]);
+    });
+
+    it('ignores PHP files that are not Behat contexts', () => {
+        expect(parse('<?php\nclass Cart {\n    /** @Given x */\n    public function x() {}\n}\n')).toHaveLength(0);
+    });
+});
+
+describe('turnipToRegexSource', () => {
+    it('handles placeholders, optional text, alternatives and escapes', () => {
+        const regex = (pattern: string) => new RegExp(`^${turnipToRegexSource(pattern)}$`, 'iu');
+        expect(regex('I have :n cucumber(s)').test('I have 1 cucumber')).toBe(true);
+        expect(regex('I have :n cucumber(s)').test('I have -2.5 cucumbers')).toBe(true);
+        expect(regex('I (really) like it').test('I like it')).toBe(true);
+        expect(regex('I (really) like it').test('I really like it')).toBe(true);
+        expect(regex('I click/tap :button').test("I tap 'OK'")).toBe(true);
+        expect(regex('the ratio is 1\\/2 \\:\\(').test('the ratio is 1/2 :(')).toBe(true);
+    });
+});
+
+describe('guardian-cli — Behat', () => {
+    it('loadProject indexes Context classes; keywords are ignored and regexes match as written', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-behat-'));
+        try {
+            mkdirSync(join(dir, 'features', 'bootstrap'), { recursive: true });
+            writeFileSync(join(dir, 'features', 'bootstrap', 'FeatureContext.php'), CONTEXT, 'utf8');
+            writeFileSync(
+                join(dir, 'features', 'basket.feature'),
+                [
+                    'Feature: Basket',
+                    '  Scenario: Add',
+                    '    Given there is 1 product in the catalog',
+                    '    And I add 2 apples to the basket',
+                    '    Then so the total is 4 EUR today',
+                    '    And I pay',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.providersDetected).toEqual(['php-behat']);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 4, unbound: 1, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFindFiles = vi.fn();
+const mockReadFile = vi.fn();
+
+vi.mock('vscode', async () => {
+    const mocks = await import('./mocks/vscode');
+    return {
+        ...mocks,
+        workspace: {
+            ...mocks.workspace,
+            findFiles: (...args: unknown[]) => mockFindFiles(...args),
+            fs: {
+                readFile: (...args: unknown[]) => mockReadFile(...args),
+            },
+            asRelativePath: (p: string) => p,
+        },
+    };
+});
+
+import * as vscode from 'vscode';
+import { PhpBehatProvider } from '../providers/bindings/phpBehatProvider';
+
+const WORKSPACE = [{ uri: vscode.Uri.file('/workspace') } as any];
+
+describe('PhpBehatProvider.detect', () => {
+    beforeEach(() => {
+        mockFindFiles.mockReset();
+        mockReadFile.mockReset();
+    });
+
+    it('returns high confidence when a behat.yml exists', async () => {
+        mockFindFiles.mockImplementation((pattern: string) =>
+            Promise.resolve(pattern.includes('behat.yml') ? [vscode.Uri.file('/workspace/behat.yml')] : [])
+        );
+
+        const result = await new PhpBehatProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.7);
+        expect(result.primaryLanguages).toEqual(['php']);
+    });
+
+    it('reads behat/behat from composer.json', async () => {
+        mockFindFiles.mockImplementation((pattern: string) =>
+            Promise.resolve(pattern === '**/composer.json' ? [vscode.Uri.file('/workspace/composer.json')] : [])
+        );
+        mockReadFile.mockResolvedValue(Buffer.from('{ "require-dev": { "behat/behat": "^3.14" } }'));
+
+        const result = await new PhpBehatProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.7);
+    });
+
+    it('returns 0 confidence for PHP projects without Behat', async () => {
+        mockFindFiles.mockImplementation((pattern: string) =>
+            Promise.resolve(pattern === '**/composer.json' ? [vscode.Uri.file('/workspace/composer.json')] : [])
+        );
+        mockReadFile.mockResolvedValue(Buffer.from('{ "require-dev": { "phpunit/phpunit": "^11" } }'));
+
+        const result = await new PhpBehatProvider().detect(WORKSPACE);
+        expect(result.confidence).toBe(0);
+    });
+});
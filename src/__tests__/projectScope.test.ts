@@ -0,0 +1,205 @@
+/**
+ * Project boundaries: manifests, references and project-scoped resolution
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { buildBddProjects, parseProjectManifest } from '../core/parsing/projectManifestParser';
+import { createProjectFilter, findOwningProject } from '../core/matching/projectScope';
+import { createResolver } from '../core/matching/resolver';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
+import { createMockDocument } from './mocks/vscode';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+import { buildDiscoverReport } from '../cli/discover';
+
+const STEPS_CS = (ns: string) => `using Reqnroll;
+namespace ${ns};
+
+[Binding]
+public class LoginSteps
+{
+    [Given(@"I log in")]
+    public void LogIn() { }
+}
+`;
+
+const SPECS_CSPROJ = `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <PackageReference Include="Reqnroll.NUnit" Version="2.0.0" />
+    <ProjectReference Include="..\\Shop.SharedSteps\\Shop.SharedSteps.csproj" />
+  </ItemGroup>
+</Project>`;
+
+describe('project manifests', () => {
+    it('reads names and references of each manifest kind', () => {
+        expect(parseProjectManifest('/s/ServiceA.Specs/ServiceA.Specs.csproj', SPECS_CSPROJ)).toEqual({
+            kind: 'dotnet',
+            name: 'ServiceA.Specs',
+            references: ['../Shop.SharedSteps/Shop.SharedSteps.csproj'],
+            dependencyNames: ['Reqnroll.NUnit'],
+        });
+        expect(
+            parseProjectManifest(
+                '/m/packages/web/package.json',
+                JSON.stringify({
+                    name: '@shop/web',
+                    devDependencies: { '@shop/steps': 'workspace:*', '@cucumber/cucumber': '^11.0.0' },
+                    dependencies: { legacy: 'file:../legacy-steps' },
+                })
+            )
+        ).toEqual({
+            kind: 'node',
+            name: '@shop/web',
+            references: ['../legacy-steps'],
+            dependencyNames: ['legacy', '@shop/steps', '@cucumber/cucumber'],
+        });
+        expect(
+            parseProjectManifest(
+                '/g/api/go.mod',
+                'module example.com/api\n\nrequire (\n\tgithub.com/cucumber/godog v0.15.0\n\texample.com/steps v0.0.0 // indirect\n)\n\nreplace example.com/steps => ../steps\n'
+            )
+        ).toEqual({
+            kind: 'go',
+            name: 'example.com/api',
+            references: ['../steps'],
+            dependencyNames: ['github.com/cucumber/godog', 'example.com/steps'],
+        });
+        expect(
+            parseProjectManifest(
+                '/j/orders/pom.xml',
+                `<project><parent><artifactId>shop</artifactId></parent><artifactId>orders</artifactId>
+                <dependencies><dependency><groupId>com.shop</groupId><artifactId>common-steps</artifactId></dependency></dependencies></project>`
+            )
+        ).toMatchObject({ kind: 'jvm', name: 'orders', dependencyNames: ['common-steps'] });
+        expect(
+            parseProjectManifest('/j/billing/build.gradle.kts', 'dependencies {\n    testImplementation(project(":common-steps"))\n}')
+        ).toMatchObject({ kind: 'jvm', name: 'billing', dependencyNames: ['common-steps'] });
+        expect(parseProjectManifest('/x/package.json', '{ not json')).toBeNull();
+    });
+
+    it('builds projects with resolved references and workspace folders', () => {
+        const manifest = (path: string, text: string) => ({ path, manifest: parseProjectManifest(path, text)! });
+        const projects = buildBddProjects(
+            [
+                manifest('/s/ServiceA.Specs/ServiceA.Specs.csproj', SPECS_CSPROJ),
+                manifest('/s/ServiceB.Specs/ServiceB.Specs.csproj', '<Project />'),
+                manifest('/s/Shop.SharedSteps/Shop.SharedSteps.csproj', '<Project />'),
+                manifest('/j/orders/pom.xml', '<project><artifactId>orders</artifactId><dependencies><dependency><artifactId>common-steps</artifactId></dependency></dependencies></project>'),
+                manifest('/j/common-steps/build.gradle', ''),
+            ],
+            ['/s', '/j/orders']
+        );
+        expect(projects.map((p) => [p.root, p.kind, p.dependencies])).toEqual([
+            ['/j/common-steps', 'jvm', []],
+            ['/j/orders', 'jvm', ['/j/common-steps']],
+            ['/s/ServiceA.Specs', 'dotnet', ['/s/Shop.SharedSteps']],
+            ['/s/ServiceB.Specs', 'dotnet', []],
+            ['/s/Shop.SharedSteps', 'dotnet', []],
+            ['/s', 'workspace', []],
+        ]);
+        expect(findOwningProject(projects, '/s/ServiceB.Specs/Features/login.feature')?.name).toBe('ServiceB.Specs');
+        expect(findOwningProject(projects, '/s/docs/readme.feature')?.kind).toBe('workspace');
+        expect(findOwningProject(projects, '/elsewhere/steps.cs')).toBeUndefined();
+    });
+});
+
+describe('project-scoped resolution', () => {
+    const projects = buildBddProjects(
+        [
+            { path: '/s/A/A.csproj', manifest: parseProjectManifest('/s/A/A.csproj', '<ProjectReference Include="..\\Shared\\Shared.csproj" />')! },
+            { path: '/s/B/B.csproj', manifest: parseProjectManifest('/s/B/B.csproj', '<Project />')! },
+            { path: '/s/Shared/Shared.csproj', manifest: parseProjectManifest('/s/Shared/Shared.csproj', '<Project />')! },
+        ],
+        ['/s']
+    );
+    const stepsIn = (path: string, ns: string) => parseCSharpBindingsFromText(STEPS_CS(ns), vscode.Uri.file(path));
+    const stepAt = (featurePath: string) =>
+        parseFeatureDocument(
+            createMockDocument('Feature: F\n  Scenario: S\n    Given I log in', featurePath) as never,
+            { defaultLanguage: 'en' }
+        )!.allSteps[0];
+
+    it('resolves a feature against its own project only', () => {
+        const bindings = [...stepsIn('/s/A/Steps/LoginSteps.cs', 'A'), ...stepsIn('/s/B/Steps/LoginSteps.cs', 'B')];
+        const deps = { getAllBindings: () => bindings, getBindingsByKeyword: () => bindings };
+        expect(createResolver(deps)(stepAt('/s/A/Features/login.feature')).status).toBe('ambiguous');
+
+        const resolve = createResolver({ ...deps, projects });
+        const inA = resolve(stepAt('/s/A/Features/login.feature'));
+        expect(inA.status).toBe('bound');
+        expect(inA.best?.binding.uri.fsPath).toBe('/s/A/Steps/LoginSteps.cs');
+        expect(resolve(stepAt('/s/B/Features/login.feature')).best?.binding.uri.fsPath).toBe('/s/B/Steps/LoginSteps.cs');
+    });
+
+    it('sees referenced projects and bindings outside every project, not sibling projects', () => {
+        const shared = stepsIn('/s/Shared/LoginSteps.cs', 'Shared');
+        const library = stepsIn('/libs/LoginSteps.cs', 'Library');
+        const inA = createProjectFilter(projects, '/s/A/Features/login.feature')!;
+        const inB = createProjectFilter(projects, '/s/B/Features/login.feature')!;
+        expect(inA(shared[0])).toBe(true);
+        expect(inB(shared[0])).toBe(false);
+        expect(inB(library[0])).toBe(true);
+        // a single project draws no boundary
+        expect(createProjectFilter(projects.slice(0, 1), '/s/A/x.feature')).toBeUndefined();
+    });
+
+    it('shows step library bindings inside a project to sibling projects', () => {
+        const withRoot = buildBddProjects(
+            [
+                { path: '/s/package.json', manifest: parseProjectManifest('/s/package.json', '{"name":"root"}')! },
+                { path: '/s/A/A.csproj', manifest: parseProjectManifest('/s/A/A.csproj', '<Project />')! },
+                { path: '/s/B/B.csproj', manifest: parseProjectManifest('/s/B/B.csproj', '<Project />')! },
+            ],
+            ['/s']
+        );
+        const library = stepsIn('/s/node_modules/@shop/steps/LoginSteps.cs', 'Library').map((b) => ({ ...b, library: true }));
+        const deps = { getAllBindings: () => library, getBindingsByKeyword: () => library, projects: withRoot };
+        expect(findOwningProject(withRoot, library[0].uri.fsPath)?.root).toBe('/s');
+        expect(createResolver(deps)(stepAt('/s/A/Features/login.feature')).status).toBe('bound');
+
+        const plain = library.map((b) => ({ ...b, library: undefined }));
+        const plainDeps = { getAllBindings: () => plain, getBindingsByKeyword: () => plain, projects: withRoot };
+        expect(createResolver(plainDeps)(stepAt('/s/A/Features/login.feature')).status).toBe('unbound');
+    });
+
+    it('lets framework configuration glue take precedence', () => {
+        const bindings = stepsIn('/s/B/Steps/LoginSteps.cs', 'B');
+        const deps = { getAllBindings: () => bindings, getBindingsByKeyword: () => bindings, projects };
+        expect(createResolver(deps)(stepAt('/s/A/Features/login.feature')).status).toBe('unbound');
+        const glueScopes = [{ source: '/s/A/reqnroll.json', features: ['/s/A/**/*.feature'], glue: ['/s/A/**', '/s/B/**'] }];
+        expect(createResolver({ ...deps, glueScopes })(stepAt('/s/A/Features/login.feature')).status).toBe('bound');
+    });
+
+    it('loadProject discovers projects; --no-project-scope turns the boundaries off', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-projects-'));
+        const write = (rel: string, text: string) => {
+            mkdirSync(join(dir, rel, '..'), { recursive: true });
+            writeFileSync(join(dir, rel), text, 'utf8');
+        };
+        try {
+            for (const service of ['ServiceA', 'ServiceB']) {
+                write(`${service}.Specs/${service}.Specs.csproj`, '<Project Sdk="Microsoft.NET.Sdk" />');
+                write(`${service}.Specs/Features/login.feature`, 'Feature: F\n  Scenario: S\n    Given I log in');
+                write(`${service}.Specs/Steps/LoginSteps.cs`, STEPS_CS(service));
+            }
+
+            const project = loadProject(dir);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 2, bound: 2, ambiguous: 0 });
+            expect(buildDiscoverReport(project).projects).toEqual([
+                { root: 'ServiceA.Specs', name: 'ServiceA.Specs', kind: 'dotnet', dependencies: [], bindingCount: 1 },
+                { root: 'ServiceB.Specs', name: 'ServiceB.Specs', kind: 'dotnet', dependencies: [], bindingCount: 1 },
+                { root: '.', name: dir.split(/[\\/]/).pop(), kind: 'workspace', dependencies: [], bindingCount: 0 },
+            ]);
+
+            const unscoped = loadProject(dir, { projectScope: false });
+            expect(unscoped.projects).toEqual([]);
+            expect(buildAnalyzeReport(unscoped).counts).toMatchObject({ bound: 0, ambiguous: 2 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
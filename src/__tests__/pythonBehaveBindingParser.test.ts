@@ -40,3 +40,83 @@ def step_then_results(context, message):
         expect(bindings).toHaveLength(0);
     });
 });
+
+describe('parsePythonBehaveBindingsFromText — step matchers', () => {
+    const uri = vscode.Uri.file('/features/steps/matchers.py');
+
+    it('compiles parse format types instead of matching any token', () => {
+        const text = [
+            'from behave import given',
+            '',
+            "@given('I have {count:d} {fruit:w}')",
+            'def have(context, count, fruit):',
+            '    pass',
+            '',
+            "@given('I am called {name}')",
+            'def called(context, name):',
+            '    pass',
+        ].join('\n');
+        const [have, called] = parsePythonBehaveBindingsFromText(text, uri);
+        expect(have.regex.test('I have 3 apples')).toBe(true);
+        expect(have.regex.test('I have three apples')).toBe(false);
+        expect(have.regex.test('I have 3 green apples')).toBe(false);
+        expect(called.regex.exec('I am called Ann Lee')?.[1]).toBe('Ann Lee');
+    });
+
+    it('honors use_step_matcher switches in file order', () => {
+        const text = [
+            'from behave import given, use_step_matcher',
+            '',
+            "@given('a {thing}')",
+            'def parse_default(context, thing):',
+            '    pass',
+            '',
+            'use_step_matcher("re")',
+            '',
+            "@given(r'I wait (?P<seconds>\\d+) seconds?')",
+            'def wait(context, seconds):',
+            '    pass',
+            '',
+            "use_step_matcher('cfparse')",
+            '',
+            "@given('I invite {names:Name+}')",
+            'def invite(context, names):',
+            '    pass',
+        ].join('\n');
+        const [thing, wait, invite] = parsePythonBehaveBindingsFromText(text, uri);
+        expect(thing.regex.test('a box')).toBe(true);
+        expect(thing.expressionType).toBeUndefined();
+        expect(wait.regex.test('I wait 5 seconds')).toBe(true);
+        expect(wait.regex.test('I wait 1 second')).toBe(true);
+        expect(wait.expressionType).toBe('regex');
+        expect(invite.regex.test('I invite Ann, Bob')).toBe(true);
+    });
+
+    it('registers @step for every keyword', () => {
+        const text = ['from behave import step', '', "@step('I log in')", 'def log_in(context):', '    pass'].join('\n');
+        const bindings = parsePythonBehaveBindingsFromText(text, uri);
+        expect(bindings.map((b) => [b.keyword, b.methodName, b.lineNumber])).toEqual([
+            ['Given', 'log_in', 2],
+            ['When', 'log_in', 2],
+            ['Then', 'log_in', 2],
+        ]);
+    });
+
+    it('reads decorators over several lines and implicitly concatenated strings', () => {
+        const text = [
+            'from behave import then',
+            '',
+            '@then(',
+            '    "the order total is "  # currency is implicit',
+            "    '{amount:f} for {count:d} items'",
+            ')',
+            'def total(context, amount, count):',
+            '    pass',
+        ].join('\n');
+        const [total] = parsePythonBehaveBindingsFromText(text, uri);
+        expect(total.patternRaw).toBe('the order total is {amount:f} for {count:d} items');
+        expect(total.methodName).toBe('total');
+        expect(total.lineNumber).toBe(2);
+        expect(total.regex.test('the order total is 9.50 for 2 items')).toBe(true);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * pytest-bdd — step parsers, parse format strings, feature references, CLI load
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    findPytestBddFeatureReferences,
+    parsePythonPytestBddBindingsFromText,
+} from '../core/parsing/pythonPytestBddBindingParser';
+import { parsePythonBehaveBindingsFromText } from '../core/parsing/pythonBehaveBindingParser';
+import { parseFormatToRegexSource } from '../core/parsing/parseFormat';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const STEPS = [
+    'import parse',
+    'from pytest_bdd import given, when, then, parsers, scenarios',
+    '',
+    'scenarios("features/cucumbers.feature")',
+    '',
+    '@parse.with_pattern(r"\\d+ kg")',
+    'def parse_weight(text):',
+    '    return text',
+    '',
+    '@given("there is a basket", target_fixture="basket")',
+    'def basket():',
+    '    return []',
+    '',
+    '@given(',
+    '    parsers.parse("I have {count:d} cucumbers"),',
+    '    target_fixture="cucumbers",',
+    ')',
+    'def have_cucumbers(count):',
+    '    return count',
+    '',
+    '@when(parsers.cfparse("I eat {names:Name+}", extra_types={"Name": str}))',
+    'def eat(names):',
+    '    pass',
+    '',
+    '@when(parsers.parse("I weigh {w:Weight}", extra_types=dict(Weight=parse_weight)))',
+    'def weigh(w):',
+    '    pass',
+    '',
+    '@then(parsers.re(r"I should have (?P<left>\\d+) cucumbers?"))',
+    'def should_have(left):',
+    '    pass',
+].join('\n');
+
+function parse(text = STEPS) {
+    return parsePythonPytestBddBindingsFromText(text, vscode.Uri.file('/ws/tests/step_defs/test_cucumbers.py'));
+}
+
+describe('parsePythonPytestBddBindingsFromText', () => {
+    it('parses plain strings, parse, cfparse and re step parsers', () => {
+        const bindings = parse();
+        expect(bindings.map((b) => [b.keyword, b.methodName, b.lineNumber])).toEqual([
+            ['Given', 'basket', 9],
+            ['Given', 'have_cucumbers', 13],
+            ['When', 'eat', 20],
+            ['When', 'weigh', 24],
+            ['Then', 'should_have', 28],
+        ]);
+        expect(bindings.every((b) => b.providerId === 'python-pytestbdd')).toBe(true);
+        expect(bindings.map((b) => b.className)).toContain('test_cucumbers');
+
+        const [basket, have, eat, weigh, should] = bindings;
+        expect(basket.regex.test('there is a basket')).toBe(true);
+        expect(basket.regex.test('there is a basket of apples')).toBe(false);
+        expect(have.regex.exec('I have 12 cucumbers')?.[1]).toBe('12');
+        expect(have.regex.test('I have many cucumbers')).toBe(false);
+        expect(eat.regex.test('I eat Ann, Bob')).toBe(true);
+        expect(weigh.regex.test('I weigh 3 kg')).toBe(true);
+        expect(weigh.regex.test('I weigh 3 lb')).toBe(false);
+        expect(should.regex.test('I should have 1 cucumber')).toBe(true);
+        expect(should.expressionType).toBe('regex');
+    });
+
+    it('keeps target_fixture', () => {
+        const [basket, have, eat] = parse();
+        expect(basket.targetFixture).toBe('basket');
+        expect(have.targetFixture).toBe('cucumbers');
+        expect(eat.targetFixture).toBeUndefined();
+    });
+
+    it('ignores behave files and files without a pytest_bdd import', () => {
+        const behave = ['from behave import given', "@given('x')", 'def step_impl(context):', '    pass'].join('\n');
+        expect(parse(behave)).toHaveLength(0);
+        expect(parse(STEPS.replace(/from pytest_bdd import .*/, ''))).toHaveLength(0);
+        expect(parsePythonBehaveBindingsFromText(STEPS, vscode.Uri.file('/ws/tests/test_x.py'))).toHaveLength(0);
+    });
+});
+
+describe('parseFormatToRegexSource', () => {
+    it('compiles fields, built-in types and escaped braces', () => {
+        expect(parseFormatToRegexSource('a {x} b')).toBe('a (.+?) b');
+        expect(parseFormatToRegexSource('{n:d} {{literal}}')).toBe('([-+]?\\d+) \\{literal\\}');
+        expect(parseFormatToRegexSource('{w:Custom}', { parameterTypes: new Map([['Custom', ['x|y']]]) })).toBe('(x|y)');
+        expect(new RegExp(`^${parseFormatToRegexSource('{n:d*}', { cardinality: true })}$`).test('1, 2,3')).toBe(true);
+    });
+});
+
+describe('findPytestBddFeatureReferences', () => {
+    it('finds scenarios() paths and @scenario() feature + name', () => {
+        const text = [
+            'from pytest_bdd import scenario, scenarios',
+            '',
+            "scenarios('login.feature', 'admin/users.feature', features_base_dir='x')",
+            '',
+            '@scenario(',
+            '    "cart.feature",',
+            '    "Add an item",',
+            ')',
+            'def test_add():',
+            '    pass',
+        ].join('\n');
+        expect(findPytestBddFeatureReferences(text)).toEqual([
+            { path: 'login.feature', lineNumber: 2, startCharacter: 11, endCharacter: 24 },
+            { path: 'admin/users.feature', lineNumber: 2, startCharacter: 28, endCharacter: 47 },
+            { path: 'cart.feature', lineNumber: 5, startCharacter: 5, endCharacter: 17, scenarioName: 'Add an item' },
+        ]);
+    });
+});
+
+describe('guardian-cli — pytest-bdd', () => {
+    it('loadProject indexes conftest.py and test modules with the pytest-bdd provider', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-pytestbdd-'));
+        try {
+            mkdirSync(join(dir, 'tests', 'features'), { recursive: true });
+            writeFileSync(join(dir, 'tests', 'conftest.py'), STEPS, 'utf8');
+            writeFileSync(
+                join(dir, 'tests', 'features', 'cucumbers.feature'),
+                [
+                    'Feature: Cucumbers',
+                    '  Scenario: Eat',
+                    '    Given there is a basket',
+                    '    And I have 5 cucumbers',
+                    '    When I eat Ann',
+                    '    Then I should have 4 cucumbers',
+                    '    And I have 3 cucumbers',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.providersDetected).toEqual(['python-pytestbdd']);
+            const report = buildAnalyzeReport(project);
+            // pytest-bdd only matches the step's own keyword: "And" after Then is a Then step
+            expect(report.counts).toMatchObject({ steps: 5, unbound: 1, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
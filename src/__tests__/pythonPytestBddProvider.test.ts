@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFindFiles = vi.fn();
+const mockReadFile = vi.fn();
+
+vi.mock('vscode', async () => {
+    const mocks = await import('./mocks/vscode');
+    return {
+        ...mocks,
+        workspace: {
+            ...mocks.workspace,
+            findFiles: (...args: unknown[]) => mockFindFiles(...args),
+            fs: {
+                readFile: (...args: unknown[]) => mockReadFile(...args),
+            },
+            asRelativePath: (p: string) => p,
+        },
+    };
+});
+
+import * as vscode from 'vscode';
+import { PythonPytestBddProvider } from '../providers/bindings/pythonPytestBddProvider';
+
+const WORKSPACE = [{ uri: vscode.Uri.file('/workspace') } as any];
+
+function filesFor(byPattern: Record<string, vscode.Uri[]>) {
+    mockFindFiles.mockImplementation((pattern: string) => Promise.resolve(byPattern[pattern] ?? []));
+}
+
+describe('PythonPytestBddProvider.detect', () => {
+    beforeEach(() => {
+        mockFindFiles.mockReset();
+        mockReadFile.mockReset();
+    });
+
+    it('returns high confidence when pytest-bdd is in requirements.txt', async () => {
+        filesFor({ '**/requirements.txt': [vscode.Uri.file('/workspace/requirements.txt')] });
+        mockReadFile.mockResolvedValue(Buffer.from('pytest==8.0\npytest-bdd>=7\n'));
+
+        const result = await new PythonPytestBddProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.7);
+    });
+
+    it('reads setup.cfg install_requires', async () => {
+        filesFor({ '**/setup.cfg': [vscode.Uri.file('/workspace/setup.cfg')] });
+        mockReadFile.mockResolvedValue(Buffer.from('[options]\ninstall_requires =\n    pytest_bdd\n'));
+
+        const result = await new PythonPytestBddProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.7);
+    });
+
+    it('falls back to pytest_bdd imports', async () => {
+        const provider = new PythonPytestBddProvider();
+        filesFor({ [provider.bindingGlob]: [vscode.Uri.file('/workspace/tests/conftest.py')] });
+        mockReadFile.mockResolvedValue(Buffer.from('from pytest_bdd import given\n'));
+
+        const result = await provider.detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.7);
+    });
+
+    it('returns 0 confidence for behave-only projects', async () => {
+        filesFor({ '**/requirements.txt': [vscode.Uri.file('/workspace/requirements.txt')] });
+        mockReadFile.mockResolvedValue(Buffer.from('behave==1.2.6\npytest\n'));
+
+        const result = await new PythonPytestBddProvider().detect(WORKSPACE);
+        expect(result.confidence).toBe(0);
+    });
+});
@@ -0,0 +1,133 @@
+/**
+ * Cucumber Ruby — regex / Cucumber Expression steps, block parameters, ParameterType, CLI load
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    parseRubyCucumberBindingsFromText,
+    parseRubyParameterTypesFromText,
+} from '../core/parsing/rubyCucumberBindingParser';
+import { applyParameterTypes } from '../core/parsing/parameterTypes';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const STEPS = `# frozen_string_literal: true
+
+Given(/^I have (\\d+) cukes? in my belly$/) do |count|
+  @belly.add(count.to_i)
+end
+
+Given('I have {int} {color} cukes') do |count, color|
+end
+
+When /^I eat (\\d+) cukes$/i do |count|
+end
+
+When "I pay \\"cash\\"" do
+end
+
+Then %r{\\Athe basket/cart holds (?<items>\\d+) items?\\z} do |items|
+end
+
+Then('the following cukes:') { |table| table.hashes }
+
+Then('the receipt reads') do |doc_string|
+end
+
+Given(:not_a_step) { 1 }
+`;
+
+const PARAMETER_TYPES = `ParameterType(
+  name: 'color',
+  regexp: [/red|green/, 'blue'],
+  transformer: ->(s) { Color.new(s) }
+)
+
+ParameterType(:name => :size, :regexp => %r{small|large}, :transformer => ->(s) { s.to_sym })
+`;
+
+function parse(text = STEPS) {
+    return parseRubyCucumberBindingsFromText(text, vscode.Uri.file('/shop/features/step_definitions/belly_steps.rb'));
+}
+
+describe('parseRubyCucumberBindingsFromText', () => {
+    it('parses Given / When / Then with regex, string and %r patterns, do and brace blocks', () => {
+        const bindings = parse();
+        expect(bindings.map((b) => [b.keyword, b.expressionType, b.lineNumber])).toEqual([
+            ['Given', 'regex', 2],
+            ['Given', 'cucumber', 6],
+            ['When', 'regex', 9],
+            ['When', 'cucumber', 12],
+            ['Then', 'regex', 15],
+            ['Then', 'cucumber', 18],
+            ['Then', 'cucumber', 20],
+        ]);
+        expect(bindings.every((b) => b.providerId === 'ruby-cucumber' && b.className === 'belly_steps')).toBe(true);
+    });
+
+    it('compiles Ruby regexes (flags, \\A / \\z, named groups) and Cucumber Expressions', () => {
+        const [belly, , eat, pay, basket] = parse();
+        expect(belly.patternRaw).toBe('^I have (\\d+) cukes? in my belly$');
+        expect(belly.regex.test('I have 1 cuke in my belly')).toBe(true);
+        expect(eat.regex.test('I EAT 2 CUKES')).toBe(true);
+        expect(pay.patternRaw).toBe('I pay "cash"');
+        expect(pay.regex.test('I pay "cash"')).toBe(true);
+        expect(basket.patternRaw).toBe('^the basket/cart holds (?<items>\\d+) items?$');
+        expect(basket.regex.exec('the basket/cart holds 3 items')?.groups?.items).toBe('3');
+    });
+
+    it('reads the step argument from the block parameters', () => {
+        const [belly, have, , pay, , table, docString] = parse();
+        expect(belly.stepArgument).toBe('none');
+        expect(have.stepArgument).toBe('none');
+        expect(pay.stepArgument).toBe('none');
+        expect(table.stepArgument).toBe('dataTable');
+        expect(docString.stepArgument).toBe('docString');
+    });
+
+    it('reads ParameterType definitions and recompiles Cucumber Expressions with them', () => {
+        const uri = vscode.Uri.file('/shop/features/support/parameter_types.rb');
+        const definitions = parseRubyParameterTypesFromText(PARAMETER_TYPES, uri);
+        expect(definitions.map((d) => [d.name, d.regexps, d.lineNumber])).toEqual([
+            ['color', ['red|green', 'blue'], 0],
+            ['size', ['small|large'], 6],
+        ]);
+
+        const have = applyParameterTypes(parse(), definitions)[1];
+        expect(have.regex.test('I have 2 blue cukes')).toBe(true);
+        expect(have.regex.test('I have 2 pink cukes')).toBe(false);
+    });
+});
+
+describe('guardian-cli — Cucumber Ruby', () => {
+    it('loadProject indexes step_definitions and support; keywords are ignored, regexes match as written', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-ruby-'));
+        try {
+            mkdirSync(join(dir, 'features', 'step_definitions'), { recursive: true });
+            mkdirSync(join(dir, 'features', 'support'), { recursive: true });
+            writeFileSync(join(dir, 'features', 'step_definitions', 'belly_steps.rb'), STEPS, 'utf8');
+            writeFileSync(join(dir, 'features', 'support', 'parameter_types.rb'), PARAMETER_TYPES, 'utf8');
+            writeFileSync(
+                join(dir, 'features', 'belly.feature'),
+                [
+                    'Feature: Belly',
+                    '  Scenario: Eat',
+                    '    Given I have 2 red cukes',
+                    '    Then I have 5 cukes in my belly',
+                    '    When i eat 2 cukes',
+                    '    And I sleep',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.providersDetected).toEqual(['ruby-cucumber']);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 4, unbound: 1, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFindFiles = vi.fn();
+const mockReadFile = vi.fn();
+
+vi.mock('vscode', async () => {
+    const mocks = await import('./mocks/vscode');
+    return {
+        ...mocks,
+        workspace: {
+            ...mocks.workspace,
+            findFiles: (...args: unknown[]) => mockFindFiles(...args),
+            fs: {
+                readFile: (...args: unknown[]) => mockReadFile(...args),
+            },
+            asRelativePath: (p: string) => p,
+        },
+    };
+});
+
+import * as vscode from 'vscode';
+import { RubyCucumberProvider } from '../providers/bindings/rubyCucumberProvider';
+
+const WORKSPACE = [{ uri: vscode.Uri.file('/workspace') } as any];
+
+function workspaceFiles(files: Record<string, string[]>): void {
+    mockFindFiles.mockImplementation((pattern: string) =>
+        Promise.resolve((files[pattern] ?? []).map((p) => vscode.Uri.file(p)))
+    );
+}
+
+describe('RubyCucumberProvider.detect', () => {
+    beforeEach(() => {
+        mockFindFiles.mockReset();
+        mockReadFile.mockReset();
+    });
+
+    it('returns high confidence for the cucumber gem in a Gemfile', async () => {
+        workspaceFiles({ '**/Gemfile': ['/workspace/Gemfile'] });
+        mockReadFile.mockResolvedValue(
+            Buffer.from("source 'https://rubygems.org'\n\ngroup :test do\n  gem 'cucumber-rails', require: false\nend\n")
+        );
+
+        const result = await new RubyCucumberProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.8);
+        expect(result.primaryLanguages).toEqual(['ruby']);
+    });
+
+    it('counts cucumber.yml only next to Ruby step definitions', async () => {
+        workspaceFiles({ '**/cucumber.yml': ['/workspace/config/cucumber.yml'] });
+        expect((await new RubyCucumberProvider().detect(WORKSPACE)).confidence).toBe(0);
+
+        workspaceFiles({
+            '**/cucumber.yml': ['/workspace/config/cucumber.yml'],
+            '**/features/step_definitions/**/*.rb': ['/workspace/features/step_definitions/steps.rb'],
+        });
+        expect((await new RubyCucumberProvider().detect(WORKSPACE)).confidence).toBeGreaterThan(0.7);
+    });
+
+    it('returns 0 confidence for Ruby projects without Cucumber', async () => {
+        workspaceFiles({ '**/Gemfile': ['/workspace/Gemfile'] });
+        mockReadFile.mockResolvedValue(Buffer.from("gem 'rails'\ngem 'rspec-rails'\n"));
+
+        const result = await new RubyCucumberProvider().detect(WORKSPACE);
+        expect(result.confidence).toBe(0);
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * rust-cucumber-demo sample — resolver smoke (Rust cucumber-rs)
+ */
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import {
+    parseRustCucumberBindingsFromText,
+    parseRustCucumberParameterTypesFromText,
+} from '../core/parsing/rustCucumberBindingParser';
+import { applyParameterTypes } from '../core/parsing/parameterTypes';
+import { createResolver } from '../core/matching/resolver';
+import { createMockDocument, Uri } from './mocks/vscode';
+
+const ROOT = join(__dirname, '../../samples/rust-cucumber-demo');
+
+describe('rust-cucumber-demo sample', () => {
+    it('resolves all belly.feature steps to Rust step functions', () => {
+        const featureText = readFileSync(join(ROOT, 'tests/features/belly.feature'), 'utf-8');
+        const stepsText = readFileSync(join(ROOT, 'tests/belly.rs'), 'utf-8');
+        const doc = createMockDocument(featureText, join(ROOT, 'tests/features/belly.feature'));
+        const parsed = parseFeatureDocument(doc as any)!;
+        const uri = Uri.file(join(ROOT, 'tests/belly.rs')) as any;
+        const bindings = applyParameterTypes(
+            parseRustCucumberBindingsFromText(stepsText, uri),
+            parseRustCucumberParameterTypesFromText(stepsText, uri)
+        );
+
+        expect(bindings.length).toBe(5);
+
+        const resolve = createResolver({
+            getAllBindings: () => bindings,
+            getBindingsByKeyword: (kw) => bindings.filter((b) => b.keyword === kw),
+            preferSpecificBinding: false,
+        });
+
+        expect(parsed.allSteps.length).toBe(5);
+        for (const step of parsed.allSteps) {
+            expect(resolve(step).status).toBe('bound');
+        }
+    });
+});
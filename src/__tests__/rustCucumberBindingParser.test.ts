@@ -0,0 +1,152 @@
+/**
+ * cucumber-rs (Rust) — step attributes, literal / expr / regex patterns, parameter types, CLI load
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    parseRustCucumberBindingsFromText,
+    parseRustCucumberParameterTypesFromText,
+} from '../core/parsing/rustCucumberBindingParser';
+import { applyParameterTypes } from '../core/parsing/parameterTypes';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+
+const STEPS = `use cucumber::{given, then, when, Parameter, World};
+
+#[derive(Debug, Default, Parameter)]
+#[param(regex = "red|green")]
+enum Color {
+    #[default]
+    Red,
+    Green,
+}
+
+#[given("a {curly} (literal) step.")]
+async fn literal(world: &mut ShopWorld) {}
+
+#[given(expr = "I have {int} {color} cukes")]
+#[when(expr = "I buy {int} {color} cukes")]
+pub async fn have_cukes(world: &mut ShopWorld, count: u32, color: Color) {}
+
+#[cucumber::then(
+    regex = r#"the "(?P<name>[^"]+)" basket (?:is|are) full$"#
+)]
+fn basket_full(world: &mut ShopWorld, name: String) {}
+
+#[then(regex = r"(?i)^total: (\\d+) eur$")]
+async fn total(world: &mut ShopWorld, step: &cucumber::gherkin::Step) {}
+
+#[when("I pay \\"now\\"")]
+async fn pay_now(world: &mut ShopWorld) {}
+`;
+
+function parse(text = STEPS) {
+    return parseRustCucumberBindingsFromText(text, vscode.Uri.file('/shop/tests/steps/basket.rs'));
+}
+
+describe('parseRustCucumberBindingsFromText', () => {
+    it('parses given / when / then attributes on async and plain fns', () => {
+        const bindings = parse();
+        expect(bindings.map((b) => [b.keyword, b.methodName, b.lineNumber])).toEqual([
+            ['Given', 'literal', 10],
+            ['Given', 'have_cukes', 13],
+            ['When', 'have_cukes', 14],
+            ['Then', 'basket_full', 17],
+            ['Then', 'total', 22],
+            ['When', 'pay_now', 25],
+        ]);
+        expect(bindings.every((b) => b.providerId === 'rust-cucumber' && b.className === 'basket')).toBe(true);
+    });
+
+    it('picks literal, Cucumber Expression or regex matching from the attribute argument', () => {
+        const [literal, have, , basket, total, pay] = parse();
+
+        expect(literal.expressionType).toBeUndefined();
+        expect(literal.patternRaw).toBe('a {curly} (literal) step.');
+        expect(literal.regex.test('a {curly} (literal) step.')).toBe(true);
+        expect(literal.regex.test('a {curly} literal step!')).toBe(false);
+        expect(pay.regex.test('I pay "now"')).toBe(true);
+
+        expect(have.expressionType).toBe('cucumber');
+        expect(have.patternRaw).toBe('I have {int} {color} cukes');
+
+        expect(basket.expressionType).toBe('regex');
+        expect(basket.patternRaw).toBe('the "(?<name>[^"]+)" basket (?:is|are) full$');
+        expect(basket.regex.exec('the "weekly" basket is full')?.groups?.name).toBe('weekly');
+
+        expect(total.patternRaw).toBe('^total: (\\d+) eur$');
+        expect(total.regex.test('TOTAL: 12 EUR')).toBe(true);
+    });
+
+    it('reads #[param] parameter types and recompiles expr patterns with them', () => {
+        const uri = vscode.Uri.file('/shop/tests/steps/basket.rs');
+        const definitions = parseRustCucumberParameterTypesFromText(STEPS, uri);
+        expect(definitions).toEqual([
+            { name: 'color', regexps: ['red|green'], uri, lineNumber: 3, providerId: 'rust-cucumber' },
+        ]);
+
+        const [literal, have] = applyParameterTypes(parse(), definitions);
+        expect(have.regex.test('I have 3 green cukes')).toBe(true);
+        expect(have.regex.test('I have 3 blue cukes')).toBe(false);
+        expect(literal.regex.test('a {curly} (literal) step.')).toBe(true);
+    });
+
+    it('skips attributes that are commented out or inside string literals', () => {
+        const text = [
+            'use cucumber::{given, when};',
+            '',
+            '// #[given("an old step")]',
+            '/* #[when("a disabled step")]',
+            '   /* nested */ #[when("still disabled")] */',
+            '#[given("a live step")]',
+            "async fn live_step<'a>(world: &'a mut World) {",
+            '    let s = "#[when(\\"fake\\")]";',
+            '    let r = r#"#[when("raw fake")]"#;',
+            "    let q = '\"';",
+            '}',
+            '',
+            '#[when("another live step")]',
+            'fn another() {}',
+        ].join('\n');
+        expect(parse(text).map((b) => [b.patternRaw, b.methodName, b.lineNumber])).toEqual([
+            ['a live step', 'live_step', 5],
+            ['another live step', 'another', 12],
+        ]);
+    });
+
+    it('ignores Rust files that do not use the cucumber crate', () => {
+        expect(parse('#[given("x")]\nfn x() {}\n')).toHaveLength(0);
+    });
+});
+
+describe('guardian-cli — cucumber-rs', () => {
+    it('loadProject indexes tests/ steps; keywords are strict and regexes match as written', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-rust-'));
+        try {
+            mkdirSync(join(dir, 'tests', 'steps'), { recursive: true });
+            mkdirSync(join(dir, 'tests', 'features'), { recursive: true });
+            writeFileSync(join(dir, 'tests', 'steps', 'basket.rs'), STEPS, 'utf8');
+            writeFileSync(
+                join(dir, 'tests', 'features', 'basket.feature'),
+                [
+                    'Feature: Basket',
+                    '  Scenario: Buy',
+                    '    Given I have 2 red cukes',
+                    '    When I buy 1 green cukes',
+                    '    Then so the "weekly" basket is full',
+                    '    And I pay "now"',
+                ].join('\n'),
+                'utf8'
+            );
+
+            const project = loadProject(dir);
+            expect(project.providersDetected).toEqual(['rust-cucumber']);
+            expect(buildAnalyzeReport(project).counts).toMatchObject({ steps: 4, unbound: 1, ambiguous: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFindFiles = vi.fn();
+const mockReadFile = vi.fn();
+
+vi.mock('vscode', async () => {
+    const mocks = await import('./mocks/vscode');
+    return {
+        ...mocks,
+        workspace: {
+            ...mocks.workspace,
+            findFiles: (...args: unknown[]) => mockFindFiles(...args),
+            fs: {
+                readFile: (...args: unknown[]) => mockReadFile(...args),
+            },
+            asRelativePath: (p: string) => p,
+        },
+    };
+});
+
+import * as vscode from 'vscode';
+import { RustCucumberProvider, findCucumberDependencySection } from '../providers/bindings/rustCucumberProvider';
+
+const WORKSPACE = [{ uri: vscode.Uri.file('/workspace') } as any];
+
+function cargoWorkspace(content: string): void {
+    mockFindFiles.mockImplementation((pattern: string) =>
+        Promise.resolve(pattern === '**/Cargo.toml' ? [vscode.Uri.file('/workspace/Cargo.toml')] : [])
+    );
+    mockReadFile.mockResolvedValue(Buffer.from(content));
+}
+
+describe('RustCucumberProvider.detect', () => {
+    beforeEach(() => {
+        mockFindFiles.mockReset();
+        mockReadFile.mockReset();
+    });
+
+    it('returns high confidence for cucumber in dev-dependencies', async () => {
+        cargoWorkspace('[package]\nname = "shop"\n\n[dev-dependencies]\ntokio = "1"\ncucumber = "0.21"\n');
+
+        const result = await new RustCucumberProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.8);
+        expect(result.primaryLanguages).toEqual(['rust']);
+    });
+
+    it('returns lower confidence for cucumber in regular dependencies', async () => {
+        cargoWorkspace('[dependencies]\ncucumber = { version = "0.21" }\n');
+
+        const result = await new RustCucumberProvider().detect(WORKSPACE);
+        expect(result.confidence).toBeGreaterThan(0.5);
+        expect(result.confidence).toBeLessThan(0.9);
+    });
+
+    it('returns 0 confidence for Rust crates without cucumber', async () => {
+        cargoWorkspace('[dependencies]\nserde = "1"\n\n[dev-dependencies]\ncucumber-expressions = "0.3"\n');
+
+        const result = await new RustCucumberProvider().detect(WORKSPACE);
+        expect(result.confidence).toBe(0);
+    });
+});
+
+describe('findCucumberDependencySection', () => {
+    it('reads dependency tables, target-specific and workspace-inherited entries', () => {
+        expect(findCucumberDependencySection('[dev-dependencies.cucumber]\nversion = "0.21"\n')).toBe('dev-dependencies');
+        expect(
+            findCucumberDependencySection("[target.'cfg(unix)'.dev-dependencies]\ncucumber.workspace = true\n")
+        ).toBe('dev-dependencies');
+        expect(findCucumberDependencySection('[package]\ncucumber = "x"\n')).toBeNull();
+    });
+});
@@ -4,7 +4,12 @@ import {
     buildGoNewFileContent,
     buildJavaNewFileContent,
     buildJsNewFileContent,
+    buildKotlinNewFileContent,
+    buildPhpBehatNewFileContent,
+    buildRustNewFileContent,
+    buildRubyNewFileContent,
     buildPythonNewFileContent,
+    buildPytestBddNewFileContent,
     defaultNewScaffoldPath,
     findCSharpBindingInsertLine,
     findGoInitializeScenarioInsertLine,
@@ -72,16 +77,26 @@ describe('scaffoldInsert', () => {
         expect(supportsScaffoldInsert('csharp-specflow')).toBe(true);
         expect(supportsScaffoldInsert('js-cucumber')).toBe(true);
         expect(supportsScaffoldInsert('python-behave')).toBe(true);
+        expect(supportsScaffoldInsert('python-pytestbdd')).toBe(true);
         expect(supportsScaffoldInsert('go-godog')).toBe(true);
         expect(supportsScaffoldInsert('java-cucumber')).toBe(true);
+        expect(supportsScaffoldInsert('kotlin-cucumber')).toBe(true);
+        expect(supportsScaffoldInsert('php-behat')).toBe(true);
+        expect(supportsScaffoldInsert('rust-cucumber')).toBe(true);
+        expect(supportsScaffoldInsert('ruby-cucumber')).toBe(true);
         expect(supportsScaffoldInsert('generic-csharp-fallback')).toBe(false);
     });
 
-    it('usesAppendInsert is true for JS and Python only', () => {
+    it('usesAppendInsert is true for JS, Python, Rust and Ruby only', () => {
         expect(usesAppendInsert('js-cucumber')).toBe(true);
         expect(usesAppendInsert('python-behave')).toBe(true);
+        expect(usesAppendInsert('python-pytestbdd')).toBe(true);
+        expect(usesAppendInsert('rust-cucumber')).toBe(true);
+        expect(usesAppendInsert('ruby-cucumber')).toBe(true);
         expect(usesAppendInsert('go-godog')).toBe(false);
         expect(usesAppendInsert('java-cucumber')).toBe(false);
+        expect(usesAppendInsert('kotlin-cucumber')).toBe(false);
+        expect(usesAppendInsert('php-behat')).toBe(false);
     });
 
     it('findCSharpBindingInsertLine returns closing brace of first [Binding] class', () => {
@@ -142,6 +157,9 @@ describe('scaffoldInsert', () => {
                 '/proj/features/steps/search_steps.py',
             ])
         ).toBe('/proj/features/steps/search_steps.py');
+        expect(
+            pickScaffoldTargetPath('python-pytestbdd', ['/proj/tests/test_search.py', '/proj/tests/conftest.py'])
+        ).toBe('/proj/tests/conftest.py');
         expect(
             pickScaffoldTargetPath('go-godog', ['/proj/main.go', '/proj/godogs_test.go'])
         ).toBe('/proj/godogs_test.go');
@@ -150,6 +168,27 @@ describe('scaffoldInsert', () => {
                 '/proj/src/test/java/com/example/steps/SearchStepDefinitions.java',
             ])
         ).toBe('/proj/src/test/java/com/example/steps/SearchStepDefinitions.java');
+        expect(
+            pickScaffoldTargetPath('java-cucumber', ['/proj/build.gradle.kts', '/proj/src/test/kotlin/LoginSteps.kt'])
+        ).toBe('/proj/src/test/kotlin/LoginSteps.kt');
+        expect(
+            pickScaffoldTargetPath('kotlin-cucumber', ['/proj/src/test/java/Hooks.java', '/proj/src/test/kotlin/LoginSteps.kt'])
+        ).toBe('/proj/src/test/kotlin/LoginSteps.kt');
+        expect(
+            pickScaffoldTargetPath('php-behat', [
+                '/proj/features/bootstrap/Support.php',
+                '/proj/features/bootstrap/FeatureContext.php',
+            ])
+        ).toBe('/proj/features/bootstrap/FeatureContext.php');
+        expect(
+            pickScaffoldTargetPath('rust-cucumber', ['/proj/src/lib.rs', '/proj/tests/steps/belly.rs'])
+        ).toBe('/proj/tests/steps/belly.rs');
+        expect(
+            pickScaffoldTargetPath('ruby-cucumber', [
+                '/proj/features/support/env.rb',
+                '/proj/features/step_definitions/cart_steps.rb',
+            ])
+        ).toBe('/proj/features/step_definitions/cart_steps.rb');
     });
 
     it('defaultNewScaffoldPath returns conventional paths for five stacks', () => {
@@ -162,12 +201,19 @@ describe('scaffoldInsert', () => {
         expect(defaultNewScaffoldPath('python-behave')).toBe(
             'features/steps/guardian_generated_steps.py'
         );
+        expect(defaultNewScaffoldPath('python-pytestbdd')).toBe('tests/step_defs/conftest.py');
         expect(defaultNewScaffoldPath('go-godog')).toBe(
             'features/guardian_generated_steps_test.go'
         );
         expect(defaultNewScaffoldPath('java-cucumber')).toBe(
             'src/test/java/generated/GuardianGeneratedSteps.java'
         );
+        expect(defaultNewScaffoldPath('kotlin-cucumber')).toBe(
+            'src/test/kotlin/generated/GuardianGeneratedSteps.kt'
+        );
+        expect(defaultNewScaffoldPath('php-behat')).toBe('features/bootstrap/GuardianGeneratedContext.php');
+        expect(defaultNewScaffoldPath('rust-cucumber')).toBe('tests/steps/guardian_generated_steps.rs');
+        expect(defaultNewScaffoldPath('ruby-cucumber')).toBe('features/step_definitions/guardian_generated_steps.rb');
     });
 
     it('buildCSharpNewFileContent wraps snippet with Reqnroll usings', () => {
@@ -191,6 +237,12 @@ describe('scaffoldInsert', () => {
         expect(content).toContain("@given('x')");
     });
 
+    it('buildPytestBddNewFileContent imports pytest_bdd steps and parsers', () => {
+        const content = buildPytestBddNewFileContent(`@given('x')\ndef step():\n    pass`);
+        expect(content).toContain('from pytest_bdd import given, when, then, parsers');
+        expect(content).toContain("@given('x')");
+    });
+
     it('buildGoNewFileContent wraps InitializeScenario', () => {
         const snippet = `// In InitializeScenario:\nctx.Given(\`^x$\`, func(ctx context.Context) error {\n    return nil\n})`;
         const content = buildGoNewFileContent(snippet);
@@ -207,6 +259,32 @@ describe('scaffoldInsert', () => {
         expect(content).toContain('@Given("x")');
     });
 
+    it('buildKotlinNewFileContent wraps class and imports', () => {
+        const content = buildKotlinNewFileContent(`@Given("x")\nfun x() {\n}`);
+        expect(content).toContain('package generated\n');
+        expect(content).toContain('import io.cucumber.java.en.Given\n');
+        expect(content).toContain('class GuardianGeneratedSteps {\n    @Given("x")');
+        expect(findJavaStepClassInsertLine(content)).toBe(content.split('\n').length - 2);
+    });
+
+    it('buildPhpBehatNewFileContent wraps a Context class', () => {
+        const content = buildPhpBehatNewFileContent('/**\n * @Given x\n */\npublic function x()\n{\n}');
+        expect(content.startsWith('<?php\n')).toBe(true);
+        expect(content).toContain('use Behat\\Behat\\Context\\Context;');
+        expect(content).toContain('class GuardianGeneratedContext implements Context\n{\n    /**\n     * @Given x');
+        expect(findJavaStepClassInsertLine(content)).toBe(content.split('\n').length - 2);
+    });
+
+    it('buildRustNewFileContent imports the step attributes and the World', () => {
+        const content = buildRustNewFileContent('#[given("x")]\nasync fn x(world: &mut World) {\n    todo!()\n}');
+        expect(content).toContain('use cucumber::{given, then, when};\n');
+        expect(content).toContain('use crate::World;\n\n#[given("x")]');
+    });
+
+    it('buildRubyNewFileContent is the step on its own (no require needed)', () => {
+        expect(buildRubyNewFileContent("Given('x') do\n  pending\nend")).toBe("Given('x') do\n  pending\nend\n");
+    });
+
     it('stripGoScaffoldComment removes guidance line', () => {
         expect(stripGoScaffoldComment('// In InitializeScenario:\nctx.Given(`x`, f)')).toBe(
             'ctx.Given(`x`, f)'
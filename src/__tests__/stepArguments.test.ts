@@ -0,0 +1,192 @@
+/**
+ * Step arguments — DataTable / DocString on FeatureStep, binding signatures, resolver arity filter
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
+import { parseJavaCucumberBindingsFromText } from '../core/parsing/javaCucumberBindingParser';
+import { parseJsCucumberBindingsFromText } from '../core/parsing/jsCucumberBindingParser';
+import { parseGoGodogBindingsFromText } from '../core/parsing/goGodogBindingParser';
+import { countPatternParameters } from '../core/parsing/stepArgumentSignature';
+import { createResolver } from '../core/matching/resolver';
+import { isBindingArgumentCompatible } from '../core/matching/argumentFilter';
+import type { Binding, StepDataTable, StepDocString } from '../core/domain/types';
+import { createMockDocument, Uri } from './mocks/vscode';
+
+const FEATURE = [
+    'Feature: Users',
+    '  Scenario: Create users',
+    '    Given these users:',
+    '      | name  | role        |',
+    '      # a comment inside the table',
+    '      | alice | admin       |',
+    '      | bob   | a \\| b      |',
+    '    When I post the payload',
+    '      """json',
+    '      {',
+    '        "Given": "not a step"',
+    '      }',
+    '      """',
+    '    Then the user count is 2',
+].join('\n');
+
+function parse(text: string) {
+    return parseFeatureDocument(createMockDocument(text, '/ws/users.feature') as vscode.TextDocument)!;
+}
+
+describe('gherkinParser — step arguments', () => {
+    it('attaches a data table with rows, cells and ranges', () => {
+        const steps = parse(FEATURE).allSteps;
+        const table = steps[0].argument as StepDataTable;
+
+        expect(table.kind).toBe('dataTable');
+        expect(table.rows.map((r) => r.cells.map((c) => c.value))).toEqual([
+            ['name', 'role'],
+            ['alice', 'admin'],
+            ['bob', 'a | b'],
+        ]);
+        expect(table.rows[1].lineNumber).toBe(5);
+        expect(table.rows[0].cells[1].range.start.character).toBe(16);
+        expect(table.range.start.line).toBe(3);
+        expect(table.range.end.line).toBe(6);
+    });
+
+    it('attaches a doc string with content type and keeps its body out of the step list', () => {
+        const feature = parse(FEATURE);
+        const doc = feature.allSteps[1].argument as StepDocString;
+
+        expect(feature.allSteps.map((s) => s.rawText)).toEqual([
+            'these users:',
+            'I post the payload',
+            'the user count is 2',
+        ]);
+        expect(doc).toMatchObject({ kind: 'docString', contentType: 'json', delimiter: '"""' });
+        expect(doc.content).toBe('{\n  "Given": "not a step"\n}');
+        expect(doc.range.start.line).toBe(8);
+        expect(doc.range.end.line).toBe(12);
+        expect(feature.allSteps[2].argument).toBeUndefined();
+    });
+
+    it('supports backtick doc strings', () => {
+        const feature = parse(['Feature: F', '  Scenario: S', '    Given a note', '      ```', '      hi', '      ```'].join('\n'));
+        expect(feature.allSteps[0].argument).toMatchObject({ kind: 'docString', content: 'hi', delimiter: '```' });
+    });
+});
+
+describe('binding parsers — step argument signature', () => {
+    it('C#: DataTable / Table / List<T> / string / none', () => {
+        const source = [
+            '[Binding] public class Steps {',
+            '  [Given(@"these users:")] public void Users(DataTable table) {}',
+            '  [Given(@"legacy users:")] public void Legacy(Table table) {}',
+            '  [Given(@"typed users:")] public void Typed(IEnumerable<User> users) {}',
+            '  [When(@"I post (.*)")] public async Task Post(string what, string body) {}',
+            '  [Then(@"the user count is (\\d+)")] public void Count(int n) {}',
+            '  [Then(@"the user is {string}")] public void Is(string name, [FromBody] User user) {}',
+            '}',
+        ].join('\n');
+        const args = parseCSharpBindingsFromText(source, Uri.file('/s.cs') as any).map((b) => [b.methodName, b.stepArgument]);
+        expect(args).toEqual([
+            ['Users', 'dataTable'],
+            ['Legacy', 'dataTable'],
+            ['Typed', 'dataTable'],
+            ['Post', 'docString'],
+            ['Count', 'none'],
+            ['Is', 'any'],
+        ]);
+    });
+
+    it('Java, JS/TS and Go signatures', () => {
+        const java = parseJavaCucumberBindingsFromText(
+            [
+                'import io.cucumber.java.en.*;',
+                'public class Steps {',
+                '  @Given("these users:")',
+                '  public void users(List<Map<String, String>> rows) {}',
+                '  @Then("the count is {int}")',
+                '  public void count(int n) {}',
+                '}',
+            ].join('\n'),
+            Uri.file('/S.java') as any
+        );
+        expect(java.map((b) => b.stepArgument)).toEqual(['dataTable', 'none']);
+
+        const js = parseJsCucumberBindingsFromText(
+            [
+                "import { Given, When, DataTable } from '@cucumber/cucumber';",
+                "Given('these users:', function (this: World, table: DataTable) {});",
+                "When('I post {string}', async (what: string, body: string) => {});",
+                "When(/^I wait (\\d+)s$/, { timeout: 5000 }, async function (n) {});",
+                "When('I reuse', sharedHandler);",
+            ].join('\n'),
+            Uri.file('/s.ts') as any
+        );
+        expect(js.map((b) => b.stepArgument)).toEqual(['dataTable', 'docString', 'none', undefined]);
+
+        // callback-style step: the untyped `done` is no table or doc string
+        const callback = parseJsCucumberBindingsFromText(
+            "const { Given } = require('@cucumber/cucumber');\nGiven('I wait for {int} seconds', function (n, done) { done(); });",
+            Uri.file('/s.js') as any
+        );
+        expect(callback[0].stepArgument).toBeUndefined();
+        expect(isBindingArgumentCompatible(callback[0], undefined)).toBe(true);
+
+        const go = parseGoGodogBindingsFromText(
+            [
+                'import "github.com/cucumber/godog"',
+                'func theseUsers(ctx context.Context, table *godog.Table) error { return nil }',
+                'func (s *suite) count(a, b int) error { return nil }',
+                'func Init(ctx *godog.ScenarioContext) {',
+                '  ctx.Step(`^these users:$`, theseUsers)',
+                '  ctx.Step(`^(\\d+) and (\\d+)$`, s.count)',
+                '}',
+            ].join('\n'),
+            Uri.file('/s_test.go') as any
+        );
+        expect(go[0].stepArgument).toBe('dataTable');
+    });
+
+    it('counts Cucumber Expression parameters, not compiled groups', () => {
+        expect(countPatternParameters('I have {int} cukes named {string}')).toBe(2);
+        expect(countPatternParameters('^I have (\\d+) (?:big )?cukes$')).toBe(1);
+    });
+});
+
+describe('resolver — step argument arity', () => {
+    const source = [
+        '[Binding] public class Steps {',
+        '  [Given(@"these users:")] public void Users(DataTable table) {}',
+        '  [Given(@"these users:")] public void UsersNoTable() {}',
+        '  [When(@"I post the payload")] public void Post(string body) {}',
+        '  [Then(@"the user count is (\\d+)")] public void Count(int n) {}',
+        '}',
+    ].join('\n');
+    const bindings = parseCSharpBindingsFromText(source, Uri.file('/s.cs') as any);
+    const resolve = createResolver({
+        getAllBindings: () => bindings,
+        getBindingsByKeyword: (k) => bindings.filter((b) => b.keyword === k),
+    });
+
+    it('binds table/doc string steps only to methods taking that argument', () => {
+        const steps = parse(FEATURE).allSteps;
+
+        const users = resolve(steps[0]);
+        expect(users.status).toBe('bound');
+        expect(users.best?.binding.methodName).toBe('Users');
+
+        expect(resolve(steps[1]).best?.binding.methodName).toBe('Post');
+        expect(resolve(steps[2]).status).toBe('bound');
+    });
+
+    it('does not bind a step without argument to a method that requires one', () => {
+        const feature = parse(['Feature: F', '  Scenario: S', '    When I post the payload'].join('\n'));
+        expect(resolve(feature.allSteps[0]).status).toBe('unbound');
+    });
+
+    it('unknown signatures stay compatible with any step', () => {
+        const unknown = { ...bindings[0], stepArgument: undefined } as Binding;
+        expect(isBindingArgumentCompatible(unknown, undefined)).toBe(true);
+        expect(isBindingArgumentCompatible({ ...unknown, stepArgument: 'any' }, undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Shared step libraries: binding roots, npm packages, source jars and NuGet sources
+ */
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { join } from 'path';
+import { deflateRawSync } from 'zlib';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import {
+    findOwningLibrary,
+    isLibraryStepFile,
+    jarEntryPath,
+    npmPackageDirCandidates,
+    nugetStepLibrary,
+    pickLatestVersion,
+    readNpmStepLibrary,
+    resolveBindingRoot,
+} from '../core/index/stepLibraries';
+import { readZipTextEntries } from '../core/parsing/zipArchive';
+import { createResolver } from '../core/matching/resolver';
+import { parseFeatureDocument } from '../core/parsing/gherkinParser';
+import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
+import { listOrphanBindings } from '../core/references';
+import { createMockDocument } from './mocks/vscode';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+import { buildDiscoverReport } from '../cli/discover';
+
+/** ZIP archive with one deflated member per entry */
+function buildZip(files: Record<string, string>): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const [name, text] of Object.entries(files)) {
+        const nameBytes = Buffer.from(name, 'utf8');
+        const data = deflateRawSync(Buffer.from(text, 'utf8'));
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(text.length, 22);
+        local.writeUInt16LE(nameBytes.length, 26);
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(text.length, 24);
+        central.writeUInt16LE(nameBytes.length, 28);
+        central.writeUInt32LE(offset, 42);
+        locals.push(local, nameBytes, data);
+        centrals.push(central, nameBytes);
+        offset += local.length + nameBytes.length + data.length;
+    }
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, end]);
+}
+
+const STEPS_CS = `using Reqnroll;
+namespace Shop.Steps;
+
+[Binding]
+public class LoginSteps
+{
+    [Given(@"I log in")]
+    public void LogIn() { }
+}
+`;
+
+const STEPS_JAVA = `package com.shop.steps;
+
+import io.cucumber.java.en.Given;
+
+public class CartSteps {
+    @Given("an empty cart")
+    public void emptyCart() { }
+}
+`;
+
+describe('step library discovery', () => {
+    it('resolves binding roots and source jars', () => {
+        expect(resolveBindingRoot('../shared-steps/', '/w/app', '/home/me')).toEqual({
+            kind: 'path',
+            name: 'shared-steps',
+            root: '/w/shared-steps',
+            include: ['**'],
+        });
+        expect(resolveBindingRoot('~/libs/steps-sources.jar', '/w/app', '/home/me')).toMatchObject({
+            kind: 'jar',
+            root: '/home/me/libs/steps-sources.jar',
+        });
+        expect(resolveBindingRoot('  ', '/w/app', '/home/me')).toBeNull();
+    });
+
+    it('reads npm step declarations', () => {
+        expect(
+            readNpmStepLibrary('/w/node_modules/@shop/steps', JSON.stringify({ name: '@shop/steps', bddGuardian: { steps: 'dist/steps' } }))
+        ).toEqual({ kind: 'npm', name: '@shop/steps', root: '/w/node_modules/@shop/steps', include: ['dist/steps'] });
+        expect(readNpmStepLibrary('/w/node_modules/x', JSON.stringify({ name: 'x', keywords: ['cucumber-steps'] }))?.include).toEqual(['**']);
+        expect(readNpmStepLibrary('/w/node_modules/lodash', JSON.stringify({ name: 'lodash' }))).toBeNull();
+        expect(readNpmStepLibrary('/w/node_modules/broken', '{')).toBeNull();
+        expect(npmPackageDirCandidates('/w/packages/a/package.json', '@shop/steps', '/w')).toEqual([
+            '/w/packages/a/node_modules/@shop/steps',
+            '/w/packages/node_modules/@shop/steps',
+            '/w/node_modules/@shop/steps',
+        ]);
+        expect(npmPackageDirCandidates('/elsewhere/package.json', 'x', '/w')).toEqual(['/elsewhere/node_modules/x']);
+    });
+
+    it('selects library files and NuGet source folders', () => {
+        const npm = readNpmStepLibrary('/w/node_modules/s', JSON.stringify({ bddGuardian: { steps: ['steps', 'extra/*.js'] } }))!;
+        expect(isLibraryStepFile(npm, '/w/node_modules/s/steps/login.js')).toBe(true);
+        expect(isLibraryStepFile(npm, '/w/node_modules/s/extra/cart.js')).toBe(true);
+        expect(isLibraryStepFile(npm, '/w/node_modules/s/lib/index.js')).toBe(false);
+
+        const nuget = nugetStepLibrary('Shop.Steps', '/n/shop.steps.sources/2.1.0');
+        expect(isLibraryStepFile(nuget, '/n/shop.steps.sources/2.1.0/contentFiles/cs/any/LoginSteps.cs')).toBe(true);
+        expect(isLibraryStepFile(nuget, '/n/shop.steps.sources/2.1.0/lib/net8.0/Shop.Steps.dll')).toBe(false);
+        expect(pickLatestVersion(['1.9.0', '2.0.0-beta.1', '1.10.0', '2.0.0'])).toBe('2.0.0');
+        expect(pickLatestVersion([])).toBeUndefined();
+
+        const jar = resolveBindingRoot('/libs/steps-sources.jar', '/', '/')!;
+        expect(findOwningLibrary([npm, jar], jarEntryPath('/libs/steps-sources.jar', 'com/A.java'))).toBe(jar);
+        expect(findOwningLibrary([npm, jar], '/w/src/a.js')).toBeUndefined();
+    });
+
+    it('reads text entries of a source jar', () => {
+        const zip = buildZip({ 'com/shop/steps/CartSteps.java': STEPS_JAVA, 'META-INF/MANIFEST.MF': 'Manifest-Version: 1.0' });
+        const entries = readZipTextEntries(zip, (name) => name.endsWith('.java'));
+        expect([...entries.keys()]).toEqual(['com/shop/steps/CartSteps.java']);
+        expect(entries.get('com/shop/steps/CartSteps.java')).toBe(STEPS_JAVA);
+        expect(readZipTextEntries(Buffer.from('not a zip'), () => true).size).toBe(0);
+    });
+});
+
+describe('step library bindings', () => {
+    const stepAt = (featurePath: string) =>
+        parseFeatureDocument(
+            createMockDocument('Feature: F\n  Scenario: S\n    Given I log in', featurePath) as never,
+            { defaultLanguage: 'en' }
+        )!.allSteps[0];
+
+    it('are visible outside framework glue and never orphans', () => {
+        const bindings = parseCSharpBindingsFromText(STEPS_CS, vscode.Uri.file('/libs/LoginSteps.cs')).map((b) => ({
+            ...b,
+            library: true,
+        }));
+        const glueScopes = [{ source: '/w/reqnroll.json', features: ['/w/**/*.feature'], glue: ['/w/**'] }];
+        const resolve = createResolver({ getAllBindings: () => bindings, getBindingsByKeyword: () => bindings, glueScopes });
+        expect(resolve(stepAt('/w/Features/login.feature')).status).toBe('bound');
+        expect(listOrphanBindings(bindings, [], resolve)).toEqual([]);
+    });
+
+    it('loadProject indexes binding roots, npm packages and source jars', () => {
+        const base = mkdtempSync(join(tmpdir(), 'guardian-libraries-'));
+        const write = (rel: string, content: string | Buffer) => {
+            mkdirSync(join(base, rel, '..'), { recursive: true });
+            writeFileSync(join(base, rel), content);
+        };
+        try {
+            write('app/Features/login.feature', 'Feature: F\n  Scenario: S\n    Given I log in\n    And an empty cart\n    And a signed-in user');
+            write('app/Shop.Specs.csproj', '<Project Sdk="Microsoft.NET.Sdk" />');
+            write('shared/LoginSteps.cs', STEPS_CS);
+            write('shared/lib/cart-steps-sources.jar', buildZip({ 'com/shop/steps/CartSteps.java': STEPS_JAVA }));
+            write('app/package.json', JSON.stringify({ name: 'app', devDependencies: { '@shop/steps': '^1.0.0' } }));
+            write(
+                'app/node_modules/@shop/steps/package.json',
+                JSON.stringify({ name: '@shop/steps', bddGuardian: { steps: 'steps' } })
+            );
+            write(
+                'app/node_modules/@shop/steps/steps/user.steps.js',
+                "const { Given } = require('@cucumber/cucumber');\nGiven('a signed-in user', () => {});\n"
+            );
+
+            const withoutRoots = loadProject(join(base, 'app'));
+            expect(withoutRoots.libraries.map((l) => l.kind)).toEqual(['npm']);
+
+            const project = loadProject(join(base, 'app'), { bindingRoots: ['../shared'] });
+            expect(project.bindings.every(({ binding }) => binding.library)).toBe(true);
+            const report = buildAnalyzeReport(project);
+            expect(report.counts).toMatchObject({ steps: 3, bound: 3, orphanBindings: 0 });
+            expect(buildDiscoverReport(project).libraries).toEqual([
+                { kind: 'path', name: 'shared', root: '../shared', bindingCount: 1 },
+                { kind: 'npm', name: '@shop/steps', root: 'node_modules/@shop/steps', bindingCount: 1 },
+                { kind: 'jar', name: 'cart-steps-sources.jar', root: '../shared/lib/cart-steps-sources.jar', bindingCount: 1 },
+            ]);
+        } finally {
+            rmSync(base, { recursive: true, force: true });
+        }
+    });
+
+    it('loadProject finds npm libraries hoisted to the root of a workspace with projects', () => {
+        const base = mkdtempSync(join(tmpdir(), 'guardian-hoisted-'));
+        const write = (rel: string, content: string) => {
+            mkdirSync(join(base, rel, '..'), { recursive: true });
+            writeFileSync(join(base, rel), content);
+        };
+        try {
+            write('package.json', JSON.stringify({ name: 'shop', private: true, workspaces: ['packages/*'] }));
+            write('node_modules/@shop/steps/package.json', JSON.stringify({ name: '@shop/steps', bddGuardian: { steps: 'steps' } }));
+            write(
+                'node_modules/@shop/steps/steps/user.steps.js',
+                "const { Given } = require('@cucumber/cucumber');\nGiven('a signed-in user', () => {});\n"
+            );
+            write('packages/a/package.json', JSON.stringify({ name: 'a', devDependencies: { '@shop/steps': '^1.0.0' } }));
+            write('packages/a/features/x.feature', 'Feature: F\n  Scenario: S\n    Given a signed-in user');
+            write('packages/b/package.json', JSON.stringify({ name: 'b' }));
+
+            const project = loadProject(base);
+            expect(project.projects.length).toBeGreaterThan(1);
+            expect(project.libraries.map((l) => l.name)).toEqual(['@shop/steps']);
+            const report = buildAnalyzeReport(project);
+            expect(report.counts).toMatchObject({ steps: 1, bound: 1, unbound: 0, orphanBindings: 0 });
+        } finally {
+            rmSync(base, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * Cucumber tag expressions — parser, evaluation, tag filter setting, CLI `analyze --tags` and MCP
+ */
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { parseTagExpression, evaluateTagExpression, tagListToExpression } from '../core/parsing/tagExpression';
+import { shouldShowStep, getTagFilterError, getTagFilterExpression } from '../config/settings';
+import { loadProject } from '../cli/loadProject';
+import { buildAnalyzeReport } from '../cli/analyze';
+import { dispatchMcpTool } from '../cli/mcpTools';
+import { runCli } from '../cli/main';
+
+const BINDING_DEMO = join(__dirname, '../../samples/binding-demo');
+
+function matches(expression: string, tags: string[]): boolean {
+    return evaluateTagExpression(parseTagExpression(expression), tags);
+}
+
+describe('parseTagExpression', () => {
+    it('honors not > and > or precedence and parentheses', () => {
+        const expr = '@smoke and not (@wip or @flaky)';
+        expect(matches(expr, ['@smoke'])).toBe(true);
+        expect(matches(expr, ['@smoke', '@flaky'])).toBe(false);
+        expect(matches(expr, ['@wip'])).toBe(false);
+
+        expect(matches('@a or @b and @c', ['@a'])).toBe(true);
+        expect(matches('(@a or @b) and @c', ['@a'])).toBe(false);
+        expect(matches('not @a and @b', ['@b'])).toBe(true);
+    });
+
+    it('compares tags case-insensitively and supports escapes', () => {
+        expect(matches('@Smoke', ['@smoke'])).toBe(true);
+        expect(matches('@odd\\(tag\\)', ['@odd(tag)'])).toBe(true);
+        expect(matches('@a\\ b', ['@a b'])).toBe(true);
+    });
+
+    it('treats an empty expression as match-all', () => {
+        expect(parseTagExpression('   ')).toBeNull();
+        expect(evaluateTagExpression(null, [])).toBe(true);
+    });
+
+    it.each([
+        ['@a and', 'expected a tag after "and" (column 7)'],
+        ['@a @b', 'expected "and" or "or" before "@b" (column 4)'],
+        ['(@a or @b', 'missing ")" (column 10)'],
+        ['@a)', 'unmatched ")" (column 3)'],
+        ['smoke', 'tags must start with "@" (found "smoke") (column 1)'],
+        ['@a and or @b', 'expected a tag but found "or" (column 8)'],
+    ])('rejects %s', (expression, message) => {
+        expect(() => parseTagExpression(expression)).toThrow(`Invalid tag expression "${expression}": ${message}`);
+    });
+});
+
+describe('tag filter setting', () => {
+    it('accepts an expression string', () => {
+        const config = { tags: '@smoke and not @wip', mode: 'include' as const };
+        expect(shouldShowStep(['@smoke'], config)).toBe(true);
+        expect(shouldShowStep(['@smoke', '@WIP'], config)).toBe(false);
+    });
+
+    it('keeps the legacy list with include/exclude mode', () => {
+        expect(tagListToExpression(['@P0', '@smoke'], 'include')).toBe('(@P0) or (@smoke)');
+        expect(getTagFilterExpression({ tags: ['@wip'], mode: 'exclude' })).toBe('not (@wip)');
+        expect(shouldShowStep(['@p0'], { tags: ['@P0', '@smoke'], mode: 'include' })).toBe(true);
+        expect(shouldShowStep(['@other'], { tags: ['@P0', '@smoke'], mode: 'include' })).toBe(false);
+        expect(shouldShowStep(['@wip'], { tags: ['@wip'], mode: 'exclude' })).toBe(false);
+        expect(shouldShowStep([], { tags: [], mode: 'include' })).toBe(true);
+    });
+
+    it('shows everything and reports the error for an invalid expression', () => {
+        const config = { tags: '@smoke and', mode: 'include' as const };
+        expect(shouldShowStep([], config)).toBe(true);
+        expect(getTagFilterError(config)).toContain('expected a tag after "and"');
+        expect(getTagFilterError({ tags: '@smoke', mode: 'include' })).toBeUndefined();
+    });
+});
+
+describe('guardian-cli — tag expressions', () => {
+    it('analyze --tags only counts the selected steps', () => {
+        const project = loadProject(BINDING_DEMO);
+        const all = buildAnalyzeReport(project);
+        const smoke = buildAnalyzeReport(project, { tags: '@smoke' });
+        const notSmoke = buildAnalyzeReport(project, { tags: 'not @smoke' });
+
+        expect(smoke.tags).toBe('@smoke');
+        expect(smoke.counts.steps).toBeGreaterThan(0);
+        expect(smoke.counts.steps + notSmoke.counts.steps).toBe(all.counts.steps);
+        expect(smoke.counts.orphanBindings).toBe(all.counts.orphanBindings);
+    });
+
+    it('selects outline steps per Examples row and reports only the matching rows', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'guardian-tags-'));
+        try {
+            writeFileSync(
+                join(dir, 'cart.feature'),
+                [
+                    'Feature: Cart',
+                    '  Scenario: Empty',
+                    '    Given I have 0 items',
+                    '  Scenario Outline: Add',
+                    '    Given I have <count> items',
+                    '    @smoke',
+                    '    Examples: Quick',
+                    '      | count |',
+                    '      | 1     |',
+                    '    @regression',
+                    '    Examples: Full',
+                    '      | count |',
+                    '      | 2     |',
+                    '      | many  |',
+                ].join('\n'),
+                'utf8'
+            );
+            writeFileSync(
+                join(dir, 'Steps.cs'),
+                '[Binding] public class Steps {\n  [Given(@"I have (\\d+) items")] public void Items(int n) {}\n}',
+                'utf8'
+            );
+            const project = loadProject(dir);
+
+            const smoke = buildAnalyzeReport(project, { tags: '@smoke' });
+            expect(smoke.counts).toMatchObject({ steps: 1, bound: 1, unbound: 0 });
+
+            const regression = buildAnalyzeReport(project, { tags: '@regression' });
+            expect(regression.counts).toMatchObject({ steps: 1, unbound: 1 });
+            expect(regression.unbound[0].exampleRows).toEqual([
+                { line: 14, row: 2, text: 'I have many items', status: 'unbound' },
+            ]);
+
+            const notRegression = buildAnalyzeReport(project, { tags: 'not @regression' });
+            expect(notRegression.counts).toMatchObject({ steps: 2, bound: 2, unbound: 0 });
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('rejects an invalid --tags value as a usage error', () => {
+        const prevErr = console.error;
+        const errors: string[] = [];
+        console.error = (msg?: unknown) => {
+            errors.push(String(msg));
+        };
+        try {
+            expect(runCli(['analyze', BINDING_DEMO, '--tags', '@a and'])).toBe(2);
+            expect(errors[0]).toContain('Invalid tag expression');
+        } finally {
+            console.error = prevErr;
+        }
+    });
+
+    it('guardian_analyze accepts tags', () => {
+        const report = dispatchMcpTool('guardian_analyze', { projectDir: BINDING_DEMO, tags: '@P0 or @P1' }) as {
+            tags: string;
+            counts: { steps: number };
+        };
+        expect(report.tags).toBe('@P0 or @P1');
+        expect(report.counts.steps).toBeGreaterThan(0);
+        expect(() => dispatchMcpTool('guardian_analyze', { projectDir: BINDING_DEMO, tags: '@P0 or' })).toThrow(
+            'Invalid tag expression'
+        );
+    });
+});
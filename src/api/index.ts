@@ -5,10 +5,12 @@ export type {
     GuardianIndexApiV1,
     GuardianIndexSnapshotDto,
     GuardianFeatureDto,
+    GuardianRuleDto,
     GuardianBindingDto,
     GuardianProviderDto,
     GuardianTagDto,
     GuardianStepResolveDto,
     GuardianStepCandidateDto,
+    GuardianExampleRowDto,
     GuardianStepMatchStatus,
 } from './types';
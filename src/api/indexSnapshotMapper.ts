@@ -23,6 +23,13 @@ function mapFeature(feature: FeatureDocument): GuardianFeatureDto {
             type: s.type,
             tags: [...s.tags],
             stepCount: s.steps.length,
+            ...(s.ruleName !== undefined ? { rule: s.ruleName } : {}),
+        })),
+        rules: (feature.rules ?? []).map((r) => ({
+            name: r.name,
+            tags: [...r.tags],
+            scenarioCount: r.scenarios.length,
+            backgroundStepCount: r.backgroundSteps.length,
         })),
     };
 }
@@ -32,6 +39,11 @@ function collectTags(features: readonly GuardianFeatureDto[]): GuardianTagDto[]
 
     for (const feature of features) {
         const tags = new Set<string>([...feature.featureTags]);
+        for (const rule of feature.rules ?? []) {
+            for (const tag of rule.tags) {
+                tags.add(tag);
+            }
+        }
         for (const scenario of feature.scenarios) {
             for (const tag of scenario.tags) {
                 tags.add(tag);
@@ -6,7 +6,7 @@ import * as path from 'path';
 import type { FeatureDocument, MatchStatus, ResolveResult } from '../core/domain/types';
 import { applyMatchingSettings, createResolver } from '../core/matching';
 import { WorkspaceIndex } from '../core/index/workspaceIndex';
-import type { GuardianStepCandidateDto, GuardianStepResolveDto } from './types';
+import type { GuardianExampleRowDto, GuardianStepCandidateDto, GuardianStepResolveDto } from './types';
 
 const MAX_AMBIGUOUS_CANDIDATES = 3;
 
@@ -60,6 +60,16 @@ function mapResolveResult(
         dto.candidates = mapCandidates(result);
     }
 
+    const failingRows = (result.rows ?? []).filter((r) => r.status !== 'bound');
+    if (failingRows.length > 0) {
+        dto.exampleRows = failingRows.map((r) => ({
+            line: r.row.lineNumber,
+            row: r.row.rowNumber,
+            stepText: r.row.text,
+            status: r.status as GuardianExampleRowDto['status'],
+        }));
+    }
+
     return JSON.parse(JSON.stringify(dto)) as GuardianStepResolveDto;
 }
 
@@ -84,6 +94,8 @@ export function resolveStepAtLine(
     const deps = applyMatchingSettings({
         getAllBindings: () => workspaceIndex.getAllBindings(),
         getBindingsByKeyword: (keyword) => workspaceIndex.getBindingsByKeyword(keyword),
+        glueScopes: workspaceIndex.getGlueScopes(),
+        projects: workspaceIndex.getProjects(),
     });
 
     const result = createResolver(deps)(step);
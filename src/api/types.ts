@@ -36,6 +36,17 @@ export interface GuardianStepResolveDto {
     };
     candidateCount?: number;
     candidates?: GuardianStepCandidateDto[];
+    /** Scenario Outline steps: Examples rows that are not bound */
+    exampleRows?: GuardianExampleRowDto[];
+}
+
+export interface GuardianExampleRowDto {
+    /** 0-based line of the Examples row */
+    line: number;
+    /** 1-based row number within its Examples block */
+    row: number;
+    stepText: string;
+    status: Exclude<GuardianStepMatchStatus, 'bound'>;
 }
 
 export interface GuardianIndexSnapshotDto {
@@ -62,7 +73,18 @@ export interface GuardianFeatureDto {
         type: 'Scenario' | 'Scenario Outline';
         tags: string[];
         stepCount: number;
+        /** Enclosing Rule name — omitted for scenarios directly under Feature */
+        rule?: string;
     }[];
+    /** Rule blocks (Gherkin 6+) — optional; present since Guardian v1.12 */
+    rules?: GuardianRuleDto[];
+}
+
+export interface GuardianRuleDto {
+    name: string;
+    tags: string[];
+    scenarioCount: number;
+    backgroundStepCount: number;
 }
 
 export interface GuardianBindingDto {
@@ -1,10 +1,12 @@
 /**
  * analyze — resolve steps + orphan bindings → JSON summary.
+ * Bindings with an unresolvable pattern are listed apart from orphans.
  */
 
 import { createResolver } from '../core/matching/resolver';
 import { listOrphanBindings } from '../core/references/referenceFinder';
-import type { Binding, FeatureStep } from '../core/domain/types';
+import { parseTagExpression, selectStepByTags } from '../core/parsing/tagExpression';
+import type { Binding, FeatureStep, GherkinSyntaxErrorCode, ResolveResult } from '../core/domain/types';
 import type { LoadedProject } from './loadProject';
 import { toPosixRelative } from './loadProject';
 import { CLI_SCHEMA_VERSION } from './discover';
@@ -16,6 +18,35 @@ export interface AnalyzeStepRow {
     line: number;
     text: string;
     matchCount?: number;
+    /** Outline steps: the Examples rows that are not bound */
+    exampleRows?: AnalyzeExampleRow[];
+}
+
+export interface AnalyzeExampleRow {
+    /** 1-based line of the Examples row */
+    line: number;
+    /** 1-based row number within its Examples block */
+    row: number;
+    text: string;
+    status: 'unbound' | 'ambiguous';
+    matchCount?: number;
+}
+
+export interface AnalyzeSyntaxErrorRow {
+    feature: string;
+    /** 1-based line */
+    line: number;
+    code: GherkinSyntaxErrorCode;
+    message: string;
+}
+
+/** Examples block with more rows than maxExampleRows: the rows beyond the cap are not resolved */
+export interface AnalyzeTruncatedExamplesRow {
+    feature: string;
+    /** 1-based line of the Examples: keyword */
+    line: number;
+    resolvedRows: number;
+    totalRows: number;
 }
 
 export interface AnalyzeOrphanRow {
@@ -26,6 +57,8 @@ export interface AnalyzeOrphanRow {
 export interface AnalyzeReport {
     schemaVersion: number;
     projectDir: string;
+    /** Tag expression that selected the steps (only when --tags is given) */
+    tags?: string;
     counts: {
         features: number;
         steps: number;
@@ -34,20 +67,43 @@ export interface AnalyzeReport {
         unbound: number;
         ambiguous: number;
         orphanBindings: number;
+        unresolvablePatterns: number;
+        syntaxErrors: number;
+        truncatedExamples: number;
     };
     unbound: AnalyzeStepRow[];
     ambiguous: AnalyzeStepRow[];
     orphans: AnalyzeOrphanRow[];
+    /** C# bindings whose pattern constants could not be resolved (pattern = the expression) */
+    unresolvablePatterns: AnalyzeOrphanRow[];
+    syntaxErrors: AnalyzeSyntaxErrorRow[];
+    truncatedExamples: AnalyzeTruncatedExamplesRow[];
 }
 
 export interface AnalyzeOptions {
     maxItems?: number;
+    /** Cucumber tag expression; only matching steps are resolved and counted */
+    tags?: string;
 }
 
 function cap<T>(items: T[], max: number): T[] {
     return items.length <= max ? items : items.slice(0, max);
 }
 
+function mapFailingRows(result: ResolveResult): AnalyzeExampleRow[] | undefined {
+    const failing = (result.rows ?? []).filter((r) => r.status !== 'bound');
+    if (failing.length === 0) {
+        return undefined;
+    }
+    return failing.map((r) => ({
+        line: r.row.lineNumber + 1,
+        row: r.row.rowNumber,
+        text: r.row.text,
+        status: r.status as AnalyzeExampleRow['status'],
+        ...(r.status === 'ambiguous' ? { matchCount: r.candidates.length } : {}),
+    }));
+}
+
 export function buildAnalyzeReport(
     project: LoadedProject,
     options: AnalyzeOptions = {}
@@ -55,18 +111,23 @@ export function buildAnalyzeReport(
     const maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
     const bindings: Binding[] = project.bindings.map((b) => b.binding);
     const allSteps: FeatureStep[] = project.features.flatMap((f) => f.allSteps);
+    const tagExpression = options.tags ? parseTagExpression(options.tags) : null;
+    // Outline steps are selected per Examples row: only the matching rows are resolved and reported
+    const selectedSteps = allSteps.flatMap((s) => selectStepByTags(tagExpression, s) ?? []);
 
     const resolve = createResolver({
         getAllBindings: () => bindings,
         getBindingsByKeyword: (kw) => bindings.filter((b) => b.keyword === kw),
         preferSpecificBinding: false,
+        glueScopes: project.glueScopes,
+        projects: project.projects,
     });
 
     const unbound: AnalyzeStepRow[] = [];
     const ambiguous: AnalyzeStepRow[] = [];
     let bound = 0;
 
-    for (const step of allSteps) {
+    for (const step of selectedSteps) {
         const result = resolve(step);
         const feature = toPosixRelative(project.projectDir, step.uri.fsPath);
         const row: AnalyzeStepRow = {
@@ -74,6 +135,10 @@ export function buildAnalyzeReport(
             line: step.lineNumber + 1,
             text: step.rawText,
         };
+        const exampleRows = mapFailingRows(result);
+        if (exampleRows) {
+            row.exampleRows = exampleRows;
+        }
         if (result.status === 'bound') {
             bound++;
         } else if (result.status === 'unbound') {
@@ -83,26 +148,58 @@ export function buildAnalyzeReport(
         }
     }
 
+    // Orphans look at every step: a binding used only outside the tag selection is still used
     const orphanBindings = listOrphanBindings(bindings, allSteps, resolve);
-    const orphans: AnalyzeOrphanRow[] = orphanBindings.map((b) => ({
+    const toRow = (b: Binding): AnalyzeOrphanRow => ({
         path: toPosixRelative(project.projectDir, b.uri.fsPath),
         pattern: b.patternRaw,
-    }));
+    });
+    const orphans = orphanBindings.filter((b) => !b.patternUnresolved).map(toRow);
+    const unresolvablePatterns = bindings.filter((b) => b.patternUnresolved).map(toRow);
+
+    const syntaxErrors: AnalyzeSyntaxErrorRow[] = project.features.flatMap((f) =>
+        f.syntaxErrors.map((e) => ({
+            feature: toPosixRelative(project.projectDir, f.uri.fsPath),
+            line: e.lineNumber + 1,
+            code: e.code,
+            message: e.message,
+        }))
+    );
+
+    const truncatedExamples: AnalyzeTruncatedExamplesRow[] = project.features.flatMap((f) =>
+        f.scenarios.flatMap((s) =>
+            s.examples
+                .filter((e) => e.totalRowCount !== undefined && e.totalRowCount > e.rows.length)
+                .map((e) => ({
+                    feature: toPosixRelative(project.projectDir, f.uri.fsPath),
+                    line: (e.lineNumber ?? s.range.start.line) + 1,
+                    resolvedRows: e.rows.length,
+                    totalRows: e.totalRowCount!,
+                }))
+        )
+    );
 
     return {
         schemaVersion: CLI_SCHEMA_VERSION,
         projectDir: project.projectDir,
+        ...(options.tags ? { tags: options.tags } : {}),
         counts: {
             features: project.features.length,
-            steps: allSteps.length,
+            steps: selectedSteps.length,
             bindings: bindings.length,
             bound,
             unbound: unbound.length,
             ambiguous: ambiguous.length,
             orphanBindings: orphans.length,
+            unresolvablePatterns: unresolvablePatterns.length,
+            syntaxErrors: syntaxErrors.length,
+            truncatedExamples: truncatedExamples.length,
         },
         unbound: cap(unbound, maxItems),
         ambiguous: cap(ambiguous, maxItems),
         orphans: cap(orphans, maxItems),
+        unresolvablePatterns: cap(unresolvablePatterns, maxItems),
+        syntaxErrors: cap(syntaxErrors, maxItems),
+        truncatedExamples: cap(truncatedExamples, maxItems),
     };
 }
@@ -4,12 +4,23 @@
 
 import type { LoadedProject } from './loadProject';
 import { toPosixRelative } from './loadProject';
+import { findOwningProject } from '../core/matching/projectScope';
+import { findOwningLibrary } from '../core/index/stepLibraries';
 
 export const CLI_SCHEMA_VERSION = 1;
 
+export interface DiscoverRuleRow {
+    name: string;
+    line: number;
+    tags: string[];
+    scenarioCount: number;
+}
+
 export interface DiscoverFeatureRow {
     path: string;
     stepCount: number;
+    scenarioCount: number;
+    rules: DiscoverRuleRow[];
 }
 
 export interface DiscoverBindingRow {
@@ -18,18 +29,52 @@ export interface DiscoverBindingRow {
     providerId: string;
 }
 
+export interface DiscoverGlueScopeRow {
+    source: string;
+    profile: string | null;
+    runner: string | null;
+    features: string[];
+    glue: string[];
+    language: string | null;
+}
+
+export interface DiscoverProjectRow {
+    root: string;
+    name: string;
+    kind: string;
+    dependencies: string[];
+    bindingCount: number;
+}
+
+export interface DiscoverLibraryRow {
+    kind: string;
+    name: string;
+    root: string;
+    bindingCount: number;
+}
+
 export interface DiscoverReport {
     schemaVersion: number;
     projectDir: string;
     features: DiscoverFeatureRow[];
     bindings: DiscoverBindingRow[];
     providersDetected: string[];
+    glueScopes: DiscoverGlueScopeRow[];
+    projects: DiscoverProjectRow[];
+    libraries: DiscoverLibraryRow[];
 }
 
 export function buildDiscoverReport(project: LoadedProject): DiscoverReport {
     const features = project.features.map((f, i) => ({
         path: toPosixRelative(project.projectDir, project.featurePaths[i] ?? f.uri.fsPath),
         stepCount: f.allSteps.length,
+        scenarioCount: f.scenarios.length,
+        rules: (f.rules ?? []).map((r) => ({
+            name: r.name,
+            line: r.range.start.line,
+            tags: [...r.tags],
+            scenarioCount: r.scenarios.length,
+        })),
     }));
 
     const bindings = project.bindings.map(({ binding, providerId }) => ({
@@ -38,11 +83,43 @@ export function buildDiscoverReport(project: LoadedProject): DiscoverReport {
         providerId,
     }));
 
+    const glueScopes = project.glueScopes.map((scope) => ({
+        source: toPosixRelative(project.projectDir, scope.source),
+        profile: scope.profile ?? null,
+        runner: scope.runner ?? null,
+        features: scope.features.map((p) => toPosixRelative(project.projectDir, p)),
+        glue: scope.glue.map((p) => toPosixRelative(project.projectDir, p)),
+        language: scope.language ?? null,
+    }));
+
+    const relativeRoot = (root: string) => toPosixRelative(project.projectDir, root) || '.';
+    const projects = project.projects.map((p) => ({
+        root: relativeRoot(p.root),
+        name: p.name,
+        kind: p.kind,
+        dependencies: p.dependencies.map(relativeRoot),
+        bindingCount: project.bindings.filter(
+            ({ binding }) => findOwningProject(project.projects, binding.uri.fsPath) === p
+        ).length,
+    }));
+
+    const libraries = project.libraries.map((library) => ({
+        kind: library.kind,
+        name: library.name,
+        root: toPosixRelative(project.projectDir, library.root),
+        bindingCount: project.bindings.filter(
+            ({ binding }) => binding.library && findOwningLibrary(project.libraries, binding.uri.fsPath) === library
+        ).length,
+    }));
+
     return {
         schemaVersion: CLI_SCHEMA_VERSION,
         projectDir: project.projectDir,
         features,
         bindings,
         providersDetected: [...project.providersDetected],
+        glueScopes,
+        projects,
+        libraries,
     };
 }
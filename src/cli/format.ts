@@ -0,0 +1,59 @@
+/**
+ * format — rewrite .feature files with the shared formatter, or report them with --check.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatFeatureText, type FeatureFormatOptions } from '../core/formatting';
+import { isFeaturePath, toPosixRelative, walkProjectFiles } from './loadProject';
+import { CLI_SCHEMA_VERSION } from './discover';
+
+export interface FormatOptions extends FeatureFormatOptions {
+    /** Report files that need formatting without writing them */
+    check?: boolean;
+}
+
+export interface FormatReport {
+    schemaVersion: number;
+    projectDir: string;
+    check: boolean;
+    counts: {
+        features: number;
+        changed: number;
+    };
+    /** Files that were rewritten (or would be, with --check) */
+    changed: string[];
+}
+
+export function runFormat(projectDir: string, options: FormatOptions = {}): FormatReport {
+    const root = path.resolve(projectDir);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+        throw new Error(`project directory not found: ${projectDir}`);
+    }
+
+    const featurePaths = walkProjectFiles(root).filter(isFeaturePath).sort();
+    const changed: string[] = [];
+
+    for (const featurePath of featurePaths) {
+        const text = fs.readFileSync(featurePath, 'utf8');
+        const formatted = formatFeatureText(text, options);
+        if (formatted === text) {
+            continue;
+        }
+        changed.push(toPosixRelative(root, featurePath));
+        if (!options.check) {
+            fs.writeFileSync(featurePath, formatted, 'utf8');
+        }
+    }
+
+    return {
+        schemaVersion: CLI_SCHEMA_VERSION,
+        projectDir: root,
+        check: options.check ?? false,
+        counts: {
+            features: featurePaths.length,
+            changed: changed.length,
+        },
+        changed,
+    };
+}
@@ -3,14 +3,77 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { parseFeatureDocument } from '../core/parsing/gherkinParser';
-import { parseCSharpBindingsFromText } from '../core/parsing/csharpBindingParser';
-import { parseJsCucumberBindingsFromText } from '../core/parsing/jsCucumberBindingParser';
-import { parsePythonBehaveBindingsFromText } from '../core/parsing/pythonBehaveBindingParser';
+import {
+    linkCSharpBindings,
+    parseCSharpBindingsFromText,
+    parseCSharpClassDeclarationsFromText,
+    parseCSharpParameterTypesFromText,
+} from '../core/parsing/csharpBindingParser';
+import { parseJsCucumberBindingsFromText, parseJsParameterTypesFromText } from '../core/parsing/jsCucumberBindingParser';
+import {
+    parsePythonBehaveBindingsFromText,
+    parsePythonBehaveParameterTypesFromText,
+} from '../core/parsing/pythonBehaveBindingParser';
+import { parsePythonPytestBddBindingsFromText } from '../core/parsing/pythonPytestBddBindingParser';
 import { parseGoGodogBindingsFromText } from '../core/parsing/goGodogBindingParser';
-import { parseJavaCucumberBindingsFromText } from '../core/parsing/javaCucumberBindingParser';
-import type { Binding, FeatureDocument } from '../core/domain/types';
+import { parseJavaCucumberBindingsFromText, parseJavaParameterTypesFromText } from '../core/parsing/javaCucumberBindingParser';
+import {
+    parseKotlinCucumberBindingsFromText,
+    parseKotlinParameterTypesFromText,
+} from '../core/parsing/kotlinCucumberBindingParser';
+import { parsePhpBehatBindingsFromText } from '../core/parsing/phpBehatBindingParser';
+import {
+    parseRustCucumberBindingsFromText,
+    parseRustCucumberParameterTypesFromText,
+} from '../core/parsing/rustCucumberBindingParser';
+import {
+    parseRubyCucumberBindingsFromText,
+    parseRubyParameterTypesFromText,
+} from '../core/parsing/rubyCucumberBindingParser';
+import { applyParameterTypes } from '../core/parsing/parameterTypes';
+import {
+    buildGlueScopes,
+    isFrameworkConfigFileName,
+    parseFrameworkConfig,
+    readCsprojAssemblyName,
+    type FrameworkConfig,
+} from '../core/parsing/frameworkConfigParser';
+import {
+    buildBddProjects,
+    isProjectManifestFileName,
+    parseProjectManifest,
+    type ProjectManifest,
+} from '../core/parsing/projectManifestParser';
+import {
+    getNuGetPackagesRoot,
+    isLibraryStepFile,
+    isSourcesJarName,
+    jarEntryPath,
+    jarStepLibrary,
+    LIBRARY_SKIP_DIR_NAMES,
+    MAX_LIBRARY_FILES,
+    npmPackageDirCandidates,
+    NUGET_SOURCE_FOLDERS,
+    nugetSourcePackageIds,
+    nugetStepLibrary,
+    pickLatestVersion,
+    readNpmStepLibrary,
+    resolveBindingRoot,
+} from '../core/index/stepLibraries';
+import { readZipTextEntries } from '../core/parsing/zipArchive';
+import { getGlueScopeLanguage, matchesAnyGlob, splitGlobBase, toGluePath } from '../core/matching/glueScope';
+import type {
+    BddProject,
+    Binding,
+    BindingClassDeclaration,
+    FeatureDocument,
+    GlueScope,
+    ParameterTypeDefinition,
+    StepLibrary,
+} from '../core/domain/types';
 import type { BindingProviderId } from '../providers/bindings/types';
 import { fileUri, makeTextDocument } from './textDocument';
 
@@ -39,8 +102,30 @@ export interface LoadedProject {
     readonly features: FeatureDocument[];
     readonly bindings: LoadedBinding[];
     readonly providersDetected: BindingProviderId[];
+    /** Custom parameter types found in binding files (already applied to `bindings`) */
+    readonly parameterTypes: ParameterTypeDefinition[];
     readonly featurePaths: string[];
     readonly bindingPaths: string[];
+    /** Feature / glue scopes from framework configuration files */
+    readonly glueScopes: GlueScope[];
+    /** Project boundaries (manifest directories and the project directory); empty when disabled */
+    readonly projects: BddProject[];
+    /** Shared step libraries read besides the project files (their bindings have `library: true`) */
+    readonly libraries: StepLibrary[];
+}
+
+export interface LoadProjectOptions {
+    /**
+     * Gherkin dialect for feature files without a `# language:` header; overrides the language
+     * of framework configuration files (default: that language, otherwise "en")
+     */
+    readonly defaultLanguage?: string;
+    /** Rows resolved per Examples block (default MAX_EXAMPLE_ROWS) */
+    readonly maxExampleRows?: number;
+    /** Resolve features against their own project and referenced projects only (default true) */
+    readonly projectScope?: boolean;
+    /** Extra directories or source jars with shared steps (relative to the project directory, `~` allowed) */
+    readonly bindingRoots?: readonly string[];
 }
 
 export function toPosixRelative(projectDir: string, absPath: string): string {
@@ -53,9 +138,13 @@ export function pathsEqual(a: string, b: string): boolean {
 }
 
 export function walkProjectFiles(projectDir: string): string[] {
-    const root = path.resolve(projectDir);
     const results: string[] = [];
+    walkDirectory(path.resolve(projectDir), results);
+    return results;
+}
 
+/** Add the files below `root` to `results` (skips `EXCLUDE_DIR_NAMES` below `root`, up to MAX_FILES) */
+function walkDirectory(root: string, results: string[]): void {
     function walk(dir: string): void {
         if (results.length >= MAX_FILES) {
             return;
@@ -85,10 +174,9 @@ export function walkProjectFiles(projectDir: string): string[] {
     }
 
     walk(root);
-    return results;
 }
 
-function isFeaturePath(filePath: string): boolean {
+export function isFeaturePath(filePath: string): boolean {
     return filePath.toLowerCase().endsWith('.feature');
 }
 
@@ -97,11 +185,27 @@ function isLikelyBindingPath(filePath: string): boolean {
     if (lower.endsWith('.cs')) {
         return true;
     }
-    if (lower.endsWith('.java')) {
+    if (lower.endsWith('.java') || lower.endsWith('.kt')) {
         return lower.includes('step') || lower.includes('/test/') || lower.includes('\\test\\');
     }
     if (lower.endsWith('.py')) {
-        return lower.includes('step') || lower.includes('/features/');
+        const name = path.basename(lower);
+        return (
+            lower.includes('step') ||
+            lower.includes('/features/') ||
+            name === 'conftest.py' ||
+            name.startsWith('test_') ||
+            name.endsWith('_test.py')
+        );
+    }
+    if (lower.endsWith('.php')) {
+        return lower.includes('context') || lower.includes('behat') || /[/\\]bootstrap[/\\]/.test(lower);
+    }
+    if (lower.endsWith('.rs')) {
+        return lower.includes('step') || /[/\\]tests[/\\]/.test(lower);
+    }
+    if (lower.endsWith('.rb')) {
+        return /[/\\]features[/\\](?:step_definitions|support)[/\\]/.test(lower) || lower.endsWith('_steps.rb');
     }
     if (lower.endsWith('.go')) {
         return lower.endsWith('_test.go') || lower.includes('step') || lower.includes('/features/');
@@ -113,7 +217,9 @@ function isLikelyBindingPath(filePath: string): boolean {
         return (
             lower.includes('step') ||
             lower.includes('step_definitions') ||
-            lower.includes('stepdefinitions')
+            lower.includes('stepdefinitions') ||
+            lower.includes('parameter') ||
+            /[/\\](?:support|cypress)[/\\]/.test(lower)
         );
     }
     return false;
@@ -146,6 +252,10 @@ function parseBindingsForFile(
             return { providerId: 'js-cucumber', bindings };
         }
         if (lower.endsWith('.py')) {
+            const pytestBddBindings = parsePythonPytestBddBindingsFromText(text, uri);
+            if (pytestBddBindings.length > 0) {
+                return { providerId: 'python-pytestbdd', bindings: pytestBddBindings };
+            }
             const bindings = parsePythonBehaveBindingsFromText(text, uri);
             if (bindings.length === 0) {
                 return null;
@@ -166,12 +276,274 @@ function parseBindingsForFile(
             }
             return { providerId: 'java-cucumber', bindings };
         }
+        if (lower.endsWith('.kt')) {
+            const bindings = parseKotlinCucumberBindingsFromText(text, uri);
+            if (bindings.length === 0) {
+                return null;
+            }
+            return { providerId: 'java-cucumber', bindings };
+        }
+        if (lower.endsWith('.php')) {
+            const bindings = parsePhpBehatBindingsFromText(text, uri);
+            if (bindings.length === 0) {
+                return null;
+            }
+            return { providerId: 'php-behat', bindings };
+        }
+        if (lower.endsWith('.rs')) {
+            const bindings = parseRustCucumberBindingsFromText(text, uri);
+            if (bindings.length === 0) {
+                return null;
+            }
+            return { providerId: 'rust-cucumber', bindings };
+        }
+        if (lower.endsWith('.rb')) {
+            const bindings = parseRubyCucumberBindingsFromText(text, uri);
+            if (bindings.length === 0) {
+                return null;
+            }
+            return { providerId: 'ruby-cucumber', bindings };
+        }
     } catch {
         return null;
     }
     return null;
 }
 
+/** C# patterns built from constants in other files and inherited steps (see `linkCSharpBindings`) */
+function linkCSharpBindingFiles(
+    loaded: readonly LoadedBinding[],
+    classes: readonly BindingClassDeclaration[]
+): LoadedBinding[] {
+    if (classes.length === 0) {
+        return [...loaded];
+    }
+    const linked = loaded.filter((l) => l.providerId !== 'csharp-reqnroll' && l.providerId !== 'csharp-specflow');
+    for (const providerId of ['csharp-reqnroll', 'csharp-specflow'] as const) {
+        const bindings = loaded.filter((l) => l.providerId === providerId).map((l) => l.binding);
+        if (bindings.length > 0) {
+            linked.push(...linkCSharpBindings(bindings, classes).map((binding) => ({ binding, providerId })));
+        }
+    }
+    return linked;
+}
+
+function parseParameterTypesForFile(absPath: string, text: string): ParameterTypeDefinition[] {
+    const lower = absPath.toLowerCase();
+    const uri = fileUri(absPath) as never;
+
+    try {
+        if (lower.endsWith('.cs')) {
+            return parseCSharpParameterTypesFromText(text, uri);
+        }
+        if (lower.endsWith('.ts') || lower.endsWith('.js') || lower.endsWith('.mjs') || lower.endsWith('.cjs')) {
+            return parseJsParameterTypesFromText(text, uri);
+        }
+        if (lower.endsWith('.py')) {
+            return parsePythonBehaveParameterTypesFromText(text, uri);
+        }
+        if (lower.endsWith('.java')) {
+            return parseJavaParameterTypesFromText(text, uri);
+        }
+        if (lower.endsWith('.kt')) {
+            return parseKotlinParameterTypesFromText(text, uri);
+        }
+        if (lower.endsWith('.rs')) {
+            return parseRustCucumberParameterTypesFromText(text, uri);
+        }
+        if (lower.endsWith('.rb')) {
+            return parseRubyParameterTypesFromText(text, uri);
+        }
+    } catch {
+        return [];
+    }
+    return [];
+}
+
+/**
+ * Glue scopes of the framework configuration files among `files`
+ * (Reqnroll binding assemblies are looked up in the `.csproj` files).
+ */
+function loadGlueScopes(files: readonly string[]): GlueScope[] {
+    const configs: Array<{ abs: string; parsed: FrameworkConfig[] }> = [];
+    for (const abs of files) {
+        if (!isFrameworkConfigFileName(abs)) {
+            continue;
+        }
+        const text = readText(abs);
+        const parsed = text === null ? [] : parseFrameworkConfig(abs, text);
+        if (parsed.length > 0) {
+            configs.push({ abs, parsed });
+        }
+    }
+    if (configs.length === 0) {
+        return [];
+    }
+
+    const assemblyDirs = new Map<string, string>();
+    if (configs.some(({ parsed }) => parsed.some((c) => (c.bindingAssemblies?.length ?? 0) > 0))) {
+        for (const abs of files) {
+            const text = abs.toLowerCase().endsWith('.csproj') ? readText(abs) : null;
+            if (text !== null) {
+                assemblyDirs.set(readCsprojAssemblyName(abs, text), path.dirname(abs));
+            }
+        }
+    }
+    return configs.flatMap(({ abs, parsed }) => buildGlueScopes(abs, parsed, assemblyDirs));
+}
+
+/**
+ * Directories named by glue scopes that the walk skipped: inside an excluded directory
+ * (`dist/steps`) or outside the project (`../shared/steps`).
+ */
+function findExtraScopeRoots(root: string, scopes: readonly GlueScope[]): string[] {
+    const roots = new Set<string>();
+    for (const glob of scopes.flatMap((scope) => [...scope.features, ...scope.glue])) {
+        const base = path.resolve(splitGlobBase(glob).base);
+        const relative = path.relative(root, base);
+        const outside = relative.startsWith('..') || path.isAbsolute(relative);
+        const excluded = relative.split(path.sep).some((segment) => EXCLUDE_DIR_NAMES.has(segment));
+        if ((outside || excluded) && fs.existsSync(base) && fs.statSync(base).isDirectory()) {
+            roots.add(base);
+        }
+    }
+    // nested roots are walked with their parent
+    return [...roots].filter((dir) => ![...roots].some((other) => other !== dir && dir.startsWith(other + path.sep)));
+}
+
+/** Project boundaries of the manifests among `files`, plus the project directory itself */
+function loadProjects(root: string, files: readonly string[]): BddProject[] {
+    const manifests: Array<{ path: string; manifest: ProjectManifest }> = [];
+    for (const abs of files) {
+        if (!isProjectManifestFileName(abs)) {
+            continue;
+        }
+        const text = readText(abs);
+        const manifest = text === null ? null : parseProjectManifest(abs, text);
+        if (manifest) {
+            manifests.push({ path: abs, manifest });
+        }
+    }
+    return buildBddProjects(manifests, [root]);
+}
+
+/**
+ * Shared step libraries: binding roots, npm dependencies declaring steps, and NuGet sources of
+ * Reqnroll / SpecFlow binding assemblies no project of the walk builds.
+ */
+function loadStepLibraries(root: string, files: readonly string[], bindingRoots: readonly string[]): StepLibrary[] {
+    const libraries = new Map<string, StepLibrary>();
+    const add = (library: StepLibrary | null) => {
+        if (library && !libraries.has(library.root) && fs.existsSync(library.root)) {
+            libraries.set(library.root, library);
+        }
+    };
+
+    for (const entry of bindingRoots) {
+        add(resolveBindingRoot(entry, root, os.homedir()));
+    }
+
+    const assemblies = new Set<string>();
+    const projectAssemblies = new Set<string>();
+    for (const abs of files) {
+        const name = path.basename(abs);
+        if (name === 'package.json') {
+            const text = readText(abs);
+            const manifest = text === null ? null : parseProjectManifest(abs, text);
+            for (const dependency of manifest?.dependencyNames ?? []) {
+                for (const packageDir of npmPackageDirCandidates(abs, dependency, root)) {
+                    const packageJson = readText(path.join(packageDir, 'package.json'));
+                    if (packageJson !== null) {
+                        add(readNpmStepLibrary(packageDir, packageJson));
+                        break;
+                    }
+                }
+            }
+        } else if (name === 'reqnroll.json' || name === 'specflow.json') {
+            const text = readText(abs);
+            for (const config of text === null ? [] : parseFrameworkConfig(abs, text)) {
+                config.bindingAssemblies?.forEach((assembly) => assemblies.add(assembly));
+            }
+        } else if (name.toLowerCase().endsWith('.csproj')) {
+            const text = readText(abs);
+            if (text !== null) {
+                projectAssemblies.add(readCsprojAssemblyName(abs, text));
+            }
+        }
+    }
+
+    const nugetRoot = getNuGetPackagesRoot(process.env, os.homedir());
+    for (const assembly of [...assemblies].filter((a) => !projectAssemblies.has(a))) {
+        for (const id of nugetSourcePackageIds(assembly)) {
+            const packageDir = path.join(nugetRoot, id);
+            const version = pickLatestVersion(listDirectories(packageDir));
+            const versionDir = version ? path.join(packageDir, version) : null;
+            if (versionDir && NUGET_SOURCE_FOLDERS.some((folder) => fs.existsSync(path.join(versionDir, folder)))) {
+                add(nugetStepLibrary(assembly, versionDir));
+                break;
+            }
+        }
+    }
+    return [...libraries.values()];
+}
+
+/**
+ * Step files of a library (source jar entries as `<jar>!/<entry>`). `*-sources.jar` files of a
+ * directory library are added to `libraries` and read on their own turn.
+ */
+function readLibraryFiles(library: StepLibrary, libraries: StepLibrary[]): Array<{ abs: string; text: string }> {
+    if (library.kind === 'jar') {
+        let data: Buffer;
+        try {
+            data = fs.readFileSync(library.root);
+        } catch {
+            return [];
+        }
+        const entries = readZipTextEntries(data, (name) => /\.(?:java|kt)$/i.test(name));
+        return [...entries].slice(0, MAX_LIBRARY_FILES).map(([name, text]) => ({ abs: jarEntryPath(library.root, name), text }));
+    }
+
+    const files: Array<{ abs: string; text: string }> = [];
+    const walk = (dir: string): void => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (files.length >= MAX_LIBRARY_FILES) {
+                return;
+            }
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!LIBRARY_SKIP_DIR_NAMES.has(entry.name)) {
+                    walk(full);
+                }
+            } else if (library.kind === 'path' && isSourcesJarName(entry.name)) {
+                if (!libraries.some((l) => l.root === toGluePath(full))) {
+                    libraries.push(jarStepLibrary(full));
+                }
+            } else if (entry.isFile() && !entry.name.endsWith('.d.ts') && isLibraryStepFile(library, full)) {
+                const text = readText(full);
+                if (text !== null) {
+                    files.push({ abs: full, text });
+                }
+            }
+        }
+    };
+    walk(library.root);
+    return files;
+}
+
+function listDirectories(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true }).filter((e) => e.isDirectory()).map((e) => e.name);
+    } catch {
+        return [];
+    }
+}
+
 function readText(absPath: string): string | null {
     try {
         return fs.readFileSync(absPath, 'utf8');
@@ -183,18 +555,48 @@ function readText(absPath: string): string | null {
 /**
  * Load features + bindings from a project directory (fail-soft on unreadable files).
  */
-export function loadProject(projectDir: string): LoadedProject {
+export function loadProject(projectDir: string, options: LoadProjectOptions = {}): LoadedProject {
     const root = path.resolve(projectDir);
     if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
         throw new Error(`project directory not found: ${projectDir}`);
     }
 
-    const files = walkProjectFiles(root);
+    const walked = walkProjectFiles(root);
+    const glueScopes = loadGlueScopes(walked);
+    const projects = options.projectScope === false ? [] : loadProjects(root, walked);
+    const libraries = loadStepLibraries(root, walked, options.bindingRoots ?? []);
+    const files = [...walked];
+    for (const extra of findExtraScopeRoots(root, glueScopes)) {
+        const known = new Set(files);
+        const found: string[] = [];
+        walkDirectory(extra, found);
+        files.push(...found.filter((f) => !known.has(f)));
+    }
+    const glue = glueScopes.flatMap((scope) => scope.glue);
+
     const features: FeatureDocument[] = [];
     const featurePaths: string[] = [];
     const loaded: LoadedBinding[] = [];
     const bindingPaths: string[] = [];
     const providers = new Set<BindingProviderId>();
+    const parameterTypes: ParameterTypeDefinition[] = [];
+    const csharpClasses: BindingClassDeclaration[] = [];
+
+    function addBindingFile(abs: string, text: string, library: boolean): void {
+        parameterTypes.push(...parseParameterTypesForFile(abs, text));
+        if (abs.toLowerCase().endsWith('.cs')) {
+            csharpClasses.push(...parseCSharpClassDeclarationsFromText(text, fileUri(abs) as never));
+        }
+        const parsed = parseBindingsForFile(abs, text);
+        if (!parsed || parsed.bindings.length === 0) {
+            return;
+        }
+        providers.add(parsed.providerId);
+        bindingPaths.push(abs);
+        for (const binding of parsed.bindings) {
+            loaded.push({ binding: library ? { ...binding, library } : binding, providerId: parsed.providerId });
+        }
+    }
 
     for (const abs of files) {
         if (isFeaturePath(abs)) {
@@ -204,7 +606,10 @@ export function loadProject(projectDir: string): LoadedProject {
             }
             try {
                 const doc = makeTextDocument(abs, text) as never;
-                const parsed = parseFeatureDocument(doc);
+                const parsed = parseFeatureDocument(doc, {
+                    defaultLanguage: options.defaultLanguage ?? getGlueScopeLanguage(glueScopes, abs),
+                    maxExampleRows: options.maxExampleRows,
+                });
                 if (parsed) {
                     features.push(parsed);
                     featurePaths.push(abs);
@@ -215,30 +620,42 @@ export function loadProject(projectDir: string): LoadedProject {
             continue;
         }
 
-        if (!isLikelyBindingPath(abs)) {
+        if (!isLikelyBindingPath(abs) && !matchesAnyGlob(abs, glue)) {
             continue;
         }
         const text = readText(abs);
-        if (text === null) {
-            continue;
-        }
-        const parsed = parseBindingsForFile(abs, text);
-        if (!parsed || parsed.bindings.length === 0) {
-            continue;
+        if (text !== null) {
+            addBindingFile(abs, text, false);
         }
-        providers.add(parsed.providerId);
-        bindingPaths.push(abs);
-        for (const binding of parsed.bindings) {
-            loaded.push({ binding, providerId: parsed.providerId });
+    }
+
+    // Shared step libraries: read-only, after the project's own files (which win on overlap)
+    const indexed = new Set(bindingPaths);
+    for (const library of libraries) {
+        for (const { abs, text } of readLibraryFiles(library, libraries)) {
+            if (!indexed.has(abs)) {
+                indexed.add(abs);
+                addBindingFile(abs, text, true);
+            }
         }
     }
 
+    const linked = linkCSharpBindingFiles(loaded, csharpClasses);
+    const compiled = applyParameterTypes(
+        linked.map((l) => l.binding),
+        parameterTypes
+    );
+
     return {
         projectDir: root,
         features,
-        bindings: loaded,
+        bindings: linked.map((l, i) => ({ ...l, binding: compiled[i] })),
         providersDetected: [...providers].sort(),
+        parameterTypes,
         featurePaths,
         bindingPaths,
+        glueScopes,
+        projects,
+        libraries,
     };
 }
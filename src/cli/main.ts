@@ -8,17 +8,29 @@ import { buildDiscoverReport } from './discover';
 import { buildAnalyzeReport, DEFAULT_MAX_ITEMS } from './analyze';
 import { buildResolveStepReport } from './resolveStep';
 import { buildCoachAnalyzeReport } from './coachAnalyze';
+import { runFormat } from './format';
+import { DEFAULT_FORMAT_INDENT_SIZE } from '../core/formatting';
+import { getGherkinDialect } from '../core/parsing/gherkinDialects';
+import { parseTagExpression } from '../core/parsing/tagExpression';
 
-const COMMANDS = new Set(['discover', 'analyze', 'resolve-step', 'coach-analyze']);
+const COMMANDS = new Set(['discover', 'analyze', 'resolve-step', 'coach-analyze', 'format']);
 
 export const USAGE = [
     'Usage:',
     '  npm run guardian -- discover <project-dir>',
-    '  npm run guardian -- analyze <project-dir> [--max-items <n>]',
+    '  npm run guardian -- analyze <project-dir> [--max-items <n>] [--tags <expression>]',
     '  npm run guardian -- resolve-step <project-dir> <feature-path> <line>',
     '  npm run guardian -- coach-analyze <project-dir> [--feature <path>] [--max-items <n>]',
+    '  npm run guardian -- format <project-dir> [--check] [--indent-size <n>]',
     '',
-    'Exit codes: 0 ok · 1 error · 2 usage',
+    'All commands accept --language <code>: Gherkin dialect for files without a # language: header,',
+    'and --max-example-rows <n>: rows resolved per Examples block (default 500).',
+    'All commands but format accept --no-project-scope: resolve features against the bindings',
+    'of every project, not only their own project and the projects it references.',
+    'All commands but format accept --binding-root <path> (repeatable): a directory or source jar',
+    'of shared steps outside the project, resolved against <project-dir>.',
+    '',
+    'Exit codes: 0 ok · 1 error (or format --check found unformatted files) · 2 usage',
     'MCP: npm run guardian:mcp  (stdio — see docs/CLI.md)',
 ].join('\n');
 
@@ -44,6 +56,13 @@ export function runCli(argv: string[]): number {
     let featurePath: string | undefined;
     let lineRaw: string | undefined;
     let maxItems = DEFAULT_MAX_ITEMS;
+    let defaultLanguage: string | undefined;
+    let maxExampleRows: number | undefined;
+    let tags: string | undefined;
+    let check = false;
+    let projectScope = true;
+    const bindingRoots: string[] = [];
+    let indentSize = DEFAULT_FORMAT_INDENT_SIZE;
     const positional: string[] = [];
 
     for (let i = 0; i < rest.length; i++) {
@@ -65,6 +84,61 @@ export function runCli(argv: string[]): number {
             featurePath = raw;
             continue;
         }
+        if (arg === '--language') {
+            const raw = rest[++i];
+            if (!raw || !getGherkinDialect(raw)) {
+                return usageError(`invalid --language value: ${raw ?? ''}`);
+            }
+            defaultLanguage = raw;
+            continue;
+        }
+        if (arg === '--max-example-rows') {
+            const raw = rest[++i];
+            const n = Number(raw);
+            if (!raw || !Number.isFinite(n) || n < 1) {
+                return usageError('invalid --max-example-rows value');
+            }
+            maxExampleRows = Math.floor(n);
+            continue;
+        }
+        if (arg === '--tags' && command === 'analyze') {
+            const raw = rest[++i];
+            if (raw === undefined) {
+                return usageError('missing --tags value');
+            }
+            try {
+                parseTagExpression(raw);
+            } catch (err) {
+                return usageError(err instanceof Error ? err.message : String(err));
+            }
+            tags = raw;
+            continue;
+        }
+        if (arg === '--no-project-scope' && command !== 'format') {
+            projectScope = false;
+            continue;
+        }
+        if (arg === '--binding-root' && command !== 'format') {
+            const raw = rest[++i];
+            if (!raw) {
+                return usageError('missing --binding-root value');
+            }
+            bindingRoots.push(raw);
+            continue;
+        }
+        if (arg === '--check' && command === 'format') {
+            check = true;
+            continue;
+        }
+        if (arg === '--indent-size' && command === 'format') {
+            const raw = rest[++i];
+            const n = Number(raw);
+            if (!raw || !Number.isInteger(n) || n < 1 || n > 8) {
+                return usageError('invalid --indent-size value');
+            }
+            indentSize = n;
+            continue;
+        }
         if (arg.startsWith('-')) {
             return usageError(`unknown option: ${arg}`);
         }
@@ -90,14 +164,20 @@ export function runCli(argv: string[]): number {
     const resolved = path.resolve(projectDir!);
 
     try {
-        const project = loadProject(resolved);
+        if (command === 'format') {
+            const report = runFormat(resolved, { check, indentSize, defaultLanguage });
+            console.log(JSON.stringify(report, null, 2));
+            return check && report.counts.changed > 0 ? 1 : 0;
+        }
+
+        const project = loadProject(resolved, { defaultLanguage, maxExampleRows, projectScope, bindingRoots });
 
         if (command === 'discover') {
             console.log(JSON.stringify(buildDiscoverReport(project), null, 2));
             return 0;
         }
         if (command === 'analyze') {
-            console.log(JSON.stringify(buildAnalyzeReport(project, { maxItems }), null, 2));
+            console.log(JSON.stringify(buildAnalyzeReport(project, { maxItems, tags }), null, 2));
             return 0;
         }
         if (command === 'resolve-step') {
@@ -47,6 +47,10 @@ export const MCP_TOOL_DESCRIPTORS: McpToolDescriptor[] = [
             properties: {
                 projectDir: { type: 'string' },
                 maxItems: { type: 'number', description: 'Cap detail lists (default 50)' },
+                tags: {
+                    type: 'string',
+                    description: 'Cucumber tag expression selecting the steps, e.g. "@smoke and not @wip"',
+                },
             },
             required: ['projectDir'],
         },
@@ -113,7 +117,9 @@ export function dispatchMcpTool(name: string, args: Record<string, unknown> = {}
             return buildDiscoverReport(project);
         case 'guardian_analyze': {
             const maxItems = asOptionalNumber(args.maxItems, 'maxItems') ?? DEFAULT_MAX_ITEMS;
-            return buildAnalyzeReport(project, { maxItems });
+            const tags =
+                args.tags === undefined || args.tags === null ? undefined : asString(args.tags, 'tags');
+            return buildAnalyzeReport(project, { maxItems, tags });
         }
         case 'guardian_resolve_step': {
             const featurePath = asString(args.featurePath, 'featurePath');
@@ -24,6 +24,16 @@ export interface ResolveStepMatchRow {
     methodName: string;
 }
 
+export interface ResolveStepExampleRow {
+    /** 0-based line of the Examples row */
+    line: number;
+    /** 1-based row number within its Examples block */
+    row: number;
+    text: string;
+    status: 'unbound' | 'ambiguous';
+    matches: ResolveStepMatchRow[];
+}
+
 export interface ResolveStepReport {
     schemaVersion: number;
     status: ResolveStepStatus;
@@ -32,6 +42,8 @@ export interface ResolveStepReport {
     stepText: string | null;
     matches: ResolveStepMatchRow[];
     why: string | null;
+    /** Outline steps: the Examples rows that are not bound */
+    exampleRows: ResolveStepExampleRow[];
 }
 
 /** English why strings (CLI has no VS Code locale). */
@@ -58,7 +70,10 @@ function findFeatureIndex(project: LoadedProject, featureAbs: string): number {
     return project.featurePaths.findIndex((p) => pathsEqual(p, featureAbs));
 }
 
-function mapMatches(project: LoadedProject, result: ResolveResult): ResolveStepMatchRow[] {
+function mapMatches(
+    project: LoadedProject,
+    result: Pick<ResolveResult, 'status' | 'best' | 'candidates'>
+): ResolveStepMatchRow[] {
     const list =
         result.status === 'bound' && result.best
             ? [result.best]
@@ -75,6 +90,18 @@ function mapMatches(project: LoadedProject, result: ResolveResult): ResolveStepM
     }));
 }
 
+function mapExampleRows(project: LoadedProject, result: ResolveResult): ResolveStepExampleRow[] {
+    return (result.rows ?? [])
+        .filter((r) => r.status !== 'bound')
+        .map((r) => ({
+            line: r.row.lineNumber,
+            row: r.row.rowNumber,
+            text: r.row.text,
+            status: r.status as ResolveStepExampleRow['status'],
+            matches: mapMatches(project, r),
+        }));
+}
+
 /**
  * Resolve one step by 0-based line within a feature under the loaded project.
  */
@@ -93,6 +120,7 @@ export function buildResolveStepReport(
         stepText: null,
         matches: [],
         why: null,
+        exampleRows: [],
     });
 
     if (!Number.isInteger(line) || line < 0) {
@@ -115,6 +143,8 @@ export function buildResolveStepReport(
         getAllBindings: () => bindings,
         getBindingsByKeyword: (kw) => bindings.filter((b) => b.keyword === kw),
         preferSpecificBinding: false,
+        glueScopes: project.glueScopes,
+        projects: project.projects,
     });
     const result = resolve(step);
 
@@ -126,5 +156,6 @@ export function buildResolveStepReport(
         stepText: step.rawText,
         matches: mapMatches(project, result),
         why: result.status === 'ambiguous' ? formatWhyEn(result) : null,
+        exampleRows: mapExampleRows(project, result),
     };
 }
@@ -0,0 +1,30 @@
+/**
+ * Gherkin-related settings (bddGuardian.gherkin.*)
+ */
+
+import * as vscode from 'vscode';
+import { DEFAULT_GHERKIN_LANGUAGE } from '../core/parsing/gherkinDialects';
+
+let configuredLanguageLookup: ((featurePath: string) => string | undefined) | undefined;
+
+/**
+ * Register where languages set by framework configuration files are looked up
+ * (`reqnroll.json` `language.feature`, cucumber `language`, behave `lang`).
+ */
+export function setConfiguredGherkinLanguageLookup(
+    lookup: ((featurePath: string) => string | undefined) | undefined
+): void {
+    configuredLanguageLookup = lookup;
+}
+
+/**
+ * Dialect for feature files without a `# language:` header (e.g. "es", "fr", "pt").
+ * A language set by the framework configuration covering the file wins over the setting.
+ */
+export function getDefaultGherkinLanguage(uri?: vscode.Uri): string {
+    const configured = uri ? configuredLanguageLookup?.(uri.fsPath) : undefined;
+    return (
+        configured ??
+        vscode.workspace.getConfiguration('bddGuardian.gherkin').get('defaultLanguage', DEFAULT_GHERKIN_LANGUAGE)
+    );
+}
@@ -6,7 +6,10 @@ export {
     getConfig,
     invalidateConfigCache,
     getTagFilterConfig,
+    getTagFilterExpression,
+    getTagFilterError,
     shouldShowStep,
+    selectStepForTagFilter,
     filterStepsByTags,
     createConfigChangeListener,
 } from './settings';
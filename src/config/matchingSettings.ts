@@ -11,3 +11,12 @@ import * as vscode from 'vscode';
 export function getPreferSpecificBinding(): boolean {
     return vscode.workspace.getConfiguration('bddGuardian.matching').get('preferSpecificBinding', false);
 }
+
+/**
+ * When true (default), steps of a feature only resolve to bindings of its own project
+ * (`.csproj`, `package.json`, `go.mod`, `pom.xml` / `build.gradle`, workspace folder) and the
+ * projects it references.
+ */
+export function getProjectScopeEnabled(): boolean {
+    return vscode.workspace.getConfiguration('bddGuardian.matching').get('projectScope', true);
+}
@@ -7,10 +7,20 @@ import * as vscode from 'vscode';
 import { ExtensionConfig, TagFilterConfig, TagFilterMode, FeatureStep } from '../core/domain/types';
 import { DEFAULT_CONFIG } from '../core/domain/constants';
 import { resolveFeedbackChannels } from '../ui/feedbackLevel';
+import {
+    parseTagExpression,
+    evaluateTagExpression,
+    selectStepByTags,
+    tagListToExpression,
+    type TagExpression,
+} from '../core/parsing/tagExpression';
 
 /** Cached configuration */
 let cachedConfig: ExtensionConfig | null = null;
 
+/** Last compiled tag filter, keyed by its expression text */
+let compiledTagFilter: { text: string; expression: TagExpression | null; error?: string } | null = null;
+
 /**
  * Get the current extension configuration
  * Uses caching for performance
@@ -44,6 +54,7 @@ export function getConfig(): ExtensionConfig {
         debug: config.get('debug', DEFAULT_CONFIG.debug),
         maxFilesIndexed: config.get('maxFilesIndexed', 5000),
         providerIndexMode: guardianConfig.get('providers.indexMode', DEFAULT_CONFIG.providerIndexMode),
+        bindingRoots: guardianConfig.get('bindingRoots', DEFAULT_CONFIG.bindingRoots),
     };
     
     return cachedConfig;
@@ -68,6 +79,36 @@ export function getTagFilterConfig(): TagFilterConfig {
     };
 }
 
+/**
+ * Tag expression text for the filter: the setting itself when it is a string,
+ * otherwise the legacy list joined with `or` (wrapped in `not` for exclude mode)
+ */
+export function getTagFilterExpression(filterConfig?: TagFilterConfig): string {
+    const config = filterConfig ?? getTagFilterConfig();
+    return typeof config.tags === 'string'
+        ? config.tags.trim()
+        : tagListToExpression(config.tags ?? [], config.mode);
+}
+
+/**
+ * Parse error of the configured tag filter, or undefined when it is valid (or empty)
+ */
+export function getTagFilterError(filterConfig?: TagFilterConfig): string | undefined {
+    return compileTagFilter(getTagFilterExpression(filterConfig)).error;
+}
+
+function compileTagFilter(text: string): { expression: TagExpression | null; error?: string } {
+    if (compiledTagFilter?.text !== text) {
+        try {
+            compiledTagFilter = { text, expression: parseTagExpression(text) };
+        } catch (err) {
+            // An invalid filter shows everything; the extension reports the error once
+            compiledTagFilter = { text, expression: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }
+    return compiledTagFilter;
+}
+
 /**
  * Check if a step should be shown based on tag filter configuration
  * This affects ONLY CodeLens and Diagnostics - NOT navigation
@@ -77,29 +118,16 @@ export function getTagFilterConfig(): TagFilterConfig {
  * @returns true if the step should be shown
  */
 export function shouldShowStep(tagsEffective: readonly string[], filterConfig?: TagFilterConfig): boolean {
-    const config = filterConfig ?? getTagFilterConfig();
-    
-    // If no filter tags, show everything
-    if (!config.tags || config.tags.length === 0) {
-        return true;
-    }
-
-    // Check if step has any matching tag (case-insensitive)
-    const stepTagsLower = tagsEffective.map(t => t.toLowerCase());
-    const filterTagsLower = config.tags.map(t => t.toLowerCase());
-    
-    const hasMatchingTag = filterTagsLower.some(filterTag => 
-        stepTagsLower.includes(filterTag)
-    );
+    const { expression } = compileTagFilter(getTagFilterExpression(filterConfig));
+    return evaluateTagExpression(expression, tagsEffective);
+}
 
-    // Apply filter mode
-    if (config.mode === 'include') {
-        // Include mode: only show steps with matching tags
-        return hasMatchingTag;
-    } else {
-        // Exclude mode: hide steps with matching tags
-        return !hasMatchingTag;
-    }
+/**
+ * The part of the step the tag filter selects, or null (outline steps: the matching Examples rows)
+ */
+export function selectStepForTagFilter(step: FeatureStep, filterConfig?: TagFilterConfig): FeatureStep | null {
+    const { expression } = compileTagFilter(getTagFilterExpression(filterConfig));
+    return selectStepByTags(expression, step);
 }
 
 /**
@@ -110,11 +138,11 @@ export function filterStepsByTags(steps: readonly FeatureStep[], filterConfig?:
     const config = filterConfig ?? getTagFilterConfig();
     
     // If no filter, return all steps
-    if (!config.tags || config.tags.length === 0) {
+    if (!getTagFilterExpression(config)) {
         return [...steps];
     }
     
-    return steps.filter(step => shouldShowStep(step.tagsEffective, config));
+    return steps.flatMap(step => selectStepForTagFilter(step, config) ?? []);
 }
 
 /**
@@ -4,12 +4,19 @@
  */
 
 import type { ResolvedKeyword } from '../domain/types';
+import {
+    DEFAULT_GHERKIN_LANGUAGE,
+    getGherkinDialect,
+    isContinuationKeyword,
+    matchGherkinBlockLine,
+    matchGherkinStepLine,
+    type GherkinDialect,
+} from '../parsing/gherkinDialects';
 
 export const MAX_STEP_COMPLETIONS = 40;
 
-const STEP_KEYWORD_LINE =
-    /^\s*(Given|When|Then|And|But)(?:\s+(.*))?$/i;
 const NON_STEP_LINE = /^\s*(?:#|@|\|)/;
+const ENGLISH_DIALECT = getGherkinDialect(DEFAULT_GHERKIN_LANGUAGE)!;
 
 export interface BindingCompletionSource {
     readonly keyword: ResolvedKeyword;
@@ -24,7 +31,7 @@ export interface StepLineCompletionContext {
     readonly eligible: boolean;
     /** Resolved Given/When/Then for filtering; null → no keyword filter */
     readonly keywordResolved: ResolvedKeyword | null;
-    /** True when line already has Given/When/Then/And/But */
+    /** True when line already has Given/When/Then/And/But/* */
     readonly keywordPresent: boolean;
     /** Typed text after the keyword (prefix filter) */
     readonly prefix: string;
@@ -100,23 +107,12 @@ function methodNameToPhrase(methodName: string): string {
  */
 export function parseStepCompletionLine(
     lineText: string,
-    previousStrongKeyword: ResolvedKeyword = 'Given'
+    previousStrongKeyword: ResolvedKeyword = 'Given',
+    dialect: GherkinDialect = ENGLISH_DIALECT
 ): StepLineCompletionContext {
-    const trimmedStart = lineText.trimStart();
-    if (NON_STEP_LINE.test(lineText) || trimmedStart.startsWith('Feature:') ||
-        trimmedStart.startsWith('Scenario') ||
-        trimmedStart.startsWith('Background:') ||
-        trimmedStart.startsWith('Examples:')) {
-        return {
-            eligible: false,
-            keywordResolved: null,
-            keywordPresent: false,
-            prefix: '',
-            bodyStartColumn: 0,
-        };
-    }
-
-    const match = lineText.match(STEP_KEYWORD_LINE);
+    const match = NON_STEP_LINE.test(lineText) || matchGherkinBlockLine(lineText, dialect)
+        ? null
+        : matchGherkinStepLine(lineText, dialect, true);
     if (!match) {
         return {
             eligible: false,
@@ -127,36 +123,16 @@ export function parseStepCompletionLine(
         };
     }
 
-    const keywordToken = match[1];
-    const body = (match[2] ?? '').trimStart();
-    const keywordPresent = true;
-    const leadWs = lineText.match(/^\s*/)?.[0].length ?? 0;
-    const keywordLen = keywordToken.length;
-    // After keyword: either end of line, or one+ spaces then body
-    const afterKeyword = leadWs + keywordLen;
-    const rest = lineText.slice(afterKeyword);
-    const spaceMatch = rest.match(/^\s*/);
-    const bodyStartColumn =
-        rest.length === 0 ? afterKeyword : afterKeyword + (spaceMatch?.[0].length ?? 0);
-
-    const lower = keywordToken.toLowerCase();
-    let keywordResolved: ResolvedKeyword;
-    if (lower === 'given') {
-        keywordResolved = 'Given';
-    } else if (lower === 'when') {
-        keywordResolved = 'When';
-    } else if (lower === 'then') {
-        keywordResolved = 'Then';
-    } else {
-        keywordResolved = previousStrongKeyword;
-    }
+    const keywordResolved: ResolvedKeyword = isContinuationKeyword(match.keyword)
+        ? previousStrongKeyword
+        : match.keyword;
 
     return {
         eligible: true,
         keywordResolved,
-        keywordPresent,
-        prefix: body.trimEnd(),
-        bodyStartColumn,
+        keywordPresent: true,
+        prefix: match.text,
+        bodyStartColumn: match.textStart,
     };
 }
 
@@ -165,17 +141,14 @@ export function parseStepCompletionLine(
  */
 export function findPreviousStrongKeyword(
     linesAbove: readonly string[],
-    fallback: ResolvedKeyword = 'Given'
+    fallback: ResolvedKeyword = 'Given',
+    dialect: GherkinDialect = ENGLISH_DIALECT
 ): ResolvedKeyword {
     for (let i = linesAbove.length - 1; i >= 0; i--) {
-        const m = linesAbove[i].match(/^\s*(Given|When|Then|And|But)\b/i);
-        if (!m) {
-            continue;
+        const m = matchGherkinStepLine(linesAbove[i], dialect, true);
+        if (m && !isContinuationKeyword(m.keyword)) {
+            return m.keyword;
         }
-        const lower = m[1].toLowerCase();
-        if (lower === 'given') return 'Given';
-        if (lower === 'when') return 'When';
-        if (lower === 'then') return 'Then';
     }
     return fallback;
 }
@@ -7,8 +7,8 @@
 // LIMITS
 // ═══════════════════════════════════════════════════════════════════════════
 
-/** Maximum number of example rows to expand for Scenario Outlines */
-export const MAX_EXAMPLE_ROWS = 20;
+/** Default maximum number of rows per Examples block resolved for Scenario Outlines (maxExampleRows) */
+export const MAX_EXAMPLE_ROWS = 500;
 
 /** Maximum candidate strings to generate per step */
 export const MAX_CANDIDATES_PER_STEP = 20;
@@ -22,12 +22,18 @@ export const FILE_WATCHER_DEBOUNCE_MS = 300;
 /** Problems panel source label for binding diagnostics */
 export const BINDINGS_DIAGNOSTIC_SOURCE = 'BDD Guardian';
 
+/** Problems panel source label for Gherkin syntax diagnostics */
+export const SYNTAX_DIAGNOSTIC_SOURCE = 'BDD Guardian Gherkin';
+
 /** Diagnostic code for unbound step quick fixes */
 export const UNBOUND_STEP_DIAGNOSTIC_CODE = 'bddGuardian/unbound-step';
 
 /** Diagnostic code for unused (orphan) bindings */
 export const ORPHAN_BINDING_DIAGNOSTIC_CODE = 'bddGuardian/orphan-binding';
 
+/** Diagnostic code for bindings whose pattern constants could not be resolved */
+export const UNRESOLVABLE_PATTERN_DIAGNOSTIC_CODE = 'bddGuardian/unresolvable-pattern';
+
 /** Skip orphan scan when indexed bindings exceed this count */
 export const MAX_ORPHAN_BINDING_SCAN = 2000;
 
@@ -54,30 +60,18 @@ export const PENALTY_KEYWORD_FALLBACK = 40;
 // REGEX PATTERNS
 // ═══════════════════════════════════════════════════════════════════════════
 
-/** Matches step keywords: Given, When, Then, And, But */
-export const STEP_KEYWORD_REGEX = /^\s*(Given|When|Then|And|But)\s+(.+)$/i;
+// Feature/Rule/Background/Scenario/Examples and step keywords are localized:
+// see core/parsing/gherkinDialects.ts (selected per file via `# language:`).
 
 /** Matches tag lines: @tag1 @tag2 */
 export const TAG_LINE_REGEX = /^\s*(@[\w-]+(?:\s+@[\w-]+)*)\s*$/;
 
-/** Matches Feature: line */
-export const FEATURE_REGEX = /^\s*Feature:\s*(.+)$/i;
-
-/** Matches Background: line */
-export const BACKGROUND_REGEX = /^\s*Background:\s*(.*)$/i;
-
-/** Matches Scenario: line */
-export const SCENARIO_REGEX = /^\s*Scenario:\s*(.+)$/i;
-
-/** Matches Scenario Outline: line */
-export const SCENARIO_OUTLINE_REGEX = /^\s*Scenario Outline:\s*(.+)$/i;
-
-/** Matches Examples: line */
-export const EXAMPLES_REGEX = /^\s*Examples:\s*(.*)$/i;
-
 /** Matches table row: | cell1 | cell2 | */
 export const TABLE_ROW_REGEX = /^\s*\|(.+)\|\s*$/;
 
+/** Matches a doc string delimiter with optional content type: """json or ``` */
+export const DOC_STRING_DELIMITER_REGEX = /^\s*("""|```)\s*(\S*)\s*$/;
+
 /**
  * Matches C# binding attributes (Reqnroll/SpecFlow):
  * - [Given(@"pattern")], [When("pattern")], [Then("pattern")]
@@ -117,7 +111,7 @@ export const SPECIFIC_GROUP_PATTERN = /\\d\+|\[\^"\]\+|\\w\+|\[\^\\s\]\+/g;
 
 export const DEFAULT_CONFIG = {
     caseInsensitive: false,
-    tagFilter: [] as string[],
+    tagFilter: [] as string | string[],
     tagFilterMode: 'include' as const,
     featureGlob: '**/*.feature',
     bindingsGlob: '**/*.cs',
@@ -128,4 +122,5 @@ export const DEFAULT_CONFIG = {
     enableDecorations: true,
     debug: false,
     providerIndexMode: 'all' as const,
+    bindingRoots: [] as string[],
 };
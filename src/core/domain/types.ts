@@ -13,8 +13,8 @@ import * as vscode from 'vscode';
 // ENUMS
 // ═══════════════════════════════════════════════════════════════════════════
 
-/** Step keywords as written in feature files */
-export type StepKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But';
+/** Step keywords as written in feature files (`*` is the bullet keyword) */
+export type StepKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But' | '*';
 
 /** Resolved step keywords (And/But resolved to actual keyword) */
 export type ResolvedKeyword = 'Given' | 'When' | 'Then';
@@ -39,12 +39,52 @@ export interface FeatureDocument {
     readonly featureName: string;
     /** Tags applied at Feature level */
     readonly featureTags: readonly string[];
-    /** Background steps (applied to all scenarios) */
+    /** Feature-level Background steps (applied to all scenarios) */
     readonly backgroundSteps: readonly FeatureStep[];
-    /** All scenarios in the feature */
+    /** All scenarios in the feature, including those nested in Rules */
     readonly scenarios: readonly Scenario[];
+    /** Rule blocks (Gherkin 6+), in document order */
+    readonly rules: readonly Rule[];
     /** All steps flattened for quick access */
     readonly allSteps: readonly FeatureStep[];
+    /** Structural problems found while parsing (the parser recovers and keeps going) */
+    readonly syntaxErrors: readonly GherkinSyntaxError[];
+}
+
+/** Kind of Gherkin syntax problem */
+export type GherkinSyntaxErrorCode =
+    | 'gherkin/step-outside-scenario'
+    | 'gherkin/examples-without-placeholders'
+    | 'gherkin/table-cell-count'
+    | 'gherkin/unclosed-doc-string'
+    | 'gherkin/duplicate-feature';
+
+/**
+ * A syntax problem in a .feature file
+ */
+export interface GherkinSyntaxError {
+    readonly code: GherkinSyntaxErrorCode;
+    /** English message (CLI and Problems panel) */
+    readonly message: string;
+    readonly range: vscode.Range;
+    /** Line number (0-based) */
+    readonly lineNumber: number;
+}
+
+/**
+ * Represents a Rule block (Gherkin 6+) grouping scenarios under a business rule
+ */
+export interface Rule {
+    /** Rule name */
+    readonly name: string;
+    /** Tags directly on this rule (inherited by its scenarios) */
+    readonly tags: readonly string[];
+    /** Background steps scoped to this rule */
+    readonly backgroundSteps: readonly FeatureStep[];
+    /** Scenarios declared inside this rule */
+    readonly scenarios: readonly Scenario[];
+    /** Range in document (Rule: line) */
+    readonly range: vscode.Range;
 }
 
 /**
@@ -63,6 +103,8 @@ export interface Scenario {
     readonly examples: readonly ExampleTable[];
     /** Range in document */
     readonly range: vscode.Range;
+    /** Enclosing Rule name (undefined when declared directly under Feature) */
+    readonly ruleName?: string;
 }
 
 /**
@@ -75,15 +117,39 @@ export interface ExampleTable {
     readonly rows: readonly (readonly string[])[];
     /** Tags on the Examples block */
     readonly tags: readonly string[];
+    /** Line number (0-based) of the Examples: line */
+    readonly lineNumber?: number;
+    /** Line number (0-based) of each data row, parallel to `rows` */
+    readonly rowLineNumbers?: readonly number[];
+    /** Data rows in the document, including rows beyond the maxExampleRows cap */
+    readonly totalRowCount?: number;
+}
+
+/**
+ * One Examples row of a Scenario Outline step, resolved on its own
+ */
+export interface ExampleRowStep {
+    /** Step text with this row's values substituted (whitespace normalized) */
+    readonly text: string;
+    /** Step effective tags plus the Examples block tags */
+    readonly tags: readonly string[];
+    /** Index of the Examples block within the scenario */
+    readonly examplesIndex: number;
+    /** 1-based row number within its Examples block (header excluded) */
+    readonly rowNumber: number;
+    /** Line number (0-based) of the row */
+    readonly lineNumber: number;
+    /** Range of the row line */
+    readonly range: vscode.Range;
 }
 
 /**
  * Represents a single step in a feature file
  */
 export interface FeatureStep {
-    /** Original keyword (Given/When/Then/And/But) */
+    /** Original keyword (Given/When/Then/And/But/*) */
     readonly keywordOriginal: StepKeyword;
-    /** Resolved keyword (And/But -> previous keyword) */
+    /** Resolved keyword (And/But/* -> previous keyword) */
     readonly keywordResolved: ResolvedKeyword;
     /** Step text without keyword */
     readonly rawText: string;
@@ -91,7 +157,7 @@ export interface FeatureStep {
     readonly normalizedText: string;
     /** Full line text including keyword */
     readonly fullText: string;
-    /** Effective tags (feature + scenario tags) */
+    /** Effective tags (feature + rule + scenario tags) */
     readonly tagsEffective: readonly string[];
     /** File URI */
     readonly uri: vscode.Uri;
@@ -101,6 +167,8 @@ export interface FeatureStep {
     readonly lineNumber: number;
     /** Parent scenario name */
     readonly scenarioName?: string;
+    /** Enclosing Rule name (scenario or Rule Background steps) */
+    readonly ruleName?: string;
     /** Whether this step is in a Scenario Outline */
     readonly isOutline: boolean;
     /** 
@@ -108,8 +176,48 @@ export interface FeatureStep {
      * First candidate is the fallback (<placeholder> -> X)
      */
     readonly candidateTexts: readonly string[];
+    /** Data table or doc string following the step line */
+    readonly argument?: StepArgument;
+    /** One entry per Examples row (steps of scenarios with Examples rows) */
+    readonly exampleRows?: readonly ExampleRowStep[];
+}
+
+/** Kind of argument a step carries below its line */
+export type StepArgumentKind = 'dataTable' | 'docString';
+
+export interface DataTableCell {
+    /** Cell text (trimmed, `\|` `\\` `\n` unescaped) */
+    readonly value: string;
+    readonly range: vscode.Range;
+}
+
+export interface DataTableRow {
+    readonly cells: readonly DataTableCell[];
+    readonly range: vscode.Range;
+    /** Line number (0-based) */
+    readonly lineNumber: number;
 }
 
+/** `| a | b |` rows directly below a step */
+export interface StepDataTable {
+    readonly kind: 'dataTable';
+    readonly rows: readonly DataTableRow[];
+    readonly range: vscode.Range;
+}
+
+/** `"""` or ``` block directly below a step */
+export interface StepDocString {
+    readonly kind: 'docString';
+    /** Content with the delimiter indentation removed */
+    readonly content: string;
+    /** Media type after the opening delimiter (e.g. "json"), if any */
+    readonly contentType?: string;
+    readonly delimiter: '"""' | '```';
+    readonly range: vscode.Range;
+}
+
+export type StepArgument = StepDataTable | StepDocString;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // BINDING TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -153,6 +261,143 @@ export interface Binding {
      * Empty = global (no Tag scope). Stored without requiring a leading `@`.
      */
     readonly scopeTags: readonly string[];
+    /**
+     * Step argument the method takes after its pattern parameters.
+     * Undefined when the signature could not be read (no argument filtering).
+     */
+    readonly stepArgument?: BindingStepArgument;
+    /**
+     * Provider that produced the binding (e.g. 'js-cucumber'); selects the matching profile.
+     * Undefined for the shared C# parser (Reqnroll / SpecFlow semantics).
+     */
+    readonly providerId?: string;
+    /** How the pattern was written, when the provider knows it (regex literal vs Cucumber Expression) */
+    readonly expressionType?: 'regex' | 'cucumber';
+    /** pytest-bdd `target_fixture`: the fixture the step's return value is published as */
+    readonly targetFixture?: string;
+    /**
+     * Set by the C# inheritance pass when the step is registered through another class than the
+     * one declaring the method (or with inherited `[Scope]` tags): the binding as declared.
+     */
+    readonly declaredIn?: { readonly className: string; readonly scopeTags: readonly string[] };
+    /**
+     * C# pattern written as a constant expression (`StepTexts.UserLoggedIn`, `Prefix + "…"`,
+     * `$"{Prefix} …"`): the expression as written; `patternRaw` holds its resolved value.
+     */
+    readonly patternExpression?: string;
+    /**
+     * The constants in `patternExpression` could not be resolved: `patternRaw` is the expression
+     * itself and the binding never matches (reported as an unresolvable pattern).
+     */
+    readonly patternUnresolved?: boolean;
+    /** Indexed from a shared step library (read-only source, no orphan check) */
+    readonly library?: boolean;
+}
+
+/**
+ * - 'none': parameters = pattern parameters
+ * - 'dataTable' / 'docString': one extra parameter of a table / string type
+ * - 'any': one extra parameter of another type (e.g. a table transformation target)
+ */
+export type BindingStepArgument = 'none' | StepArgumentKind | 'any';
+
+/**
+ * A custom parameter type defined in binding code, used as `{name}` in Cucumber Expressions
+ * (`defineParameterType`, `@ParameterType`, `[StepArgumentTransformation]`) or as
+ * `{field:Name}` in behave patterns (`register_type`).
+ */
+export interface ParameterTypeDefinition {
+    /** Name used inside the braces */
+    readonly name: string;
+    /** Regex sources the parameter matches (alternatives) */
+    readonly regexps: readonly string[];
+    /** File URI */
+    readonly uri: vscode.Uri;
+    /** Line number of the definition (0-based) */
+    readonly lineNumber: number;
+    /** Same convention as `Binding.providerId`; types only apply to bindings of the same provider */
+    readonly providerId?: string;
+}
+
+/**
+ * A class declared in a binding file, read for cross-file binding inheritance
+ * (Reqnroll / SpecFlow step classes deriving from base classes in other files)
+ * and for `const string` fields used in step patterns.
+ */
+export interface BindingClassDeclaration {
+    /** Class name without namespace or generic parameters */
+    readonly name: string;
+    /** Base class and interface names, without namespaces or generic arguments */
+    readonly baseTypes: readonly string[];
+    /** Carries `[Binding]` itself (derived classes inherit it) */
+    readonly isBinding: boolean;
+    /** Abstract classes never register their steps on their own */
+    readonly isAbstract: boolean;
+    /** Class-level `[Scope(Tag = …)]` tags */
+    readonly scopeTags: readonly string[];
+    /** Enclosing namespace, when declared */
+    readonly namespace?: string;
+    /** `const string` fields: name → expression as written */
+    readonly stringConstants?: Readonly<Record<string, string>>;
+    /** File URI */
+    readonly uri: vscode.Uri;
+}
+
+/**
+ * Feature files and glue (step definition / support) files a framework configuration ties
+ * together: `reqnroll.json`, cucumber.js / cucumber.yml profiles, `[behave]` sections,
+ * godog `Options.Paths`, Cucumber-JVM runners and `junit-platform.properties`. Steps of covered features only resolve to bindings in its glue.
+ */
+export interface GlueScope {
+    /** Framework configuration file (absolute path) */
+    readonly source: string;
+    /** Profile within the configuration, when it has several (`default`, `ci`) */
+    readonly profile?: string;
+    /** Cucumber-JVM runner class declaring the scope (`RunCucumberTest`) */
+    readonly runner?: string;
+    /** Absolute POSIX glob patterns of the covered feature files */
+    readonly features: readonly string[];
+    /** Absolute POSIX glob patterns of the glue files */
+    readonly glue: readonly string[];
+    /** Gherkin language of covered features without a `# language:` header */
+    readonly language?: string;
+}
+
+/** Build manifest a BDD project was discovered from (`workspace`: a workspace folder) */
+export type BddProjectKind = 'dotnet' | 'node' | 'go' | 'jvm' | 'workspace';
+
+/**
+ * A project boundary: `.csproj`, `package.json`, `go.mod`, `pom.xml` / `build.gradle` directories
+ * and workspace folders. Features resolve against the bindings of their own project and of the
+ * projects it references.
+ */
+export interface BddProject {
+    /** Absolute POSIX project directory */
+    readonly root: string;
+    /** Assembly, package, module or artifact name */
+    readonly name: string;
+    readonly kind: BddProjectKind;
+    /** Absolute POSIX path of the manifest (absent for workspace folders) */
+    readonly manifest?: string;
+    /** Roots of the referenced projects (shared step libraries) */
+    readonly dependencies: readonly string[];
+}
+
+/** Where a shared step library comes from */
+export type StepLibraryKind = 'path' | 'npm' | 'jar' | 'nuget';
+
+/**
+ * Shared step definitions outside the indexed sources: configured binding roots, npm packages
+ * declaring steps, source jars and NuGet packages with sources.
+ */
+export interface StepLibrary {
+    readonly kind: StepLibraryKind;
+    /** Package / assembly / directory name */
+    readonly name: string;
+    /** Absolute POSIX directory, or path of the source jar */
+    readonly root: string;
+    /** Globs of the step files, relative to the root (directories only) */
+    readonly include: readonly string[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -185,10 +430,23 @@ export interface ResolveResult {
     readonly best?: MatchCandidate;
     /** All matching candidates (sorted by score descending) */
     readonly candidates: readonly MatchCandidate[];
+    /** Per-row results for steps with Examples rows (status/best/candidates aggregate them) */
+    readonly rows?: readonly ExampleRowResult[];
     /** Debug information (only when debug enabled) */
     readonly debug?: ResolveDebugInfo;
 }
 
+/**
+ * Result of resolving one Examples row of a step
+ */
+export interface ExampleRowResult {
+    readonly row: ExampleRowStep;
+    readonly status: MatchStatus;
+    readonly best?: MatchCandidate;
+    /** Matching candidates for this row (sorted by score descending) */
+    readonly candidates: readonly MatchCandidate[];
+}
+
 /**
  * Debug information for resolution
  */
@@ -214,7 +472,8 @@ export type ProviderIndexMode = 'all' | 'primary';
 
 export interface ExtensionConfig {
     readonly caseInsensitive: boolean;
-    readonly tagFilter: readonly string[];
+    /** Cucumber tag expression, or a legacy list of tags combined per tagFilterMode */
+    readonly tagFilter: string | readonly string[];
     readonly tagFilterMode: TagFilterMode;
     readonly featureGlob: string;
     readonly bindingsGlob: string;
@@ -227,13 +486,17 @@ export interface ExtensionConfig {
     readonly maxFilesIndexed?: number;
     /** Which detected providers to index: all active, or primary only */
     readonly providerIndexMode: ProviderIndexMode;
+    /** Extra directories or source jars with shared steps (`bddGuardian.bindingRoots`) */
+    readonly bindingRoots?: readonly string[];
 }
 
 /**
  * Tag filter configuration (for filtering steps/scenarios)
  */
 export interface TagFilterConfig {
-    readonly tags: readonly string[];
+    /** Cucumber tag expression, or a legacy list of tags */
+    readonly tags: string | readonly string[];
+    /** Applies to the legacy list only */
     readonly mode: TagFilterMode;
 }
 
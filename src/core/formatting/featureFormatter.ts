@@ -0,0 +1,329 @@
+/**
+ * Pure .feature formatter — indentation per level, aligned table pipes, tag and blank line cleanup.
+ * No VS Code API; shared by the editor formatting providers and `guardian format`.
+ */
+
+import { DOC_STRING_DELIMITER_REGEX } from '../domain/constants';
+import {
+    DEFAULT_GHERKIN_LANGUAGE,
+    matchGherkinBlockLine,
+    matchGherkinStepLine,
+    resolveGherkinDialect,
+} from '../parsing/gherkinDialects';
+
+export const DEFAULT_FORMAT_INDENT_SIZE = 2;
+
+export interface FeatureFormatOptions {
+    /** Spaces per indentation level (default 2) */
+    readonly indentSize?: number;
+    /** Indent with one tab per level instead of spaces */
+    readonly useTabs?: boolean;
+    /** Gherkin dialect for files without a `# language:` header (default "en") */
+    readonly defaultLanguage?: string;
+}
+
+/** Replacement for a span of whole lines (0-based, end exclusive when endCharacter is 0) */
+export interface FeatureTextEdit {
+    readonly startLine: number;
+    readonly startCharacter: number;
+    readonly endLine: number;
+    readonly endCharacter: number;
+    readonly newText: string;
+}
+
+/**
+ * Format a whole .feature file. The result always ends with a single line break.
+ */
+export function formatFeatureText(text: string, options: FeatureFormatOptions = {}): string {
+    const eol = detectEol(text);
+    const formatted = formatLines(splitLines(text), text, options).filter((l): l is string => l !== null);
+    return formatted.length > 0 ? formatted.join(eol) + eol : '';
+}
+
+/**
+ * Edit that formats lines `startLine..endLine` (inclusive) of a .feature file, or undefined if they
+ * are already formatted. Tables and doc strings are laid out using the whole file, so a range edit
+ * matches what full-document formatting would produce for those lines.
+ */
+export function formatFeatureRange(
+    text: string,
+    startLine: number,
+    endLine: number,
+    options: FeatureFormatOptions = {}
+): FeatureTextEdit | undefined {
+    const eol = detectEol(text);
+    const lines = splitLines(text);
+    const last = lines.length - 1;
+    const start = Math.max(0, Math.min(startLine, last));
+    const end = Math.max(start, Math.min(endLine, last));
+    const region = formatLines(lines, text, options)
+        .slice(start, end + 1)
+        .filter((l): l is string => l !== null);
+
+    let edit: FeatureTextEdit;
+    if (end < last) {
+        edit = {
+            startLine: start,
+            startCharacter: 0,
+            endLine: end + 1,
+            endCharacter: 0,
+            newText: region.map((l) => l + eol).join(''),
+        };
+    } else {
+        edit = {
+            startLine: start,
+            startCharacter: 0,
+            endLine: end,
+            endCharacter: lines[end].length,
+            newText: region.length > 0 ? region.join(eol) + eol : '',
+        };
+    }
+
+    const original = lines.slice(start, end + 1).join(eol) + (end < last ? eol : '');
+    return edit.newText === original ? undefined : edit;
+}
+
+function detectEol(text: string): string {
+    return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+interface Layout {
+    /** Level of the last block keyword (Feature, Rule, Scenario, Examples…) */
+    block: number;
+    /** Level of the enclosing Scenario/Background (or Feature/Rule for stray steps) */
+    scenario: number;
+    /** Level for table rows and doc strings under the last step or Examples */
+    argument: number | null;
+}
+
+/**
+ * One output per input line; null drops the line (extra blank lines).
+ */
+function formatLines(lines: string[], text: string, options: FeatureFormatOptions): (string | null)[] {
+    const dialect = resolveGherkinDialect(text, options.defaultLanguage ?? DEFAULT_GHERKIN_LANGUAGE);
+    const indentUnit = options.useTabs ? '\t' : ' '.repeat(options.indentSize ?? DEFAULT_FORMAT_INDENT_SIZE);
+    const indent = (level: number) => indentUnit.repeat(level);
+
+    const out: (string | null)[] = new Array(lines.length).fill(null);
+    const levels: number[] = new Array(lines.length).fill(0);
+    // Tags and comments take the indentation of the line they annotate
+    let pending: number[] = [];
+    const layout: Layout = { block: -1, scenario: -1, argument: null };
+    let inRule = false;
+    let seenContent = false;
+    let previousBlank = false;
+
+    const place = (i: number, level: number, body: string) => {
+        for (const p of pending) {
+            levels[p] = level;
+        }
+        pending = [];
+        levels[i] = level;
+        out[i] = body;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        if (!trimmed) {
+            out[i] = seenContent && !previousBlank ? '' : null;
+            previousBlank = true;
+            continue;
+        }
+        seenContent = true;
+        previousBlank = false;
+
+        if (trimmed.startsWith('#')) {
+            pending.push(i);
+            out[i] = trimmed;
+            continue;
+        }
+        if (trimmed.startsWith('@')) {
+            pending.push(i);
+            out[i] = trimmed.split(/\s+/).join(' ');
+            continue;
+        }
+
+        const docString = trimmed.match(DOC_STRING_DELIMITER_REGEX);
+        if (docString) {
+            const close = findDocStringEnd(lines, i, docString[1]);
+            if (close === -1) {
+                // Unclosed doc string: leave the rest of the file as written
+                for (let j = i; j < lines.length; j++) {
+                    out[j] = lines[j];
+                    levels[j] = -1;
+                }
+                break;
+            }
+            const level = layout.argument ?? layout.block + 1;
+            place(i, level, docString[1] + docString[2]);
+            const oldIndent = line.length - line.trimStart().length;
+            for (let j = i + 1; j < close; j++) {
+                const content = lines[j];
+                const lead = content.length - content.trimStart().length;
+                const body = content.slice(Math.min(lead, oldIndent));
+                out[j] = body.trim() ? indent(level) + body : '';
+                levels[j] = -1;
+            }
+            levels[close] = level;
+            out[close] = docString[1];
+            previousBlank = false;
+            i = close;
+            continue;
+        }
+
+        if (trimmed.startsWith('|')) {
+            const end = findTableEnd(lines, i);
+            const level = layout.argument ?? layout.block + 1;
+            const rows = formatTable(lines.slice(i, end + 1));
+            for (let j = i; j <= end; j++) {
+                const row = rows[j - i];
+                if (row === null) {
+                    // Comment inside the table
+                    pending.push(j);
+                    out[j] = lines[j].trim();
+                } else {
+                    place(j, level, row);
+                }
+            }
+            i = end;
+            continue;
+        }
+
+        const block = matchGherkinBlockLine(line, dialect);
+        if (block) {
+            const level = blockLevel(block.kind, inRule, layout);
+            if (block.kind === 'feature') {
+                inRule = false;
+            } else if (block.kind === 'rule') {
+                inRule = true;
+            }
+            if (block.kind !== 'examples') {
+                layout.scenario = level;
+            }
+            layout.block = level;
+            layout.argument = block.kind === 'examples' ? level + 1 : null;
+            place(i, level, `${block.keyword}:${block.name ? ' ' + block.name : ''}`);
+            continue;
+        }
+
+        const step = matchGherkinStepLine(line, dialect, true);
+        if (step) {
+            const level = layout.scenario + 1;
+            layout.argument = level + 1;
+            const spaced = step.textStart > step.keywordStart + step.keywordText.length;
+            place(i, level, step.keywordText + (spaced && step.text ? ' ' : '') + step.text);
+            continue;
+        }
+
+        // Description text
+        place(i, Math.max(0, layout.block + 1), trimmed);
+    }
+
+    // Trailing tags/comments keep the indentation of the line above them
+    for (const p of pending) {
+        levels[p] = previousLevel(levels, out, p);
+    }
+    // Blank lines at the end of the file are dropped (the caller adds the final line break)
+    for (let i = lines.length - 1; i >= 0 && (out[i] === '' || out[i] === null); i--) {
+        out[i] = null;
+    }
+
+    return out.map((body, i) => (body === null || body === '' || levels[i] < 0 ? body : indent(levels[i]) + body));
+}
+
+function blockLevel(kind: string, inRule: boolean, layout: Layout): number {
+    switch (kind) {
+        case 'feature':
+            return 0;
+        case 'rule':
+            return 1;
+        case 'examples':
+            return layout.scenario + 1;
+        default:
+            return inRule ? 2 : 1;
+    }
+}
+
+function previousLevel(levels: number[], out: (string | null)[], index: number): number {
+    for (let i = index - 1; i >= 0; i--) {
+        if (out[i] && levels[i] >= 0) {
+            return levels[i];
+        }
+    }
+    return 0;
+}
+
+function findDocStringEnd(lines: string[], start: number, delimiter: string): number {
+    for (let i = start + 1; i < lines.length; i++) {
+        if (lines[i].trim() === delimiter) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/** Last line of a table; comment lines between rows stay part of it */
+function findTableEnd(lines: string[], start: number): number {
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+        if (trimmed.startsWith('|')) {
+            end = i;
+        } else if (!trimmed.startsWith('#')) {
+            break;
+        }
+    }
+    return end;
+}
+
+/**
+ * Pad every column to its widest cell. Comment lines come back as null.
+ */
+function formatTable(rows: string[]): (string | null)[] {
+    const cells = rows.map((row) => (row.trim().startsWith('|') ? splitTableRow(row) : null));
+    const widths: number[] = [];
+    for (const row of cells) {
+        row?.forEach((cell, c) => {
+            widths[c] = Math.max(widths[c] ?? 0, displayWidth(cell));
+        });
+    }
+    return cells.map((row) =>
+        row === null
+            ? null
+            : '| ' + row.map((cell, c) => cell + ' '.repeat(widths[c] - displayWidth(cell))).join(' | ') + ' |'
+    );
+}
+
+/** Cell texts as written (escapes kept), trimmed; a missing closing pipe is tolerated */
+function splitTableRow(row: string): string[] {
+    const line = row.trim();
+    const cells: string[] = [];
+    let raw = '';
+    for (let i = 1; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '\\' && i + 1 < line.length) {
+            raw += ch + line[++i];
+            continue;
+        }
+        if (ch === '|') {
+            cells.push(raw.trim());
+            raw = '';
+            continue;
+        }
+        raw += ch;
+    }
+    if (raw.trim()) {
+        cells.push(raw.trim());
+    }
+    return cells;
+}
+
+function displayWidth(text: string): number {
+    return Array.from(text).length;
+}
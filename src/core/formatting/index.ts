@@ -0,0 +1,11 @@
+/**
+ * Formatting Module Exports
+ */
+
+export {
+    formatFeatureText,
+    formatFeatureRange,
+    DEFAULT_FORMAT_INDENT_SIZE,
+    type FeatureFormatOptions,
+    type FeatureTextEdit,
+} from './featureFormatter';
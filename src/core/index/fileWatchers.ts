@@ -7,6 +7,8 @@ import * as vscode from 'vscode';
 import { IndexManager } from './indexManager';
 import { ExtensionConfig } from '../domain/types';
 import { FILE_WATCHER_DEBOUNCE_MS } from '../domain/constants';
+import { FRAMEWORK_CONFIG_GLOB } from '../parsing/frameworkConfigParser';
+import { PROJECT_MANIFEST_GLOB } from '../parsing/projectManifestParser';
 
 /**
  * Callback type for file watcher events
@@ -53,9 +55,56 @@ export class FileWatchers implements vscode.Disposable {
             );
         }
 
+        // Watch framework configuration files (glue scopes, feature languages)
+        const configWatcher = vscode.workspace.createFileSystemWatcher(FRAMEWORK_CONFIG_GLOB);
+        this.disposables.push(
+            configWatcher.onDidCreate(uri => this.handleConfigChange(uri, false)),
+            configWatcher.onDidChange(uri => this.handleConfigChange(uri, false)),
+            configWatcher.onDidDelete(uri => this.handleConfigChange(uri, true)),
+            configWatcher
+        );
+
+        // Watch project manifests and workspace folders (project boundaries)
+        const manifestWatcher = vscode.workspace.createFileSystemWatcher(PROJECT_MANIFEST_GLOB);
+        this.disposables.push(
+            manifestWatcher.onDidCreate(() => this.handleProjectChange()),
+            manifestWatcher.onDidChange(() => this.handleProjectChange()),
+            manifestWatcher.onDidDelete(() => this.handleProjectChange()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.handleProjectChange()),
+            manifestWatcher
+        );
+
         this.disposables.push(this.featureWatcher);
     }
 
+    /**
+     * Handle framework configuration change (debounced): full reindex when its scopes changed
+     */
+    private handleConfigChange(uri: vscode.Uri, deleted: boolean): void {
+        this.debounce(`config:${uri.toString()}`, async () => {
+            if (!(await this.indexManager.refreshFrameworkConfig(uri, deleted))) {
+                return;
+            }
+            await this.indexManager.indexAll(this.config);
+            this.onFeatureChange?.();
+            this.onBindingChange?.();
+        });
+    }
+
+    /**
+     * Handle project manifest or workspace folder change (debounced): refresh results when the
+     * project boundaries changed
+     */
+    private handleProjectChange(): void {
+        this.debounce('projects', async () => {
+            if (!(await this.indexManager.refreshProjects(this.config))) {
+                return;
+            }
+            this.onFeatureChange?.();
+            this.onBindingChange?.();
+        });
+    }
+
     /**
      * Handle feature file change (debounced)
      */
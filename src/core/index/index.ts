@@ -5,3 +5,4 @@
 export { WorkspaceIndex } from './workspaceIndex';
 export { IndexManager } from './indexManager';
 export { FileWatchers, type FileWatcherCallback } from './fileWatchers';
+export { LIBRARY_SCHEME } from './stepLibraries';
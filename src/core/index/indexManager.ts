@@ -12,11 +12,33 @@
  * - Cancellation token support
  */
 
+import * as os from 'os';
 import * as vscode from 'vscode';
 import { WorkspaceIndex } from './workspaceIndex';
 import { parseFeatureDocument } from '../parsing/gherkinParser';
-import { ExtensionConfig } from '../domain/types';
+import {
+    buildGlueScopes,
+    FRAMEWORK_CONFIG_GLOB,
+    parseFrameworkConfig,
+    readCsprojAssemblyName,
+    type FrameworkConfig,
+} from '../parsing/frameworkConfigParser';
+import {
+    buildBddProjects,
+    parseProjectManifest,
+    PROJECT_MANIFEST_GLOB,
+    type ProjectManifest,
+} from '../parsing/projectManifestParser';
+import {
+    BddProject,
+    BindingClassDeclaration,
+    ExtensionConfig,
+    GlueScope,
+    ParameterTypeDefinition,
+    StepLibrary,
+} from '../domain/types';
 import { getConfig } from '../../config';
+import { setConfiguredGherkinLanguageLookup } from '../../config/gherkinSettings';
 import { 
     getProviderManager, 
     ProviderManager,
@@ -25,7 +47,27 @@ import {
     DEFAULT_PROVIDER_CONFIG,
 } from '../../providers/bindings';
 import { resolveBindingSearchGlobs } from './bindingGlob';
+import { getGlueScopeLanguage, glueDirname, joinGluePath, splitGlobBase, toGluePath } from '../matching/glueScope';
+import { findOwningProject } from '../matching/projectScope';
 import { formatIndexingModeLog, resolveProvidersToIndex } from './providerIndexing';
+import {
+    getNuGetPackagesRoot,
+    isLibraryStepFile,
+    isSourcesJarName,
+    jarEntryPath,
+    jarStepLibrary,
+    LIBRARY_SCHEME,
+    LIBRARY_SKIP_DIR_NAMES,
+    MAX_LIBRARY_FILES,
+    npmPackageDirCandidates,
+    NUGET_SOURCE_FOLDERS,
+    nugetSourcePackageIds,
+    nugetStepLibrary,
+    pickLatestVersion,
+    readNpmStepLibrary,
+    resolveBindingRoot,
+} from './stepLibraries';
+import { readZipTextEntries } from '../parsing/zipArchive';
 
 // ============================================================================
 // Enterprise Constants
@@ -56,6 +98,15 @@ export class IndexManager {
     private indexing = false;
     private providerManager: ProviderManager;
     private cachedProviderSelection: ProviderSelection | null = null;
+    /** Reqnroll / SpecFlow binding assembly name → project directory (from .csproj files) */
+    private assemblyDirs: Map<string, string> = new Map();
+    /** Binding assemblies of framework configs that no workspace .csproj builds */
+    private unresolvedAssemblies: string[] = [];
+    /** Workspace manifests of the last project discovery (npm step libraries are their dependencies) */
+    private projectManifests: Array<{ path: string; manifest: ProjectManifest }> = [];
+    private libraries: StepLibrary[] = [];
+    /** Source jar entry path → text (jar entries have no file to read back) */
+    private libraryContents: Map<string, string> = new Map();
 
     constructor(
         private index: WorkspaceIndex,
@@ -63,6 +114,9 @@ export class IndexManager {
     ) {
         this.providerManager = getProviderManager();
         this.providerManager.setOutputChannel(outputChannel);
+        setConfiguredGherkinLanguageLookup((featurePath) =>
+            getGlueScopeLanguage(this.index.getGlueScopes(), featurePath)
+        );
     }
 
     /**
@@ -92,7 +146,11 @@ export class IndexManager {
                 return;
             }
 
-            // Step 1: Index feature files with batching
+            // Step 1: Framework configuration files (feature languages, glue paths) and project boundaries
+            await this.indexFrameworkConfigs(config);
+            this.index.setProjects(await this.discoverProjects(config));
+
+            // Step 2: Index feature files with batching
             await this.indexAllFeatures(config, maxFiles, token);
 
             // Check cancellation
@@ -101,7 +159,7 @@ export class IndexManager {
                 return;
             }
 
-            // Step 2: Detect and select providers (fresh on each full index)
+            // Step 3: Detect and select providers (fresh on each full index)
             this.outputChannel.appendLine('[IndexManager] Detecting binding providers...');
             this.providerManager.invalidateCache();
             this.cachedProviderSelection = await this.safeDetectProviders();
@@ -113,10 +171,14 @@ export class IndexManager {
                 return;
             }
 
-            // Step 3: Index bindings using selected providers (all active or primary only)
+            // Step 4: Index bindings using selected providers (all active or primary only)
             await this.indexBindingsWithProviders(config, maxFiles, token);
 
+            // Step 5: Shared step libraries (read-only; workspace files win on overlap)
+            await this.indexStepLibraries(config);
+
             this.index.markIndexed();
+            this.logProjects();
 
             const duration = Date.now() - startTime;
             const stats = this.index.getStats();
@@ -196,6 +258,328 @@ export class IndexManager {
         }
     }
 
+    /**
+     * Read framework configuration files (reqnroll.json, cucumber profiles, behave.ini, godog
+     * options) into glue scopes
+     */
+    private async indexFrameworkConfigs(config: ExtensionConfig): Promise<void> {
+        const exclude = `{${config.excludePatterns.join(',')}}`;
+        const configs: Array<{ uri: vscode.Uri; parsed: FrameworkConfig[] }> = [];
+        for (const uri of await vscode.workspace.findFiles(FRAMEWORK_CONFIG_GLOB, exclude)) {
+            const parsed = await this.readFrameworkConfig(uri);
+            if (parsed.length > 0) {
+                configs.push({ uri, parsed });
+            }
+        }
+
+        const needsAssemblies = configs.some(({ parsed }) =>
+            parsed.some((c) => (c.bindingAssemblies?.length ?? 0) > 0)
+        );
+        this.assemblyDirs = needsAssemblies ? await this.findAssemblyDirs(exclude) : new Map();
+        this.unresolvedAssemblies = [
+            ...new Set(configs.flatMap(({ parsed }) => parsed.flatMap((c) => c.bindingAssemblies ?? []))),
+        ].filter((assembly) => !this.assemblyDirs.has(assembly));
+
+        const scopes = configs.flatMap(({ uri, parsed }) => buildGlueScopes(uri.fsPath, parsed, this.assemblyDirs));
+        this.index.setGlueScopes(scopes);
+        for (const scope of scopes) {
+            this.logGlueScope(scope);
+        }
+    }
+
+    private async readFrameworkConfig(uri: vscode.Uri): Promise<FrameworkConfig[]> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            return parseFrameworkConfig(uri.fsPath, document.getText());
+        } catch (error) {
+            this.outputChannel.appendLine(`[IndexManager] Error reading ${uri.fsPath}: ${error}`);
+            return [];
+        }
+    }
+
+    private async findAssemblyDirs(exclude: string): Promise<Map<string, string>> {
+        const dirs = new Map<string, string>();
+        for (const uri of await vscode.workspace.findFiles('**/*.csproj', exclude)) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                dirs.set(readCsprojAssemblyName(uri.fsPath, document.getText()), glueDirname(uri.fsPath));
+            } catch {
+                // Unreadable project: its assembly stays unknown
+            }
+        }
+        return dirs;
+    }
+
+    private logGlueScope(scope: GlueScope): void {
+        const profile = scope.runner ? ` (${scope.runner})` : scope.profile ? ` (${scope.profile})` : '';
+        const language = scope.language ? `, language ${scope.language}` : '';
+        this.outputChannel.appendLine(
+            `[IndexManager] Framework config ${scope.source}${profile}: ` +
+            `features ${scope.features.join(', ')} → glue ${scope.glue.join(', ')}${language}`
+        );
+    }
+
+    /**
+     * Project boundaries from manifests (.csproj, package.json, go.mod, pom.xml, build.gradle)
+     * and workspace folders
+     */
+    private async discoverProjects(config: ExtensionConfig): Promise<BddProject[]> {
+        const manifests: Array<{ path: string; manifest: ProjectManifest }> = [];
+        for (const uri of await vscode.workspace.findFiles(PROJECT_MANIFEST_GLOB, `{${config.excludePatterns.join(',')}}`)) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const manifest = parseProjectManifest(uri.fsPath, document.getText());
+                if (manifest) {
+                    manifests.push({ path: uri.fsPath, manifest });
+                }
+            } catch (error) {
+                this.outputChannel.appendLine(`[IndexManager] Error reading ${uri.fsPath}: ${error}`);
+            }
+        }
+        this.projectManifests = manifests;
+        const folders = (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+        return buildBddProjects(manifests, folders);
+    }
+
+    private logProjects(): void {
+        const projects = this.index.getProjects();
+        if (projects.length < 2) {
+            return;
+        }
+        const counts = new Map<string, number>();
+        for (const binding of this.index.getAllBindings()) {
+            const owner = findOwningProject(projects, binding.uri.fsPath);
+            if (owner) {
+                counts.set(owner.root, (counts.get(owner.root) ?? 0) + 1);
+            }
+        }
+        this.outputChannel.appendLine(`[IndexManager] ${projects.length} projects:`);
+        for (const project of projects) {
+            const dependencies = project.dependencies.length > 0 ? ` → ${project.dependencies.join(', ')}` : '';
+            this.outputChannel.appendLine(
+                `  · ${project.name} (${project.kind}) ${project.root}: ${counts.get(project.root) ?? 0} bindings${dependencies}`
+            );
+        }
+    }
+
+    /**
+     * Index shared step libraries with the active providers. Their bindings are marked `library`
+     * and their documents open read-only under `LIBRARY_SCHEME`.
+     */
+    private async indexStepLibraries(config: ExtensionConfig): Promise<void> {
+        this.libraryContents.clear();
+        this.libraries = await this.discoverStepLibraries(config);
+        const selection = this.cachedProviderSelection;
+        const providers = selection ? resolveProvidersToIndex(selection, config.providerIndexMode) : [];
+        if (this.libraries.length === 0 || providers.length === 0) {
+            return;
+        }
+
+        const indexed = new Set(this.index.getAllBindings().map((binding) => toGluePath(binding.uri.fsPath)));
+        const linked = new Set<IBindingProvider>();
+        // directory libraries append their source jars while being listed
+        for (const library of this.libraries) {
+            let count = 0;
+            for (const filePath of await this.listLibraryFiles(library)) {
+                const ext = filePath.includes('.') ? '.' + filePath.split('.').pop()!.toLowerCase() : '';
+                const provider = providers.find((p) => p.bindingFileExtensions.includes(ext));
+                if (!provider || indexed.has(filePath)) {
+                    continue;
+                }
+                indexed.add(filePath);
+                const uri = vscode.Uri.file(filePath).with({ scheme: LIBRARY_SCHEME });
+                try {
+                    const document = await vscode.workspace.openTextDocument(uri);
+                    const bindings = provider
+                        .parseFile(document, { caseInsensitive: config.caseInsensitive })
+                        .map((binding) => ({ ...binding, library: true }));
+                    this.index.addBindings(bindings, provider.id);
+                    if (provider.parseParameterTypes) {
+                        this.index.setParameterTypes(uri, provider.parseParameterTypes(document));
+                    }
+                    if (provider.parseClassDeclarations) {
+                        this.index.setClassDeclarations(uri, provider.parseClassDeclarations(document));
+                    }
+                    linked.add(provider);
+                    count += bindings.length;
+                } catch (error) {
+                    this.outputChannel.appendLine(`[IndexManager] Error indexing library file ${filePath}: ${error}`);
+                }
+            }
+            this.outputChannel.appendLine(
+                `[IndexManager] Step library ${library.name} (${library.kind}) ${library.root}: ${count} bindings`
+            );
+        }
+        for (const provider of linked) {
+            this.linkProviderBindings(provider);
+        }
+        this.index.applyParameterTypes();
+    }
+
+    /**
+     * Binding roots, npm dependencies of workspace packages that declare steps, and NuGet
+     * sources of binding assemblies no workspace project builds
+     */
+    private async discoverStepLibraries(config: ExtensionConfig): Promise<StepLibrary[]> {
+        const libraries = new Map<string, StepLibrary>();
+        const add = async (library: StepLibrary | null) => {
+            if (library && !libraries.has(library.root) && (await this.statType(library.root)) !== undefined) {
+                libraries.set(library.root, library);
+            }
+        };
+
+        const baseDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+        for (const entry of config.bindingRoots ?? []) {
+            await add(resolveBindingRoot(entry, baseDir, os.homedir()));
+        }
+
+        const folders = (vscode.workspace.workspaceFolders ?? []).map((folder) => toGluePath(folder.uri.fsPath));
+        for (const { path, manifest } of this.projectManifests) {
+            if (manifest.kind !== 'node') {
+                continue;
+            }
+            const folder = folders.find((f) => toGluePath(path).startsWith(`${f}/`)) ?? glueDirname(path);
+            for (const dependency of manifest.dependencyNames) {
+                for (const packageDir of npmPackageDirCandidates(path, dependency, folder)) {
+                    const text = await this.readLibraryText(joinGluePath(packageDir, 'package.json'));
+                    if (text !== null) {
+                        await add(readNpmStepLibrary(packageDir, text));
+                        break;
+                    }
+                }
+            }
+        }
+
+        const nugetRoot = getNuGetPackagesRoot(process.env, os.homedir());
+        for (const assembly of this.unresolvedAssemblies) {
+            for (const id of nugetSourcePackageIds(assembly)) {
+                const packageDir = joinGluePath(nugetRoot, id);
+                const version = pickLatestVersion(await this.listSubdirectories(packageDir));
+                const versionDir = version ? joinGluePath(packageDir, version) : null;
+                const folders = versionDir ? await this.listSubdirectories(versionDir) : [];
+                if (versionDir && NUGET_SOURCE_FOLDERS.some((folder) => folders.includes(folder))) {
+                    await add(nugetStepLibrary(assembly, versionDir));
+                    break;
+                }
+            }
+        }
+        return [...libraries.values()];
+    }
+
+    /**
+     * Step files of a library; source jar entries are read into `libraryContents`
+     */
+    private async listLibraryFiles(library: StepLibrary): Promise<string[]> {
+        if (library.kind === 'jar') {
+            try {
+                const data = await vscode.workspace.fs.readFile(vscode.Uri.file(library.root));
+                const entries = readZipTextEntries(data, (name) => /\.(?:java|kt)$/i.test(name));
+                return [...entries].slice(0, MAX_LIBRARY_FILES).map(([name, text]) => {
+                    const filePath = jarEntryPath(library.root, name);
+                    this.libraryContents.set(filePath, text);
+                    return filePath;
+                });
+            } catch (error) {
+                this.outputChannel.appendLine(`[IndexManager] Error reading ${library.root}: ${error}`);
+                return [];
+            }
+        }
+
+        const files: string[] = [];
+        const walk = async (dir: string): Promise<void> => {
+            let entries: [string, vscode.FileType][];
+            try {
+                entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dir));
+            } catch {
+                return;
+            }
+            for (const [name, type] of entries) {
+                if (files.length >= MAX_LIBRARY_FILES) {
+                    return;
+                }
+                const full = joinGluePath(dir, name);
+                if (type & vscode.FileType.Directory) {
+                    if (!LIBRARY_SKIP_DIR_NAMES.has(name)) {
+                        await walk(full);
+                    }
+                } else if (library.kind === 'path' && isSourcesJarName(name)) {
+                    if (!this.libraries.some((l) => l.root === full)) {
+                        this.libraries.push(jarStepLibrary(full));
+                    }
+                } else if (!name.endsWith('.d.ts') && isLibraryStepFile(library, full)) {
+                    files.push(full);
+                }
+            }
+        };
+        await walk(library.root);
+        return files;
+    }
+
+    private async statType(filePath: string): Promise<vscode.FileType | undefined> {
+        try {
+            return (await vscode.workspace.fs.stat(vscode.Uri.file(filePath))).type;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async listSubdirectories(dir: string): Promise<string[]> {
+        try {
+            const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dir));
+            return entries.filter(([, type]) => type & vscode.FileType.Directory).map(([name]) => name);
+        } catch {
+            return [];
+        }
+    }
+
+    private async readLibraryText(filePath: string): Promise<string | null> {
+        try {
+            return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8');
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Cached text of a source jar entry (`bddguardian-library:` documents), if indexed
+     */
+    public getLibraryContent(uri: vscode.Uri): string | undefined {
+        return this.libraryContents.get(toGluePath(uri.fsPath));
+    }
+
+    /**
+     * Shared step libraries of the last full index
+     */
+    public getStepLibraries(): readonly StepLibrary[] {
+        return this.libraries;
+    }
+
+    /**
+     * Re-discover the project boundaries after a manifest or workspace folder change.
+     * Returns true when they changed (resolution results need a refresh, not a reindex).
+     */
+    public async refreshProjects(config: ExtensionConfig): Promise<boolean> {
+        const next = await this.discoverProjects(config);
+        if (JSON.stringify(next) === JSON.stringify(this.index.getProjects())) {
+            return false;
+        }
+        this.index.setProjects(next);
+        this.logProjects();
+        return true;
+    }
+
+    /**
+     * Re-read a changed framework configuration file.
+     * Returns true when its glue scopes changed (the workspace needs a full reindex).
+     */
+    public async refreshFrameworkConfig(uri: vscode.Uri, deleted: boolean = false): Promise<boolean> {
+        const source = toGluePath(uri.fsPath);
+        const current = this.index.getGlueScopes().filter((scope) => scope.source === source);
+        const parsed = deleted ? [] : await this.readFrameworkConfig(uri);
+        const next = buildGlueScopes(uri.fsPath, parsed, this.assemblyDirs);
+        return JSON.stringify(current) !== JSON.stringify(next);
+    }
+
     /**
      * Index all feature files with batching and max limit
      */
@@ -272,6 +656,9 @@ export class IndexManager {
             }
             await this.indexWithProvider(provider, config, maxFiles, token);
         }
+
+        // Custom parameter types can be defined in any binding file: compile once all are known
+        this.index.applyParameterTypes();
     }
 
     /**
@@ -323,6 +710,9 @@ export class IndexManager {
 
             // Add to index with provider ID
             this.index.addBindings(allBindings, provider.id);
+            await this.indexParameterTypes(provider, files);
+            await this.indexClassDeclarations(provider, files);
+            this.linkProviderBindings(provider);
 
             this.outputChannel.appendLine(
                 `[IndexManager] ${provider.displayName}: indexed ${allBindings.length} bindings`
@@ -335,6 +725,52 @@ export class IndexManager {
         }
     }
 
+    /**
+     * Collect custom parameter type definitions from the provider's binding files
+     */
+    private async indexParameterTypes(provider: IBindingProvider, files: readonly vscode.Uri[]): Promise<void> {
+        if (!provider.parseParameterTypes) {
+            return;
+        }
+        let count = 0;
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const definitions = provider.parseParameterTypes(document);
+                this.index.setParameterTypes(uri, definitions);
+                count += definitions.length;
+            } catch {
+                // Unreadable file: already reported while indexing bindings
+            }
+        }
+        if (count > 0) {
+            this.outputChannel.appendLine(`[IndexManager] ${provider.displayName}: ${count} custom parameter type(s)`);
+        }
+    }
+
+    /**
+     * Collect class declarations from the provider's binding files (cross-file binding inheritance)
+     */
+    private async indexClassDeclarations(provider: IBindingProvider, files: readonly vscode.Uri[]): Promise<void> {
+        if (!provider.parseClassDeclarations) {
+            return;
+        }
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                this.index.setClassDeclarations(uri, provider.parseClassDeclarations(document));
+            } catch {
+                // Unreadable file: already reported while indexing bindings
+            }
+        }
+    }
+
+    private linkProviderBindings(provider: IBindingProvider): void {
+        if (provider.linkBindings) {
+            this.index.linkBindings(provider.id, provider.linkBindings.bind(provider));
+        }
+    }
+
     /**
      * Index a feature from an open or in-memory document (preferred while editing).
      */
@@ -373,27 +809,40 @@ export class IndexManager {
     }
 
     /**
-     * Index a single binding file (uses primary provider)
+     * Index a single binding file with every active provider that claims its extension
+     * (behave and pytest-bdd both read `.py`)
      */
     public async indexBindingFile(uri: vscode.Uri, caseInsensitive: boolean = false): Promise<boolean> {
         try {
             const selection = this.cachedProviderSelection ?? await this.safeDetectProviders();
-            const provider = this.providerForBindingUri(uri, selection);
+            const providers = this.providersForBindingUri(uri, selection);
 
-            if (!provider) {
+            if (providers.length === 0) {
                 return false;
             }
 
             const document = await vscode.workspace.openTextDocument(uri);
-            const bindings = provider.parseFile(document, { caseInsensitive });
+            const parameterTypes: ParameterTypeDefinition[] = [];
+            const classDeclarations: BindingClassDeclaration[] = [];
+            let bindingCount = 0;
 
-            if (bindings.length > 0) {
-                this.index.removeBindingsForUri(uri);
-                this.index.addBindings(bindings, provider.id);
-                return true;
-            }
             this.index.removeBindingsForUri(uri);
-            return false;
+            for (const provider of providers) {
+                const bindings = provider.parseFile(document, { caseInsensitive });
+                if (bindings.length > 0) {
+                    this.index.addBindings(bindings, provider.id);
+                }
+                bindingCount += bindings.length;
+                parameterTypes.push(...(provider.parseParameterTypes?.(document) ?? []));
+                classDeclarations.push(...(provider.parseClassDeclarations?.(document) ?? []));
+            }
+            this.index.setParameterTypes(uri, parameterTypes);
+            this.index.setClassDeclarations(uri, classDeclarations);
+            for (const provider of providers) {
+                this.linkProviderBindings(provider);
+            }
+            this.index.applyParameterTypes();
+            return bindingCount > 0;
         } catch (error) {
             this.outputChannel.appendLine(`[IndexManager] Error indexing binding ${uri.fsPath}: ${error}`);
             return false;
@@ -412,6 +861,11 @@ export class IndexManager {
      */
     public removeBindingFile(uri: vscode.Uri): void {
         this.index.removeBindingFile(uri);
+        const selection = this.cachedProviderSelection;
+        for (const provider of selection ? resolveProvidersToIndex(selection, getConfig().providerIndexMode) : []) {
+            this.linkProviderBindings(provider);
+        }
+        this.index.applyParameterTypes();
     }
 
     /**
@@ -462,21 +916,42 @@ export class IndexManager {
             }
         }
 
+        // Glue paths of framework configs may lie outside the provider globs (`require: ['src/test/**']`)
+        const globs = new Set(this.index.getGlueScopes().flatMap((scope) => scope.glue));
+        for (const glob of globs) {
+            const { base, pattern } = splitGlobBase(glob);
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(vscode.Uri.file(base), pattern),
+                exclude
+            );
+            for (const uri of files) {
+                const ext = uri.fsPath.includes('.') ? '.' + uri.fsPath.split('.').pop()!.toLowerCase() : '';
+                if (provider.bindingFileExtensions.includes(ext) && !seen.has(uri.fsPath)) {
+                    seen.add(uri.fsPath);
+                    merged.push(uri);
+                }
+            }
+        }
+
         return merged;
     }
 
-    private providerForBindingUri(
+    private providersForBindingUri(
         uri: vscode.Uri,
         selection: ProviderSelection
-    ): IBindingProvider | null {
+    ): IBindingProvider[] {
         const ext = uri.fsPath.includes('.')
             ? '.' + uri.fsPath.split('.').pop()!.toLowerCase()
             : '';
 
         const candidates = resolveProvidersToIndex(selection, getConfig().providerIndexMode);
 
-        const byExt = candidates.find((p) => p.bindingFileExtensions.includes(ext));
-        return byExt ?? candidates[0] ?? selection.primary;
+        const byExt = candidates.filter((p) => p.bindingFileExtensions.includes(ext));
+        if (byExt.length > 0) {
+            return byExt;
+        }
+        const fallback = candidates[0] ?? selection.primary;
+        return fallback ? [fallback] : [];
     }
 
     /**
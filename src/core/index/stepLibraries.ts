@@ -0,0 +1,194 @@
+/**
+ * Shared step libraries (see `StepLibrary`): where they are and which of their files hold steps.
+ *
+ * Sources:
+ * - `bddGuardian.bindingRoots` / CLI `--binding-root`: directories (their `*-sources.jar` files
+ *   included) and source jars
+ * - npm dependencies whose package.json declares steps: `"bddGuardian": { "steps": [...] }`, or
+ *   the `cucumber-steps` / `bdd-steps` keyword (whole package); hoisted installs included
+ * - Reqnroll / SpecFlow `bindingAssemblies` without a workspace project: the `<id>.sources` or
+ *   `<id>` package of the NuGet global packages folder, when it ships sources
+ *
+ * No vscode or fs access here: the extension lists files through `vscode.workspace.fs`,
+ * the CLI through `fs`. Library files open read-only under `LIBRARY_SCHEME`.
+ */
+
+import type { StepLibrary } from '../domain/types';
+import { glueDirname, isGlobPattern, joinGluePath, matchesAnyGlob, toGluePath } from '../matching/glueScope';
+
+/** URI scheme of read-only library documents (`bddguardian-library:/libs/steps.jar!/a/Steps.java`) */
+export const LIBRARY_SCHEME = 'bddguardian-library';
+
+/** Separates a source jar path from the entry inside it */
+export const JAR_ENTRY_SEPARATOR = '!/';
+
+/** Directories never walked inside a library */
+export const LIBRARY_SKIP_DIR_NAMES: ReadonlySet<string> = new Set(['node_modules', '.git', 'bin', 'obj']);
+
+/** Step files read per library (performance guardrail) */
+export const MAX_LIBRARY_FILES = 2000;
+
+/** Folders of a NuGet package that may hold C# sources */
+export const NUGET_SOURCE_FOLDERS: readonly string[] = ['contentFiles', 'content', 'src'];
+
+const NPM_STEP_KEYWORDS = new Set(['cucumber-steps', 'bdd-steps']);
+
+/**
+ * A configured binding root: a directory or a source jar. Relative paths resolve against
+ * `baseDir`, `~` against the home directory.
+ */
+export function resolveBindingRoot(entry: string, baseDir: string, homeDir: string): StepLibrary | null {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+        return null;
+    }
+    const expanded = /^~(?:[\\/]|$)/.test(trimmed)
+        ? joinGluePath(homeDir, trimmed.slice(1).replace(/^[\\/]+/, ''))
+        : trimmed;
+    const root = joinGluePath(baseDir, expanded).replace(/\/+$/, '');
+    return {
+        kind: /\.jar$/i.test(root) ? 'jar' : 'path',
+        name: baseName(root),
+        root,
+        include: ['**'],
+    };
+}
+
+/** Step library an installed npm package declares, if any */
+export function readNpmStepLibrary(packageDir: string, packageJsonText: string): StepLibrary | null {
+    let json: unknown;
+    try {
+        json = JSON.parse(packageJsonText);
+    } catch {
+        return null;
+    }
+    if (typeof json !== 'object' || json === null) {
+        return null;
+    }
+    const manifest = json as { name?: unknown; keywords?: unknown; bddGuardian?: { steps?: unknown } };
+    const declared = manifest.bddGuardian?.steps;
+    const include =
+        typeof declared === 'string'
+            ? [declared]
+            : Array.isArray(declared)
+              ? declared.filter((s): s is string => typeof s === 'string')
+              : Array.isArray(manifest.keywords) && manifest.keywords.some((k) => NPM_STEP_KEYWORDS.has(k))
+                ? ['**']
+                : [];
+    if (include.length === 0) {
+        return null;
+    }
+    const root = toGluePath(packageDir).replace(/\/+$/, '');
+    return {
+        kind: 'npm',
+        name: typeof manifest.name === 'string' ? manifest.name : baseName(root),
+        root,
+        include,
+    };
+}
+
+/**
+ * Directories an npm dependency may be installed in, nearest first: `node_modules` next to the
+ * package.json, then of its ancestors up to `rootDir` (workspaces hoist dependencies to the root)
+ */
+export function npmPackageDirCandidates(packageJsonPath: string, dependency: string, rootDir: string): string[] {
+    const root = toGluePath(rootDir).replace(/\/+$/, '');
+    const candidates: string[] = [];
+    let dir = glueDirname(packageJsonPath);
+    for (;;) {
+        candidates.push(joinGluePath(dir, `node_modules/${dependency}`));
+        const parent = glueDirname(dir);
+        if (dir === root || parent === dir || !dir.startsWith(`${root}/`)) {
+            return candidates;
+        }
+        dir = parent;
+    }
+}
+
+/** Jar found in a binding root directory: only `*-sources.jar` holds sources */
+export function isSourcesJarName(fileName: string): boolean {
+    return /-sources\.jar$/i.test(fileName);
+}
+
+/** Library of a source jar */
+export function jarStepLibrary(jarPath: string): StepLibrary {
+    const root = toGluePath(jarPath);
+    return { kind: 'jar', name: baseName(root), root, include: ['**'] };
+}
+
+/** NuGet global packages folder (`NUGET_PACKAGES`, else `~/.nuget/packages`) */
+export function getNuGetPackagesRoot(env: Readonly<Record<string, string | undefined>>, homeDir: string): string {
+    return toGluePath(env.NUGET_PACKAGES || joinGluePath(homeDir, '.nuget/packages'));
+}
+
+/** Package directories (lower-case ids) that may ship an assembly's sources, in order of preference */
+export function nugetSourcePackageIds(assemblyName: string): string[] {
+    const id = assemblyName.toLowerCase();
+    return [`${id}.sources`, id];
+}
+
+/** Library of an assembly's NuGet sources (`<packages>/<id>/<version>`) */
+export function nugetStepLibrary(assemblyName: string, versionDir: string): StepLibrary {
+    return {
+        kind: 'nuget',
+        name: assemblyName,
+        root: toGluePath(versionDir),
+        include: NUGET_SOURCE_FOLDERS.map((folder) => `${folder}/**/*.cs`),
+    };
+}
+
+/** Highest version directory name (releases before pre-releases of the same version) */
+export function pickLatestVersion(versions: readonly string[]): string | undefined {
+    return [...versions].sort((a, b) => compareVersions(b, a))[0];
+}
+
+/** Whether a file of a directory library holds steps, by its include globs */
+export function isLibraryStepFile(library: StepLibrary, filePath: string): boolean {
+    const globs = library.include.map((entry) => {
+        const path = joinGluePath(library.root, entry);
+        return isGlobPattern(entry) || /\.\w+$/.test(entry) ? path : `${path}/**`;
+    });
+    return matchesAnyGlob(filePath, globs);
+}
+
+/** Path of an entry inside a source jar (`/libs/steps-sources.jar!/com/shop/Steps.java`) */
+export function jarEntryPath(jarPath: string, entry: string): string {
+    return `${toGluePath(jarPath)}${JAR_ENTRY_SEPARATOR}${entry}`;
+}
+
+/** Library with the deepest root owning a file path (a source jar inside a binding root), if any */
+export function findOwningLibrary(libraries: readonly StepLibrary[], filePath: string): StepLibrary | undefined {
+    const normalized = toGluePath(filePath);
+    let owner: StepLibrary | undefined;
+    for (const library of libraries) {
+        const inside =
+            normalized.startsWith(`${library.root}/`) ||
+            normalized.startsWith(`${library.root}${JAR_ENTRY_SEPARATOR}`);
+        if (inside && (!owner || library.root.length > owner.root.length)) {
+            owner = library;
+        }
+    }
+    return owner;
+}
+
+function compareVersions(a: string, b: string): number {
+    const [coreA, preA] = splitVersion(a);
+    const [coreB, preB] = splitVersion(b);
+    const byCore = coreA.localeCompare(coreB, undefined, { numeric: true });
+    if (byCore !== 0) {
+        return byCore;
+    }
+    if (!preA || !preB) {
+        return preA ? -1 : preB ? 1 : 0;
+    }
+    return preA.localeCompare(preB, undefined, { numeric: true });
+}
+
+function splitVersion(version: string): [string, string] {
+    const dash = version.indexOf('-');
+    return dash < 0 ? [version, ''] : [version.slice(0, dash), version.slice(dash + 1)];
+}
+
+function baseName(filePath: string): string {
+    return toGluePath(filePath).split('/').pop() || glueDirname(filePath);
+}
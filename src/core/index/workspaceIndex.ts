@@ -16,8 +16,13 @@ import {
     WorkspaceIndexData,
     IndexChangeEvent,
     IndexChangeType,
+    ParameterTypeDefinition,
+    BindingClassDeclaration,
+    GlueScope,
+    BddProject,
 } from '../domain/types';
 import { getBindingIdentity } from '../matching/bindingIdentity';
+import { applyParameterTypes } from '../parsing/parameterTypes';
 
 /** Provider ID type (imported from providers module to avoid circular deps) */
 export type ProviderId = string;
@@ -43,6 +48,16 @@ export class WorkspaceIndex {
     // Multi-provider support
     private bindingsByProvider: Map<ProviderId, Binding[]> = new Map();
     private activeProviders: Set<ProviderId> = new Set();
+
+    // Custom Cucumber Expression parameter types by defining file
+    private parameterTypesByUri: Map<string, ParameterTypeDefinition[]> = new Map();
+
+    // Class declarations for cross-file binding inheritance, by declaring file
+    private classDeclarationsByUri: Map<string, BindingClassDeclaration[]> = new Map();
+
+    // Feature / glue scopes from framework configuration files
+    private glueScopes: GlueScope[] = [];
+    private projects: BddProject[] = [];
     
     private lastIndexed: Date = new Date(0);
     private listeners: IndexChangeListener[] = [];
@@ -154,6 +169,41 @@ export class WorkspaceIndex {
         return Array.from(this.activeProviders);
     }
 
+    /**
+     * Get all indexed custom parameter types
+     */
+    public getParameterTypes(): readonly ParameterTypeDefinition[] {
+        return Array.from(this.parameterTypesByUri.values()).flat();
+    }
+
+    /**
+     * Get all indexed class declarations (binding inheritance)
+     */
+    public getClassDeclarations(): readonly BindingClassDeclaration[] {
+        return Array.from(this.classDeclarationsByUri.values()).flat();
+    }
+
+    /**
+     * Get the glue scopes read from framework configuration files
+     */
+    public getGlueScopes(): readonly GlueScope[] {
+        return this.glueScopes;
+    }
+
+    /**
+     * Get the project boundaries (manifest directories and workspace folders)
+     */
+    public getProjects(): readonly BddProject[] {
+        return this.projects;
+    }
+
+    /**
+     * Find the definition of a custom parameter type for a provider (first one wins)
+     */
+    public findParameterType(name: string, providerId?: string): ParameterTypeDefinition | undefined {
+        return this.getParameterTypes().find((d) => d.name === name && d.providerId === providerId);
+    }
+
     /**
      * Get binding count per provider
      */
@@ -256,6 +306,93 @@ export class WorkspaceIndex {
         }
     }
 
+    /**
+     * Replace the parameter types defined in a file (call applyParameterTypes afterwards)
+     */
+    public setParameterTypes(uri: vscode.Uri, definitions: readonly ParameterTypeDefinition[]): void {
+        if (definitions.length > 0) {
+            this.parameterTypesByUri.set(uri.toString(), [...definitions]);
+        } else {
+            this.parameterTypesByUri.delete(uri.toString());
+        }
+    }
+
+    /**
+     * Recompile bindings that use custom parameter types against the current definitions
+     */
+    public applyParameterTypes(): void {
+        const updated = applyParameterTypes(this.allBindings, this.getParameterTypes());
+        const replaced = new Map<Binding, Binding>();
+        updated.forEach((binding, i) => {
+            if (binding !== this.allBindings[i]) {
+                replaced.set(this.allBindings[i], binding);
+            }
+        });
+        if (replaced.size === 0) {
+            return;
+        }
+
+        const swap = (bindings: Binding[]) => bindings.map((b) => replaced.get(b) ?? b);
+        this.allBindings = updated;
+        for (const [keyword, bindings] of this.bindingsByKeyword) {
+            this.bindingsByKeyword.set(keyword, swap(bindings));
+        }
+        for (const [providerId, bindings] of this.bindingsByProvider) {
+            this.bindingsByProvider.set(providerId, swap(bindings));
+        }
+        this.emitChange('binding-updated');
+    }
+
+    /**
+     * Replace the class declarations of a file (call linkBindings afterwards)
+     */
+    public setClassDeclarations(uri: vscode.Uri, declarations: readonly BindingClassDeclaration[]): void {
+        if (declarations.length > 0) {
+            this.classDeclarationsByUri.set(uri.toString(), [...declarations]);
+        } else {
+            this.classDeclarationsByUri.delete(uri.toString());
+        }
+    }
+
+    /**
+     * Replace the glue scopes (framework configuration files are read before features and bindings)
+     */
+    public setGlueScopes(scopes: readonly GlueScope[]): void {
+        this.glueScopes = [...scopes];
+    }
+
+    /**
+     * Replace the project boundaries
+     */
+    public setProjects(projects: readonly BddProject[]): void {
+        this.projects = [...projects];
+    }
+
+    /**
+     * Re-run a provider's cross-file pass over its bindings and the current class declarations
+     */
+    public linkBindings(
+        providerId: ProviderId,
+        link: (bindings: readonly Binding[], classes: readonly BindingClassDeclaration[]) => Binding[]
+    ): void {
+        const current = this.bindingsByProvider.get(providerId);
+        if (!current || current.length === 0) {
+            return;
+        }
+        const linked = link(current, this.getClassDeclarations());
+        const removed = new Set(current);
+
+        this.allBindings = [...this.allBindings.filter((b) => !removed.has(b)), ...linked];
+        for (const [keyword, bindings] of this.bindingsByKeyword) {
+            this.bindingsByKeyword.set(keyword, [
+                ...bindings.filter((b) => !removed.has(b)),
+                ...linked.filter((b) => b.keyword === keyword),
+            ]);
+        }
+        this.bindingsByProvider.set(providerId, linked);
+        this.emitChange('binding-updated');
+    }
+
     /**
      * Clear bindings for a specific provider
      */
@@ -297,6 +434,8 @@ export class WorkspaceIndex {
         const uriStr = uri.toString();
         const hadBindings = this.allBindings.some(b => b.uri.toString() === uriStr);
         this.bindingFiles.delete(uriStr);
+        this.parameterTypesByUri.delete(uriStr);
+        this.classDeclarationsByUri.delete(uriStr);
         this.removeBindingsFromFile(uri);
         if (hadBindings) {
             this.emitChange('binding-removed', uri);
@@ -326,6 +465,10 @@ export class WorkspaceIndex {
         ]);
         this.bindingsByProvider.clear();
         this.activeProviders.clear();
+        this.parameterTypesByUri.clear();
+        this.classDeclarationsByUri.clear();
+        this.glueScopes = [];
+        this.projects = [];
         this.emitChange('full-reindex');
     }
 
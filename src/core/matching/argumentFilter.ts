@@ -0,0 +1,28 @@
+/**
+ * Step argument filter (data tables / doc strings).
+ *
+ * Policy:
+ * - Binding with unknown signature (stepArgument undefined) → always compatible.
+ * - Step with a data table → binding must take 'dataTable' (or 'any').
+ * - Step with a doc string → binding must take 'docString' (or 'any').
+ * - Step without an argument → binding must take 'none'.
+ */
+
+import { Binding, StepArgument } from '../domain/types';
+
+/**
+ * Whether a binding's parameters fit the step's argument (arity as the runtime checks it).
+ */
+export function isBindingArgumentCompatible(
+    binding: Binding,
+    argument: StepArgument | undefined
+): boolean {
+    const accepts = binding.stepArgument;
+    if (accepts === undefined) {
+        return true;
+    }
+    if (!argument) {
+        return accepts === 'none';
+    }
+    return accepts === 'any' || accepts === argument.kind;
+}
@@ -6,3 +6,8 @@ export function getBindingIdentity(binding: Binding): string {
     // (e.g. [StepDefinition] or multiple attributes).
     return `${binding.uri.toString()}\0${binding.lineNumber}\0${binding.keyword}\0${binding.methodName}\0${binding.patternRaw}`;
 }
+
+/** Same source location and pattern, whatever keyword it was indexed under. */
+export function getBindingSourceIdentity(binding: Binding): string {
+    return `${binding.uri.toString()}\0${binding.lineNumber}\0${binding.methodName}\0${binding.patternRaw}`;
+}
@@ -0,0 +1,155 @@
+/**
+ * Glue scopes from framework configuration files (see `GlueScope`).
+ *
+ * Policy:
+ * - A feature is owned by every scope whose feature patterns cover it.
+ * - A feature no scope covers resolves against all bindings (fixed globs, as before).
+ * - Otherwise a binding is visible when its file is in the glue of one of the owning scopes.
+ *
+ * Patterns are absolute POSIX globs: `**`, `*`, `?`, `{a,b}` and `[…]` are supported.
+ */
+
+import type { Binding, GlueScope } from '../domain/types';
+
+const compiledGlobs = new Map<string, RegExp>();
+
+/** POSIX form of a file path (`C:\src\a.feature` → `C:/src/a.feature`) */
+export function toGluePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * Join a relative path or glob to an absolute directory, resolving `.` and `..` segments.
+ * Absolute paths are returned as they are.
+ */
+export function joinGluePath(baseDir: string, relative: string): string {
+    const rel = toGluePath(relative.trim());
+    if (rel.startsWith('/') || /^[A-Za-z]:\//.test(rel)) {
+        return rel;
+    }
+    const segments = toGluePath(baseDir).replace(/\/+$/, '').split('/');
+    for (const segment of rel.split('/')) {
+        if (segment === '' || segment === '.') {
+            continue;
+        }
+        if (segment === '..' && segments.length > 1) {
+            segments.pop();
+        } else {
+            segments.push(segment);
+        }
+    }
+    return segments.join('/') || '/';
+}
+
+/** Directory part of a POSIX path */
+export function glueDirname(filePath: string): string {
+    const normalized = toGluePath(filePath);
+    const slash = normalized.lastIndexOf('/');
+    return slash <= 0 ? '/' : normalized.slice(0, slash);
+}
+
+/** Whether a path entry contains glob syntax */
+export function isGlobPattern(entry: string): boolean {
+    return /[*?{[]/.test(entry);
+}
+
+/** Directory before the first glob segment, and the rest (`/p/steps/**\/*.ts` → `/p/steps`, `**\/*.ts`) */
+export function splitGlobBase(glob: string): { base: string; pattern: string } {
+    const segments = toGluePath(glob).split('/');
+    let firstGlob = segments.findIndex((segment) => isGlobPattern(segment));
+    if (firstGlob < 0) {
+        firstGlob = segments.length - 1;
+    }
+    return {
+        base: segments.slice(0, firstGlob).join('/') || '/',
+        pattern: segments.slice(firstGlob).join('/'),
+    };
+}
+
+/** Regular expression for a POSIX glob (whole-path match) */
+export function globToRegExp(glob: string): RegExp {
+    const cached = compiledGlobs.get(glob);
+    if (cached) {
+        return cached;
+    }
+
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            const slashAfter = glob[i + 2] === '/';
+            // `**/` matches zero or more directories, a trailing `**` everything below
+            source += slashAfter ? '(?:[^/]*/)*' : '.*';
+            i += slashAfter ? 2 : 1;
+        } else if (ch === '*') {
+            source += '[^/]*';
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else if (ch === '{') {
+            braces++;
+            source += '(?:';
+        } else if (ch === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (ch === ',' && braces > 0) {
+            source += '|';
+        } else if (ch === '[') {
+            const close = glob.indexOf(']', i + 1);
+            if (close < 0) {
+                source += '\\[';
+            } else {
+                source += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = close;
+            }
+        } else {
+            source += ch.replace(/[.+^$()|\\\]]/g, '\\$&');
+        }
+    }
+    source += ')'.repeat(braces);
+
+    const regex = new RegExp(`^${source}$`);
+    compiledGlobs.set(glob, regex);
+    return regex;
+}
+
+/** Whether a file path matches any of the globs */
+export function matchesAnyGlob(filePath: string, globs: readonly string[]): boolean {
+    const normalized = toGluePath(filePath);
+    return globs.some((glob) => globToRegExp(glob).test(normalized));
+}
+
+/** Scopes whose feature patterns cover the feature file */
+export function findOwningGlueScopes(scopes: readonly GlueScope[], featurePath: string): GlueScope[] {
+    return scopes.filter((scope) => matchesAnyGlob(featurePath, scope.features));
+}
+
+/**
+ * Binding visibility for one feature file; undefined when no scope covers the feature
+ * (every binding is visible).
+ */
+export function createGlueFilter(
+    scopes: readonly GlueScope[] | undefined,
+    featurePath: string
+): ((binding: Binding) => boolean) | undefined {
+    const owning = scopes && scopes.length > 0 ? findOwningGlueScopes(scopes, featurePath) : [];
+    if (owning.length === 0) {
+        return undefined;
+    }
+    const glue = owning.flatMap((scope) => scope.glue);
+    return (binding) => matchesAnyGlob(binding.uri.fsPath, glue);
+}
+
+/** Whether the binding may be used by steps of the feature file */
+export function isBindingInGlueScope(
+    binding: Binding,
+    featurePath: string,
+    scopes: readonly GlueScope[] | undefined
+): boolean {
+    return createGlueFilter(scopes, featurePath)?.(binding) ?? true;
+}
+
+/** Gherkin language the first owning scope with a language sets for the feature file */
+export function getGlueScopeLanguage(scopes: readonly GlueScope[], featurePath: string): string | undefined {
+    return findOwningGlueScopes(scopes, featurePath).find((scope) => scope.language)?.language;
+}
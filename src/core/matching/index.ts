@@ -2,11 +2,31 @@
  * Matching Module Exports
  */
 
-export { normalizeWhitespace, generateCandidateTexts, extractPlaceholders } from './normalization';
+export { normalizeWhitespace, generateCandidateTexts, expandExampleRow, extractPlaceholders } from './normalization';
 export { calculateScore, compareScores } from './scoring';
 export { createResolver, resolveAll, type ResolverOptions, type ResolverDependencies } from './resolver';
 export { applyMatchingSettings } from './resolverDeps';
 export { isBindingInScope, normalizeScopeTag } from './scopeFilter';
+export { isBindingArgumentCompatible } from './argumentFilter';
+export {
+    createGlueFilter,
+    findOwningGlueScopes,
+    getGlueScopeLanguage,
+    globToRegExp,
+    isBindingInGlueScope,
+    matchesAnyGlob,
+} from './glueScope';
+export { createProjectFilter, findOwningProject, isBindingInProject } from './projectScope';
+export {
+    getMatchingProfile,
+    getProfileRegex,
+    MATCHING_PROFILES,
+    DEFAULT_MATCHING_PROFILE,
+    type MatchingProfile,
+    type KeywordPolicy,
+    type AmbiguityPolicy,
+    type AnchoringPolicy,
+} from './matchingProfile';
 export {
     explainAmbiguity,
     ambiguityI18n,
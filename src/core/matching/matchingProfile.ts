@@ -0,0 +1,133 @@
+/**
+ * Matching profiles — how each framework's runner pairs steps with step definitions.
+ *
+ * The resolver picks the profile from `Binding.providerId`; bindings without one
+ * (C# Reqnroll / SpecFlow parser) use the default Reqnroll-like profile.
+ */
+
+import type { Binding } from '../domain/types';
+
+/**
+ * - 'strict': only definitions registered for the step's keyword (Behave, pytest-bdd, cucumber-rs)
+ * - 'fallback': same keyword first, other keywords with a score penalty when none match (Reqnroll UX)
+ * - 'ignore': the keyword plays no part in matching (Cucumber.js, Cucumber-JVM, Cucumber Ruby, Godog, Behat)
+ */
+export type KeywordPolicy = 'strict' | 'fallback' | 'ignore';
+
+/**
+ * - 'report': two or more matching definitions are ambiguous
+ * - 'first': the first definition in load order wins (Behave registry)
+ */
+export type AmbiguityPolicy = 'report' | 'first';
+
+/**
+ * - 'full': regex patterns must match the whole step text (Reqnroll adds ^…$)
+ * - 'asWritten': regex patterns match anywhere unless they carry their own ^ / $
+ *   (Godog strings, Cucumber.js, Cucumber Ruby, Behat and cucumber-rs regex patterns). Cucumber Expressions are always whole-text.
+ */
+export type AnchoringPolicy = 'full' | 'asWritten';
+
+export interface MatchingProfile {
+    readonly id: string;
+    readonly keywords: KeywordPolicy;
+    readonly ambiguity: AmbiguityPolicy;
+    readonly regexAnchoring: AnchoringPolicy;
+}
+
+const REQNROLL_PROFILE: MatchingProfile = {
+    id: 'csharp-reqnroll',
+    keywords: 'fallback',
+    ambiguity: 'report',
+    regexAnchoring: 'full',
+};
+
+export const MATCHING_PROFILES: Readonly<Record<string, MatchingProfile>> = {
+    'csharp-reqnroll': REQNROLL_PROFILE,
+    'csharp-specflow': { ...REQNROLL_PROFILE, id: 'csharp-specflow' },
+    'js-cucumber': {
+        id: 'js-cucumber',
+        keywords: 'ignore',
+        ambiguity: 'report',
+        regexAnchoring: 'asWritten',
+    },
+    'java-cucumber': {
+        id: 'java-cucumber',
+        keywords: 'ignore',
+        ambiguity: 'report',
+        regexAnchoring: 'full',
+    },
+    'go-godog': {
+        id: 'go-godog',
+        keywords: 'ignore',
+        ambiguity: 'report',
+        regexAnchoring: 'asWritten',
+    },
+    'python-behave': {
+        id: 'python-behave',
+        keywords: 'strict',
+        ambiguity: 'first',
+        regexAnchoring: 'full',
+    },
+    'python-pytestbdd': {
+        id: 'python-pytestbdd',
+        keywords: 'strict',
+        ambiguity: 'report',
+        regexAnchoring: 'full',
+    },
+    'php-behat': {
+        id: 'php-behat',
+        keywords: 'ignore',
+        ambiguity: 'report',
+        regexAnchoring: 'asWritten',
+    },
+    'rust-cucumber': {
+        id: 'rust-cucumber',
+        keywords: 'strict',
+        ambiguity: 'report',
+        regexAnchoring: 'asWritten',
+    },
+    'ruby-cucumber': {
+        id: 'ruby-cucumber',
+        keywords: 'ignore',
+        ambiguity: 'report',
+        regexAnchoring: 'asWritten',
+    },
+};
+
+export const DEFAULT_MATCHING_PROFILE = REQNROLL_PROFILE;
+
+/**
+ * Profile for a provider id (default profile for unknown or missing ids)
+ */
+export function getMatchingProfile(providerId: string | undefined): MatchingProfile {
+    return (providerId && MATCHING_PROFILES[providerId]) || DEFAULT_MATCHING_PROFILE;
+}
+
+/** Profile-specific regex per binding (only built when it differs from binding.regex) */
+const profileRegexCache = new WeakMap<Binding, RegExp>();
+
+/**
+ * Regex to test step text with under the binding's profile: unanchored for 'asWritten'
+ * regex patterns. Case sensitivity is the binding's own (`caseInsensitive` indexing option).
+ */
+export function getProfileRegex(binding: Binding, profile: MatchingProfile): RegExp {
+    const cached = profileRegexCache.get(binding);
+    if (cached) {
+        return cached;
+    }
+
+    let source = binding.regex.source;
+    if (profile.regexAnchoring === 'asWritten' && binding.expressionType === 'regex') {
+        // compileBindingRegex adds ^ and $; drop the ones the author did not write
+        if (!binding.patternRaw.startsWith('^') && source.startsWith('^')) {
+            source = source.slice(1);
+        }
+        if (!binding.patternRaw.endsWith('$') && source.endsWith('$') && !source.endsWith('\\$')) {
+            source = source.slice(0, -1);
+        }
+    }
+
+    const regex = source === binding.regex.source ? binding.regex : new RegExp(source, binding.regex.flags);
+    profileRegexCache.set(binding, regex);
+    return regex;
+}
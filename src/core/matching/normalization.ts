@@ -21,6 +21,8 @@ export function normalizeWhitespace(text: string): string {
  * - Replaces <placeholders> with actual values from Examples rows
  * - Limited to MAX_CANDIDATES_PER_STEP candidates
  * - Always includes fallback candidate with <placeholder> -> "X"
+ * - The resolver checks every row on its own through FeatureStep.exampleRows;
+ *   these candidates are only a capped sample of the rows
  * 
  * @param rawText The raw step text (may contain <placeholders>)
  * @param examples Optional Examples tables for Scenario Outline
@@ -55,19 +57,7 @@ export function generateCandidateTexts(rawText: string, examples?: readonly Exam
         const maxRows = Math.min(example.rows.length, remainingSlots);
 
         for (let rowIdx = 0; rowIdx < maxRows; rowIdx++) {
-            const row = example.rows[rowIdx];
-            let expandedText = normalizedText;
-
-            // Replace each placeholder with the corresponding value
-            for (let colIdx = 0; colIdx < example.headers.length; colIdx++) {
-                const placeholder = `<${example.headers[colIdx]}>`;
-                const value = row[colIdx] ?? 'X';
-                // Replace all occurrences of this placeholder
-                expandedText = expandedText.split(placeholder).join(value);
-            }
-
-            // Normalize the expanded text
-            expandedText = normalizeWhitespace(expandedText);
+            const expandedText = expandExampleRow(normalizedText, example.headers, example.rows[rowIdx]);
 
             // Add if unique
             if (!candidates.includes(expandedText)) {
@@ -79,6 +69,22 @@ export function generateCandidateTexts(rawText: string, examples?: readonly Exam
     return candidates;
 }
 
+/**
+ * Substitute one Examples row into a step text (`<header>` -> cell value, missing cells -> "X").
+ */
+export function expandExampleRow(
+    text: string,
+    headers: readonly string[],
+    row: readonly string[]
+): string {
+    let expandedText = text;
+    for (let colIdx = 0; colIdx < headers.length; colIdx++) {
+        // Replace all occurrences of this placeholder
+        expandedText = expandedText.split(`<${headers[colIdx]}>`).join(row[colIdx] ?? 'X');
+    }
+    return normalizeWhitespace(expandedText);
+}
+
 /**
  * Extract placeholders from a step text
  * @returns Array of placeholder names (without < >)
@@ -0,0 +1,73 @@
+/**
+ * Project boundaries in monorepos and multi-root workspaces (see `BddProject`).
+ *
+ * Policy:
+ * - A file belongs to the project with the deepest root containing it.
+ * - Steps of a feature see the bindings of its project and of the projects it references.
+ * - Bindings outside every project (shared step libraries) are visible to all features.
+ * - A feature outside every project sees every binding.
+ *
+ * Framework configuration glue (`glueScope.ts`) is more precise and takes precedence: the
+ * resolver applies project boundaries only to features no glue scope covers.
+ */
+
+import type { BddProject, Binding } from '../domain/types';
+import { toGluePath } from './glueScope';
+
+/** Owning project per file path, per project list (the index replaces the list on change) */
+const ownerCache = new WeakMap<readonly BddProject[], Map<string, BddProject | null>>();
+
+/** Project with the deepest root containing the file */
+export function findOwningProject(projects: readonly BddProject[], filePath: string): BddProject | undefined {
+    let cache = ownerCache.get(projects);
+    if (!cache) {
+        cache = new Map();
+        ownerCache.set(projects, cache);
+    }
+    const cached = cache.get(filePath);
+    if (cached !== undefined) {
+        return cached ?? undefined;
+    }
+
+    const normalized = toGluePath(filePath);
+    let owner: BddProject | null = null;
+    for (const project of projects) {
+        const inside = normalized === project.root || normalized.startsWith(`${project.root}/`);
+        if (inside && (!owner || project.root.length > owner.root.length)) {
+            owner = project;
+        }
+    }
+    cache.set(filePath, owner);
+    return owner ?? undefined;
+}
+
+/**
+ * Binding visibility for one feature file; undefined when there is no boundary to apply
+ * (fewer than two projects, or the feature belongs to none).
+ */
+export function createProjectFilter(
+    projects: readonly BddProject[] | undefined,
+    featurePath: string
+): ((binding: Binding) => boolean) | undefined {
+    if (!projects || projects.length < 2) {
+        return undefined;
+    }
+    const own = findOwningProject(projects, featurePath);
+    if (!own) {
+        return undefined;
+    }
+    const visible = new Set([own.root, ...own.dependencies]);
+    return (binding) => {
+        const owner = findOwningProject(projects, binding.uri.fsPath);
+        return !owner || visible.has(owner.root);
+    };
+}
+
+/** Whether the binding may be used by steps of the feature file */
+export function isBindingInProject(
+    binding: Binding,
+    featurePath: string,
+    projects: readonly BddProject[] | undefined
+): boolean {
+    return createProjectFilter(projects, featurePath)?.(binding) ?? true;
+}
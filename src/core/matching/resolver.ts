@@ -4,6 +4,7 @@
  * 
  * Used by CodeLens, Diagnostics, DefinitionProvider, and HoverProvider
  * All resolution logic goes through this module.
+ * Keyword handling, ambiguity and anchoring follow each binding's matching profile.
  */
 
 import {
@@ -14,10 +15,18 @@ import {
     MatchStatus,
     ResolveDebugInfo,
     ResolvedKeyword,
+    ExampleRowStep,
+    ExampleRowResult,
+    GlueScope,
+    BddProject,
 } from '../domain/types';
 import { calculateScore, compareScores } from './scoring';
-import { getBindingIdentity } from './bindingIdentity';
+import { getBindingIdentity, getBindingSourceIdentity } from './bindingIdentity';
+import { getMatchingProfile, getProfileRegex } from './matchingProfile';
 import { isBindingInScope } from './scopeFilter';
+import { isBindingArgumentCompatible } from './argumentFilter';
+import { createGlueFilter } from './glueScope';
+import { createProjectFilter } from './projectScope';
 
 /**
  * Resolver options
@@ -29,6 +38,10 @@ export interface ResolverDependencies {
     getBindingsByKeyword: (keyword: ResolvedKeyword) => readonly Binding[];
     /** Prefer highest score when multiple bindings match (legacy; default false) */
     preferSpecificBinding?: boolean;
+    /** Framework configuration scopes: steps of a covered feature only see bindings in its glue */
+    glueScopes?: readonly GlueScope[];
+    /** Project boundaries, for features no glue scope covers: own project and referenced projects only */
+    projects?: readonly BddProject[];
 }
 
 export interface ResolverOptions {
@@ -43,85 +56,29 @@ export interface ResolverOptions {
  */
 export function createResolver(deps: ResolverDependencies) {
     return function resolve(step: FeatureStep, options: ResolverOptions = {}): ResolveResult {
-        const candidates: MatchCandidate[] = [];
-        const seenBindings = new Set<string>();
         const { debug = false } = options;
+        const preferSpecific =
+            options.preferSpecificBinding ?? deps.preferSpecificBinding ?? false;
 
-        const addCandidate = (matchResult: MatchCandidate): void => {
-            const key = getBindingIdentity(matchResult.binding);
-            if (seenBindings.has(key)) {
-                return;
-            }
-            seenBindings.add(key);
-            candidates.push(matchResult);
-        };
-
-        // First, try matching with exact keyword
-        const keywordBindings = deps.getBindingsByKeyword(step.keywordResolved);
-        
-        for (const binding of keywordBindings) {
-            if (!isBindingInScope(binding, step.tagsEffective)) {
-                continue;
-            }
-            const matchResult = tryMatch(binding, step.candidateTexts, true);
-            if (matchResult) {
-                addCandidate(matchResult);
-            }
-        }
-
-        // If no matches, try fallback to other keywords
-        if (candidates.length === 0) {
-            const allBindings = deps.getAllBindings();
-            for (const binding of allBindings) {
-                if (binding.keyword !== step.keywordResolved) {
-                    if (!isBindingInScope(binding, step.tagsEffective)) {
-                        continue;
-                    }
-                    const matchResult = tryMatch(binding, step.candidateTexts, false);
-                    if (matchResult) {
-                        addCandidate(matchResult);
-                    }
-                }
-            }
-        }
-
-        // Sort by score descending
-        candidates.sort((a, b) => compareScores(a.score, b.score));
+        let result: ResolveResult;
 
-        // Determine status
-        let status: MatchStatus;
-        let best: MatchCandidate | undefined;
-
-        if (candidates.length === 0) {
-            status = 'unbound';
-        } else if (candidates.length === 1) {
-            status = 'bound';
-            best = candidates[0];
+        if (step.exampleRows && step.exampleRows.length > 0) {
+            // Outline steps: every Examples row is resolved on its own (text + Examples tags)
+            const rows = resolveExampleRows(deps, step, step.exampleRows, preferSpecific);
+            result = { step, ...aggregateRowResults(rows), rows };
         } else {
-            const preferSpecific =
-                options.preferSpecificBinding ?? deps.preferSpecificBinding ?? false;
-            if (preferSpecific && candidates[0].score > candidates[1].score) {
-                status = 'bound';
-            } else {
-                status = 'ambiguous';
-            }
-            best = candidates[0];
+            const candidates = findCandidates(deps, step, step.candidateTexts, step.tagsEffective);
+            result = { step, ...determineStatus(candidates, preferSpecific), candidates };
         }
 
-        // Build result
-        const result: ResolveResult = {
-            step,
-            status,
-            best,
-            candidates,
-        };
-
         // Add debug info if requested
         if (debug) {
             const debugInfo: ResolveDebugInfo = {
                 stepText: step.rawText,
-                candidateTextCount: step.candidateTexts.length,
-                sampleCandidates: step.candidateTexts.slice(0, 3),
+                candidateTextCount: step.exampleRows?.length || step.candidateTexts.length,
+                sampleCandidates: step.exampleRows?.length
+                    ? step.exampleRows.slice(0, 3).map((r) => r.text)
+                    : step.candidateTexts.slice(0, 3),
                 bindingsChecked: deps.getAllBindings().length,
             };
             return { ...result, debug: debugInfo };
@@ -131,6 +88,159 @@ export function createResolver(deps: ResolverDependencies) {
     };
 }
 
+/**
+ * Matching bindings for the step texts under the given tags, sorted by score descending
+ */
+function findCandidates(
+    deps: ResolverDependencies,
+    step: FeatureStep,
+    texts: readonly string[],
+    tags: readonly string[]
+): MatchCandidate[] {
+    const candidates: MatchCandidate[] = [];
+    const seenBindings = new Set<string>();
+    const inGlue = createGlueFilter(deps.glueScopes, step.uri.fsPath);
+    const inProject = inGlue ? undefined : createProjectFilter(deps.projects, step.uri.fsPath);
+
+    const consider = (binding: Binding, keywordMatched: boolean): void => {
+        if (!isBindingInScope(binding, tags)) {
+            return;
+        }
+        // shared step libraries are declared explicitly: neither framework glue nor project
+        // boundaries hide them (an npm library hoisted to the root belongs to the root project)
+        if (inGlue && !binding.library && !inGlue(binding)) {
+            return;
+        }
+        if (inProject && !binding.library && !inProject(binding)) {
+            return;
+        }
+        if (!isBindingArgumentCompatible(binding, step.argument)) {
+            return;
+        }
+        const matchResult = tryMatch(binding, texts, keywordMatched);
+        if (!matchResult) {
+            return;
+        }
+        // Keyword-agnostic runners see one definition per source location
+        // (e.g. Godog `Step` is indexed once per keyword)
+        const key = getMatchingProfile(binding.providerId).keywords === 'ignore'
+            ? getBindingSourceIdentity(binding)
+            : getBindingIdentity(binding);
+        if (seenBindings.has(key)) {
+            return;
+        }
+        seenBindings.add(key);
+        candidates.push(matchResult);
+    };
+
+    // First, bindings for the step keyword
+    for (const binding of deps.getBindingsByKeyword(step.keywordResolved)) {
+        consider(binding, true);
+    }
+
+    // Runners that ignore the keyword match definitions of any keyword
+    const otherKeywordBindings = deps.getAllBindings().filter((b) => b.keyword !== step.keywordResolved);
+    for (const binding of otherKeywordBindings) {
+        if (getMatchingProfile(binding.providerId).keywords === 'ignore') {
+            consider(binding, false);
+        }
+    }
+
+    // If no matches, try fallback to other keywords (Reqnroll-like profiles only)
+    if (candidates.length === 0) {
+        for (const binding of otherKeywordBindings) {
+            if (getMatchingProfile(binding.providerId).keywords === 'fallback') {
+                consider(binding, false);
+            }
+        }
+    }
+
+    // Sort by score descending
+    candidates.sort((a, b) => compareScores(a.score, b.score));
+    return candidates;
+}
+
+/**
+ * Status and best match for sorted candidates
+ */
+function determineStatus(
+    candidates: readonly MatchCandidate[],
+    preferSpecific: boolean
+): { status: MatchStatus; best?: MatchCandidate } {
+    if (candidates.length === 0) {
+        return { status: 'unbound' };
+    }
+    if (candidates.length === 1) {
+        return { status: 'bound', best: candidates[0] };
+    }
+    if (preferSpecific && candidates[0].score > candidates[1].score) {
+        return { status: 'bound', best: candidates[0] };
+    }
+    if (candidates.every((c) => getMatchingProfile(c.binding.providerId).ambiguity === 'first')) {
+        return { status: 'bound', best: [...candidates].sort(compareLoadOrder)[0] };
+    }
+    return { status: 'ambiguous', best: candidates[0] };
+}
+
+/**
+ * Approximate registration order: step modules load by path, definitions top to bottom
+ */
+function compareLoadOrder(a: MatchCandidate, b: MatchCandidate): number {
+    const byPath = a.binding.uri.toString().localeCompare(b.binding.uri.toString());
+    return byPath !== 0 ? byPath : a.binding.lineNumber - b.binding.lineNumber;
+}
+
+/**
+ * Resolve each Examples row; rows with the same text and tags share one resolution
+ */
+function resolveExampleRows(
+    deps: ResolverDependencies,
+    step: FeatureStep,
+    rows: readonly ExampleRowStep[],
+    preferSpecific: boolean
+): ExampleRowResult[] {
+    const cache = new Map<string, MatchCandidate[]>();
+    return rows.map((row) => {
+        const key = `${row.text}\u0000${row.tags.join(' ')}`;
+        let candidates = cache.get(key);
+        if (!candidates) {
+            candidates = findCandidates(deps, step, [row.text], row.tags);
+            cache.set(key, candidates);
+        }
+        return { row, ...determineStatus(candidates, preferSpecific), candidates };
+    });
+}
+
+/**
+ * Step-level view of row results: the worst row status wins (unbound > ambiguous > bound),
+ * candidates are the union of all rows and best prefers the binding of a bound row
+ */
+function aggregateRowResults(
+    rows: readonly ExampleRowResult[]
+): { status: MatchStatus; best?: MatchCandidate; candidates: MatchCandidate[] } {
+    const candidates: MatchCandidate[] = [];
+    const seenBindings = new Set<string>();
+    for (const row of rows) {
+        for (const candidate of row.candidates) {
+            const key = getBindingIdentity(candidate.binding);
+            if (!seenBindings.has(key)) {
+                seenBindings.add(key);
+                candidates.push(candidate);
+            }
+        }
+    }
+    candidates.sort((a, b) => compareScores(a.score, b.score));
+
+    const status: MatchStatus = rows.some((r) => r.status === 'unbound')
+        ? 'unbound'
+        : rows.some((r) => r.status === 'ambiguous')
+          ? 'ambiguous'
+          : 'bound';
+    const best = rows.find((r) => r.status === 'bound')?.best ?? candidates[0];
+
+    return { status, best, candidates };
+}
+
 /**
  * Try to match a binding against candidate texts
  */
@@ -140,12 +250,14 @@ function tryMatch(
     keywordMatched: boolean
 ): MatchCandidate | null {
     let matchedCandidate: string | undefined;
+    const profile = getMatchingProfile(binding.providerId);
+    const regex = getProfileRegex(binding, profile);
 
     // Test regex against each candidate
     for (const candidate of candidateTexts) {
         // Reset regex state for multiple tests
-        binding.regex.lastIndex = 0;
-        if (binding.regex.test(candidate)) {
+        regex.lastIndex = 0;
+        if (regex.test(candidate)) {
             matchedCandidate = candidate;
             break;
         }
@@ -155,7 +267,8 @@ function tryMatch(
         return null;
     }
 
-    const score = calculateScore(binding, keywordMatched);
+    // No fallback penalty where the runner does not care about the keyword
+    const score = calculateScore(binding, keywordMatched || profile.keywords === 'ignore');
 
     return {
         binding,
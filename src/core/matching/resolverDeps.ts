@@ -2,7 +2,7 @@
  * Resolver dependency helpers
  */
 
-import { getPreferSpecificBinding } from '../../config/matchingSettings';
+import { getPreferSpecificBinding, getProjectScopeEnabled } from '../../config/matchingSettings';
 import { ResolverDependencies } from './resolver';
 
 /** Apply workspace matching settings to resolver dependencies */
@@ -10,5 +10,6 @@ export function applyMatchingSettings(deps: ResolverDependencies): ResolverDepen
     return {
         ...deps,
         preferSpecificBinding: getPreferSpecificBinding(),
+        projects: getProjectScopeEnabled() ? deps.projects : undefined,
     };
 }
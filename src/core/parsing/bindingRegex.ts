@@ -4,7 +4,13 @@
  * Keeps full-step matching (^...$) so step definitions remain strict; no relaxation of BDD practices.
  */
 
-import { compileCucumberExpressionToRegex, looksLikeCucumberExpression } from './cucumberExpression';
+import {
+    compileCucumberExpressionToRegex,
+    findParameterTypeNames,
+    isBuiltInParameterType,
+    looksLikeCucumberExpression,
+    type ParameterTypeLookup,
+} from './cucumberExpression';
 
 /** Regex special characters to escape when using pattern as literal fallback */
 const LITERAL_ESCAPE_REGEX = /[.*+?^${}()|[\]\\]/g;
@@ -67,6 +73,8 @@ export type BindingExpressionType = 'auto' | 'regex' | 'cucumber';
 export interface CompileBindingRegexOptions {
     caseInsensitive?: boolean;
     expressionType?: BindingExpressionType;
+    /** Custom Cucumber Expression parameter types (`{color}`) */
+    parameterTypes?: ParameterTypeLookup;
 }
 
 export function compileBindingRegex(
@@ -81,9 +89,18 @@ export function compileBindingRegex(
     const caseInsensitive = options.caseInsensitive ?? false;
     const expressionType = options.expressionType ?? 'auto';
 
+    // Custom `{type}` not defined yet: the first compile runs before the parameter type lookup exists
+    let awaitsParameterType = false;
     if (expressionType === 'cucumber' || (expressionType === 'auto' && looksLikeCucumberExpression(patternRaw))) {
+        awaitsParameterType = findParameterTypeNames(patternRaw).some(
+            (name) => !isBuiltInParameterType(name) && !options.parameterTypes?.has(name)
+        );
         try {
-            const re = compileCucumberExpressionToRegex(normalizePatternWhitespace(patternRaw), caseInsensitive);
+            const re = compileCucumberExpressionToRegex(
+                normalizePatternWhitespace(patternRaw),
+                caseInsensitive,
+                options.parameterTypes
+            );
             if (re) {
                 return re;
             }
@@ -107,7 +124,9 @@ export function compileBindingRegex(
         const flags = (caseInsensitive ? 'i' : '') + 'u';
         return new RegExp(pattern, flags);
     } catch (error) {
-        console.warn(`[BDD Guardian] Invalid regex pattern: ${patternRaw}`, error);
+        if (!awaitsParameterType) {
+            console.warn(`[BDD Guardian] Invalid regex pattern: ${patternRaw}`, error);
+        }
         try {
             return compileLiteralPattern(normalized, caseInsensitive);
         } catch (fallbackError) {
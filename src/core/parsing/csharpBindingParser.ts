@@ -1,16 +1,34 @@
 /**
  * Shared C# step-binding parser for Reqnroll and SpecFlow.
  * Same [Given]/[When]/[Then] attribute model — providers differ only in detection.
+ * `[Given]` without a pattern takes its step text from the method name (`Given_the_user_is_P0`).
+ * `[StepArgumentTransformation(@"regex")]` methods define custom Cucumber Expression parameter types.
+ * Patterns may be constant expressions (`[Given(StepTexts.UserLoggedIn)]`, `Prefix + "…"`, `$"{Prefix} …"`):
+ * same-file constants resolve while parsing, the rest across files in `linkCSharpBindings`,
+ * together with steps inherited from base classes in other files (`linkCSharpBindingInheritance`).
  */
 
 import * as vscode from 'vscode';
-import { Binding, ResolvedKeyword } from '../domain/types';
+import { Binding, BindingClassDeclaration, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
 import {
     BINDING_ATTRIBUTE_REGEX,
     CLASS_DECLARATION_REGEX,
     METHOD_DECLARATION_REGEX,
 } from '../domain/constants';
+import { getBindingIdentity } from '../matching/bindingIdentity';
 import { compileBindingRegex, type BindingExpressionType } from './bindingRegex';
+import {
+    createCSharpConstantResolver,
+    parseCSharpStringConstants,
+    readCSharpStringExpression,
+} from './csharpStringConstants';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    splitParameters,
+    typedParameterTypes,
+} from './stepArgumentSignature';
 
 export interface CSharpBindingParseOptions {
     caseInsensitive?: boolean;
@@ -19,6 +37,137 @@ export interface CSharpBindingParseOptions {
 /** Matches Scope(Tag = "…") / Scope(Tag = @"…") inside or as attributes. */
 const SCOPE_TAG_IN_ATTR_REGEX = /Scope\s*\(\s*Tag\s*=\s*@?"([^"]*)"\s*\)/gi;
 
+/** [StepArgumentTransformation(@"regex")] / [StepArgumentTransformation(@"regex", Name = "color")] */
+const TRANSFORMATION_ATTRIBUTE_REGEX =
+    /\[StepArgumentTransformation\s*\(\s*(@?"(?:[^"\\]|\\.|"")*")\s*(?:,\s*Name\s*=\s*"([^"]*)"\s*)?\)\s*\]/g;
+
+/** Return type and name of the method after a transformation attribute */
+const TRANSFORMATION_METHOD_REGEX =
+    /^\s*(?:\[[^\]]*\]\s*)*(?:(?:public|private|protected|internal|static|async)\s+)*([\w.]+(?:<[^>]*>)?\??)\s+\w+\s*\(/;
+
+/** [Given] / [When()] / [Then, Scope(Tag = "x")] — step text from the method name */
+const PATTERNLESS_ATTRIBUTE_REGEX = /\[(Given|When|Then|StepDefinition)\s*(?:\(\s*\))?\s*(?:,[^\]]*)?\]/g;
+
+/** Leading keyword of a method-name step (`Given_…`, `WhenI…`) */
+const METHOD_NAME_KEYWORD_PREFIX_REGEX = /^(?:Given|When|Then|And|But)(?:_|(?=[A-Z0-9]))/;
+
+/** Words of a method name: `P0` parameter tokens, upper-case runs (`WHO`, `I`), words and numbers */
+const METHOD_NAME_TOKEN_REGEX = /P\d+(?![a-z])|[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g;
+
+/** Step attribute opening, for patterns that are not a single string literal */
+const EXPRESSION_ATTRIBUTE_REGEX = /\[(Given|When|Then|StepDefinition)\s*\(/g;
+
+/** Rest of a step attribute after its pattern argument (same shape as BINDING_ATTRIBUTE_REGEX) */
+const ATTRIBUTE_TAIL_REGEX = /^\s*(?:,[^)]*)?\)(?:\s*,\s*[^[\]]+)?\s*\]/;
+
+/** After the argument list: sibling attributes up to `]` */
+const ATTRIBUTE_CLOSE_REGEX = /^(?:\s*,\s*[^[\]]+)?\s*\]/;
+
+/** `namespace Shop.Steps {` or file-scoped `namespace Shop.Steps;` */
+const NAMESPACE_REGEX = /\bnamespace\s+([\w.]+)\s*([{;])/g;
+
+/** Never matches: the regex of a binding whose pattern could not be resolved */
+const UNRESOLVED_PATTERN_SOURCE = '(?!)';
+
+/** `[Binding]` (also combined with other attributes in one bracket) */
+const BINDING_CLASS_ATTRIBUTE_REGEX = /[[,]\s*(?:[\w.]*\.)?Binding(?:Attribute)?\s*(?:\(\s*\))?\s*[\],]/;
+
+/** Class header: modifiers, name, optional generic parameters and base list up to `{` */
+const CLASS_HEADER_REGEX =
+    /\b((?:(?:public|internal|private|protected|abstract|sealed|static|partial)\s+)*)class\s+(\w+)\s*(?:<[^>{]*>)?\s*(?::\s*([^{]*?))?\s*(?:\bwhere\b[^{]*)?\{/g;
+
+/**
+ * Regex for a Reqnroll method-name step: keyword prefix dropped, words split on `_` and
+ * PascalCase, `P0` / `P1` or an upper-case parameter name (`WHO`) capture a parameter.
+ * Words may be joined by any punctuation and parameters may be quoted; matching ignores case.
+ */
+export function methodNameToStepPattern(methodName: string, parameterNames: readonly string[]): string {
+    const tokens = methodName.replace(METHOD_NAME_KEYWORD_PREFIX_REGEX, '').match(METHOD_NAME_TOKEN_REGEX) ?? [];
+    const upperNames = parameterNames.map((name) => name.toUpperCase());
+    return tokens
+        .map((token) => {
+            const index = /^P(\d+)$/.exec(token);
+            const isParameter =
+                (index !== null && Number(index[1]) < parameterNames.length) ||
+                (token.length > 1 && token === token.toUpperCase() && upperNames.includes(token));
+            return isParameter ? `["']?(.*?)["']?` : token;
+        })
+        .join('\\W*');
+}
+
+interface StepAttribute {
+    readonly index: number;
+    /** Attribute text from `[` to `]` */
+    readonly text: string;
+    readonly name: string;
+    /** Literal pattern; null for method-name steps and constant expressions */
+    readonly patternRaw: string | null;
+    /** Pattern argument written as a constant expression */
+    readonly patternExpression?: string;
+}
+
+/**
+ * `[Given(StepTexts.UserLoggedIn)]` / `[When(Prefix + "saves the form", …)]` — pattern argument as written.
+ * Arguments that are not constant expressions (`Texts.Get("x")`) are kept as written too.
+ */
+function readExpressionAttribute(text: string, match: RegExpMatchArray): StepAttribute[] {
+    const open = match.index! + match[0].length - 1;
+    const expression = readCSharpStringExpression(text, open + 1);
+    const tail = expression ? ATTRIBUTE_TAIL_REGEX.exec(text.slice(expression.end)) : null;
+    let end: number;
+    let patternExpression: string;
+    if (expression && tail) {
+        end = expression.end + tail[0].length;
+        patternExpression = text.slice(open + 1, expression.end).trim();
+    } else {
+        const args = extractParenthesized(text, open);
+        const rest = args === null ? null : ATTRIBUTE_CLOSE_REGEX.exec(text.slice(open + args.length + 2));
+        if (args === null || !rest || args.trim().length === 0) {
+            return [];
+        }
+        end = open + args.length + 2 + rest[0].length;
+        patternExpression = splitParameters(args)[0];
+    }
+    return [
+        {
+            index: match.index!,
+            text: text.slice(match.index!, end),
+            name: match[1],
+            patternRaw: null,
+            patternExpression,
+        },
+    ];
+}
+
+/**
+ * Pattern fields of a binding: the compiled pattern, or — when a constant expression could not be
+ * resolved (`patternRaw` null) — the expression itself with a regex that never matches.
+ */
+function compileStepPattern(
+    patternExpression: string | undefined,
+    patternRaw: string | null,
+    options: { caseInsensitive: boolean; expressionType: BindingExpressionType }
+): Pick<Binding, 'patternRaw' | 'regex' | 'patternExpression' | 'patternUnresolved'> | null {
+    const regex = patternRaw === null ? null : compileBindingRegex(patternRaw, options);
+    if (patternExpression === undefined) {
+        return regex ? { patternRaw: patternRaw!, regex } : null;
+    }
+    if (!regex) {
+        return {
+            patternRaw: patternExpression,
+            regex: new RegExp(UNRESOLVED_PATTERN_SOURCE, options.caseInsensitive ? 'i' : ''),
+            patternExpression,
+            patternUnresolved: true,
+        };
+    }
+    return { patternRaw: patternRaw!, regex, patternExpression };
+}
+
+/** Names of a C# parameter list (`int count`, `string name = "x"` → count, name) */
+function parameterNamesOf(list: string): string[] {
+    return splitParameters(list).map((param) => /(\w+)\s*(?:=.*)?$/.exec(param)?.[1] ?? '');
+}
+
 /**
  * Parse all step bindings from C# source text (Reqnroll, SpecFlow, etc.).
  */
@@ -32,27 +181,75 @@ export function parseCSharpBindingsFromText(
     const classNames = findClassNames(text);
     const classScopeTags = buildClassScopeTagMap(text, classNames);
 
-    let match: RegExpExecArray | null;
-    const attributeRegex = new RegExp(BINDING_ATTRIBUTE_REGEX.source, 'g');
+    const literalAttributes = [...text.matchAll(new RegExp(BINDING_ATTRIBUTE_REGEX.source, 'g'))];
+    const literalIndexes = new Set(literalAttributes.map((m) => m.index!));
+    const attributes: StepAttribute[] = [
+        ...literalAttributes.map((m) => ({
+            index: m.index!,
+            text: m[0],
+            name: m[1],
+            patternRaw: extractCSharpPatternString(m[2]) as string | null,
+        })),
+        ...[...text.matchAll(new RegExp(PATTERNLESS_ATTRIBUTE_REGEX.source, 'g'))].map((m) => ({
+            index: m.index!,
+            text: m[0],
+            name: m[1],
+            patternRaw: null,
+        })),
+        ...[...text.matchAll(new RegExp(EXPRESSION_ATTRIBUTE_REGEX.source, 'g'))]
+            .filter((m) => !literalIndexes.has(m.index!))
+            .flatMap((m) => readExpressionAttribute(text, m)),
+    ].sort((a, b) => a.index - b.index);
+    let resolveConstant: ReturnType<typeof createCSharpConstantResolver> | undefined;
+    let fileClasses: BindingClassDeclaration[] = [];
 
-    while ((match = attributeRegex.exec(text)) !== null) {
-        const attrName = match[1];
-        const patternWithQuotes = match[2];
-        const patternRaw = extractCSharpPatternString(patternWithQuotes);
-        const fullAttributeText = match[0];
+    for (const attribute of attributes) {
+        const attrName = attribute.name;
+        const fullAttributeText = attribute.text;
+        const attributeEnd = attribute.index + attribute.text.length;
 
-        const beforeMatch = text.substring(0, match.index);
+        const beforeMatch = text.substring(0, attribute.index);
         const lineNumber = beforeMatch.split('\n').length - 1;
-        const className = findEnclosingClassName(text, match.index, classNames);
+        const className = findEnclosingClassName(text, attribute.index, classNames);
 
-        const afterAttribute = text.substring(match.index + match[0].length);
+        const afterAttribute = text.substring(attributeEnd);
         const methodRegex = new RegExp(METHOD_DECLARATION_REGEX.source, 'g');
         const methodMatch = methodRegex.exec(afterAttribute);
         const methodName = methodMatch ? methodMatch[1] : 'Unknown';
 
-        const expressionType = inferExpressionTypeOverride(fullAttributeText);
+        const parameters = methodMatch
+            ? extractParenthesized(afterAttribute, methodMatch.index + methodMatch[0].length - 1)
+            : null;
+        const isMethodNameStep = attribute.patternRaw === null && attribute.patternExpression === undefined;
+        if (isMethodNameStep && (!methodMatch || parameters === null)) {
+            continue;
+        }
+
+        let patternRaw = attribute.patternRaw;
+        if (attribute.patternExpression !== undefined) {
+            if (!resolveConstant) {
+                fileClasses = parseCSharpClassDeclarationsFromText(text, uri);
+                resolveConstant = createCSharpConstantResolver(fileClasses);
+            }
+            patternRaw =
+                resolveConstant(attribute.patternExpression, {
+                    className,
+                    namespace: fileClasses.find((c) => c.name === className)?.namespace,
+                }) ?? null;
+        } else if (isMethodNameStep) {
+            patternRaw = methodNameToStepPattern(methodName, parameterNamesOf(parameters!));
+        }
+        const expressionType = isMethodNameStep ? 'regex' : inferExpressionTypeOverride(fullAttributeText);
+        const stepArgument =
+            parameters === null || patternRaw === null
+                ? undefined
+                : classifyStepArgument(
+                      typedParameterTypes(parameters),
+                      countPatternParameters(patternRaw, expressionType),
+                      'csharp'
+                  );
         const methodScopeTags = extractScopeTagsFromText(
-            findMethodAttributeBlock(text, match.index, methodMatch ? match.index + match[0].length + methodMatch.index : match.index + match[0].length)
+            findMethodAttributeBlock(text, attribute.index, methodMatch ? attributeEnd + methodMatch.index : attributeEnd)
         );
         const scopeTags = uniqueTags([
             ...(classScopeTags.get(className) ?? []),
@@ -63,18 +260,17 @@ export function parseCSharpBindingsFromText(
             attrName === 'StepDefinition' ? ['Given', 'When', 'Then'] : [attrName as ResolvedKeyword];
 
         for (const keyword of keywords) {
-            const compiledRegex = compileBindingRegex(patternRaw, {
-                caseInsensitive: options.caseInsensitive ?? false,
+            const pattern = compileStepPattern(attribute.patternExpression, patternRaw, {
+                caseInsensitive: isMethodNameStep || (options.caseInsensitive ?? false),
                 expressionType,
             });
-            if (!compiledRegex) {
+            if (!pattern) {
                 continue;
             }
 
             bindings.push({
                 keyword,
-                patternRaw,
-                regex: compiledRegex,
+                ...pattern,
                 className,
                 methodName,
                 uri,
@@ -82,6 +278,8 @@ export function parseCSharpBindingsFromText(
                 lineNumber,
                 signature: `${className}.${methodName}`,
                 scopeTags,
+                stepArgument,
+                expressionType: expressionType === 'auto' ? undefined : expressionType,
             });
         }
     }
@@ -89,6 +287,275 @@ export function parseCSharpBindingsFromText(
     return bindings;
 }
 
+/**
+ * Classes declared in C# source text with their base types, `[Binding]`, `abstract` and class-level `[Scope]`.
+ */
+export function parseCSharpClassDeclarationsFromText(text: string, uri: vscode.Uri): BindingClassDeclaration[] {
+    const classScopeTags = buildClassScopeTagMap(text, findClassNames(text));
+    const namespaces = [...text.matchAll(new RegExp(NAMESPACE_REGEX.source, 'g'))].map((m) => ({
+        name: m[1],
+        start: m.index!,
+        end: m[2] === '{' ? findBlockEnd(text, m.index! + m[0].length - 1) : text.length,
+    }));
+    const classes = [...text.matchAll(new RegExp(CLASS_HEADER_REGEX.source, 'g'))].map((m) => ({
+        match: m,
+        start: m.index!,
+        end: findBlockEnd(text, m.index! + m[0].length - 1),
+        constants: {} as Record<string, string>,
+    }));
+    const innermost = <T extends { start: number; end: number }>(blocks: readonly T[], index: number) =>
+        blocks.filter((b) => b.start < index && index < b.end).pop();
+
+    for (const constant of parseCSharpStringConstants(text)) {
+        const owner = innermost(classes, constant.index);
+        if (owner && !(constant.name in owner.constants)) {
+            owner.constants[constant.name] = constant.expression;
+        }
+    }
+
+    return classes.map(({ match, start, constants }) => {
+        const attributeBlock = findMethodAttributeBlock(text, start, start);
+        const namespace = innermost(namespaces, start)?.name;
+        return {
+            name: match[2],
+            baseTypes: splitBaseTypes(match[3] ?? ''),
+            isBinding: BINDING_CLASS_ATTRIBUTE_REGEX.test(attributeBlock),
+            isAbstract: /\babstract\b/.test(match[1]),
+            scopeTags: classScopeTags.get(match[2]) ?? [],
+            ...(namespace ? { namespace } : {}),
+            ...(Object.keys(constants).length > 0 ? { stringConstants: constants } : {}),
+            uri,
+        };
+    });
+}
+
+/** Index just past the `}` closing the block opened at `openIndex` (strings and comments skipped) */
+function findBlockEnd(text: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '/' && text[i + 1] === '/') {
+            i = text.indexOf('\n', i);
+            if (i < 0) {
+                break;
+            }
+        } else if (ch === '/' && text[i + 1] === '*') {
+            i = text.indexOf('*/', i + 2);
+            if (i < 0) {
+                break;
+            }
+            i++;
+        } else if (ch === '"') {
+            const verbatim = text[i - 1] === '@' || (text[i - 1] === '$' && text[i - 2] === '@');
+            for (i++; i < text.length; i++) {
+                if (text[i] === '\\' && !verbatim) {
+                    i++;
+                } else if (text[i] === '"' && verbatim && text[i + 1] === '"') {
+                    i++;
+                } else if (text[i] === '"') {
+                    break;
+                }
+            }
+        } else if (ch === "'") {
+            const close = /^'(?:\\.[^']*|[^'\\])'/.exec(text.slice(i, i + 10));
+            i += close ? close[0].length - 1 : 0;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}' && --depth === 0) {
+            return i + 1;
+        }
+    }
+    return text.length;
+}
+
+/** `Base<T>, Steps.IFoo` → `Base`, `IFoo` */
+function splitBaseTypes(list: string): string[] {
+    let withoutGenerics = list;
+    while (/<[^<>]*>/.test(withoutGenerics)) {
+        withoutGenerics = withoutGenerics.replace(/<[^<>]*>/g, '');
+    }
+    return withoutGenerics
+        .split(',')
+        .map((type) => type.trim().split('.').pop()!.replace(/^global::/, ''))
+        .filter((type) => /^\w+$/.test(type));
+}
+
+/**
+ * Register steps the way Reqnroll does across a class hierarchy: a concrete class that has
+ * `[Binding]` (itself or on a base class) registers the step methods it inherits, with the
+ * `[Scope]` tags of its own and its base classes. Methods of abstract or non-`[Binding]` base
+ * classes are only registered through such derived classes. Classes outside any hierarchy keep
+ * their bindings unchanged. `bindings` may be the output of a previous pass (see `declaredIn`).
+ */
+export function linkCSharpBindingInheritance(
+    bindings: readonly Binding[],
+    classes: readonly BindingClassDeclaration[]
+): Binding[] {
+    const byName = new Map<string, BindingClassDeclaration>();
+    for (const declaration of classes) {
+        const existing = byName.get(declaration.name);
+        // partial classes: one class spread over several declarations
+        byName.set(
+            declaration.name,
+            existing
+                ? {
+                      ...existing,
+                      baseTypes: [...existing.baseTypes, ...declaration.baseTypes],
+                      isBinding: existing.isBinding || declaration.isBinding,
+                      isAbstract: existing.isAbstract || declaration.isAbstract,
+                      scopeTags: uniqueTags([...existing.scopeTags, ...declaration.scopeTags]),
+                  }
+                : declaration
+        );
+    }
+
+    const ancestorCache = new Map<string, BindingClassDeclaration[]>();
+    const ancestorsOf = (name: string): BindingClassDeclaration[] => {
+        const cached = ancestorCache.get(name);
+        if (cached) {
+            return cached;
+        }
+        const ancestors: BindingClassDeclaration[] = [];
+        const visit = (current: string) => {
+            for (const baseName of byName.get(current)?.baseTypes ?? []) {
+                const base = byName.get(baseName);
+                if (base && base.name !== name && !ancestors.includes(base)) {
+                    ancestors.push(base);
+                    visit(base.name);
+                }
+            }
+        };
+        visit(name);
+        ancestorCache.set(name, ancestors);
+        return ancestors;
+    };
+    const registers = (declaration: BindingClassDeclaration) =>
+        !declaration.isAbstract && (declaration.isBinding || ancestorsOf(declaration.name).some((a) => a.isBinding));
+    const derivedOf = (name: string) =>
+        [...byName.values()].filter((d) => registers(d) && ancestorsOf(d.name).some((a) => a.name === name));
+
+    const declared = new Map<string, Binding>();
+    for (const binding of bindings) {
+        const original = restoreDeclaredBinding(binding);
+        declared.set(`${getBindingIdentity(original)}\0${original.className}`, original);
+    }
+
+    const linked: Binding[] = [];
+    for (const binding of declared.values()) {
+        const owner = byName.get(binding.className);
+        const derived = owner ? derivedOf(owner.name) : [];
+        if (!owner || (derived.length === 0 && ancestorsOf(owner.name).length === 0)) {
+            linked.push(binding);
+            continue;
+        }
+        const targets = registers(owner) || derived.length === 0 ? [owner, ...derived] : derived;
+        for (const target of targets) {
+            const inheritedScope = ancestorsOf(target.name).flatMap((a) => a.scopeTags);
+            const scopeTags = uniqueTags([...target.scopeTags, ...inheritedScope, ...binding.scopeTags]);
+            if (target === owner && scopeTags.length === binding.scopeTags.length) {
+                linked.push(binding);
+                continue;
+            }
+            linked.push({
+                ...binding,
+                className: target.name,
+                signature: `${target.name}.${binding.methodName}`,
+                scopeTags,
+                declaredIn: { className: binding.className, scopeTags: binding.scopeTags },
+            });
+        }
+    }
+    return linked;
+}
+
+/**
+ * Resolve constant-expression patterns (`[Given(StepTexts.UserLoggedIn)]`) against the
+ * `const string` fields of all classes, then link inherited steps (`linkCSharpBindingInheritance`).
+ * Re-running it after files change re-resolves from `patternExpression`.
+ */
+export function linkCSharpBindings(
+    bindings: readonly Binding[],
+    classes: readonly BindingClassDeclaration[]
+): Binding[] {
+    return linkCSharpBindingInheritance(resolveCSharpPatternConstants(bindings, classes), classes);
+}
+
+function resolveCSharpPatternConstants(
+    bindings: readonly Binding[],
+    classes: readonly BindingClassDeclaration[]
+): Binding[] {
+    if (!bindings.some((b) => b.patternExpression !== undefined)) {
+        return [...bindings];
+    }
+    const resolveConstant = createCSharpConstantResolver(classes);
+
+    return bindings.map((binding) => {
+        if (binding.patternExpression === undefined) {
+            return binding;
+        }
+        const className = binding.declaredIn?.className ?? binding.className;
+        const namespace = classes.find(
+            (c) => c.name === className && c.uri.toString() === binding.uri.toString()
+        )?.namespace;
+        const patternRaw = resolveConstant(binding.patternExpression, { className, namespace }) ?? null;
+        if (binding.patternUnresolved ? patternRaw === null : patternRaw === binding.patternRaw) {
+            return binding;
+        }
+        const pattern = compileStepPattern(binding.patternExpression, patternRaw, {
+            caseInsensitive: binding.regex.flags.includes('i'),
+            expressionType: binding.expressionType ?? 'auto',
+        })!;
+        const { patternUnresolved: _previous, stepArgument: _stepArgument, ...rest } = binding;
+        // the parameter count changed with the pattern: no argument filtering
+        return { ...rest, ...pattern };
+    });
+}
+
+function restoreDeclaredBinding(binding: Binding): Binding {
+    if (!binding.declaredIn) {
+        return binding;
+    }
+    const { declaredIn, ...rest } = binding;
+    return {
+        ...rest,
+        className: declaredIn.className,
+        signature: `${declaredIn.className}.${binding.methodName}`,
+        scopeTags: declaredIn.scopeTags,
+    };
+}
+
+/**
+ * Custom parameter types from `[StepArgumentTransformation]` methods with a regex.
+ * Like Reqnroll, the type is named after the method's return type (`{DateTime}`) unless `Name` is set.
+ */
+export function parseCSharpParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    const definitions: ParameterTypeDefinition[] = [];
+    const attributeRegex = new RegExp(TRANSFORMATION_ATTRIBUTE_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = attributeRegex.exec(text)) !== null) {
+        const method = TRANSFORMATION_METHOD_REGEX.exec(text.slice(match.index + match[0].length));
+        const name = match[2] || (method ? transformationTypeName(method[1]) : undefined);
+        if (!name) {
+            continue;
+        }
+        definitions.push({
+            name,
+            regexps: [extractCSharpPatternString(match[1])],
+            uri,
+            lineNumber: text.substring(0, match.index).split('\n').length - 1,
+        });
+    }
+
+    return definitions;
+}
+
+/** `System.DateTime` → `DateTime`, `Task<Color>` → `Color`, `int?` → `int` */
+function transformationTypeName(returnType: string): string {
+    const unwrapped = returnType.replace(/^(?:[\w.]*\.)?(?:Task|ValueTask)<(.+)>$/, '$1').replace(/\?$/, '');
+    return unwrapped.split('.').pop() ?? unwrapped;
+}
+
 /**
  * Extract pattern string from a C# string literal in a step attribute.
  */
@@ -0,0 +1,332 @@
+/**
+ * C# constant string expressions used as step patterns:
+ * `StepTexts.UserLoggedIn`, `Prefix + "saves the form"`, `$"{Prefix} saves {Item}"`.
+ *
+ * `const string` fields are read per class and namespace (`parseCSharpStringConstants`) and
+ * looked up across files by `createCSharpConstantResolver`. Anything that is not a literal, a
+ * constant reference, `nameof(…)` or `+` of those (method calls, format specifiers, raw string
+ * literals) is not constant for this reader.
+ */
+
+import type { BindingClassDeclaration } from '../domain/types';
+
+export type CSharpStringPart =
+    | { readonly kind: 'text'; readonly value: string }
+    | { readonly kind: 'reference'; readonly name: string };
+
+export interface CSharpStringConstant {
+    readonly name: string;
+    /** Expression as written after `=` */
+    readonly expression: string;
+    /** Offset of the declaration in the source text */
+    readonly index: number;
+}
+
+/** Where an expression is written: simple names are looked up in this class and its base classes */
+export interface CSharpConstantContext {
+    readonly className: string;
+    readonly namespace?: string;
+}
+
+const CONST_STRING_REGEX = /\bconst\s+(?:string|String|System\.String)\s+/g;
+
+const DECLARATOR_REGEX = /^\s*([A-Za-z_]\w*)\s*=/;
+
+const NAMEOF_REGEX = /^nameof\s*\(\s*((?:global::)?[\w.\s]+?)\s*\)/;
+
+const IDENTIFIER_PATH_REGEX = /^(?:global::)?[A-Za-z_]\w*(?:\s*\.\s*[A-Za-z_]\w*)*/;
+
+const STRING_PREFIX_REGEX = /^(?:\$@|@\$|\$|@)?"/;
+
+const ESCAPES: Readonly<Record<string, string>> = {
+    n: '\n',
+    r: '\r',
+    t: '\t',
+    '0': '\0',
+    '"': '"',
+    "'": "'",
+    '\\': '\\',
+};
+
+function skipSpace(text: string, index: number): number {
+    let i = index;
+    while (i < text.length && /\s/.test(text[i])) {
+        i++;
+    }
+    return i;
+}
+
+function pushText(parts: CSharpStringPart[], value: string): void {
+    const last = parts[parts.length - 1];
+    if (last?.kind === 'text') {
+        parts[parts.length - 1] = { kind: 'text', value: last.value + value };
+    } else if (value.length > 0) {
+        parts.push({ kind: 'text', value });
+    }
+}
+
+/** Regular, verbatim (`@"…"`) or interpolated (`$"…"`, `$@"…"`) string literal at `start` */
+function readStringLiteral(text: string, start: number): { parts: CSharpStringPart[]; end: number } | null {
+    const prefix = STRING_PREFIX_REGEX.exec(text.slice(start, start + 3));
+    if (!prefix) {
+        return null;
+    }
+    let i = start + prefix[0].length;
+    const verbatim = prefix[0].includes('@');
+    const interpolated = prefix[0].includes('$');
+    if (!verbatim && text.startsWith('""', i)) {
+        // raw string literal (`"""…"""`)
+        return null;
+    }
+    const parts: CSharpStringPart[] = [];
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"') {
+            if (verbatim && text[i + 1] === '"') {
+                pushText(parts, '"');
+                i += 2;
+                continue;
+            }
+            if (parts.length === 0) {
+                parts.push({ kind: 'text', value: '' });
+            }
+            return { parts, end: i + 1 };
+        }
+        if (ch === '\n' && !verbatim) {
+            return null;
+        }
+        if (ch === '\\' && !verbatim) {
+            const next = text[i + 1] ?? '';
+            const unicode = /^u([0-9a-fA-F]{4})/.exec(text.slice(i + 1, i + 6));
+            if (unicode) {
+                pushText(parts, String.fromCharCode(parseInt(unicode[1], 16)));
+                i += 6;
+            } else {
+                pushText(parts, ESCAPES[next] ?? `\\${next}`);
+                i += 2;
+            }
+            continue;
+        }
+        if (interpolated && (ch === '{' || ch === '}')) {
+            if (text[i + 1] === ch) {
+                pushText(parts, ch);
+                i += 2;
+                continue;
+            }
+            if (ch === '}') {
+                return null;
+            }
+            const hole = readCSharpStringExpression(text, i + 1);
+            const close = hole ? skipSpace(text, hole.end) : -1;
+            // alignment (`{X,10}`) and format specifiers (`{X:D2}`) are not constant
+            if (!hole || text[close] !== '}') {
+                return null;
+            }
+            for (const part of hole.parts) {
+                if (part.kind === 'text') {
+                    pushText(parts, part.value);
+                } else {
+                    parts.push(part);
+                }
+            }
+            i = close + 1;
+            continue;
+        }
+        pushText(parts, ch);
+        i++;
+    }
+    return null;
+}
+
+function readTerm(text: string, start: number): { parts: CSharpStringPart[]; end: number } | null {
+    if (text[start] === '(') {
+        const inner = readCSharpStringExpression(text, start + 1);
+        const close = inner ? skipSpace(text, inner.end) : -1;
+        return inner && text[close] === ')' ? { parts: inner.parts, end: close + 1 } : null;
+    }
+    if (STRING_PREFIX_REGEX.test(text.slice(start, start + 3))) {
+        return readStringLiteral(text, start);
+    }
+
+    const rest = text.slice(start);
+    const nameOf = NAMEOF_REGEX.exec(rest);
+    if (nameOf) {
+        const name = nameOf[1].replace(/\s+/g, '').split('.').pop()!.replace(/^global::/, '');
+        return { parts: [{ kind: 'text', value: name }], end: start + nameOf[0].length };
+    }
+    const path = IDENTIFIER_PATH_REGEX.exec(rest);
+    if (!path) {
+        return null;
+    }
+    const end = start + path[0].length;
+    // a call (`Texts.Get("x")`) or an indexer is not a constant
+    if (/^\s*[([]/.test(text.slice(end, end + 20))) {
+        return null;
+    }
+    return {
+        parts: [{ kind: 'reference', name: path[0].replace(/\s+/g, '').replace(/^global::/, '') }],
+        end,
+    };
+}
+
+/**
+ * Constant string expression starting at `start`: terms joined by `+`.
+ * Reading stops before the first character that does not continue the expression
+ * (`,`, `)`, `;`, …); null when a term is not a string constant.
+ */
+export function readCSharpStringExpression(
+    text: string,
+    start: number
+): { parts: CSharpStringPart[]; end: number } | null {
+    const parts: CSharpStringPart[] = [];
+    let i = skipSpace(text, start);
+    for (;;) {
+        const term = readTerm(text, i);
+        if (!term) {
+            return null;
+        }
+        for (const part of term.parts) {
+            if (part.kind === 'text') {
+                pushText(parts, part.value);
+            } else {
+                parts.push(part);
+            }
+        }
+        const next = skipSpace(text, term.end);
+        if (text[next] !== '+') {
+            return { parts, end: term.end };
+        }
+        i = skipSpace(text, next + 1);
+    }
+}
+
+/** Parts of a whole expression source; null unless the entire source is a constant expression */
+export function parseCSharpStringExpression(source: string): CSharpStringPart[] | null {
+    const expression = readCSharpStringExpression(source, 0);
+    return expression && skipSpace(source, expression.end) === source.length ? expression.parts : null;
+}
+
+/**
+ * `const string` declarations in C# source text, including several declarators in one
+ * statement (`const string A = "a", B = A + "b";`).
+ */
+export function parseCSharpStringConstants(text: string): CSharpStringConstant[] {
+    const constants: CSharpStringConstant[] = [];
+
+    for (const match of text.matchAll(new RegExp(CONST_STRING_REGEX.source, 'g'))) {
+        let pos = match.index! + match[0].length;
+        for (;;) {
+            const declarator = DECLARATOR_REGEX.exec(text.slice(pos, pos + 200));
+            if (!declarator) {
+                break;
+            }
+            const valueStart = pos + declarator[0].length;
+            const value = readCSharpStringExpression(text, valueStart);
+            const next = value ? skipSpace(text, value.end) : -1;
+            if (!value || (text[next] !== ';' && text[next] !== ',')) {
+                break;
+            }
+            constants.push({
+                name: declarator[1],
+                expression: text.slice(valueStart, value.end).trim(),
+                index: pos + declarator.index + declarator[0].indexOf(declarator[1]),
+            });
+            if (text[next] === ';') {
+                break;
+            }
+            pos = next + 1;
+        }
+    }
+
+    return constants;
+}
+
+/**
+ * Resolver for constant string expressions across the given classes.
+ * A simple name (`Prefix`) is looked up in the context class, then its base classes; a qualified
+ * name (`StepTexts.UserLoggedIn`, `Shop.StepTexts.UserLoggedIn`) by its class name, preferring a
+ * class in the named or the context namespace. Constants may reference other constants.
+ * Returns undefined when a referenced constant is unknown or the expression is not constant.
+ */
+export function createCSharpConstantResolver(
+    classes: readonly BindingClassDeclaration[]
+): (expression: string, context: CSharpConstantContext) => string | undefined {
+    const byName = new Map<string, BindingClassDeclaration[]>();
+    for (const declaration of classes) {
+        byName.set(declaration.name, [...(byName.get(declaration.name) ?? []), declaration]);
+    }
+
+    const inNamespaceFirst = (declarations: readonly BindingClassDeclaration[], namespace?: string) =>
+        [...declarations].sort(
+            (a, b) => Number(b.namespace === namespace) - Number(a.namespace === namespace)
+        );
+
+    const classChain = (context: CSharpConstantContext): BindingClassDeclaration[] => {
+        const chain: BindingClassDeclaration[] = [];
+        const visited = new Set<string>();
+        const queue = [context.className];
+        while (queue.length > 0) {
+            const name = queue.shift()!;
+            if (visited.has(name)) {
+                continue;
+            }
+            visited.add(name);
+            const declarations = inNamespaceFirst(byName.get(name) ?? [], context.namespace);
+            chain.push(...declarations);
+            queue.push(...declarations.flatMap((d) => d.baseTypes));
+        }
+        return chain;
+    };
+
+    const owners = (name: string, context: CSharpConstantContext): BindingClassDeclaration[] => {
+        const segments = name.split('.');
+        segments.pop();
+        if (segments.length === 0) {
+            return classChain(context);
+        }
+        const className = segments.pop()!;
+        const qualifier = segments.join('.');
+        const candidates = inNamespaceFirst(byName.get(className) ?? [], context.namespace);
+        if (qualifier.length === 0) {
+            return candidates;
+        }
+        const qualified = (d: BindingClassDeclaration) =>
+            d.namespace === qualifier || (d.namespace ?? '').endsWith(`.${qualifier}`);
+        return [...candidates.filter(qualified), ...candidates.filter((d) => !qualified(d))];
+    };
+
+    const resolveParts = (
+        parts: readonly CSharpStringPart[],
+        context: CSharpConstantContext,
+        visiting: Set<string>
+    ): string | undefined => {
+        let value = '';
+        for (const part of parts) {
+            if (part.kind === 'text') {
+                value += part.value;
+                continue;
+            }
+            const field = part.name.split('.').pop()!;
+            const owner = owners(part.name, context).find((d) => d.stringConstants?.[field] !== undefined);
+            const key = owner ? `${owner.uri.toString()}#${owner.name}.${field}` : '';
+            const fieldParts = owner ? parseCSharpStringExpression(owner.stringConstants![field]) : null;
+            if (!owner || !fieldParts || visiting.has(key)) {
+                return undefined;
+            }
+            visiting.add(key);
+            const resolved = resolveParts(fieldParts, { className: owner.name, namespace: owner.namespace }, visiting);
+            visiting.delete(key);
+            if (resolved === undefined) {
+                return undefined;
+            }
+            value += resolved;
+        }
+        return value;
+    };
+
+    return (expression, context) => {
+        const parts = parseCSharpStringExpression(expression);
+        return parts ? resolveParts(parts, context, new Set()) : undefined;
+    };
+}
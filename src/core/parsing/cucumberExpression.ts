@@ -3,9 +3,9 @@
  *
  * Wave A: {int}, {float|double}, {word}, {string} → regex; other text escaped as literals.
  * Wave B: optional text `(…)`, alternation `a/b`, built-in numeric types extras.
+ * Wave C: custom parameter types indexed from binding code (`ParameterTypeLookup`).
  *
- * Out of scope (Wave C+): custom parameter types, pluralization engine, embedding
- * `@cucumber/cucumber-expressions`.
+ * Out of scope: pluralization engine, embedding `@cucumber/cucumber-expressions`.
  */
 
 export type CucumberExpressionParameterType =
@@ -20,6 +20,9 @@ export type CucumberExpressionParameterType =
     | 'biginteger'
     | 'bigdecimal';
 
+/** Custom parameter type name → regex sources (alternatives) */
+export type ParameterTypeLookup = ReadonlyMap<string, readonly string[]>;
+
 const PLACEHOLDER_PATTERN = /\{([a-zA-Z][\w-]*)\}/;
 
 type Token =
@@ -38,7 +41,7 @@ const INT_LIKE = '(-?\\d+)';
 /** Decimal-like capture (int or decimal, optional leading minus). */
 const DECIMAL_LIKE = '(-?\\d+(?:\\.\\d+)?)';
 
-function parameterTypeToRegex(name: string): string | null {
+function parameterTypeToRegex(name: string, parameterTypes?: ParameterTypeLookup): string | null {
     const lower = name.toLowerCase();
     switch (lower as CucumberExpressionParameterType) {
         case 'int':
@@ -57,8 +60,39 @@ function parameterTypeToRegex(name: string): string | null {
             // Captures the inner string; two capture groups are acceptable for matching purposes.
             return '(?:"([^"]*)"|\'([^\']*)\')';
         default:
-            return null;
+            return customParameterTypeToRegex(name, parameterTypes);
+    }
+}
+
+function customParameterTypeToRegex(name: string, parameterTypes?: ParameterTypeLookup): string | null {
+    const regexps = parameterTypes?.get(name);
+    if (!regexps || regexps.length === 0) {
+        return null;
+    }
+    if (regexps.length === 1) {
+        return `(${regexps[0]})`;
+    }
+    return `(${regexps.map((r) => `(?:${r})`).join('|')})`;
+}
+
+/**
+ * True for names the compiler knows without a custom definition (`int`, `word`, …).
+ */
+export function isBuiltInParameterType(name: string): boolean {
+    return parameterTypeToRegex(name) !== null;
+}
+
+/**
+ * Names of the `{name}` parameters in an expression (escaped braces skipped).
+ */
+export function findParameterTypeNames(expressionRaw: string): string[] {
+    const names: string[] = [];
+    const re = /(?<!\\)\{([a-zA-Z][\w-]*)\}/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(expressionRaw)) !== null) {
+        names.push(m[1]);
     }
+    return names;
 }
 
 /**
@@ -160,7 +194,7 @@ function tokenize(expression: string): Token[] | null {
     return tokens;
 }
 
-function compileOptionalInner(inner: string): string | null {
+function compileOptionalInner(inner: string, parameterTypes?: ParameterTypeLookup): string | null {
     const tokens = tokenize(inner);
     if (!tokens) {
         return null;
@@ -169,24 +203,24 @@ function compileOptionalInner(inner: string): string | null {
     if (tokens.some(t => t.kind === 'param')) {
         return null;
     }
-    return compileTokenSequence(tokens);
+    return compileTokenSequence(tokens, parameterTypes);
 }
 
-function compileAtom(token: Token): string | null {
+function compileAtom(token: Token, parameterTypes?: ParameterTypeLookup): string | null {
     switch (token.kind) {
         case 'text':
             return escapeRegexLiteral(token.text);
         case 'space':
             return escapeRegexLiteral(token.text);
         case 'optional': {
-            const inner = compileOptionalInner(token.inner);
+            const inner = compileOptionalInner(token.inner, parameterTypes);
             if (inner === null) {
                 return null;
             }
             return `(?:${inner})?`;
         }
         case 'param': {
-            const paramRegex = parameterTypeToRegex(token.name);
+            const paramRegex = parameterTypeToRegex(token.name, parameterTypes);
             if (!paramRegex) {
                 return null;
             }
@@ -200,7 +234,7 @@ function compileAtom(token: Token): string | null {
 /**
  * Compile a run of non-space tokens, honoring `/` alternation between alternatives.
  */
-function compileWordGroup(group: Token[]): string | null {
+function compileWordGroup(group: Token[], parameterTypes?: ParameterTypeLookup): string | null {
     if (group.length === 0) {
         return '';
     }
@@ -223,7 +257,7 @@ function compileWordGroup(group: Token[]): string | null {
     for (const alt of alternatives) {
         let part = '';
         for (const token of alt) {
-            const atom = compileAtom(token);
+            const atom = compileAtom(token, parameterTypes);
             if (atom === null) {
                 return null;
             }
@@ -238,7 +272,7 @@ function compileWordGroup(group: Token[]): string | null {
     return `(?:${compiledAlts.join('|')})`;
 }
 
-function compileTokenSequence(tokens: Token[]): string | null {
+function compileTokenSequence(tokens: Token[], parameterTypes?: ParameterTypeLookup): string | null {
     let result = '';
     let i = 0;
 
@@ -256,7 +290,7 @@ function compileTokenSequence(tokens: Token[]): string | null {
             i++;
         }
 
-        const compiled = compileWordGroup(group);
+        const compiled = compileWordGroup(group, parameterTypes);
         if (compiled === null) {
             return null;
         }
@@ -268,18 +302,19 @@ function compileTokenSequence(tokens: Token[]): string | null {
 
 /**
  * Compile a Cucumber Expression to a strict full-line regex.
- * Returns null when the expression is not a supported CE (e.g. unknown `{CustomType}`).
+ * Returns null when the expression is not a supported CE (e.g. `{CustomType}` missing from `parameterTypes`).
  */
 export function compileCucumberExpressionToRegex(
     expressionRaw: string,
-    caseInsensitive: boolean = false
+    caseInsensitive: boolean = false,
+    parameterTypes?: ParameterTypeLookup
 ): RegExp | null {
     const tokens = tokenize(expressionRaw);
     if (!tokens) {
         return null;
     }
 
-    const body = compileTokenSequence(tokens);
+    const body = compileTokenSequence(tokens, parameterTypes);
     if (body === null) {
         return null;
     }
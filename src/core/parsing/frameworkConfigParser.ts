@@ -0,0 +1,681 @@
+/**
+ * Framework configuration files: which feature files and glue files belong together.
+ *
+ * Supported files:
+ * - `reqnroll.json` / `specflow.json` — `language.feature`, `bindingAssemblies` / `stepAssemblies`
+ * - `cucumber.js` / `.cjs` / `.mjs` / `.json` / `.yml` / `.yaml` profiles — `paths`, `require`,
+ *   `import`, `language`, or a command line (`--require steps features`, also Ruby `cucumber.yml`)
+ * - `behave.ini`, `.behaverc`, and `[behave]` sections of `setup.cfg` / `tox.ini` — `paths`, `lang`
+ * - godog `Options{Paths: []string{…}}` in Go test files
+ * - Cucumber-JVM runners: `@CucumberOptions(features = …, glue = …)` (JUnit 4, TestNG), JUnit 5
+ *   `@Suite` classes (`@SelectClasspathResource`, `@ConfigurationParameter(key = GLUE_PROPERTY_NAME, …)`)
+ *   and `junit-platform.properties` (`cucumber.glue`, `cucumber.features`)
+ *
+ * Paths are read as written (relative to the configuration directory); `buildGlueScopes`
+ * turns them into absolute feature and glue patterns with each framework's defaults.
+ */
+
+import type { GlueScope } from '../domain/types';
+import { getGherkinDialect } from './gherkinDialects';
+import { glueDirname, isGlobPattern, joinGluePath, toGluePath } from '../matching/glueScope';
+import { extractParenthesized, splitParameters } from './stepArgumentSignature';
+
+export type FrameworkConfigKind = 'reqnroll' | 'specflow' | 'cucumber' | 'behave' | 'godog' | 'cucumber-jvm';
+
+/** One configuration (or profile of one) as written */
+export interface FrameworkConfig {
+    readonly kind: FrameworkConfigKind;
+    /** cucumber profile name (`default`, `ci`) */
+    readonly profile?: string;
+    /** Cucumber-JVM runner class name */
+    readonly runner?: string;
+    /** Feature files, directories or globs (Cucumber-JVM: also `classpath:` resources) */
+    readonly featurePaths: readonly string[];
+    /** Step definition / support files, directories or globs (Cucumber-JVM: glue packages) */
+    readonly gluePaths: readonly string[];
+    /** Reqnroll / SpecFlow assemblies with more bindings */
+    readonly bindingAssemblies?: readonly string[];
+    /** Gherkin language (or .NET culture) for features without a `# language:` header */
+    readonly language?: string;
+}
+
+/**
+ * Configuration file names, for findFiles / the CLI walk. Godog options live in `*_test.go`;
+ * Cucumber-JVM runners are test classes (Surefire / Failsafe naming) or named `*Runner`.
+ */
+export const FRAMEWORK_CONFIG_GLOB =
+    '**/{reqnroll.json,specflow.json,cucumber.js,cucumber.cjs,cucumber.mjs,cucumber.json,cucumber.yml,cucumber.yaml,' +
+    'behave.ini,.behaverc,setup.cfg,tox.ini,*_test.go,junit-platform.properties,' +
+    '*Test.java,Test*.java,*Tests.java,*TestCase.java,*IT.java,*Runner.java,' +
+    '*Test.kt,Test*.kt,*Tests.kt,*TestCase.kt,*IT.kt,*Runner.kt}';
+
+const JVM_RUNNER_FILE_REGEX = /^(?:\w*(?:Test|Tests|TestCase|IT|Runner)|Test\w*)\.(?:java|kt)$/;
+
+const CUCUMBER_FILE_REGEX = /^cucumber\.(?:js|cjs|mjs|json|ya?ml)$/;
+
+const BEHAVE_FILE_NAMES = new Set(['behave.ini', '.behaverc', 'setup.cfg', 'tox.ini']);
+
+/** cucumber command-line options that take a value which is not a path */
+const CLI_VALUE_OPTIONS = new Set([
+    '-f', '--format', '-o', '--out', '-t', '--tags', '-p', '--profile', '-n', '--name',
+    '--format-options', '--world-parameters', '--retry', '--retry-tag-filter', '--parallel',
+    '--order', '--require-module', '-e', '--exclude', '--i18n-keywords', '--shard',
+]);
+
+const CONFIG_KEYS = new Set(['paths', 'require', 'import', 'language']);
+
+const CUCUMBER_OPTIONS_REGEX = /@(?:io\.cucumber\.\w+\.)?CucumberOptions\s*\(/;
+
+const JUNIT_SUITE_REGEX = /@(?:org\.junit\.platform\.suite\.api\.)?Suite\b/;
+
+const CONFIGURATION_PARAMETER_REGEX = /@ConfigurationParameter\s*\(/g;
+
+const JVM_PACKAGE_REGEX = /^\s*package\s+([\w.]+)/m;
+
+const JVM_CLASS_REGEX = /\b(?:class|object)\s+([A-Za-z_]\w*)/;
+
+const GODOG_OPTIONS_REGEX = /godog\.(?:Options|TestSuite)\b/;
+
+const GODOG_PATHS_REGEX = /\bPaths\s*[:=]\s*\[\]string\s*\{([^}]*)\}/g;
+
+const CSPROJ_ASSEMBLY_NAME_REGEX = /<AssemblyName>\s*([^<\s]+)\s*<\/AssemblyName>/;
+
+/** Whether the file name is a framework configuration file (godog: any `*_test.go`) */
+export function isFrameworkConfigFileName(fileName: string): boolean {
+    const name = baseName(fileName);
+    return (
+        name === 'reqnroll.json' ||
+        name === 'specflow.json' ||
+        CUCUMBER_FILE_REGEX.test(name) ||
+        BEHAVE_FILE_NAMES.has(name) ||
+        name.endsWith('_test.go') ||
+        name === 'junit-platform.properties' ||
+        JVM_RUNNER_FILE_REGEX.test(name)
+    );
+}
+
+/**
+ * Configurations declared in a file; empty when the file does not configure a framework
+ * (a `setup.cfg` without `[behave]`, a Go test without godog options).
+ */
+export function parseFrameworkConfig(fileName: string, text: string): FrameworkConfig[] {
+    const name = baseName(fileName);
+    if (name === 'reqnroll.json' || name === 'specflow.json') {
+        return [parseReqnrollJson(text, name === 'reqnroll.json' ? 'reqnroll' : 'specflow')];
+    }
+    if (/^cucumber\.ya?ml$/.test(name)) {
+        return parseCucumberYaml(text);
+    }
+    if (name === 'cucumber.json') {
+        return parseCucumberJson(text);
+    }
+    if (CUCUMBER_FILE_REGEX.test(name)) {
+        return parseCucumberJs(text);
+    }
+    if (BEHAVE_FILE_NAMES.has(name)) {
+        return parseBehaveIni(text);
+    }
+    if (name.endsWith('_test.go')) {
+        return parseGodogOptions(text);
+    }
+    if (name === 'junit-platform.properties') {
+        return parseJunitPlatformProperties(text);
+    }
+    if (JVM_RUNNER_FILE_REGEX.test(name)) {
+        return parseJvmRunner(text);
+    }
+    return [];
+}
+
+/** Assembly name of a `.csproj` (`<AssemblyName>`, otherwise the file name) */
+export function readCsprojAssemblyName(fileName: string, text: string): string {
+    return CSPROJ_ASSEMBLY_NAME_REGEX.exec(text)?.[1] ?? baseName(fileName).replace(/\.csproj$/i, '');
+}
+
+/**
+ * Absolute feature and glue patterns of the configurations in `configPath`.
+ * `assemblyDirs` maps Reqnroll / SpecFlow binding assembly names to their project directories.
+ */
+export function buildGlueScopes(
+    configPath: string,
+    configs: readonly FrameworkConfig[],
+    assemblyDirs: ReadonlyMap<string, string> = new Map()
+): GlueScope[] {
+    const source = toGluePath(configPath);
+    const dir = glueDirname(source);
+
+    return configs.map((config) => {
+        const language = config.language ? toGherkinLanguage(config.language) : undefined;
+        const scope = (features: string[], glue: string[]): GlueScope => ({
+            source,
+            ...(config.profile ? { profile: config.profile } : {}),
+            ...(config.runner ? { runner: config.runner } : {}),
+            features,
+            glue,
+            ...(language ? { language } : {}),
+        });
+
+        switch (config.kind) {
+            case 'reqnroll':
+            case 'specflow': {
+                const assemblies = (config.bindingAssemblies ?? [])
+                    .map((name) => assemblyDirs.get(name))
+                    .filter((d): d is string => d !== undefined)
+                    .map((d) => `${toGluePath(d).replace(/\/+$/, '')}/**`);
+                return scope([`${dir}/**/*.feature`], [`${dir}/**`, ...assemblies]);
+            }
+            case 'cucumber': {
+                const featurePaths = config.featurePaths.length > 0 ? config.featurePaths : ['features'];
+                const features = featurePaths.map((p) => featurePattern(dir, p));
+                // without require / import, support code is loaded next to the features
+                const glue =
+                    config.gluePaths.length > 0
+                        ? config.gluePaths.map((p) => gluePattern(dir, p))
+                        : featurePaths.map((p) => `${baseDirectory(dir, p)}/**`);
+                return scope(features, glue);
+            }
+            case 'behave': {
+                const featurePaths = config.featurePaths.length > 0 ? config.featurePaths : ['features'];
+                return scope(
+                    featurePaths.map((p) => featurePattern(dir, p)),
+                    featurePaths.flatMap((p) => {
+                        const base = baseDirectory(dir, p);
+                        return [`${base}/steps/**`, `${base}/environment.py`];
+                    })
+                );
+            }
+            case 'godog': {
+                const featurePaths = config.featurePaths.length > 0 ? config.featurePaths : ['features'];
+                // step definitions are registered by the package that runs the suite (or its subpackages)
+                return scope(featurePaths.map((p) => featurePattern(dir, p)), [`${dir}/**`]);
+            }
+            case 'cucumber-jvm': {
+                // paths are relative to the module (Maven / Gradle working directory); classpath
+                // resources live in its `src/*/resources`, glue packages anywhere in its sources
+                const moduleRoot = jvmModuleRoot(source);
+                const features =
+                    config.featurePaths.length > 0
+                        ? config.featurePaths.map((p) => jvmFeaturePattern(moduleRoot, p))
+                        : [`${moduleRoot}/**/*.feature`];
+                const glue =
+                    config.gluePaths.length > 0
+                        ? config.gluePaths.map((p) => `${moduleRoot}/**/${toResourcePath(p)}/**`)
+                        : [`${moduleRoot}/**`];
+                return scope(features, glue);
+            }
+        }
+    });
+}
+
+/** Gherkin language for a configured language or .NET culture (`de-DE` → `de`, `en-AU` → `en-au`) */
+export function toGherkinLanguage(language: string): string | undefined {
+    const trimmed = language.trim();
+    return (
+        getGherkinDialect(trimmed)?.code ??
+        getGherkinDialect(trimmed.toLowerCase())?.code ??
+        getGherkinDialect(trimmed.split(/[-_]/)[0].toLowerCase())?.code
+    );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FILE FORMATS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseReqnrollJson(text: string, kind: 'reqnroll' | 'specflow'): FrameworkConfig {
+    let json: Record<string, unknown> = {};
+    try {
+        json = JSON.parse(stripJsonComments(text)) as Record<string, unknown>;
+    } catch {
+        // an unreadable file still marks the project directory
+    }
+    // SpecFlow 2 nests everything under "specFlow"
+    const root = isRecord(json.specFlow) ? json.specFlow : json;
+    const language = isRecord(root.language) ? root.language.feature : undefined;
+    const assemblies = [root.bindingAssemblies, root.stepAssemblies]
+        .flatMap((list) => (Array.isArray(list) ? list : []))
+        .map((entry) => (isRecord(entry) ? entry.assembly : undefined))
+        .filter((name): name is string => typeof name === 'string' && name.length > 0);
+
+    return {
+        kind,
+        featurePaths: [],
+        gluePaths: [],
+        bindingAssemblies: assemblies,
+        ...(typeof language === 'string' ? { language } : {}),
+    };
+}
+
+function parseCucumberJson(text: string): FrameworkConfig[] {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return [];
+    }
+    if (!isRecord(json)) {
+        return [];
+    }
+    const configs: FrameworkConfig[] = [];
+    for (const [profile, value] of Object.entries(json)) {
+        if (typeof value === 'string') {
+            configs.push(parseCucumberCommandLine(value, profile));
+        } else if (isRecord(value)) {
+            const entries: Record<string, string[]> = {};
+            for (const key of CONFIG_KEYS) {
+                const item = value[key];
+                entries[key] = (Array.isArray(item) ? item : [item]).filter(
+                    (v): v is string => typeof v === 'string'
+                );
+            }
+            configs.push(cucumberConfig(profile, entries));
+        }
+    }
+    return configs;
+}
+
+/**
+ * cucumber.js profiles: `paths` / `require` / `import` / `language` properties of the profile
+ * objects (`module.exports = { default: { … } }`, `export default { … }`) and command-line
+ * profile strings.
+ */
+function parseCucumberJs(text: string): FrameworkConfig[] {
+    const profiles = new Map<string, Record<string, string[]>>();
+    const entriesOf = (profile: string) => {
+        const existing = profiles.get(profile);
+        if (existing) {
+            return existing;
+        }
+        const created: Record<string, string[]> = {};
+        profiles.set(profile, created);
+        return created;
+    };
+    const commandLines: FrameworkConfig[] = [];
+
+    for (const match of text.matchAll(/(?:^|[\s,{])(['"]?)([\w-]+)\1\s*:\s*/g)) {
+        const key = match[2];
+        const valueStart = match.index! + match[0].length;
+        const values = readJsStrings(text, valueStart);
+        if (values === null) {
+            continue;
+        }
+        const profile = enclosingProfile(text, match.index!);
+        if (CONFIG_KEYS.has(key) && profile !== null) {
+            const entries = entriesOf(profile);
+            entries[key] = [...(entries[key] ?? []), ...values];
+        } else if (values.length === 1 && /(?:^|\s)--?[a-z]/.test(values[0]) && text[valueStart] !== '[') {
+            commandLines.push(parseCucumberCommandLine(values[0], key));
+        }
+    }
+
+    return [
+        ...[...profiles].map(([profile, entries]) => cucumberConfig(profile, entries)),
+        ...commandLines,
+    ];
+}
+
+/** cucumber.yml: command-line profiles (cucumber-ruby, cucumber-js) or cucumber-js profile maps */
+function parseCucumberYaml(text: string): FrameworkConfig[] {
+    const configs: FrameworkConfig[] = [];
+    let profile: string | null = null;
+    let entries: Record<string, string[]> = {};
+    let key: string | null = null;
+
+    const flush = () => {
+        if (profile !== null && Object.keys(entries).length > 0) {
+            configs.push(cucumberConfig(profile, entries));
+        }
+        entries = {};
+        key = null;
+    };
+
+    for (const raw of text.split('\n')) {
+        const line = raw.replace(/\s+#.*$/, '').replace(/\r$/, '');
+        if (line.trim() === '' || line.trim().startsWith('#')) {
+            continue;
+        }
+        const top = /^([\w-]+|'[^']*'|"[^"]*")\s*:\s*(.*)$/.exec(line);
+        if (top) {
+            flush();
+            profile = unquote(top[1]);
+            if (top[2].trim()) {
+                // ERB (`<%= std_opts %>`) is left out
+                configs.push(parseCucumberCommandLine(unquote(top[2]).replace(/<%.*?%>/g, ' '), profile));
+                profile = null;
+            }
+            continue;
+        }
+        if (profile === null) {
+            continue;
+        }
+        const nested = /^\s+([\w-]+)\s*:\s*(.*)$/.exec(line);
+        if (nested) {
+            key = CONFIG_KEYS.has(nested[1]) ? nested[1] : null;
+            if (key && nested[2].trim()) {
+                entries[key] = readYamlValues(nested[2]);
+            }
+            continue;
+        }
+        const item = /^\s+-\s+(.*)$/.exec(line);
+        if (item && key) {
+            entries[key] = [...(entries[key] ?? []), unquote(item[1])];
+        }
+    }
+    flush();
+    return configs;
+}
+
+/** `[behave]` section: `paths` (one per line or space separated) and `lang` */
+function parseBehaveIni(text: string): FrameworkConfig[] {
+    if (!/^\s*\[behave\]/m.test(text)) {
+        return [];
+    }
+    const values = new Map<string, string>();
+    let inBehave = false;
+    let key: string | null = null;
+
+    for (const raw of text.split('\n')) {
+        const line = raw.replace(/\r$/, '');
+        const section = /^\s*\[([^\]]+)\]/.exec(line);
+        if (section) {
+            inBehave = section[1].trim() === 'behave';
+            key = null;
+            continue;
+        }
+        if (!inBehave || /^\s*[#;]/.test(line)) {
+            continue;
+        }
+        if (/^\s+\S/.test(line) && key) {
+            values.set(key, `${values.get(key)} ${line.trim()}`);
+            continue;
+        }
+        const entry = /^([\w.-]+)\s*[=:]\s*(.*)$/.exec(line);
+        if (entry) {
+            key = entry[1].toLowerCase();
+            values.set(key, entry[2].trim());
+        }
+    }
+
+    const lang = values.get('lang');
+    return [
+        {
+            kind: 'behave',
+            featurePaths: (values.get('paths') ?? '').split(/\s+/).filter((p) => p.length > 0),
+            gluePaths: [],
+            ...(lang ? { language: lang } : {}),
+        },
+    ];
+}
+
+/** `godog.Options{Paths: []string{"features"}}` / `opts.Paths = []string{…}` */
+function parseGodogOptions(text: string): FrameworkConfig[] {
+    if (!GODOG_OPTIONS_REGEX.test(text)) {
+        return [];
+    }
+    const paths = [...text.matchAll(GODOG_PATHS_REGEX)].flatMap((m) =>
+        [...m[1].matchAll(/"((?:[^"\\]|\\.)*)"|`([^`]*)`/g)].map((s) => s[1] ?? s[2])
+    );
+    return [{ kind: 'godog', featurePaths: paths, gluePaths: [] }];
+}
+
+/**
+ * Cucumber-JVM runner: `@CucumberOptions` (JUnit 4 / TestNG; glue and features default to the
+ * runner's package) or a JUnit 5 `@Suite` running the cucumber engine (glue from
+ * `@ConfigurationParameter`, features from `FEATURES_PROPERTY_NAME` or the `@Select…` annotations).
+ */
+function parseJvmRunner(text: string): FrameworkConfig[] {
+    const runner = JVM_CLASS_REGEX.exec(text)?.[1];
+    const packagePath = (JVM_PACKAGE_REGEX.exec(text)?.[1] ?? '').replace(/\./g, '/');
+    const options = CUCUMBER_OPTIONS_REGEX.exec(text);
+
+    if (options) {
+        const args = readAnnotationArguments(text, options.index + options[0].length - 1);
+        const features = args.get('features') ?? [];
+        const glue = [...(args.get('glue') ?? []), ...(args.get('extraGlue') ?? [])];
+        return [
+            {
+                kind: 'cucumber-jvm',
+                ...(runner ? { runner } : {}),
+                featurePaths: features.length > 0 ? features : [`classpath:${packagePath}`],
+                gluePaths: glue.length > 0 ? glue : packagePath ? [packagePath] : [],
+            },
+        ];
+    }
+
+    if (!JUNIT_SUITE_REGEX.test(text) || !/cucumber/i.test(text)) {
+        return [];
+    }
+    const parameters = new Map<string, string>();
+    for (const match of text.matchAll(CONFIGURATION_PARAMETER_REGEX)) {
+        const args = readAnnotationArguments(text, match.index! + match[0].length - 1);
+        const key = args.getRaw('key');
+        const value = args.get('value')?.[0];
+        if (key && value !== undefined) {
+            parameters.set(key.replace(/^.*\./, '').replace(/"/g, ''), value);
+        }
+    }
+    const glue = splitCommaList(parameters.get('GLUE_PROPERTY_NAME') ?? parameters.get('glue'));
+    const features = splitCommaList(parameters.get('FEATURES_PROPERTY_NAME') ?? parameters.get('features'));
+
+    const selections = [
+        ...readAnnotationStrings(text, 'SelectClasspathResource').map((r) => `classpath:${r}`),
+        ...readAnnotationStrings(text, 'SelectPackages').map((p) => `classpath:${p.replace(/\./g, '/')}`),
+        ...readAnnotationStrings(text, 'SelectDirectories'),
+        ...readAnnotationStrings(text, 'SelectFile'),
+    ];
+    return [
+        {
+            kind: 'cucumber-jvm',
+            ...(runner ? { runner } : {}),
+            featurePaths: features.length > 0 ? features : selections,
+            gluePaths: glue,
+        },
+    ];
+}
+
+/**
+ * `cucumber.glue` / `cucumber.features` of `junit-platform.properties` (module-wide defaults);
+ * without `cucumber.glue` the file does not narrow anything.
+ */
+function parseJunitPlatformProperties(text: string): FrameworkConfig[] {
+    const values = new Map<string, string>();
+    for (const line of text.split('\n')) {
+        const entry = /^\s*(cucumber\.[\w.-]+)\s*[=:]\s*(.*?)\s*$/.exec(line);
+        if (entry) {
+            values.set(entry[1], entry[2]);
+        }
+    }
+    if (!values.get('cucumber.glue')) {
+        return [];
+    }
+    return [
+        {
+            kind: 'cucumber-jvm',
+            featurePaths: splitCommaList(values.get('cucumber.features')),
+            gluePaths: splitCommaList(values.get('cucumber.glue')),
+        },
+    ];
+}
+
+/**
+ * Named arguments of a Java / Kotlin annotation whose `(` is at `open`: string values
+ * (`"a"`, `{"a", "b"}`, `["a"]`, `arrayOf("a")`) by name; `value` for a lone positional argument.
+ */
+function readAnnotationArguments(
+    text: string,
+    open: number
+): { get(name: string): string[] | undefined; getRaw(name: string): string | undefined } {
+    const inner = extractParenthesized(text, open) ?? '';
+    const values = new Map<string, string[]>();
+    const raw = new Map<string, string>();
+    for (const argument of splitParameters(inner)) {
+        const named = /^\s*(\w+)\s*=\s*([\s\S]*)$/.exec(argument);
+        const name = named ? named[1] : 'value';
+        const value = named ? named[2] : argument;
+        raw.set(name, value.trim());
+        values.set(name, [...value.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((m) => m[1]));
+    }
+    return { get: (name) => values.get(name), getRaw: (name) => raw.get(name) };
+}
+
+/** `com.a.steps, com.b.steps` → entries (Cucumber-JVM property lists) */
+function splitCommaList(value: string | undefined): string[] {
+    return (value ?? '')
+        .split(',')
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0);
+}
+
+/** String values of every `@Name(…)` annotation in the text */
+function readAnnotationStrings(text: string, annotation: string): string[] {
+    const regex = new RegExp(`@(?:[\\w.]+\\.)?${annotation}\\s*\\(`, 'g');
+    return [...text.matchAll(regex)].flatMap(
+        (m) => readAnnotationArguments(text, m.index! + m[0].length - 1).get('value') ?? []
+    );
+}
+
+/** cucumber command line: `--require` / `-r` / `--import` glue, `--language`, positional feature paths */
+function parseCucumberCommandLine(commandLine: string, profile: string): FrameworkConfig {
+    const tokens = [...commandLine.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]);
+    const entries: Record<string, string[]> = { paths: [], require: [], language: [] };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const [option, inline] = tokens[i].startsWith('--') ? tokens[i].split(/=(.*)/s) : [tokens[i], undefined];
+        const value = () => inline ?? tokens[++i];
+        if (option === '-r' || option === '--require' || option === '-i' || option === '--import') {
+            entries.require.push(value() ?? '');
+        } else if (option === '--language' || option === '-l') {
+            entries.language.push(value() ?? '');
+        } else if (CLI_VALUE_OPTIONS.has(option)) {
+            value();
+        } else if (!option.startsWith('-')) {
+            entries.paths.push(option);
+        }
+    }
+    return cucumberConfig(profile, entries);
+}
+
+function cucumberConfig(profile: string, entries: Record<string, readonly string[]>): FrameworkConfig {
+    const clean = (values: readonly string[] | undefined) =>
+        (values ?? []).map((v) => v.trim()).filter((v) => v.length > 0);
+    const language = clean(entries.language)[0];
+    return {
+        kind: 'cucumber',
+        profile,
+        featurePaths: clean(entries.paths),
+        gluePaths: [...clean(entries.require), ...clean(entries.import)],
+        ...(language ? { language } : {}),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Feature pattern for a path entry: a directory covers the `.feature` files below it */
+function featurePattern(dir: string, entry: string): string {
+    const clean = entry.replace(/(?::\d+)+$/, '');
+    const path = joinGluePath(dir, clean);
+    return isGlobPattern(clean) || /\.\w+$/.test(clean) ? path : `${path}/**/*.feature`;
+}
+
+/** Glue pattern for a require / import entry: a directory covers everything below it */
+function gluePattern(dir: string, entry: string): string {
+    const path = joinGluePath(dir, entry);
+    return isGlobPattern(entry) || /\.\w+$/.test(entry) ? path : `${path}/**`;
+}
+
+/** Maven / Gradle module of a file: the directory above `src/`, else the file's directory */
+function jvmModuleRoot(filePath: string): string {
+    const srcIndex = filePath.lastIndexOf('/src/');
+    return srcIndex > 0 ? filePath.slice(0, srcIndex) : glueDirname(filePath);
+}
+
+/** Cucumber-JVM feature entry: `classpath:features/login`, `file:…` or a path relative to the module */
+function jvmFeaturePattern(module: string, entry: string): string {
+    const classpath = /^classpath:\/?(.*)$/.exec(entry.trim());
+    if (classpath) {
+        return featurePattern(`${module}/src/*/resources`, classpath[1] || '.');
+    }
+    return featurePattern(module, entry.trim().replace(/^file:/, ''));
+}
+
+/** `com.shop.steps` / `classpath:com/shop/steps` → `com/shop/steps` */
+function toResourcePath(gluePackage: string): string {
+    return gluePackage.trim().replace(/^classpath:\/?/, '').replace(/\./g, '/').replace(/\/+$/, '');
+}
+
+/** Directory a path entry starts from (`features/**\/*.feature` → `features`, `a/b.feature` → `a`) */
+function baseDirectory(dir: string, entry: string): string {
+    const path = joinGluePath(dir, entry.replace(/(?::\d+)+$/, ''));
+    const segments = path.split('/');
+    const firstGlob = segments.findIndex((s) => isGlobPattern(s));
+    if (firstGlob >= 0) {
+        return segments.slice(0, firstGlob).join('/') || '/';
+    }
+    return /\.\w+$/.test(path) ? glueDirname(path) : path;
+}
+
+/** String literal, or array of string literals, at `start` (null for any other value) */
+function readJsStrings(text: string, start: number): string[] | null {
+    const single = /^(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/.exec(text.slice(start, start + 2000));
+    if (single) {
+        return [single[2]];
+    }
+    const array = /^\[([^\]]*)\]/.exec(text.slice(start, start + 4000));
+    if (!array) {
+        return null;
+    }
+    const items = [...array[1].matchAll(/(['"`])((?:\\.|(?!\1)[^\\\n])*)\1/g)].map((m) => m[2]);
+    return items.length > 0 || array[1].trim() === '' ? items : null;
+}
+
+/**
+ * Profile of the object literal around `index`: the property name it is assigned to, or
+ * `default` for the exported object itself. Null when `index` is not inside an object.
+ */
+function enclosingProfile(text: string, index: number): string | null {
+    let depth = 0;
+    for (let i = index; i >= 0; i--) {
+        const ch = text[i];
+        if (ch === '}') {
+            depth++;
+        } else if (ch === '{') {
+            if (depth === 0) {
+                const before = text.slice(Math.max(0, i - 200), i);
+                const named = /(['"]?)([\w-]+)\1\s*:\s*$/.exec(before);
+                return named ? named[2] : 'default';
+            }
+            depth--;
+        }
+    }
+    return null;
+}
+
+function readYamlValues(value: string): string[] {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[')) {
+        return trimmed
+            .replace(/^\[|\]$/g, '')
+            .split(',')
+            .map((v) => unquote(v))
+            .filter((v) => v.length > 0);
+    }
+    return [unquote(trimmed)];
+}
+
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+function stripJsonComments(text: string): string {
+    return text.replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (m, literal) => literal ?? '');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function baseName(fileName: string): string {
+    return toGluePath(fileName).split('/').pop() ?? fileName;
+}
@@ -0,0 +1,256 @@
+/**
+ * Gherkin Dialects
+ * Localized keywords for the official Gherkin languages, selected per file via `# language: xx`.
+ *
+ * gherkin-languages.json is vendored from @cucumber/gherkin (MIT).
+ */
+
+import type { StepKeyword } from '../domain/types';
+import GHERKIN_LANGUAGES from './gherkin-languages.json';
+
+export const DEFAULT_GHERKIN_LANGUAGE = 'en';
+
+/** Bullet step keyword, shared by all languages */
+export const BULLET_KEYWORD = '*';
+
+/** Matches the language header: # language: es */
+export const LANGUAGE_HEADER_REGEX = /^\s*#\s*language\s*:\s*([\w-]+)\s*$/i;
+
+export type GherkinBlockKind =
+    | 'feature'
+    | 'rule'
+    | 'background'
+    | 'scenario'
+    | 'scenarioOutline'
+    | 'examples';
+
+export interface GherkinDialect {
+    readonly code: string;
+    readonly name: string;
+    readonly native: string;
+    readonly feature: readonly string[];
+    readonly rule: readonly string[];
+    readonly background: readonly string[];
+    readonly scenario: readonly string[];
+    readonly scenarioOutline: readonly string[];
+    readonly examples: readonly string[];
+    readonly given: readonly string[];
+    readonly when: readonly string[];
+    readonly then: readonly string[];
+    readonly and: readonly string[];
+    readonly but: readonly string[];
+}
+
+export interface GherkinBlockLine {
+    readonly kind: GherkinBlockKind;
+    /** Keyword as written in the file (without the colon) */
+    readonly keyword: string;
+    readonly name: string;
+}
+
+export interface GherkinStepLine {
+    readonly keyword: StepKeyword;
+    /** Keyword as written in the file (e.g. "Dado"), trailing whitespace removed */
+    readonly keywordText: string;
+    /** Step text after the keyword; may be empty while typing */
+    readonly text: string;
+    /** Column where the keyword starts */
+    readonly keywordStart: number;
+    /** Column where the step text starts */
+    readonly textStart: number;
+}
+
+interface CompiledDialect {
+    /** Block keywords, longest first */
+    readonly blocks: ReadonlyArray<{ kind: GherkinBlockKind; keyword: string; lower: string }>;
+    /** Step keywords, longest first */
+    readonly steps: ReadonlyArray<{ keyword: StepKeyword; text: string; lower: string; needsSpace: boolean }>;
+}
+
+type RawDialect = Omit<GherkinDialect, 'code'>;
+
+const RAW_DIALECTS = GHERKIN_LANGUAGES as Record<string, RawDialect>;
+
+const BLOCK_KINDS: readonly GherkinBlockKind[] = [
+    'feature',
+    'rule',
+    'background',
+    'scenario',
+    'scenarioOutline',
+    'examples',
+];
+
+/** Blocks whose title is optional (Background:, Examples:) */
+const UNNAMED_BLOCKS: ReadonlySet<GherkinBlockKind> = new Set(['background', 'examples']);
+
+const STEP_KINDS: ReadonlyArray<['given' | 'when' | 'then' | 'and' | 'but', StepKeyword]> = [
+    ['given', 'Given'],
+    ['when', 'When'],
+    ['then', 'Then'],
+    ['and', 'And'],
+    ['but', 'But'],
+];
+
+const compiledCache = new Map<string, CompiledDialect>();
+
+/**
+ * All language codes in the dialect table.
+ */
+export function getGherkinLanguageCodes(): string[] {
+    return Object.keys(RAW_DIALECTS);
+}
+
+/**
+ * Look up a dialect by code (case-insensitive). Returns undefined for unknown languages.
+ */
+export function getGherkinDialect(code: string): GherkinDialect | undefined {
+    const key = findLanguageKey(code);
+    return key ? { code: key, ...RAW_DIALECTS[key] } : undefined;
+}
+
+/**
+ * Language declared by the `# language:` header, or undefined.
+ * Only comments and blank lines may precede the header.
+ */
+export function detectLanguageHeader(text: string): string | undefined {
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed) {
+            continue;
+        }
+        if (!trimmed.startsWith('#')) {
+            return undefined;
+        }
+        const match = trimmed.match(LANGUAGE_HEADER_REGEX);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Pick the dialect for a feature file: `# language:` header, then the given default, then English.
+ */
+export function resolveGherkinDialect(
+    text: string,
+    defaultLanguage: string = DEFAULT_GHERKIN_LANGUAGE
+): GherkinDialect {
+    const header = detectLanguageHeader(text);
+    return (
+        (header ? getGherkinDialect(header) : undefined) ??
+        getGherkinDialect(defaultLanguage) ??
+        getGherkinDialect(DEFAULT_GHERKIN_LANGUAGE)!
+    );
+}
+
+/**
+ * Match a block line (Feature:, Rule:, Background:, Scenario:, Scenario Outline:, Examples:).
+ */
+export function matchGherkinBlockLine(
+    line: string,
+    dialect: GherkinDialect
+): GherkinBlockLine | null {
+    const trimmed = line.trim();
+
+    for (const block of compile(dialect).blocks) {
+        const head = trimmed.slice(0, block.keyword.length);
+        if (head.toLowerCase() !== block.lower || trimmed[block.keyword.length] !== ':') {
+            continue;
+        }
+        const name = trimmed.slice(block.keyword.length + 1).trim();
+        if (!name && !UNNAMED_BLOCKS.has(block.kind)) {
+            return null;
+        }
+        return { kind: block.kind, keyword: head, name };
+    }
+    return null;
+}
+
+/**
+ * Match a step line. With `allowEmptyText`, a bare keyword (e.g. while typing) also matches.
+ */
+export function matchGherkinStepLine(
+    line: string,
+    dialect: GherkinDialect,
+    allowEmptyText = false
+): GherkinStepLine | null {
+    const keywordStart = line.length - line.trimStart().length;
+    const rest = line.slice(keywordStart);
+
+    for (const step of compile(dialect).steps) {
+        if (rest.slice(0, step.text.length).toLowerCase() !== step.lower) {
+            continue;
+        }
+        const after = rest.slice(step.text.length);
+        const gap = after.length - after.trimStart().length;
+        if (after.length > 0 && step.needsSpace && gap === 0) {
+            continue;
+        }
+        const text = after.trim();
+        if (!text && !allowEmptyText) {
+            continue;
+        }
+        return {
+            keyword: step.keyword,
+            keywordText: rest.slice(0, step.text.length),
+            text,
+            keywordStart,
+            textStart: keywordStart + step.text.length + gap,
+        };
+    }
+    return null;
+}
+
+/**
+ * And, But and the `*` bullet take the keyword of the previous step.
+ */
+export function isContinuationKeyword(keyword: StepKeyword): keyword is 'And' | 'But' | '*' {
+    return keyword === 'And' || keyword === 'But' || keyword === BULLET_KEYWORD;
+}
+
+function findLanguageKey(code: string): string | undefined {
+    if (Object.prototype.hasOwnProperty.call(RAW_DIALECTS, code)) {
+        return code;
+    }
+    const lower = code.toLowerCase();
+    return Object.keys(RAW_DIALECTS).find((k) => k.toLowerCase() === lower);
+}
+
+function compile(dialect: GherkinDialect): CompiledDialect {
+    const cached = compiledCache.get(dialect.code);
+    if (cached) {
+        return cached;
+    }
+
+    const blocks = BLOCK_KINDS.flatMap((kind) =>
+        dialect[kind].map((keyword) => ({ kind, keyword, lower: keyword.toLowerCase() }))
+    );
+
+    // The `*` bullet is listed under every step kind; it is a keyword of its own.
+    const seen = new Set<string>();
+    const steps: Array<CompiledDialect['steps'][number]> = [];
+    for (const [kind, keyword] of STEP_KINDS) {
+        for (const raw of dialect[kind]) {
+            const text = raw.trimEnd();
+            const lower = text.toLowerCase();
+            if (seen.has(lower)) {
+                continue;
+            }
+            seen.add(lower);
+            steps.push({
+                keyword: text === BULLET_KEYWORD ? BULLET_KEYWORD : keyword,
+                text,
+                lower,
+                needsSpace: raw !== text,
+            });
+        }
+    }
+
+    const compiled: CompiledDialect = {
+        blocks: blocks.sort((a, b) => b.keyword.length - a.keyword.length),
+        steps: steps.sort((a, b) => b.text.length - a.text.length),
+    };
+    compiledCache.set(dialect.code, compiled);
+    return compiled;
+}
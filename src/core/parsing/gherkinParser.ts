@@ -8,51 +8,136 @@ import {
     FeatureDocument,
     FeatureStep,
     Scenario,
+    Rule,
     ExampleTable,
-    StepKeyword,
+    ExampleRowStep,
     ResolvedKeyword,
+    StepArgument,
+    DataTableCell,
+    DataTableRow,
+    StepDataTable,
+    GherkinSyntaxError,
+    GherkinSyntaxErrorCode,
 } from '../domain/types';
 import {
-    STEP_KEYWORD_REGEX,
     TAG_LINE_REGEX,
-    FEATURE_REGEX,
-    BACKGROUND_REGEX,
-    SCENARIO_REGEX,
-    SCENARIO_OUTLINE_REGEX,
-    EXAMPLES_REGEX,
     TABLE_ROW_REGEX,
-    MAX_EXAMPLE_ROWS,
+    DOC_STRING_DELIMITER_REGEX,
     PLACEHOLDER_REGEX,
 } from '../domain/constants';
-import { normalizeWhitespace, generateCandidateTexts } from '../matching/normalization';
+import { normalizeWhitespace, generateCandidateTexts, expandExampleRow } from '../matching/normalization';
+import {
+    BULLET_KEYWORD,
+    isContinuationKeyword,
+    matchGherkinBlockLine,
+    matchGherkinStepLine,
+    resolveGherkinDialect,
+} from './gherkinDialects';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
+import { getConfig } from '../../config/settings';
+
+export interface FeatureParseOptions {
+    /** Dialect for files without a `# language:` header (defaults to bddGuardian.gherkin.defaultLanguage) */
+    readonly defaultLanguage?: string;
+    /** Rows kept per Examples block (defaults to reqnrollNavigator.maxExampleRows) */
+    readonly maxExampleRows?: number;
+}
 
 /**
  * Parse a feature document into a structured FeatureDocument
  */
-export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocument | undefined {
-    const lines = document.getText().split('\n');
+export function parseFeatureDocument(
+    document: vscode.TextDocument,
+    options: FeatureParseOptions = {}
+): FeatureDocument | undefined {
+    const text = document.getText();
+    const lines = text.split('\n');
+    const dialect = resolveGherkinDialect(text, options.defaultLanguage ?? getDefaultGherkinLanguage(document.uri));
+    const maxExampleRows = options.maxExampleRows ?? getConfig().maxExampleRows;
     
     let featureName = '';
     let featureTags: string[] = [];
     const backgroundSteps: FeatureStep[] = [];
     const scenarios: Scenario[] = [];
+    const rules: MutableRule[] = [];
     const allSteps: FeatureStep[] = [];
+    const syntaxErrors: GherkinSyntaxError[] = [];
+    const addError = (code: GherkinSyntaxErrorCode, message: string, lineNumber: number): void => {
+        syntaxErrors.push({
+            code,
+            message,
+            range: new vscode.Range(lineNumber, 0, lineNumber, lines[lineNumber].length),
+            lineNumber,
+        });
+    };
 
     let pendingTags: string[] = [];
+    let currentRule: MutableRule | null = null;
     let currentScenario: MutableScenario | null = null;
     let currentExamples: MutableExampleTable | null = null;
     let inBackground = false;
     let lastResolvedKeyword: ResolvedKeyword = 'Given';
+    /** Step that may still receive a data table or doc string */
+    let argumentStep: MutableStep | null = null;
+    let openDocString: OpenDocString | null = null;
+
+    for (let i = 0; i <= lines.length; i++) {
+        if (i === lines.length) {
+            if (!openDocString) {
+                break;
+            }
+            // Unclosed doc string: report it and read the lines below it as Gherkin again
+            addError(
+                'gherkin/unclosed-doc-string',
+                `Doc string opened with ${openDocString.delimiter} is never closed.`,
+                openDocString.startLine
+            );
+            i = openDocString.startLine;
+            openDocString = null;
+            continue;
+        }
 
-    for (let i = 0; i < lines.length; i++) {
         const line = lines[i];
         const trimmedLine = line.trim();
 
+        // Doc string body is verbatim until the closing delimiter
+        if (openDocString) {
+            if (trimmedLine === openDocString.delimiter) {
+                if (openDocString.step) {
+                    openDocString.step.argument = toDocString(openDocString, i, line.length);
+                }
+                openDocString = null;
+            } else {
+                openDocString.lines.push(line.replace(/\r$/, ''));
+            }
+            continue;
+        }
+
         // Skip empty lines and comments
         if (!trimmedLine || trimmedLine.startsWith('#')) {
             continue;
         }
 
+        const docStringMatch = trimmedLine.match(DOC_STRING_DELIMITER_REGEX);
+        if (docStringMatch) {
+            openDocString = {
+                step: argumentStep,
+                delimiter: docStringMatch[1] as '"""' | '```',
+                contentType: docStringMatch[2] || undefined,
+                indent: line.length - line.trimStart().length,
+                startLine: i,
+                lines: [],
+            };
+            argumentStep = null;
+            continue;
+        }
+
+        // Any line other than a table row ends the step's data table
+        const tableMatch = trimmedLine.match(TABLE_ROW_REGEX);
+        if (!tableMatch) {
+            argumentStep = null;
+        }
+
         // Parse tags
         const tagMatch = trimmedLine.match(TAG_LINE_REGEX);
         if (tagMatch) {
@@ -61,18 +146,49 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
             continue;
         }
 
+        const block = matchGherkinBlockLine(trimmedLine, dialect);
+
         // Parse Feature:
-        const featureMatch = trimmedLine.match(FEATURE_REGEX);
-        if (featureMatch) {
-            featureName = featureMatch[1].trim();
+        if (block?.kind === 'feature') {
+            if (featureName) {
+                addError('gherkin/duplicate-feature', 'A file can contain only one Feature.', i);
+                pendingTags = [];
+                continue;
+            }
+            featureName = block.name;
             featureTags = [...pendingTags];
             pendingTags = [];
             continue;
         }
 
+        // Parse Rule: (scenarios and Background below belong to it until the next Rule)
+        if (block?.kind === 'rule') {
+            if (currentScenario) {
+                finalizeScenario(currentScenario, scenarios, currentRule);
+                currentScenario = null;
+            }
+
+            inBackground = false;
+            currentExamples = null;
+            lastResolvedKeyword = 'Given';
+
+            currentRule = {
+                name: block.name,
+                tags: [...pendingTags],
+                backgroundSteps: [],
+                scenarios: [],
+                range: new vscode.Range(i, 0, i, line.length),
+            };
+            rules.push(currentRule);
+            pendingTags = [];
+            continue;
+        }
+
         // Parse Background:
-        const backgroundMatch = trimmedLine.match(BACKGROUND_REGEX);
-        if (backgroundMatch) {
+        if (block?.kind === 'background') {
+            if (currentScenario) {
+                finalizeScenario(currentScenario, scenarios, currentRule);
+            }
             inBackground = true;
             currentScenario = null;
             currentExamples = null;
@@ -82,11 +198,10 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
         }
 
         // Parse Scenario:
-        const scenarioMatch = trimmedLine.match(SCENARIO_REGEX);
-        if (scenarioMatch) {
+        if (block?.kind === 'scenario') {
             // Finalize previous scenario
             if (currentScenario) {
-                finalizeScenario(currentScenario, scenarios);
+                finalizeScenario(currentScenario, scenarios, currentRule);
             }
 
             inBackground = false;
@@ -95,22 +210,22 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
             
             currentScenario = {
                 type: 'Scenario',
-                name: scenarioMatch[1].trim(),
+                name: block.name,
                 tags: [...pendingTags],
                 steps: [],
                 examples: [],
                 range: new vscode.Range(i, 0, i, line.length),
+                ruleName: currentRule?.name,
             };
             pendingTags = [];
             continue;
         }
 
         // Parse Scenario Outline:
-        const outlineMatch = trimmedLine.match(SCENARIO_OUTLINE_REGEX);
-        if (outlineMatch) {
+        if (block?.kind === 'scenarioOutline') {
             // Finalize previous scenario
             if (currentScenario) {
-                finalizeScenario(currentScenario, scenarios);
+                finalizeScenario(currentScenario, scenarios, currentRule);
             }
 
             inBackground = false;
@@ -119,23 +234,27 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
             
             currentScenario = {
                 type: 'Scenario Outline',
-                name: outlineMatch[1].trim(),
+                name: block.name,
                 tags: [...pendingTags],
                 steps: [],
                 examples: [],
                 range: new vscode.Range(i, 0, i, line.length),
+                ruleName: currentRule?.name,
             };
             pendingTags = [];
             continue;
         }
 
         // Parse Examples: (Scenario Outline or Scenario with Examples table)
-        const examplesMatch = trimmedLine.match(EXAMPLES_REGEX);
-        if (examplesMatch && currentScenario) {
+        if (block?.kind === 'examples' && currentScenario) {
             currentExamples = {
                 headers: [],
                 rows: [],
                 tags: [...pendingTags],
+                lineNumber: i,
+                rowLineNumbers: [],
+                totalRowCount: 0,
+                rowLengths: [],
             };
             currentScenario.examples.push(currentExamples);
             pendingTags = [];
@@ -143,35 +262,62 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
         }
 
         // Parse table rows (for Examples)
-        const tableMatch = trimmedLine.match(TABLE_ROW_REGEX);
         if (tableMatch && currentExamples) {
-            const cells = tableMatch[1].split('|').map(c => c.trim());
+            const cells = parseDataTableCells(line, i).map(c => c.value);
             
             if (currentExamples.headers.length === 0) {
                 currentExamples.headers = cells;
-            } else if (currentExamples.rows.length < MAX_EXAMPLE_ROWS) {
-                currentExamples.rows.push(cells);
+            } else {
+                if (cells.length !== currentExamples.headers.length) {
+                    addError('gherkin/table-cell-count', cellCountMessage(cells.length, currentExamples.headers.length), i);
+                }
+                currentExamples.totalRowCount++;
+                if (currentExamples.rows.length < maxExampleRows) {
+                    currentExamples.rows.push(cells);
+                    currentExamples.rowLineNumbers.push(i);
+                    currentExamples.rowLengths.push(line.length);
+                }
+            }
+            continue;
+        }
+
+        // Parse table rows (step data table)
+        if (tableMatch && argumentStep) {
+            const row = appendDataTableRow(argumentStep, line, i);
+            const expected = (argumentStep.argument as StepDataTable).rows[0].cells.length;
+            if (row.cells.length !== expected) {
+                addError('gherkin/table-cell-count', cellCountMessage(row.cells.length, expected), i);
             }
             continue;
         }
 
         // Parse step lines
-        const stepMatch = trimmedLine.match(STEP_KEYWORD_REGEX);
+        const stepMatch = matchGherkinStepLine(trimmedLine, dialect);
+        // Bullets outside Background/Scenario are description text (e.g. Markdown lists)
+        if (stepMatch?.keyword === BULLET_KEYWORD && !inBackground && !currentScenario) {
+            continue;
+        }
         if (stepMatch) {
-            const keywordOriginal = normalizeKeyword(stepMatch[1]);
-            const rawText = stepMatch[2].trim();
+            if (!inBackground && !currentScenario) {
+                addError('gherkin/step-outside-scenario', 'Step is not inside a Scenario or Background.', i);
+            }
+            const keywordOriginal = stepMatch.keyword;
+            const rawText = stepMatch.text;
 
-            // Resolve And/But to previous keyword
+            // Resolve And/But/* to previous keyword
             let keywordResolved: ResolvedKeyword;
-            if (keywordOriginal === 'And' || keywordOriginal === 'But') {
+            if (isContinuationKeyword(keywordOriginal)) {
                 keywordResolved = lastResolvedKeyword;
             } else {
-                keywordResolved = keywordOriginal as ResolvedKeyword;
+                keywordResolved = keywordOriginal;
                 lastResolvedKeyword = keywordResolved;
             }
 
-            // Compute effective tags
+            // Compute effective tags (Feature → Rule → Scenario)
             const tagsEffective = [...featureTags];
+            if (currentRule) {
+                tagsEffective.push(...currentRule.tags);
+            }
             if (currentScenario) {
                 tagsEffective.push(...currentScenario.tags);
             }
@@ -183,9 +329,7 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
             const hasExamplesForMatching =
                 scenarioExamples !== undefined && scenarioExamples.length > 0;
 
-            PLACEHOLDER_REGEX.lastIndex = 0;
-            const hasPlaceholders = PLACEHOLDER_REGEX.test(rawText);
-            PLACEHOLDER_REGEX.lastIndex = 0;
+            const hasPlaceholders = hasPlaceholder(rawText);
 
             const candidateTexts = generateCandidateTexts(
                 rawText,
@@ -196,7 +340,7 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
                 currentScenario?.type === 'Scenario Outline' ||
                 (hasExamplesForMatching && hasPlaceholders);
 
-            const step: FeatureStep = {
+            const step: MutableStep = {
                 keywordOriginal,
                 keywordResolved,
                 rawText,
@@ -207,28 +351,40 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
                 range: new vscode.Range(i, 0, i, line.length),
                 lineNumber: i,
                 scenarioName: currentScenario?.name,
+                ruleName: currentRule?.name,
                 isOutline,
                 candidateTexts,
             };
 
             if (inBackground) {
-                backgroundSteps.push(step);
+                (currentRule ? currentRule.backgroundSteps : backgroundSteps).push(step);
             } else if (currentScenario) {
                 currentScenario.steps.push(step);
             }
 
             allSteps.push(step);
+            currentExamples = null;
+            argumentStep = step;
         }
     }
 
     // Finalize last scenario
     if (currentScenario) {
-        finalizeScenario(currentScenario, scenarios);
+        finalizeScenario(currentScenario, scenarios, currentRule);
     }
 
     // Re-sync outline candidates on all indexed steps (Scenario + Examples after steps)
     for (const scenario of scenarios) {
         refreshScenarioStepCandidates(scenario as unknown as MutableScenario);
+        if (scenario.type === 'Scenario' && !scenario.steps.some((s) => hasPlaceholder(s.rawText))) {
+            for (const examples of scenario.examples) {
+                addError(
+                    'gherkin/examples-without-placeholders',
+                    `Examples under Scenario "${scenario.name}" are unused: no step has a <placeholder>.`,
+                    examples.lineNumber ?? scenario.range.start.line
+                );
+            }
+        }
     }
 
     if (!featureName) {
@@ -241,27 +397,94 @@ export function parseFeatureDocument(document: vscode.TextDocument): FeatureDocu
         featureTags,
         backgroundSteps,
         scenarios,
+        rules: rules.map(toRule),
         allSteps,
+        syntaxErrors: syntaxErrors.sort((a, b) => a.lineNumber - b.lineNumber),
+    };
+}
+
+function cellCountMessage(actual: number, expected: number): string {
+    return `Table row has ${actual} cell${actual === 1 ? '' : 's'}, expected ${expected}.`;
+}
+
+function hasPlaceholder(text: string): boolean {
+    PLACEHOLDER_REGEX.lastIndex = 0;
+    const found = PLACEHOLDER_REGEX.test(text);
+    PLACEHOLDER_REGEX.lastIndex = 0;
+    return found;
+}
+
+/**
+ * Add a `| … |` line to the step's data table (created on the first row).
+ */
+function appendDataTableRow(step: MutableStep, line: string, lineNumber: number): DataTableRow {
+    const row: DataTableRow = {
+        cells: parseDataTableCells(line, lineNumber),
+        range: new vscode.Range(lineNumber, 0, lineNumber, line.length),
+        lineNumber,
+    };
+    const table = step.argument?.kind === 'dataTable' ? step.argument : undefined;
+    const rows = table ? [...table.rows, row] : [row];
+    step.argument = {
+        kind: 'dataTable',
+        rows,
+        range: new vscode.Range(rows[0].lineNumber, 0, lineNumber, line.length),
     };
+    return row;
 }
 
 /**
- * Normalize step keyword to proper case
+ * Split a table line into cells, honoring `\|`, `\\` and `\n` escapes.
  */
-function normalizeKeyword(keyword: string): StepKeyword {
-    const lower = keyword.toLowerCase();
-    switch (lower) {
-        case 'given': return 'Given';
-        case 'when': return 'When';
-        case 'then': return 'Then';
-        case 'and': return 'And';
-        case 'but': return 'But';
-        default: return 'Given';
+function parseDataTableCells(line: string, lineNumber: number): DataTableCell[] {
+    const cells: DataTableCell[] = [];
+    const first = line.indexOf('|');
+    let raw = '';
+    let start = first + 1;
+
+    for (let i = first + 1; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '\\' && i + 1 < line.length) {
+            const next = line[++i];
+            raw += next === 'n' ? '\n' : next;
+            continue;
+        }
+        if (ch !== '|') {
+            raw += ch;
+            continue;
+        }
+        const lead = raw.length - raw.trimStart().length;
+        const cellStart = start + lead;
+        cells.push({
+            value: raw.trim(),
+            range: new vscode.Range(lineNumber, cellStart, lineNumber, Math.max(cellStart, i - (raw.length - raw.trimEnd().length))),
+        });
+        raw = '';
+        start = i + 1;
     }
+    return cells;
+}
+
+function toDocString(open: OpenDocString, endLine: number, endCharacter: number): StepArgument {
+    const content = open.lines
+        .map((l) => {
+            const lead = l.length - l.trimStart().length;
+            return l.slice(Math.min(lead, open.indent));
+        })
+        .map((l) => (open.delimiter === '"""' ? l.replace(/\\"\\"\\"/g, '"""') : l.replace(/\\`\\`\\`/g, '```')))
+        .join('\n');
+    return {
+        kind: 'docString',
+        content,
+        contentType: open.contentType,
+        delimiter: open.delimiter,
+        range: new vscode.Range(open.startLine, 0, endLine, endCharacter),
+    };
 }
 
 /**
- * Re-expand step candidates after Examples tables are parsed (often below steps).
+ * Re-expand step candidates after Examples tables are parsed (often below steps),
+ * and give every step one instance per Examples row.
  */
 function refreshScenarioStepCandidates(scenario: MutableScenario): void {
     const examples = scenario.examples.filter(
@@ -272,13 +495,13 @@ function refreshScenarioStepCandidates(scenario: MutableScenario): void {
     }
 
     for (const step of scenario.steps) {
-        PLACEHOLDER_REGEX.lastIndex = 0;
-        const hasPlaceholders = PLACEHOLDER_REGEX.test(step.rawText);
-        PLACEHOLDER_REGEX.lastIndex = 0;
+        const mutableStep = step as MutableStep;
+        mutableStep.exampleRows = buildExampleRows(step, scenario.examples);
+
+        const hasPlaceholders = hasPlaceholder(step.rawText);
         if (!hasPlaceholders) {
             continue;
         }
-        const mutableStep = step as FeatureStep & { candidateTexts: string[]; isOutline: boolean };
         mutableStep.candidateTexts = generateCandidateTexts(
             step.rawText,
             examples as ExampleTable[]
@@ -289,18 +512,57 @@ function refreshScenarioStepCandidates(scenario: MutableScenario): void {
 }
 
 /**
- * Finalize a scenario and add to scenarios array
+ * Step text and tags for each Examples row (Examples tags join the step tags).
  */
-function finalizeScenario(scenario: MutableScenario, scenarios: Scenario[]): void {
+function buildExampleRows(step: FeatureStep, examples: readonly MutableExampleTable[]): ExampleRowStep[] {
+    const rows: ExampleRowStep[] = [];
+    examples.forEach((example, examplesIndex) => {
+        const tags = [...step.tagsEffective, ...example.tags];
+        example.rows.forEach((row, rowIdx) => {
+            const lineNumber = example.rowLineNumbers[rowIdx];
+            rows.push({
+                text: expandExampleRow(step.normalizedText, example.headers, row),
+                tags,
+                examplesIndex,
+                rowNumber: rowIdx + 1,
+                lineNumber,
+                range: new vscode.Range(lineNumber, 0, lineNumber, example.rowLengths[rowIdx]),
+            });
+        });
+    });
+    return rows;
+}
+
+/**
+ * Finalize a scenario and add to scenarios array (and to its enclosing Rule, if any)
+ */
+function finalizeScenario(
+    scenario: MutableScenario,
+    scenarios: Scenario[],
+    rule: MutableRule | null
+): void {
     refreshScenarioStepCandidates(scenario);
-    scenarios.push({
+    const finalized: Scenario = {
         type: scenario.type,
         name: scenario.name,
         tags: scenario.tags,
         steps: scenario.steps,
         examples: scenario.examples,
         range: scenario.range,
-    });
+        ruleName: scenario.ruleName,
+    };
+    scenarios.push(finalized);
+    rule?.scenarios.push(finalized);
+}
+
+function toRule(rule: MutableRule): Rule {
+    return {
+        name: rule.name,
+        tags: rule.tags,
+        backgroundSteps: rule.backgroundSteps,
+        scenarios: rule.scenarios,
+        range: rule.range,
+    };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -314,10 +576,41 @@ interface MutableScenario {
     steps: FeatureStep[];
     examples: MutableExampleTable[];
     range: vscode.Range;
+    ruleName?: string;
+}
+
+type MutableStep = FeatureStep & {
+    argument?: StepArgument;
+    candidateTexts: string[];
+    isOutline: boolean;
+    exampleRows?: ExampleRowStep[];
+};
+
+interface OpenDocString {
+    /** Step the doc string belongs to; null for a stray doc string */
+    step: MutableStep | null;
+    delimiter: '"""' | '```';
+    contentType?: string;
+    indent: number;
+    startLine: number;
+    lines: string[];
+}
+
+interface MutableRule {
+    name: string;
+    tags: string[];
+    backgroundSteps: FeatureStep[];
+    scenarios: Scenario[];
+    range: vscode.Range;
 }
 
 interface MutableExampleTable {
     headers: string[];
     rows: string[][];
     tags: string[];
+    lineNumber: number;
+    rowLineNumbers: number[];
+    totalRowCount: number;
+    /** Row line lengths, for row ranges */
+    rowLengths: number[];
 }
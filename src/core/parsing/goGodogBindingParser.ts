@@ -1,16 +1,27 @@
 /**
- * Go Godog step definition parser (MVP).
+ * Go Godog step definition parser.
  *
  * Supported forms:
- * - ctx.Step(`^pattern$`, handler)
- * - ctx.Given / ctx.When / ctx.Then with backtick regex strings
+ * - ctx.Step(`^pattern$`, handler) / ctx.Given / ctx.When / ctx.Then
+ * - Go raw (`` `…` ``) and interpreted (`"^…$"`) string patterns, `regexp.MustCompile(…)` inline
+ * - patterns from `var` / `const` / `:=` declarations of the same file (`ctx.Step(reEat, iEat)`)
+ * - named handlers (`iEat`, `s.iEat`) and inline `func(…) error { … }` literals
  *
- * Godog patterns are Go regex strings (typically anchored with ^ $).
+ * Godog patterns are Go regex strings (typically anchored with ^ $). An unanchored string pattern
+ * with `{int}`-style parameters is a Cucumber Expression (godog v0.15+).
+ * Closures are named like the Go runtime does: `InitializeScenario.func1`.
  */
 
 import * as vscode from 'vscode';
 import type { Binding, ResolvedKeyword } from '../domain/types';
 import { compileBindingRegex } from './bindingRegex';
+import { looksLikeCucumberExpression } from './cucumberExpression';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    goParameterTypes,
+} from './stepArgumentSignature';
 
 export interface GoGodogParseOptions {
     caseInsensitive?: boolean;
@@ -21,12 +32,37 @@ const GODOG_FILE_REGEX =
 
 const STEP_METHODS: ReadonlyArray<ResolvedKeyword> = ['Given', 'When', 'Then'];
 
-/** ctx.Step(`^...$`, fn) or ctx.Given(`...`, fn) */
-const STEP_CALL_REGEX =
-    /\.(Step|Given|When|Then)\s*\(\s*`((?:\\.|[^`\\])*)`\s*,\s*(\w+)/g;
+/** ctx.Step( / ctx.Given( … — the pattern and handler arguments are read after it */
+const STEP_CALL_REGEX = /\.(Step|Given|When|Then)\s*\(\s*/g;
+
+/** regexp.MustCompile(`…`) / regexp.MustCompilePOSIX("…") */
+const MUST_COMPILE_REGEX = /^regexp\.MustCompile(?:POSIX)?\s*\(\s*/;
+
+/** Handler argument: a function or method value (`iEat`, `s.iEat`) */
+const HANDLER_NAME_REGEX = /^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*/;
+
+/** Top-level function declaration (gofmt puts it at column 0) */
+const FUNC_DECLARATION_REGEX = /^func\s+(?:\([^)]*\)\s*)?(\w+)/gm;
+
+/** Function literal: `func(` not at the start of a line */
+const FUNC_LITERAL_REGEX = /(?<!^)\bfunc\s*\(/gm;
+
+const GO_ESCAPES: Readonly<Record<string, string>> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '"': '"',
+    '\\': '\\',
+};
+
+interface GoPattern {
+    readonly source: string;
+    readonly isRegexp: boolean;
+    readonly end: number;
+}
 
 export function looksLikeGodogBindingFile(text: string): boolean {
-    return GODOG_FILE_REGEX.test(text) || /\.(Step|Given|When|Then)\s*\(\s*`/.test(text);
+    return GODOG_FILE_REGEX.test(text) || /\.(Step|Given|When|Then)\s*\(\s*[`"]/.test(text);
 }
 
 export function parseGoGodogBindingsFromText(
@@ -39,23 +75,44 @@ export function parseGoGodogBindingsFromText(
     }
 
     const bindings: Binding[] = [];
-    let match: RegExpExecArray | null;
-    STEP_CALL_REGEX.lastIndex = 0;
+    const lines = text.split('\n');
 
-    while ((match = STEP_CALL_REGEX.exec(text)) !== null) {
+    for (const match of text.matchAll(STEP_CALL_REGEX)) {
         const method = match[1];
-        const patternRaw = match[2];
-        const methodName = match[3];
-        const before = text.slice(0, match.index);
-        const lineNumber = before.split('\n').length - 1;
-        const lineText = text.split('\n')[lineNumber] ?? '';
+        const pattern = readPatternArgument(text, match.index! + match[0].length);
+        const comma = pattern ? /^\s*,\s*/.exec(text.slice(pattern.end)) : null;
+        if (!pattern || !comma) {
+            continue;
+        }
+        const handler = readHandler(text, pattern.end + comma[0].length);
+        if (!handler) {
+            continue;
+        }
+
+        const patternRaw = pattern.source;
+        const expressionType =
+            pattern.isRegexp || /^\^|\$$/.test(patternRaw) || !looksLikeCucumberExpression(patternRaw)
+                ? 'regex'
+                : 'cucumber';
+        const lineNumber = text.slice(0, match.index).split('\n').length - 1;
+        const lineText = lines[lineNumber] ?? '';
 
         const regex = compileBindingRegex(patternRaw, {
             caseInsensitive: options.caseInsensitive ?? false,
-            expressionType: 'regex',
+            expressionType,
         });
         if (!regex) continue;
 
+        const parameters = handler.parameters;
+        const stepArgument =
+            parameters === null
+                ? undefined
+                : classifyStepArgument(
+                      goParameterTypes(parameters),
+                      countPatternParameters(patternRaw, expressionType),
+                      'go'
+                  );
+
         const keywords =
             method === 'Step'
                 ? (['Given', 'When', 'Then'] as const)
@@ -69,12 +126,15 @@ export function parseGoGodogBindingsFromText(
                 patternRaw,
                 regex,
                 className: 'Go',
-                methodName,
+                methodName: handler.name,
                 uri,
                 range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
                 lineNumber,
-                signature: `${uri.fsPath}:${lineNumber}:${methodName}:${keyword}`,
+                signature: `${uri.fsPath}:${lineNumber}:${handler.name}:${keyword}`,
                 scopeTags: [],
+                stepArgument,
+                providerId: 'go-godog',
+                expressionType,
             });
         }
     }
@@ -82,6 +142,117 @@ export function parseGoGodogBindingsFromText(
     return bindings;
 }
 
+/** Go raw string (`` `…` ``, as written) or interpreted string (`"…"`, unescaped) at `start` */
+function readGoString(text: string, start: number): { value: string; end: number } | null {
+    if (text[start] === '`') {
+        const close = text.indexOf('`', start + 1);
+        return close < 0 ? null : { value: text.slice(start + 1, close), end: close + 1 };
+    }
+    if (text[start] !== '"') {
+        return null;
+    }
+    let value = '';
+    for (let i = start + 1; i < text.length && text[i] !== '\n'; i++) {
+        if (text[i] === '"') {
+            return { value, end: i + 1 };
+        }
+        if (text[i] === '\\' && i + 1 < text.length) {
+            i++;
+            value += GO_ESCAPES[text[i]] ?? `\\${text[i]}`;
+        } else {
+            value += text[i];
+        }
+    }
+    return null;
+}
+
+/** String literal or `regexp.MustCompile(<string>)` at `start` */
+function readPatternLiteral(text: string, start: number): GoPattern | null {
+    const compile = MUST_COMPILE_REGEX.exec(text.slice(start, start + 40));
+    if (compile) {
+        const literal = readGoString(text, start + compile[0].length);
+        const close = literal ? /^\s*\)/.exec(text.slice(literal.end)) : null;
+        return literal && close
+            ? { source: literal.value, isRegexp: true, end: literal.end + close[0].length }
+            : null;
+    }
+    const literal = readGoString(text, start);
+    return literal ? { source: literal.value, isRegexp: false, end: literal.end } : null;
+}
+
+/** Pattern argument: a literal, or a variable / constant declared in the same file */
+function readPatternArgument(text: string, start: number): GoPattern | null {
+    const literal = readPatternLiteral(text, start);
+    if (literal) {
+        return literal;
+    }
+    const name = HANDLER_NAME_REGEX.exec(text.slice(start, start + 200));
+    if (!name || /^\s*\(/.test(text.slice(start + name[0].length))) {
+        return null;
+    }
+    const declared = findPatternDeclaration(text, name[0].split('.').pop()!);
+    return declared ? { ...declared, end: start + name[0].length } : null;
+}
+
+/**
+ * `var reEat = regexp.MustCompile(…)`, `reEat := …`, `const eatPattern = "…"` or a
+ * `name = …` line of a `var ( … )` / `const ( … )` block.
+ */
+function findPatternDeclaration(text: string, name: string): GoPattern | null {
+    const declaration = new RegExp(`(?:^|[\\s(;])${name}(?:\\s+[\\w.*]+)?\\s*:?=(?!=)\\s*`, 'g');
+    for (const match of text.matchAll(declaration)) {
+        const value = readPatternLiteral(text, match.index! + match[0].length);
+        if (value) {
+            return value;
+        }
+    }
+    return null;
+}
+
+/** Handler name and parameter list: a named function in the same file, or an inline literal */
+function readHandler(text: string, start: number): { name: string; parameters: string | null } | null {
+    const literal = /^func\s*\(/.exec(text.slice(start, start + 10));
+    if (literal) {
+        return {
+            name: closureName(text, start),
+            parameters: extractParenthesized(text, start + literal[0].length - 1),
+        };
+    }
+    const name = HANDLER_NAME_REGEX.exec(text.slice(start, start + 200));
+    if (!name) {
+        return null;
+    }
+    const methodName = name[0].split('.').pop()!;
+    return { name: methodName, parameters: findHandlerParameters(text, methodName) };
+}
+
+/** Go runtime name of the function literal at `index`: `<enclosing func>.func<N>` */
+function closureName(text: string, index: number): string {
+    let enclosing: RegExpMatchArray | undefined;
+    for (const declaration of text.matchAll(FUNC_DECLARATION_REGEX)) {
+        if (declaration.index! > index) {
+            break;
+        }
+        enclosing = declaration;
+    }
+    if (!enclosing) {
+        return `func@${text.slice(0, index).split('\n').length}`;
+    }
+    const before = text.slice(enclosing.index! + enclosing[0].length, index);
+    return `${enclosing[1]}.func${[...before.matchAll(FUNC_LITERAL_REGEX)].length + 1}`;
+}
+
+/**
+ * Parameter list of `func name(` or `func (recv) name(` declared in the same file.
+ */
+function findHandlerParameters(text: string, handlerName: string): string | null {
+    const decl = new RegExp(`\\bfunc\\s+(?:\\([^)]*\\)\\s*)?${handlerName}\\s*\\(`).exec(text);
+    if (!decl) {
+        return null;
+    }
+    return extractParenthesized(text, decl.index + decl[0].length - 1);
+}
+
 function normalizeGodogKeyword(method: string): ResolvedKeyword | null {
     if (method === 'Step') {
         // Generic Step() — treat as Given for indexing (resolver matches all keywords via pattern)
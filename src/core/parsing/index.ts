@@ -2,11 +2,89 @@
  * Parsing Module Exports
  */
 
-export { parseFeatureDocument } from './gherkinParser';
+export { parseFeatureDocument, type FeatureParseOptions } from './gherkinParser';
+export {
+    getGherkinDialect,
+    getGherkinLanguageCodes,
+    detectLanguageHeader,
+    resolveGherkinDialect,
+    matchGherkinBlockLine,
+    matchGherkinStepLine,
+    isContinuationKeyword,
+    BULLET_KEYWORD,
+    DEFAULT_GHERKIN_LANGUAGE,
+    type GherkinDialect,
+} from './gherkinDialects';
+export {
+    parseTagExpression,
+    evaluateTagExpression,
+    tagListToExpression,
+    type TagExpression,
+} from './tagExpression';
 export { parseBindingDocument } from './csBindingParser';
-export { parseCSharpBindingsFromText, extractCSharpPatternString } from './csharpBindingParser';
+export {
+    parseCSharpBindingsFromText,
+    parseCSharpParameterTypesFromText,
+    parseCSharpClassDeclarationsFromText,
+    linkCSharpBindingInheritance,
+    linkCSharpBindings,
+    methodNameToStepPattern,
+    extractCSharpPatternString,
+} from './csharpBindingParser';
+export {
+    createCSharpConstantResolver,
+    parseCSharpStringConstants,
+    parseCSharpStringExpression,
+    type CSharpStringPart,
+} from './csharpStringConstants';
 export { compileBindingRegex, type BindingExpressionType, isPatternAnchored, countCaptureGroups } from './bindingRegex';
-export { compileCucumberExpressionToRegex, looksLikeCucumberExpression } from './cucumberExpression';
-export { parseJsCucumberBindingsFromText } from './jsCucumberBindingParser';
+export {
+    compileCucumberExpressionToRegex,
+    looksLikeCucumberExpression,
+    findParameterTypeNames,
+    isBuiltInParameterType,
+    type ParameterTypeLookup,
+} from './cucumberExpression';
+export {
+    applyParameterTypes,
+    buildParameterTypeLookup,
+    getReferencedParameterTypes,
+    findParameterTypeAt,
+} from './parameterTypes';
+export {
+    parseJsCucumberBindingsFromText,
+    parseJsParameterTypesFromText,
+    findPlaywrightBddGeneratedSource,
+    type PlaywrightBddGeneratedSource,
+} from './jsCucumberBindingParser';
 export { parseGoGodogBindingsFromText, looksLikeGodogBindingFile } from './goGodogBindingParser';
-export { parseJavaCucumberBindingsFromText } from './javaCucumberBindingParser';
+export { parseJavaCucumberBindingsFromText, parseJavaParameterTypesFromText } from './javaCucumberBindingParser';
+export { parseKotlinCucumberBindingsFromText, parseKotlinParameterTypesFromText } from './kotlinCucumberBindingParser';
+export { parsePhpBehatBindingsFromText, turnipToRegexSource } from './phpBehatBindingParser';
+export {
+    parseRustCucumberBindingsFromText,
+    parseRustCucumberParameterTypesFromText,
+} from './rustCucumberBindingParser';
+export { parseRubyCucumberBindingsFromText, parseRubyParameterTypesFromText } from './rubyCucumberBindingParser';
+export {
+    parsePythonPytestBddBindingsFromText,
+    findPytestBddFeatureReferences,
+    type PytestBddFeatureReference,
+} from './pythonPytestBddBindingParser';
+export {
+    parseFrameworkConfig,
+    buildGlueScopes,
+    isFrameworkConfigFileName,
+    readCsprojAssemblyName,
+    toGherkinLanguage,
+    FRAMEWORK_CONFIG_GLOB,
+    type FrameworkConfig,
+    type FrameworkConfigKind,
+} from './frameworkConfigParser';
+export {
+    parseProjectManifest,
+    buildBddProjects,
+    isProjectManifestFileName,
+    PROJECT_MANIFEST_GLOB,
+    type ProjectManifest,
+} from './projectManifestParser';
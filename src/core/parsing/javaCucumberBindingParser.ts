@@ -1,15 +1,27 @@
 /**
- * Java Cucumber-JVM step definition parser (MVP).
+ * Java Cucumber-JVM step definition parser.
  *
  * Supported forms:
  * - import io.cucumber.java.en.* (or legacy cucumber.api.java.en.*)
- * - @Given("pattern") / @When("pattern") / @Then("pattern")
- * - @Given(value = "pattern") / @Given(value = { "pattern", ... }) — first string only
+ * - @Given / @When / @Then / @And / @But, and the localized annotations of every imported
+ *   language package (io.cucumber.java.es.Dado, io.cucumber.java.de.Angenommen, …)
+ * - @Given("pattern") / @Given(value = "pattern") / @Given({ "pattern", … }) — every array entry
+ * - Java 15 text blocks and `+` concatenation of literals and `static final String` constants of the file
+ * - cucumber-java8 lambdas: Given("pattern", (Integer n) -> { … }) in a class implementing En (or Es, De, …)
+ * - @ParameterType("regex") methods — custom `{methodName}` parameter types (or `name = "…"`)
  */
 
 import * as vscode from 'vscode';
-import type { Binding, ResolvedKeyword } from '../domain/types';
+import type { Binding, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
 import { compileBindingRegex } from './bindingRegex';
+import { DEFAULT_GHERKIN_LANGUAGE, getGherkinDialect } from './gherkinDialects';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    splitParameters,
+    typedParameterTypes,
+} from './stepArgumentSignature';
 
 export interface JavaCucumberParseOptions {
     caseInsensitive?: boolean;
@@ -17,10 +29,18 @@ export interface JavaCucumberParseOptions {
 
 const CUCUMBER_JAVA_IMPORT_REGEX = /io\.cucumber\.java|cucumber\.api\.java/;
 
-const ANNOTATION_REGEX =
-    /@(Given|When|Then)\s*\(\s*(?:value\s*=\s*(?:\{\s*)?)?(['"])((?:\\.|(?!\2).)*)\2/g;
+/** `io.cucumber.java.es.Dado` / `cucumber.api.java.de.*` → language package */
+const ANNOTATION_PACKAGE_REGEX = /\b(?:io\.cucumber\.java|cucumber\.api\.java)\.([a-z]+(?:_[a-z]+)?)\./g;
 
-const STEP_KEYWORDS: ReadonlyArray<ResolvedKeyword> = ['Given', 'When', 'Then'];
+const JAVA8_IMPORT_REGEX = /\bio\.cucumber\.java8\.([A-Z]\w*)/g;
+
+const ANNOTATION_REGEX = /@((?:[\p{L}_$][\p{L}\p{N}_$]*\.)*)([\p{L}_$][\p{L}\p{N}_$]*)\s*\(/gu;
+
+const LAMBDA_STEP_REGEX = /(?<![\p{L}\p{N}_$.@])([\p{L}_$][\p{L}\p{N}_$]*)\s*\(/gu;
+
+const CONSTANT_REGEX = /\b(?:static\s+final|final\s+static)\s+String\s+(\w+)\s*=/g;
+
+const PARAMETER_TYPE_ANNOTATION_REGEX = /@ParameterType\s*\(/g;
 
 function unescapeJavaStringLiteral(raw: string, quote: string): string {
     let inner = raw
@@ -33,12 +53,212 @@ function unescapeJavaStringLiteral(raw: string, quote: string): string {
     return inner;
 }
 
+/**
+ * Text block body → value: drop the opening line break, strip incidental indentation
+ * (closing delimiter line included) and trailing spaces; `\<newline>` joins lines, `\s` is a space.
+ */
+function textBlockValue(body: string): string {
+    const lines = body.replace(/^[ \t]*\r?\n/, '').split(/\r?\n/);
+    const indents = lines
+        .filter((line, i) => line.trim() !== '' || i === lines.length - 1)
+        .map((line) => line.length - line.trimStart().length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    const joined = lines.map((line) => line.slice(indent).trimEnd()).join('\n');
+    return unescapeJavaStringLiteral(joined.replace(/\\\n/g, '').replace(/\\s/g, ' '), '"');
+}
+
+/** Compile-time String values of the file, resolved on demand */
+class JavaConstants {
+    private readonly starts = new Map<string, number>();
+    private readonly values = new Map<string, string | null>();
+
+    constructor(private readonly text: string) {
+        for (const match of text.matchAll(CONSTANT_REGEX)) {
+            this.starts.set(match[1], match.index! + match[0].length);
+        }
+    }
+
+    get(name: string): string | null {
+        const simpleName = name.split('.').pop()!;
+        if (this.values.has(simpleName)) {
+            return this.values.get(simpleName)!;
+        }
+        const start = this.starts.get(simpleName);
+        if (start === undefined) {
+            return null;
+        }
+        this.values.set(simpleName, null); // cycle guard
+        const value = readStringExpression(this.text, start, this)?.value ?? null;
+        this.values.set(simpleName, value);
+        return value;
+    }
+}
+
+function skipJavaWhitespace(text: string, start: number): number {
+    let i = start;
+    for (;;) {
+        while (i < text.length && /\s/.test(text[i])) {
+            i++;
+        }
+        if (text.startsWith('//', i)) {
+            const newline = text.indexOf('\n', i);
+            i = newline === -1 ? text.length : newline;
+        } else if (text.startsWith('/*', i)) {
+            const close = text.indexOf('*/', i + 2);
+            i = close === -1 ? text.length : close + 2;
+        } else {
+            return i;
+        }
+    }
+}
+
+/** One string literal, text block or constant reference */
+function readStringTerm(text: string, start: number, constants: JavaConstants): { value: string | null; end: number } | null {
+    if (text.startsWith('"""', start)) {
+        let i = start + 3;
+        while (i < text.length && !text.startsWith('"""', i)) {
+            i += text[i] === '\\' ? 2 : 1;
+        }
+        return { value: textBlockValue(text.slice(start + 3, i)), end: Math.min(i + 3, text.length) };
+    }
+    if (text[start] === '"') {
+        let i = start + 1;
+        while (i < text.length && text[i] !== '"' && text[i] !== '\n') {
+            i += text[i] === '\\' ? 2 : 1;
+        }
+        if (text[i] !== '"') {
+            return null;
+        }
+        return { value: unescapeJavaStringLiteral(text.slice(start + 1, i), '"'), end: i + 1 };
+    }
+    const identifier = /^[A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*/.exec(text.slice(start, start + 200));
+    if (!identifier) {
+        return null;
+    }
+    return { value: constants.get(identifier[0].replace(/\s+/g, '')), end: start + identifier[0].length };
+}
+
+/**
+ * `"a" + CONSTANT + """text block"""` from `start`. `value` is null when a term is not a
+ * literal or a constant of this file; null when no term starts there.
+ */
+function readStringExpression(
+    text: string,
+    start: number,
+    constants: JavaConstants
+): { value: string | null; end: number } | null {
+    let value: string | null = '';
+    let i = skipJavaWhitespace(text, start);
+    let end = -1;
+
+    for (;;) {
+        const term = readStringTerm(text, i, constants);
+        if (!term) {
+            break;
+        }
+        value = value === null || term.value === null ? null : value + term.value;
+        end = term.end;
+        const next = skipJavaWhitespace(text, end);
+        if (text[next] !== '+') {
+            break;
+        }
+        i = skipJavaWhitespace(text, next + 1);
+    }
+
+    return end === -1 ? null : { value, end };
+}
+
+/** Patterns of a step annotation: `"p"`, `value = "p"`, `{ "p1", "p2" }` or `value = { … }` */
+function readAnnotationPatterns(text: string, argsStart: number, constants: JavaConstants): string[] {
+    let i = skipJavaWhitespace(text, argsStart);
+    const valueKey = /^value\s*=\s*/.exec(text.slice(i, i + 40));
+    if (valueKey) {
+        i = skipJavaWhitespace(text, i + valueKey[0].length);
+    }
+    if (text[i] !== '{') {
+        const single = readStringExpression(text, i, constants);
+        return single?.value != null ? [single.value] : [];
+    }
+
+    const patterns: string[] = [];
+    i++;
+    for (;;) {
+        const entry = readStringExpression(text, i, constants);
+        if (!entry) {
+            break;
+        }
+        if (entry.value !== null) {
+            patterns.push(entry.value);
+        }
+        i = skipJavaWhitespace(text, entry.end);
+        if (text[i] !== ',') {
+            break;
+        }
+        i++;
+    }
+    return patterns;
+}
+
+/** Cucumber-JVM annotation / java8 method name for a Gherkin keyword: "Gegeben sei " → "Gegebensei" */
+function keywordToJavaName(keyword: string): string {
+    const compact = keyword.replace(/[\s',!\u00AD]/g, '');
+    return compact.charAt(0).toUpperCase() + compact.slice(1);
+}
+
+/**
+ * Java name → keyword for the given languages. And / But steps carry no keyword of
+ * their own; they are indexed as Given (Cucumber-JVM ignores the keyword when matching).
+ */
+export function buildStepNames(languages: Iterable<string>): Map<string, ResolvedKeyword> {
+    const names = new Map<string, ResolvedKeyword>();
+    for (const code of languages) {
+        const dialect = getGherkinDialect(code.replace(/_/g, '-'));
+        if (!dialect) {
+            continue;
+        }
+        const kinds: [readonly string[], ResolvedKeyword][] = [
+            [dialect.given, 'Given'],
+            [dialect.when, 'When'],
+            [dialect.then, 'Then'],
+            [dialect.and, 'Given'],
+            [dialect.but, 'Given'],
+        ];
+        for (const [keywords, resolved] of kinds) {
+            for (const keyword of keywords) {
+                const name = keywordToJavaName(keyword);
+                if (name && name !== '*' && !names.has(name)) {
+                    names.set(name, resolved);
+                }
+            }
+        }
+    }
+    return names;
+}
+
+/** Language packages named in the file (English always included) */
+export function findAnnotationLanguages(text: string): Set<string> {
+    const languages = new Set<string>([DEFAULT_GHERKIN_LANGUAGE]);
+    for (const match of text.matchAll(ANNOTATION_PACKAGE_REGEX)) {
+        languages.add(match[1]);
+    }
+    return languages;
+}
+
+/** cucumber-java8 interfaces (`En`, `Es`, `EnScouse`) → language codes */
+export function findJava8Languages(text: string): Set<string> {
+    const languages = new Set<string>();
+    for (const match of text.matchAll(JAVA8_IMPORT_REGEX)) {
+        languages.add(match[1].replace(/(?<=[a-z])(?=[A-Z])/g, '_').toLowerCase());
+    }
+    return languages;
+}
+
 function findClassName(text: string): string {
     const match = text.match(/\bclass\s+(\w+)/);
     return match?.[1] ?? 'StepDefinitions';
 }
 
-function findMethodName(lines: string[], decoratorLine: number): string {
+function findMethod(lines: string[], decoratorLine: number): { name: string; parameters: string | null } {
     for (let i = decoratorLine + 1; i < Math.min(decoratorLine + 8, lines.length); i++) {
         const trimmed = lines[i]?.trim() ?? '';
         if (!trimmed || trimmed.startsWith('@') || trimmed.startsWith('//') || trimmed.startsWith('*')) {
@@ -46,20 +266,51 @@ function findMethodName(lines: string[], decoratorLine: number): string {
         }
         const methodMatch = trimmed.match(/(?:public|private|protected)\s+\S+\s+(\w+)\s*\(/);
         if (methodMatch) {
-            return methodMatch[1];
+            const rest = lines.slice(i).join('\n').trimStart();
+            const parameters = extractParenthesized(rest, (methodMatch.index ?? 0) + methodMatch[0].length - 1);
+            return { name: methodMatch[1], parameters };
         }
         if (trimmed.includes('{')) {
             break;
         }
     }
-    return 'step';
+    return { name: 'step', parameters: null };
 }
 
-function normalizeKeyword(raw: string): ResolvedKeyword {
-    const lower = raw.toLowerCase();
-    if (lower === 'given') return 'Given';
-    if (lower === 'when') return 'When';
-    return 'Then';
+/** Lambda parameter types after the pattern: `(String a, DataTable t) ->` / `x ->`; untyped → undefined */
+function readLambdaParameterTypes(text: string, start: number): (string | undefined)[] | null {
+    let i = skipJavaWhitespace(text, start);
+    if (text[i] !== ',') {
+        return null;
+    }
+    i = skipJavaWhitespace(text, i + 1);
+    let list: string;
+    if (text[i] === '(') {
+        const inner = extractParenthesized(text, i);
+        if (inner === null) {
+            return null;
+        }
+        list = inner;
+        i += inner.length + 2;
+    } else {
+        const single = /^[A-Za-z_$][\w$]*/.exec(text.slice(i, i + 100));
+        if (!single) {
+            return null;
+        }
+        list = single[0];
+        i += single[0].length;
+    }
+    if (!text.startsWith('->', skipJavaWhitespace(text, i))) {
+        return null;
+    }
+    return splitParameters(list).map((param) => {
+        const typed = /^(?:final\s+)?(.+?)\s+[A-Za-z_$][\w$]*$/.exec(param.trim());
+        return typed ? typed[1].trim() : undefined;
+    });
+}
+
+function lineNumberAt(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
 }
 
 export function parseJavaCucumberBindingsFromText(
@@ -73,24 +324,27 @@ export function parseJavaCucumberBindingsFromText(
 
     const lines = text.split('\n');
     const className = findClassName(text);
+    const constants = new JavaConstants(text);
+    const caseInsensitive = options.caseInsensitive ?? false;
     const bindings: Binding[] = [];
-    let match: RegExpExecArray | null;
-    ANNOTATION_REGEX.lastIndex = 0;
 
-    while ((match = ANNOTATION_REGEX.exec(text)) !== null) {
-        const keyword = normalizeKeyword(match[1]);
-        if (!STEP_KEYWORDS.includes(keyword)) continue;
-
-        const quote = match[2];
-        const patternRaw = unescapeJavaStringLiteral(match[3], quote);
-        const before = text.slice(0, match.index);
-        const lineNumber = before.split('\n').length - 1;
+    const push = (
+        keyword: ResolvedKeyword,
+        patternRaw: string,
+        offset: number,
+        methodName: string,
+        parameterTypes: readonly (string | undefined)[] | null
+    ): void => {
+        const regex = compileBindingRegex(patternRaw, { caseInsensitive });
+        if (!regex) {
+            return;
+        }
+        const lineNumber = lineNumberAt(text, offset);
         const lineText = lines[lineNumber] ?? '';
-
-        const regex = compileBindingRegex(patternRaw, { caseInsensitive: options.caseInsensitive ?? false });
-        if (!regex) continue;
-
-        const methodName = findMethodName(lines, lineNumber);
+        const stepArgument =
+            parameterTypes === null
+                ? undefined
+                : classifyStepArgument(parameterTypes, countPatternParameters(patternRaw), 'java');
 
         bindings.push({
             keyword,
@@ -103,8 +357,93 @@ export function parseJavaCucumberBindingsFromText(
             lineNumber,
             signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
             scopeTags: [],
+            stepArgument,
+            providerId: 'java-cucumber',
         });
+    };
+
+    const annotationNames = buildStepNames(findAnnotationLanguages(text));
+    for (const match of text.matchAll(ANNOTATION_REGEX)) {
+        const qualifier = match[1] ? /(?:java|api\.java)\.([a-z]+(?:_[a-z]+)?)\.$/.exec(match[1]) : null;
+        const names = qualifier ? buildStepNames([qualifier[1]]) : annotationNames;
+        const keyword = names.get(match[2]);
+        if (!keyword) continue;
+
+        const argsStart = match.index! + match[0].length;
+        const argsEnd = argsStart + (extractParenthesized(text, argsStart - 1)?.length ?? 0);
+        const method = findMethod(lines, lineNumberAt(text, argsEnd));
+        const parameterTypes = method.parameters === null ? null : typedParameterTypes(method.parameters);
+        for (const patternRaw of readAnnotationPatterns(text, argsStart, constants)) {
+            push(keyword, patternRaw, match.index!, method.name, parameterTypes);
+        }
+    }
+
+    const java8Languages = findJava8Languages(text);
+    if (java8Languages.size > 0) {
+        const lambdaNames = buildStepNames(java8Languages);
+        for (const match of text.matchAll(LAMBDA_STEP_REGEX)) {
+            const keyword = lambdaNames.get(match[1]);
+            if (!keyword) continue;
+
+            const pattern = readStringExpression(text, match.index! + match[0].length, constants);
+            if (!pattern || pattern.value === null) continue;
+            const parameterTypes = readLambdaParameterTypes(text, pattern.end);
+            if (!parameterTypes) continue;
+
+            push(keyword, pattern.value, match.index!, 'lambda', parameterTypes);
+        }
     }
 
     return bindings;
 }
+
+/**
+ * Custom parameter types from `@ParameterType` methods. The type name is the method name
+ * unless the annotation sets `name = "…"`.
+ */
+export function parseJavaParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    if (!CUCUMBER_JAVA_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const lines = text.split('\n');
+    const definitions: ParameterTypeDefinition[] = [];
+
+    for (const match of text.matchAll(PARAMETER_TYPE_ANNOTATION_REGEX)) {
+        const args = readAnnotationArguments(text, match.index! + match[0].length);
+        const value = /^\s*"((?:\\.|[^"\\])*)"/.exec(args) ?? /\bvalue\s*=\s*"((?:\\.|[^"\\])*)"/.exec(args);
+        if (!value) {
+            continue;
+        }
+        const lineNumber = lineNumberAt(text, match.index!);
+        const explicitName = /\bname\s*=\s*"((?:\\.|[^"\\])*)"/.exec(args)?.[1];
+        definitions.push({
+            name: explicitName || findMethod(lines, lineNumber).name,
+            regexps: [unescapeJavaStringLiteral(value[1], '"')],
+            uri,
+            lineNumber,
+            providerId: 'java-cucumber',
+        });
+    }
+
+    return definitions;
+}
+
+/** Annotation arguments up to the closing `)` (parentheses inside strings ignored) */
+function readAnnotationArguments(text: string, start: number): string {
+    let depth = 1;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"') {
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')' && --depth === 0) {
+            return text.slice(start, i);
+        }
+    }
+    return text.slice(start);
+}
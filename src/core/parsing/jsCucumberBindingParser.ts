@@ -4,25 +4,51 @@
  * Supported forms:
  * - import { Given, When, Then } from '@cucumber/cucumber'
  * - const { Given, When, Then } = require('@cucumber/cucumber')
+ * - the same imports from '@badeball/cypress-cucumber-preprocessor' (or 'cypress-cucumber-preprocessor/steps')
+ * - playwright-bdd: const { Given, When, Then } = createBdd(test), or Given / When / Then imported
+ *   from a local fixtures module; callbacks take a `{ page, … }` fixtures object first
+ * - playwright-bdd decorators: `@Given('pattern') async method(...)` in page object classes
  * - Given('pattern', fn) / When("pattern", fn) / Then(`pattern`, fn)
  * - Given(/regex/, fn)
+ * - defineParameterType({ name: 'color', regexp: /red|blue/ }) — custom `{color}` parameter types
  *
  * Notes:
  * - This is a best-effort static parser (regex-based). It intentionally avoids
  *   running a JS parser/AST to keep dependencies minimal in MVP.
- * - We only parse files that appear to reference @cucumber/cucumber.
+ * - We only parse files that appear to reference one of the sources above; playwright-bdd
+ *   output under `.features-gen/` calls the steps and is never parsed as definitions.
  */
 
 import * as vscode from 'vscode';
-import type { Binding, ResolvedKeyword } from '../domain/types';
+import type { Binding, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
 import { compileBindingRegex } from './bindingRegex';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    jsParameterTypes,
+} from './stepArgumentSignature';
 
 export interface JsCucumberParseOptions {
     caseInsensitive?: boolean;
 }
 
+/** Modules exporting Cucumber.js-style Given / When / Then (and defineParameterType) */
 const CUCUMBER_IMPORT_REGEX =
-    /from\s+['"]@cucumber\/cucumber['"]|require\s*\(\s*['"]@cucumber\/cucumber['"]\s*\)/;
+    /(?:from\s+|require\s*\(\s*)['"](?:@cucumber\/cucumber|@badeball\/cypress-cucumber-preprocessor|cypress-cucumber-preprocessor\/steps)['"]/;
+
+/** playwright-bdd step functions: created in this file, or re-exported by a local fixtures module */
+const PLAYWRIGHT_BDD_STEPS_REGEX =
+    /\bcreateBdd\s*\(|\bimport\s*\{[^}]*\b(?:Given|When|Then)\b[^}]*\}\s*from\s*['"]\.\.?\//;
+
+const PLAYWRIGHT_BDD_IMPORT_REGEX = /from\s+['"]playwright-bdd['"]/;
+
+const PLAYWRIGHT_BDD_DECORATORS_IMPORT_REGEX = /from\s+['"]playwright-bdd\/decorators['"]/;
+
+const PLAYWRIGHT_BDD_OUTPUT_DIR_REGEX = /[/\\]\.features-gen[/\\]/;
+
+/** `// Generated from: features/x.feature` header of a playwright-bdd test file */
+const GENERATED_FROM_REGEX = /^[ \t]*(?:\/\/|\/\*\*?)[ \t]*Generated from:[ \t]*(\S+\.feature)\b/m;
 
 const STEP_FN_NAMES: ReadonlyArray<ResolvedKeyword> = ['Given', 'When', 'Then'];
 
@@ -70,58 +96,244 @@ function compileRegexLiteral(source: string, flags: string): RegExp | null {
     }
 }
 
+const DEFINE_PARAMETER_TYPE_REGEX = /\bdefineParameterType\s*\(/g;
+
+/** A regex literal or string literal at the sticky position */
+const PATTERN_LITERAL_REGEX = /\/(?:\\.|[^/\\\n])+\/[gimsuy]*|`(?:\\.|[^`\\])*`|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/y;
+
+/** `@Given('pattern')` decorator followed by other decorators and the method header */
+const DECORATOR_STEP_REGEX =
+    /@(Given|When|Then)\s*\(\s*(\/(?:\\.|[^/\\])+(?:\/[gimsuy]*)|`(?:\\.|[^`\\])*`|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')\s*\)/g;
+
+const DECORATED_METHOD_REGEX =
+    /^(?:\s*@\w+(?:\s*\([^)]*\))?)*\s*(?:(?:public|protected|private)\s+)?(?:async\s+)?(\w+)\s*(?=\()/;
+
+/** Start of the step function after the pattern: optional options object, then function / arrow. */
+const HANDLER_START_REGEX =
+    /^\s*(?:\{[^{}]*\}\s*,\s*)?(?:async\s+)?(?:function\b\s*\w*\s*(?=\()|(?=\()|(\w+)\s*=>)/;
+
+/**
+ * Parameter list of the step function following `fromIndex`, or null if it cannot be read.
+ */
+function findHandlerParameters(text: string, fromIndex: number): string | null {
+    const rest = text.slice(fromIndex, fromIndex + 400);
+    const m = rest.match(HANDLER_START_REGEX);
+    if (!m) {
+        return null;
+    }
+    if (m[1]) {
+        return m[1];
+    }
+    return extractParenthesized(rest, m[0].length);
+}
+
+interface CompiledStepPattern {
+    patternRaw: string;
+    regex: RegExp;
+    patternParameters: number;
+    expressionType: Binding['expressionType'];
+}
+
+function compileStepPattern(argRaw: string, options: JsCucumberParseOptions): CompiledStepPattern | null {
+    if (argRaw.startsWith('/')) {
+        const parsed = parseRegexLiteral(argRaw);
+        const regex = parsed && compileRegexLiteral(parsed.source, parsed.flags);
+        if (!parsed || !regex) return null;
+        return {
+            patternRaw: parsed.source,
+            regex,
+            patternParameters: countPatternParameters(parsed.source, 'regex'),
+            expressionType: 'regex',
+        };
+    }
+    const patternRaw = unescapeJsStringLiteral(argRaw);
+    const regex = compileBindingRegex(patternRaw, { caseInsensitive: options.caseInsensitive ?? false });
+    if (!regex) return null;
+    return { patternRaw, regex, patternParameters: countPatternParameters(patternRaw), expressionType: 'cucumber' };
+}
+
 export function parseJsCucumberBindingsFromText(
     text: string,
     uri: vscode.Uri,
     options: JsCucumberParseOptions = {}
 ): Binding[] {
-    // Fast reject: only parse files that reference @cucumber/cucumber.
-    if (!CUCUMBER_IMPORT_REGEX.test(text)) {
+    if (PLAYWRIGHT_BDD_OUTPUT_DIR_REGEX.test(uri.fsPath)) {
+        return [];
+    }
+    const isCucumberStyle = CUCUMBER_IMPORT_REGEX.test(text);
+    const isPlaywrightBdd = !isCucumberStyle && PLAYWRIGHT_BDD_STEPS_REGEX.test(text);
+    const hasDecorators = PLAYWRIGHT_BDD_DECORATORS_IMPORT_REGEX.test(text);
+    // Fast reject: only parse files that reference a step definition source.
+    if (!isCucumberStyle && !isPlaywrightBdd && !hasDecorators) {
         return [];
     }
 
+    const lines = text.split('\n');
     const bindings: Binding[] = [];
-    let match: RegExpExecArray | null;
-    STEP_CALL_REGEX.lastIndex = 0;
-
-    while ((match = STEP_CALL_REGEX.exec(text)) !== null) {
-        const keyword = match[1] as ResolvedKeyword;
-        if (!STEP_FN_NAMES.includes(keyword)) continue;
-
-        const argRaw = match[2];
-        const before = text.slice(0, match.index);
-        const lineNumber = before.split('\n').length - 1;
-        const lineText = text.split('\n')[lineNumber] ?? '';
-
-        let regex: RegExp | null = null;
-        let patternRaw = '';
-
-        if (argRaw.startsWith('/')) {
-            const parsed = parseRegexLiteral(argRaw);
-            if (!parsed) continue;
-            patternRaw = parsed.source;
-            regex = compileRegexLiteral(parsed.source, parsed.flags);
-        } else {
-            patternRaw = unescapeJsStringLiteral(argRaw);
-            regex = compileBindingRegex(patternRaw, { caseInsensitive: options.caseInsensitive ?? false });
-        }
-
-        if (!regex) continue;
-
+    const push = (
+        keyword: ResolvedKeyword,
+        index: number,
+        compiled: CompiledStepPattern,
+        stepArgument: Binding['stepArgument'],
+        className: string,
+        methodName: string
+    ) => {
+        const lineNumber = text.slice(0, index).split('\n').length - 1;
+        const lineText = lines[lineNumber] ?? '';
         bindings.push({
             keyword,
-            patternRaw,
-            regex,
-            className: 'JS',
-            methodName: `${keyword}(...)`,
+            patternRaw: compiled.patternRaw,
+            regex: compiled.regex,
+            className,
+            methodName,
             uri,
             range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
             lineNumber,
             signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
             scopeTags: [],
+            stepArgument,
+            providerId: 'js-cucumber',
+            expressionType: compiled.expressionType,
         });
+    };
+
+    if (isCucumberStyle || isPlaywrightBdd) {
+        let match: RegExpExecArray | null;
+        STEP_CALL_REGEX.lastIndex = 0;
+
+        while ((match = STEP_CALL_REGEX.exec(text)) !== null) {
+            const keyword = match[1] as ResolvedKeyword;
+            if (!STEP_FN_NAMES.includes(keyword)) continue;
+
+            const compiled = compileStepPattern(match[2], options);
+            if (!compiled) continue;
+
+            const parameters = findHandlerParameters(text, match.index + match[0].length);
+            let types = parameters === null ? null : jsParameterTypes(parameters);
+            if (types && isPlaywrightBdd) {
+                // playwright-bdd passes the fixtures object before the step parameters
+                types = types.slice(1);
+            }
+            const stepArgument =
+                types === null ? undefined : classifyStepArgument(types, compiled.patternParameters, 'js');
+
+            push(keyword, match.index, compiled, stepArgument, 'JS', `${keyword}(...)`);
+        }
+    }
+
+    if (hasDecorators) {
+        for (const match of text.matchAll(DECORATOR_STEP_REGEX)) {
+            const keyword = match[1] as ResolvedKeyword;
+            const compiled = compileStepPattern(match[2], options);
+            const afterDecorator = match.index! + match[0].length;
+            const method = DECORATED_METHOD_REGEX.exec(text.slice(afterDecorator, afterDecorator + 400));
+            if (!compiled || !method) continue;
+
+            const parameters = extractParenthesized(text, afterDecorator + method[0].length);
+            const stepArgument =
+                parameters === null
+                    ? undefined
+                    : classifyStepArgument(jsParameterTypes(parameters), compiled.patternParameters, 'js');
+            const classes = [...text.slice(0, match.index).matchAll(/\bclass\s+(\w+)/g)];
+            const className = classes.length > 0 ? classes[classes.length - 1][1] : 'JS';
+
+            push(keyword, match.index!, compiled, stepArgument, className, method[1]);
+        }
     }
 
     return bindings;
 }
 
+export interface PlaywrightBddGeneratedSource {
+    /** Feature path as written (relative to the playwright config directory) */
+    readonly path: string;
+    readonly lineNumber: number;
+    /** Start/end character of the path in the header comment */
+    readonly startCharacter: number;
+    readonly endCharacter: number;
+}
+
+/**
+ * Feature file a playwright-bdd test file under `.features-gen/` was generated from,
+ * read from its `// Generated from: features/x.feature` header.
+ */
+export function findPlaywrightBddGeneratedSource(text: string): PlaywrightBddGeneratedSource | null {
+    const match = GENERATED_FROM_REGEX.exec(text);
+    if (!match) {
+        return null;
+    }
+    const offset = match.index + match[0].length - match[1].length;
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return {
+        path: match[1],
+        lineNumber: text.slice(0, offset).split('\n').length - 1,
+        startCharacter: offset - lineStart,
+        endCharacter: offset - lineStart + match[1].length,
+    };
+}
+
+/**
+ * Custom parameter types from `defineParameterType({ name, regexp })` calls.
+ * `regexp` may be a regex literal, a string or an array of those.
+ */
+export function parseJsParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    if (!CUCUMBER_IMPORT_REGEX.test(text) && !PLAYWRIGHT_BDD_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const definitions: ParameterTypeDefinition[] = [];
+    const calls = [...text.matchAll(DEFINE_PARAMETER_TYPE_REGEX)];
+
+    calls.forEach((call, i) => {
+        const start = call.index! + call[0].length;
+        const end = i + 1 < calls.length ? calls[i + 1].index! : text.length;
+        const body = text.slice(start, Math.min(end, start + 2000));
+
+        const name = body.match(/\bname\s*:\s*(`(?:\\.|[^`\\])*`|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')/);
+        const regexpKey = /\bregexp\s*:\s*/.exec(body);
+        if (!name || !regexpKey) {
+            return;
+        }
+        const regexps = readPatternLiterals(body, regexpKey.index + regexpKey[0].length);
+        if (regexps.length === 0) {
+            return;
+        }
+        definitions.push({
+            name: unescapeJsStringLiteral(name[1]),
+            regexps,
+            uri,
+            lineNumber: text.slice(0, call.index).split('\n').length - 1,
+            providerId: 'js-cucumber',
+        });
+    });
+
+    return definitions;
+}
+
+/** Regex sources of one literal or an `[a, b]` array of literals starting at `index` */
+function readPatternLiterals(text: string, index: number): string[] {
+    const isArray = text[index] === '[';
+    let pos = isArray ? index + 1 : index;
+    const sources: string[] = [];
+
+    while (pos < text.length) {
+        while (isArray && /[\s,]/.test(text[pos] ?? '')) {
+            pos++;
+        }
+        PATTERN_LITERAL_REGEX.lastIndex = pos;
+        const literal = PATTERN_LITERAL_REGEX.exec(text);
+        if (!literal) {
+            break;
+        }
+        const raw = literal[0];
+        const source = raw.startsWith('/') ? parseRegexLiteral(raw)?.source : unescapeJsStringLiteral(raw);
+        if (source) {
+            sources.push(source);
+        }
+        pos = PATTERN_LITERAL_REGEX.lastIndex;
+        if (!isArray) {
+            break;
+        }
+    }
+    return sources;
+}
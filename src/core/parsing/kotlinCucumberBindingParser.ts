@@ -0,0 +1,408 @@
+/**
+ * Kotlin Cucumber-JVM step definition parser.
+ *
+ * Supported forms:
+ * - import io.cucumber.java.en.* — annotations of every imported language package, as in Java
+ * - @Given("pattern") fun name(x: Int) / @Given(value = "pattern"), backticked function names
+ * - raw strings """…""" (with `.trimIndent()` / `.trimMargin()`), `$CONSTANT` / `${CONSTANT}`
+ *   templates and `+` concatenation of literals and `const val` constants of the file
+ * - cucumber-java8 lambdas: Given("pattern") { x: Int -> … } in a class implementing En (or Es, De, …)
+ * - @ParameterType("regex") functions — custom `{functionName}` parameter types (or `name = "…"`)
+ */
+
+import * as vscode from 'vscode';
+import type { Binding, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
+import { compileBindingRegex } from './bindingRegex';
+import { buildStepNames, findAnnotationLanguages, findJava8Languages } from './javaCucumberBindingParser';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    kotlinParameterTypes,
+} from './stepArgumentSignature';
+
+export interface KotlinCucumberParseOptions {
+    caseInsensitive?: boolean;
+}
+
+const CUCUMBER_JAVA_IMPORT_REGEX = /io\.cucumber\.java|cucumber\.api\.java/;
+
+const ANNOTATION_REGEX = /@((?:[\p{L}_$][\p{L}\p{N}_$]*\.)*)([\p{L}_$][\p{L}\p{N}_$]*)\s*\(/gu;
+
+const LAMBDA_STEP_REGEX = /(?<![\p{L}\p{N}_$.@])([\p{L}_$][\p{L}\p{N}_$]*)\s*\(/gu;
+
+const CONSTANT_REGEX = /\bconst\s+val\s+(\w+)\s*(?::\s*String\s*)?=/g;
+
+const FUNCTION_REGEX = /\bfun\s+(?:<[^>]*>\s*)?(?:`([^`]+)`|(\w+))\s*\(/;
+
+const PARAMETER_TYPE_ANNOTATION_REGEX = /@ParameterType\s*\(/g;
+
+const KOTLIN_ESCAPES: Readonly<Record<string, string>> = {
+    n: '\n',
+    r: '\r',
+    t: '\t',
+    b: '\b',
+    '"': '"',
+    "'": "'",
+    '\\': '\\',
+    $: '$',
+};
+
+/** Compile-time String values (`const val`) of the file, resolved on demand */
+class KotlinConstants {
+    private readonly starts = new Map<string, number>();
+    private readonly values = new Map<string, string | null>();
+
+    constructor(private readonly text: string) {
+        for (const match of text.matchAll(CONSTANT_REGEX)) {
+            this.starts.set(match[1], match.index! + match[0].length);
+        }
+    }
+
+    get(name: string): string | null {
+        const simpleName = name.split('.').pop()!;
+        if (this.values.has(simpleName)) {
+            return this.values.get(simpleName)!;
+        }
+        const start = this.starts.get(simpleName);
+        if (start === undefined) {
+            return null;
+        }
+        this.values.set(simpleName, null); // cycle guard
+        const value = readStringExpression(this.text, start, this)?.value ?? null;
+        this.values.set(simpleName, value);
+        return value;
+    }
+}
+
+/** `String.trimIndent()`: drop blank first/last lines and the common indentation */
+function trimIndent(value: string): string {
+    const lines = value.split('\n');
+    if (lines.length > 0 && lines[0].trim() === '') lines.shift();
+    if (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+    const indents = lines.filter((line) => line.trim() !== '').map((line) => line.length - line.trimStart().length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map((line) => (line.trim() === '' ? '' : line.slice(indent))).join('\n');
+}
+
+/** `String.trimMargin()`: drop blank first/last lines and everything up to the `|` margin */
+function trimMargin(value: string): string {
+    const lines = value.split('\n');
+    if (lines.length > 0 && lines[0].trim() === '') lines.shift();
+    if (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+    return lines.map((line) => (line.trimStart().startsWith('|') ? line.trimStart().slice(1) : line)).join('\n');
+}
+
+function skipKotlinWhitespace(text: string, start: number): number {
+    let i = start;
+    for (;;) {
+        while (i < text.length && /\s/.test(text[i])) {
+            i++;
+        }
+        if (text.startsWith('//', i)) {
+            const newline = text.indexOf('\n', i);
+            i = newline === -1 ? text.length : newline;
+        } else if (text.startsWith('/*', i)) {
+            const close = text.indexOf('*/', i + 2);
+            i = close === -1 ? text.length : close + 2;
+        } else {
+            return i;
+        }
+    }
+}
+
+/**
+ * `$name` / `${expr}` template at `start` (on the `$`). A literal `$` (not followed by a name
+ * or brace) yields itself; `${'$'}` is a `$`; other expressions must be constants of this file.
+ */
+function readTemplate(text: string, start: number, constants: KotlinConstants): { value: string | null; end: number } {
+    if (text[start + 1] === '{') {
+        const close = text.indexOf('}', start + 2);
+        if (close === -1) {
+            return { value: null, end: text.length };
+        }
+        const expression = text.slice(start + 2, close).trim();
+        const value = expression === "'$'" ? '$' : constants.get(expression);
+        return { value, end: close + 1 };
+    }
+    const name = /^[A-Za-z_]\w*/.exec(text.slice(start + 1, start + 200));
+    if (!name) {
+        return { value: '$', end: start + 1 };
+    }
+    return { value: constants.get(name[0]), end: start + 1 + name[0].length };
+}
+
+/** One string literal, raw string or constant reference; `value` is null when it cannot be resolved */
+function readStringTerm(text: string, start: number, constants: KotlinConstants): { value: string | null; end: number } | null {
+    if (text.startsWith('"""', start)) {
+        let value: string | null = '';
+        let i = start + 3;
+        while (i < text.length && !text.startsWith('"""', i)) {
+            if (text[i] === '$') {
+                const template = readTemplate(text, i, constants);
+                value = value === null || template.value === null ? null : value + template.value;
+                i = template.end;
+            } else {
+                value = value === null ? null : value + text[i];
+                i++;
+            }
+        }
+        // The last three of a run of quotes close the raw string
+        let end = Math.min(i + 3, text.length);
+        while (text[end] === '"') {
+            value = value === null ? null : value + '"';
+            end++;
+        }
+        const call = /^\s*\.\s*(trimIndent|trimMargin)\s*\(\s*\)/.exec(text.slice(end, end + 40));
+        if (call) {
+            end += call[0].length;
+            if (value !== null) {
+                value = call[1] === 'trimIndent' ? trimIndent(value) : trimMargin(value);
+            }
+        }
+        return { value, end };
+    }
+    if (text[start] === '"') {
+        let value: string | null = '';
+        let i = start + 1;
+        while (i < text.length && text[i] !== '"' && text[i] !== '\n') {
+            let piece: string | null;
+            if (text[i] === '\\') {
+                const unicode = /^u([0-9a-fA-F]{4})/.exec(text.slice(i + 1, i + 6));
+                piece = unicode ? String.fromCharCode(parseInt(unicode[1], 16)) : KOTLIN_ESCAPES[text[i + 1]] ?? text[i + 1];
+                i += unicode ? 6 : 2;
+            } else if (text[i] === '$') {
+                const template = readTemplate(text, i, constants);
+                piece = template.value;
+                i = template.end;
+            } else {
+                piece = text[i];
+                i++;
+            }
+            value = value === null || piece === null ? null : value + piece;
+        }
+        if (text[i] !== '"') {
+            return null;
+        }
+        return { value, end: i + 1 };
+    }
+    const identifier = /^[A-Za-z_][\w]*(?:\s*\.\s*[A-Za-z_]\w*)*/.exec(text.slice(start, start + 200));
+    if (!identifier) {
+        return null;
+    }
+    return { value: constants.get(identifier[0].replace(/\s+/g, '')), end: start + identifier[0].length };
+}
+
+/**
+ * `"a" + CONSTANT + """raw"""` from `start`. `value` is null when a term is not a literal or
+ * a constant of this file; null when no term starts there.
+ */
+function readStringExpression(
+    text: string,
+    start: number,
+    constants: KotlinConstants
+): { value: string | null; end: number } | null {
+    let value: string | null = '';
+    let i = skipKotlinWhitespace(text, start);
+    let end = -1;
+
+    for (;;) {
+        const term = readStringTerm(text, i, constants);
+        if (!term) {
+            break;
+        }
+        value = value === null || term.value === null ? null : value + term.value;
+        end = term.end;
+        const next = skipKotlinWhitespace(text, end);
+        if (text[next] !== '+') {
+            break;
+        }
+        i = skipKotlinWhitespace(text, next + 1);
+    }
+
+    return end === -1 ? null : { value, end };
+}
+
+/** Pattern of a step annotation: `"p"` or `value = "p"` */
+function readAnnotationPattern(text: string, argsStart: number, constants: KotlinConstants): string | null {
+    let i = skipKotlinWhitespace(text, argsStart);
+    const valueKey = /^value\s*=\s*/.exec(text.slice(i, i + 40));
+    if (valueKey) {
+        i += valueKey[0].length;
+    }
+    return readStringExpression(text, i, constants)?.value ?? null;
+}
+
+function findClassName(text: string): string {
+    const match = text.match(/\bclass\s+(\w+)/);
+    return match?.[1] ?? 'StepDefinitions';
+}
+
+/** The `fun` declared after an annotation ending on `annotationLine` */
+function findFunction(lines: string[], annotationLine: number, sameLineFrom = 0): { name: string; parameters: string | null } {
+    for (let i = annotationLine; i < Math.min(annotationLine + 8, lines.length); i++) {
+        const line = i === annotationLine ? (lines[i] ?? '').slice(sameLineFrom) : lines[i] ?? '';
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('//') || trimmed.startsWith('*')) {
+            continue;
+        }
+        const functionMatch = FUNCTION_REGEX.exec(line);
+        if (functionMatch) {
+            const rest = [line, ...lines.slice(i + 1, i + 8)].join('\n');
+            const parameters = extractParenthesized(rest, functionMatch.index + functionMatch[0].length - 1);
+            return { name: functionMatch[1] ?? functionMatch[2], parameters };
+        }
+        if (!trimmed.startsWith('@') && trimmed.includes('{')) {
+            break;
+        }
+    }
+    return { name: 'step', parameters: null };
+}
+
+/**
+ * Lambda parameter types after the pattern: `{ a: String, t: DataTable -> … }` (also as the last
+ * argument `, { … }`); a lambda without `->` takes no parameters; untyped → undefined.
+ */
+function readLambdaParameterTypes(text: string, start: number): (string | undefined)[] | null {
+    let i = skipKotlinWhitespace(text, start);
+    if (text[i] === ',') {
+        i = skipKotlinWhitespace(text, i + 1);
+    } else if (text[i] === ')') {
+        i = skipKotlinWhitespace(text, i + 1);
+    }
+    if (text[i] !== '{') {
+        return null;
+    }
+    const head = /^[^{}"()]*?->/.exec(text.slice(i + 1, i + 500));
+    if (!head) {
+        return [];
+    }
+    const list = head[0].slice(0, -2).trim();
+    return list ? kotlinParameterTypes(list) : [];
+}
+
+function lineNumberAt(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
+}
+
+export function parseKotlinCucumberBindingsFromText(
+    text: string,
+    uri: vscode.Uri,
+    options: KotlinCucumberParseOptions = {}
+): Binding[] {
+    if (!CUCUMBER_JAVA_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const lines = text.split('\n');
+    const className = findClassName(text);
+    const constants = new KotlinConstants(text);
+    const caseInsensitive = options.caseInsensitive ?? false;
+    const bindings: Binding[] = [];
+
+    const push = (
+        keyword: ResolvedKeyword,
+        patternRaw: string,
+        offset: number,
+        methodName: string,
+        parameterTypes: readonly (string | undefined)[] | null
+    ): void => {
+        const regex = compileBindingRegex(patternRaw, { caseInsensitive });
+        if (!regex) {
+            return;
+        }
+        const lineNumber = lineNumberAt(text, offset);
+        const lineText = lines[lineNumber] ?? '';
+        const stepArgument =
+            parameterTypes === null
+                ? undefined
+                : classifyStepArgument(parameterTypes, countPatternParameters(patternRaw), 'kotlin');
+
+        bindings.push({
+            keyword,
+            patternRaw,
+            regex,
+            className,
+            methodName,
+            uri,
+            range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
+            lineNumber,
+            signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
+            scopeTags: [],
+            stepArgument,
+            providerId: 'java-cucumber',
+        });
+    };
+
+    const annotationNames = buildStepNames(findAnnotationLanguages(text));
+    for (const match of text.matchAll(ANNOTATION_REGEX)) {
+        const qualifier = match[1] ? /(?:java|api\.java)\.([a-z]+(?:_[a-z]+)?)\.$/.exec(match[1]) : null;
+        const names = qualifier ? buildStepNames([qualifier[1]]) : annotationNames;
+        const keyword = names.get(match[2]);
+        if (!keyword) continue;
+
+        const argsStart = match.index! + match[0].length;
+        const patternRaw = readAnnotationPattern(text, argsStart, constants);
+        if (patternRaw === null) continue;
+
+        const argsEnd = argsStart + (extractParenthesized(text, argsStart - 1)?.length ?? 0) + 1;
+        const endLine = lineNumberAt(text, argsEnd);
+        const fn = findFunction(lines, endLine, argsEnd - (text.lastIndexOf('\n', argsEnd - 1) + 1));
+        const parameterTypes = fn.parameters === null ? null : kotlinParameterTypes(fn.parameters);
+        push(keyword, patternRaw, match.index!, fn.name, parameterTypes);
+    }
+
+    const java8Languages = findJava8Languages(text);
+    if (java8Languages.size > 0) {
+        const lambdaNames = buildStepNames(java8Languages);
+        for (const match of text.matchAll(LAMBDA_STEP_REGEX)) {
+            const keyword = lambdaNames.get(match[1]);
+            if (!keyword) continue;
+
+            const pattern = readStringExpression(text, match.index! + match[0].length, constants);
+            if (!pattern || pattern.value === null) continue;
+            const parameterTypes = readLambdaParameterTypes(text, pattern.end);
+            if (!parameterTypes) continue;
+
+            push(keyword, pattern.value, match.index!, 'lambda', parameterTypes);
+        }
+    }
+
+    return bindings;
+}
+
+/**
+ * Custom parameter types from `@ParameterType` functions. The type name is the function name
+ * unless the annotation sets `name = "…"`.
+ */
+export function parseKotlinParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    if (!CUCUMBER_JAVA_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const lines = text.split('\n');
+    const constants = new KotlinConstants(text);
+    const definitions: ParameterTypeDefinition[] = [];
+
+    for (const match of text.matchAll(PARAMETER_TYPE_ANNOTATION_REGEX)) {
+        const argsStart = match.index! + match[0].length;
+        const regexp = readAnnotationPattern(text, argsStart, constants);
+        if (regexp === null) {
+            continue;
+        }
+        const args = extractParenthesized(text, argsStart - 1) ?? '';
+        const explicitName = /\bname\s*=\s*"((?:\\.|[^"\\])*)"/.exec(args)?.[1];
+        const argsEnd = argsStart + args.length + 1;
+        const lineNumber = lineNumberAt(text, match.index!);
+        const fn = findFunction(lines, lineNumberAt(text, argsEnd), argsEnd - (text.lastIndexOf('\n', argsEnd - 1) + 1));
+        definitions.push({
+            name: explicitName || fn.name,
+            regexps: [regexp],
+            uri,
+            lineNumber,
+            providerId: 'java-cucumber',
+        });
+    }
+
+    return definitions;
+}
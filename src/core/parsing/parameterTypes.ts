@@ -0,0 +1,108 @@
+/**
+ * Custom parameter types → binding regexes.
+ *
+ * Step definitions and parameter type definitions usually live in different files, so bindings
+ * are compiled without custom types first and recompiled here once the whole index is known.
+ */
+
+import type { Binding, ParameterTypeDefinition } from '../domain/types';
+import { compileBindingRegex } from './bindingRegex';
+import { findParameterTypeNames, isBuiltInParameterType, type ParameterTypeLookup } from './cucumberExpression';
+import { isBuiltInParseType } from './parseFormat';
+import { compileBehavePattern } from './pythonBehaveBindingParser';
+
+const BEHAVE_TYPED_FIELD_REGEX = /\{[a-zA-Z_]\w*:([a-zA-Z_]\w*)[+*?]?\}/g;
+
+/**
+ * Name → regexps for one provider. The first definition of a name wins.
+ */
+export function buildParameterTypeLookup(
+    definitions: readonly ParameterTypeDefinition[],
+    providerId?: string
+): Map<string, readonly string[]> {
+    const lookup = new Map<string, readonly string[]>();
+    for (const definition of definitions) {
+        if (definition.providerId === providerId && !lookup.has(definition.name)) {
+            lookup.set(definition.name, definition.regexps);
+        }
+    }
+    return lookup;
+}
+
+/**
+ * Custom parameter type names a binding pattern refers to (`{color}`, behave `{c:Color}`).
+ * pytest-bdd passes its types inline (`extra_types=`) and Behat has no parameter types,
+ * so their patterns refer to none. cucumber-rs only resolves types in `expr = "…"` patterns.
+ */
+export function getReferencedParameterTypes(
+    binding: Pick<Binding, 'patternRaw' | 'providerId' | 'expressionType'>
+): string[] {
+    if (binding.providerId === 'python-pytestbdd' || binding.providerId === 'php-behat') {
+        return [];
+    }
+    if (binding.providerId === 'rust-cucumber' && binding.expressionType !== 'cucumber') {
+        return [];
+    }
+    if (binding.providerId === 'python-behave') {
+        return [...binding.patternRaw.matchAll(BEHAVE_TYPED_FIELD_REGEX)]
+            .map((m) => m[1])
+            .filter((name) => !isBuiltInParseType(name));
+    }
+    return findParameterTypeNames(binding.patternRaw).filter((name) => !isBuiltInParameterType(name));
+}
+
+/**
+ * Recompile bindings that use custom parameter types. Unchanged bindings are returned as is.
+ */
+export function applyParameterTypes(
+    bindings: readonly Binding[],
+    definitions: readonly ParameterTypeDefinition[]
+): Binding[] {
+    const lookups = new Map<string | undefined, ParameterTypeLookup>();
+    const lookupFor = (providerId: string | undefined): ParameterTypeLookup => {
+        let lookup = lookups.get(providerId);
+        if (!lookup) {
+            lookup = buildParameterTypeLookup(definitions, providerId);
+            lookups.set(providerId, lookup);
+        }
+        return lookup;
+    };
+
+    return bindings.map((binding) => {
+        if (
+            binding.expressionType === 'regex' ||
+            binding.patternUnresolved ||
+            getReferencedParameterTypes(binding).length === 0
+        ) {
+            return binding;
+        }
+        const caseInsensitive = binding.regex.flags.includes('i');
+        const parameterTypes = lookupFor(binding.providerId);
+        const regex =
+            binding.providerId === 'python-behave'
+                ? compileBehavePattern(binding.patternRaw, caseInsensitive, parameterTypes)
+                : compileBindingRegex(binding.patternRaw, {
+                      caseInsensitive,
+                      expressionType: binding.expressionType ?? 'auto',
+                      parameterTypes,
+                  });
+        if (!regex || (regex.source === binding.regex.source && regex.flags === binding.regex.flags)) {
+            return binding;
+        }
+        return { ...binding, regex };
+    });
+}
+
+/**
+ * Parameter type name under `character` in a line of binding code: `{color}` → "color",
+ * behave `{c:Color}` → "Color". Undefined when the cursor is not inside braces.
+ */
+export function findParameterTypeAt(lineText: string, character: number): string | undefined {
+    for (const match of lineText.matchAll(/(?<!\\)\{(?:[a-zA-Z_]\w*:)?([a-zA-Z_][\w-]*)\}/g)) {
+        const start = match.index!;
+        if (character >= start && character <= start + match[0].length) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
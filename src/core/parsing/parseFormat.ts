@@ -0,0 +1,99 @@
+/**
+ * Python `parse` / `parse_type.cfparse` format strings → regex source.
+ *
+ * Used by behave's parse / cfparse step matchers and pytest-bdd `parsers.parse(...)` /
+ * `parsers.cfparse(...)` step patterns:
+ * - `{name}` / `{}` → lazy `.+?`
+ * - `{name:d}` and the other built-in format types → their `parse` pattern
+ * - `{name:Type}` → a custom type's pattern (from the lookup), else lazy `.+?`
+ * - cfparse cardinality `{name:Type+}` / `*` / `?` → comma-separated list / optional
+ * - `{{` / `}}` → literal braces
+ *
+ * Every field becomes exactly one capture group.
+ */
+
+import type { ParameterTypeLookup } from './cucumberExpression';
+
+const FIELD_REGEX = /\{\{|\}\}|\{([a-zA-Z_]\w*)?(?::([a-zA-Z_]\w*)?([+*?])?)?\}/g;
+
+const LITERAL_ESCAPE_REGEX = /[.*+?^${}()|[\]\\]/g;
+
+/** Default pattern for fields without a (known) type */
+const ANY_PATTERN = '.+?';
+
+/** `parse` built-in format types (the common subset) */
+const BUILT_IN_TYPE_PATTERNS: Readonly<Record<string, string>> = {
+    d: '[-+]?\\d+',
+    n: '[-+]?\\d{1,3}(?:[,.]\\d{3})*',
+    f: '[-+]?\\d*\\.\\d+',
+    F: '[-+]?\\d*\\.\\d+',
+    e: '[-+]?\\d*\\.?\\d+[eE][-+]?\\d+',
+    g: '[-+]?\\d*\\.?\\d+(?:[eE][-+]?\\d+)?',
+    w: '\\w+',
+    W: '\\W+',
+    s: '\\s+',
+    S: '\\S+',
+    D: '\\D+',
+    l: '[a-zA-Z]+',
+};
+
+export interface ParseFormatOptions {
+    /** Custom types (`extra_types`, `register_type`) by name */
+    parameterTypes?: ParameterTypeLookup;
+    /** Accept cfparse cardinality suffixes (`{n:Number+}`) */
+    cardinality?: boolean;
+}
+
+function typePattern(type: string | undefined, parameterTypes?: ParameterTypeLookup): string {
+    if (!type) {
+        return ANY_PATTERN;
+    }
+    const custom = parameterTypes?.get(type);
+    if (custom?.length) {
+        return custom.length === 1 ? custom[0] : custom.join('|');
+    }
+    return BUILT_IN_TYPE_PATTERNS[type] ?? ANY_PATTERN;
+}
+
+function withCardinality(pattern: string, cardinality: string | undefined): string {
+    const item = `(?:${pattern})`;
+    if (cardinality === '+') {
+        return `${item}(?:\\s*,\\s*${item})*`;
+    }
+    if (cardinality === '*') {
+        return `(?:${item}(?:\\s*,\\s*${item})*)?`;
+    }
+    if (cardinality === '?') {
+        return `${item}?`;
+    }
+    return pattern;
+}
+
+/** `d`, `w`, … — format types `parse` knows without `extra_types` */
+export function isBuiltInParseType(type: string): boolean {
+    return Object.prototype.hasOwnProperty.call(BUILT_IN_TYPE_PATTERNS, type);
+}
+
+/**
+ * Regex source (unanchored) for a `parse` format string
+ */
+export function parseFormatToRegexSource(format: string, options: ParseFormatOptions = {}): string {
+    const parts: string[] = [];
+    let lastIndex = 0;
+
+    for (const match of format.matchAll(FIELD_REGEX)) {
+        parts.push(format.slice(lastIndex, match.index).replace(LITERAL_ESCAPE_REGEX, '\\$&'));
+        lastIndex = match.index! + match[0].length;
+
+        if (match[0] === '{{' || match[0] === '}}') {
+            parts.push(`\\${match[0][0]}`);
+            continue;
+        }
+        const pattern = typePattern(match[2], options.parameterTypes);
+        const cardinality = options.cardinality ? match[3] : undefined;
+        parts.push(`(${withCardinality(pattern, cardinality)})`);
+    }
+
+    parts.push(format.slice(lastIndex).replace(LITERAL_ESCAPE_REGEX, '\\$&'));
+    return parts.join('');
+}
@@ -0,0 +1,305 @@
+/**
+ * PHP Behat step definition parser.
+ *
+ * Supported forms (Context classes):
+ * - docblock annotations: `@Given /^I have (\d+) apples?$/` (regex) or `@When I add :count apple(s)` (turnip)
+ * - PHP 8 attributes: `#[Given('I have :count apples')]`, `#[\Behat\Step\Then(pattern: '/^…$/')]`,
+ *   several per `#[…]` group
+ *
+ * Turnip patterns compile like Behat's TurnipPatternPolicy: `:name` placeholders (optionally quoted
+ * values, words or numbers), `(s)` optional text, `word/other` alternatives, case-insensitive.
+ * Regex patterns keep their delimiter flags and match as written.
+ */
+
+import * as vscode from 'vscode';
+import type { Binding, ResolvedKeyword } from '../domain/types';
+import { compileBindingRegex } from './bindingRegex';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    phpParameterTypes,
+} from './stepArgumentSignature';
+
+export interface PhpBehatParseOptions {
+    caseInsensitive?: boolean;
+}
+
+const BEHAT_CONTEXT_REGEX = /\bBehat\\|\bimplements\b[^{]*\bContext\b|\bextends\s+\w*Context\b/;
+
+const DOCBLOCK_REGEX = /\/\*\*[\s\S]*?\*\//g;
+
+const DOC_ANNOTATION_REGEX = /^[ \t]*(?:\/\*\*|\*)?[ \t]*@(given|when|then)[ \t]+(.+?)[ \t]*(?:\*\/)?[ \t]*$/gim;
+
+const ATTRIBUTE_START_REGEX = /#\[/g;
+
+const ATTRIBUTE_STEP_REGEX = /(?:^|[\s,\\])(Given|When|Then)\s*\(/g;
+
+const FUNCTION_REGEX = /\bfunction\s+&?\s*(\w+)\s*\(/;
+
+/** Behat's turnip placeholder: a quoted value (quotes excluded), or a word / number */
+const TURNIP_TOKEN_SOURCE = `["']?((?<=")[^"]*(?=")|(?<=')[^']*(?=')|-?[\\w.,]+)["']?`;
+
+const LITERAL_ESCAPE_REGEX = /[.*+?^${}()|[\]\\/]/g;
+
+/** PCRE delimiters Behat accepts for regex patterns: `/…/i`, `#…#`, `~…~u` */
+const REGEX_PATTERN_REGEX = /^([^\w\s\\])([\s\S]*)\1([imsxuADSUXJ]*)$/;
+
+function normalizeKeyword(raw: string): ResolvedKeyword {
+    const lower = raw.toLowerCase();
+    if (lower === 'given') return 'Given';
+    if (lower === 'when') return 'When';
+    return 'Then';
+}
+
+function escapeLiteral(text: string): string {
+    return text.replace(LITERAL_ESCAPE_REGEX, '\\$&');
+}
+
+/**
+ * Turnip pattern → regex source (unanchored). `\:` / `\(` / `\/` are literal.
+ */
+export function turnipToRegexSource(pattern: string): string {
+    let out = '';
+    let i = 0;
+    while (i < pattern.length) {
+        const rest = pattern.slice(i);
+        if (rest[0] === '\\' && rest.length > 1) {
+            out += escapeLiteral(rest[1]);
+            i += 2;
+            continue;
+        }
+        const placeholder = /^:(\w+)/.exec(rest);
+        if (placeholder) {
+            out += TURNIP_TOKEN_SOURCE;
+            i += placeholder[0].length;
+            continue;
+        }
+        const optional = /^(\s?)\(([^()\\]+)\)(\s?)/.exec(rest);
+        if (optional) {
+            const space = (s: string): string => (s ? '\\s?' : '');
+            out += `${space(optional[1])}(?:${escapeLiteral(optional[2])})?${space(optional[3])}`;
+            i += optional[0].length;
+            continue;
+        }
+        const alternatives = /^\w+(?:\/\w+)+/.exec(rest);
+        if (alternatives && (i === 0 || !/\w/.test(pattern[i - 1]))) {
+            out += `(?:${alternatives[0].split('/').map(escapeLiteral).join('|')})`;
+            i += alternatives[0].length;
+            continue;
+        }
+        const word = /^\w+/.exec(rest);
+        if (word) {
+            out += word[0];
+            i += word[0].length;
+            continue;
+        }
+        out += escapeLiteral(rest[0]);
+        i++;
+    }
+    return out;
+}
+
+/** Compiled pattern; `expressionType` is 'regex' for delimited regex patterns */
+function compileBehatPattern(
+    patternRaw: string,
+    caseInsensitive: boolean
+): { regex: RegExp | null; source: string; patternRaw: string; isRegex: boolean } {
+    const delimited = REGEX_PATTERN_REGEX.exec(patternRaw);
+    if (delimited) {
+        const source = delimited[2].replace(/\(\?P</g, '(?<').replace(/\(\?P=(\w+)\)/g, '\\k<$1>');
+        const regex = compileBindingRegex(source, {
+            caseInsensitive: caseInsensitive || delimited[3].includes('i'),
+            expressionType: 'regex',
+        });
+        return { regex, source, patternRaw: source, isRegex: true };
+    }
+    const source = turnipToRegexSource(patternRaw);
+    const regex = compileBindingRegex(source, { caseInsensitive: true, expressionType: 'regex' });
+    return { regex, source, patternRaw, isRegex: false };
+}
+
+/** PHP string literal at `start` (single or double quoted) → value and end offset */
+function readPhpString(text: string, start: number): { value: string; end: number } | null {
+    const quote = text[start];
+    if (quote !== "'" && quote !== '"') {
+        return null;
+    }
+    let value = '';
+    let i = start + 1;
+    while (i < text.length && text[i] !== quote) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+            const next = text[i + 1];
+            if (quote === "'") {
+                value += next === "'" || next === '\\' ? next : `\\${next}`;
+            } else {
+                const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', $: '$' };
+                value += escapes[next] ?? `\\${next}`;
+            }
+            i += 2;
+            continue;
+        }
+        value += text[i];
+        i++;
+    }
+    return i < text.length ? { value, end: i + 1 } : null;
+}
+
+/**
+ * Text with comments, string literals and heredocs blanked (offsets and line breaks kept), so the
+ * attribute scan skips `#[…]` that is commented out or quoted. `#[` itself opens an attribute.
+ */
+function maskCommentsAndStrings(text: string): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number): number => {
+        for (let k = from; k < to; k++) {
+            if (chars[k] !== '\n' && chars[k] !== '\r') {
+                chars[k] = ' ';
+            }
+        }
+        return to;
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '/' && text[i + 1] === '*') {
+            const close = text.indexOf('*/', i + 2);
+            i = blank(i, close === -1 ? text.length : close + 2);
+        } else if ((ch === '/' && text[i + 1] === '/') || (ch === '#' && text[i + 1] !== '[')) {
+            const newline = text.indexOf('\n', i);
+            i = blank(i, newline === -1 ? text.length : newline);
+        } else if (ch === '<' && text.startsWith('<<<', i)) {
+            const opening = /^<<<[ \t]*(["']?)(\w+)\1\r?\n/.exec(text.slice(i, i + 300));
+            if (!opening) {
+                i += 3;
+                continue;
+            }
+            const closing = new RegExp(`^[ \\t]*${opening[2]}\\b`, 'm').exec(text.slice(i + opening[0].length));
+            i = blank(i, closing ? i + opening[0].length + closing.index + closing[0].length : text.length);
+        } else if (ch === "'" || ch === '"') {
+            i = blank(i, readPhpString(text, i)?.end ?? i + 1);
+        } else {
+            i++;
+        }
+    }
+    return chars.join('');
+}
+
+/** End offset (after `]`) of the attribute group opened at `start` (`#[`), strings skipped */
+function findAttributeEnd(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start + 1; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === "'" || ch === '"') {
+            const literal = readPhpString(text, i);
+            if (!literal) return -1;
+            i = literal.end - 1;
+        } else if (ch === '[') {
+            depth++;
+        } else if (ch === ']' && --depth === 0) {
+            return i + 1;
+        }
+    }
+    return -1;
+}
+
+/** The method declared after a docblock / attribute ending at `offset` */
+function findMethod(text: string, offset: number): { name: string; parameters: string | null } {
+    const window = text.slice(offset, offset + 600);
+    const fn = FUNCTION_REGEX.exec(window);
+    // Only the declaration that directly follows (other attributes and modifiers in between)
+    if (!fn || /[;{}]/.test(window.slice(0, fn.index).replace(/#\[[^\]]*\]/g, ''))) {
+        return { name: 'step', parameters: null };
+    }
+    return {
+        name: fn[1],
+        parameters: extractParenthesized(window, fn.index + fn[0].length - 1),
+    };
+}
+
+function findClassName(text: string): string {
+    const match = text.match(/\bclass\s+(\w+)/);
+    return match?.[1] ?? 'FeatureContext';
+}
+
+function lineNumberAt(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
+}
+
+export function parsePhpBehatBindingsFromText(
+    text: string,
+    uri: vscode.Uri,
+    options: PhpBehatParseOptions = {}
+): Binding[] {
+    if (!BEHAT_CONTEXT_REGEX.test(text)) {
+        return [];
+    }
+
+    const lines = text.split('\n');
+    const className = findClassName(text);
+    const caseInsensitive = options.caseInsensitive ?? false;
+    const bindings: Binding[] = [];
+
+    const push = (keyword: ResolvedKeyword, written: string, offset: number, declarationEnd: number): void => {
+        const compiled = compileBehatPattern(written.trim(), caseInsensitive);
+        if (!compiled.regex) {
+            return;
+        }
+        const lineNumber = lineNumberAt(text, offset);
+        const lineText = lines[lineNumber] ?? '';
+        const method = findMethod(text, declarationEnd);
+        const stepArgument =
+            method.parameters === null
+                ? undefined
+                : classifyStepArgument(
+                      phpParameterTypes(method.parameters),
+                      countPatternParameters(compiled.source, 'regex'),
+                      'php'
+                  );
+
+        bindings.push({
+            keyword,
+            patternRaw: compiled.patternRaw,
+            regex: compiled.regex,
+            className,
+            methodName: method.name,
+            uri,
+            range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
+            lineNumber,
+            signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
+            scopeTags: [],
+            stepArgument,
+            providerId: 'php-behat',
+            ...(compiled.isRegex ? { expressionType: 'regex' as const } : {}),
+        });
+    };
+
+    for (const block of text.matchAll(DOCBLOCK_REGEX)) {
+        const blockEnd = block.index! + block[0].length;
+        for (const annotation of block[0].matchAll(DOC_ANNOTATION_REGEX)) {
+            push(normalizeKeyword(annotation[1]), annotation[2], block.index! + annotation.index!, blockEnd);
+        }
+    }
+
+    const code = maskCommentsAndStrings(text);
+    for (const attribute of code.matchAll(ATTRIBUTE_START_REGEX)) {
+        const start = attribute.index!;
+        const end = findAttributeEnd(text, start);
+        if (end === -1) {
+            continue;
+        }
+        const group = text.slice(start + 2, end - 1);
+        for (const step of code.slice(start + 2, end - 1).matchAll(ATTRIBUTE_STEP_REGEX)) {
+            let i = step.index! + step[0].length;
+            const named = /^\s*pattern\s*:\s*/.exec(group.slice(i));
+            i += named ? named[0].length : /^\s*/.exec(group.slice(i))![0].length;
+            const literal = readPhpString(group, i);
+            if (literal) {
+                push(normalizeKeyword(step[1]), literal.value, start, end);
+            }
+        }
+    }
+
+    return bindings.sort((a, b) => a.lineNumber - b.lineNumber);
+}
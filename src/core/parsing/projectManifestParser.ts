@@ -0,0 +1,230 @@
+/**
+ * Project manifests: where BDD projects start and which projects they reference.
+ *
+ * Supported files:
+ * - `*.csproj` — assembly name, `<ProjectReference Include="…">`, `<PackageReference Include="…">`
+ * - `package.json` — `name`, dependency names, `file:` / `link:` dependencies
+ * - `go.mod` — `module`, `require` paths, local `replace … => ../dir` targets
+ * - `pom.xml` — `artifactId`, `<dependency>` artifact ids
+ * - `build.gradle` / `build.gradle.kts` — directory name, `project(':name')` dependencies
+ *
+ * `buildBddProjects` merges manifests of the same directory into one project, adds workspace
+ * folders without a manifest, and resolves references to project roots.
+ */
+
+import type { BddProject, BddProjectKind } from '../domain/types';
+import { glueDirname, joinGluePath, toGluePath } from '../matching/glueScope';
+import { readCsprojAssemblyName } from './frameworkConfigParser';
+
+/** Manifest file names, for findFiles / the CLI walk */
+export const PROJECT_MANIFEST_GLOB = '**/{*.csproj,package.json,go.mod,pom.xml,build.gradle,build.gradle.kts}';
+
+const MANIFEST_FILE_NAMES = new Set(['package.json', 'go.mod', 'pom.xml', 'build.gradle', 'build.gradle.kts']);
+
+const PACKAGE_JSON_DEPENDENCY_KEYS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+const CSPROJ_PROJECT_REFERENCE_REGEX = /<ProjectReference\s+Include\s*=\s*"([^"]+)"/g;
+
+const CSPROJ_PACKAGE_REFERENCE_REGEX = /<PackageReference\s+Include\s*=\s*"([^"]+)"/g;
+
+const GRADLE_PROJECT_DEPENDENCY_REGEX = /\bproject\s*\(\s*(?:path\s*[:=]\s*)?['"]([^'"]+)['"]/g;
+
+export interface ProjectManifest {
+    readonly kind: Exclude<BddProjectKind, 'workspace'>;
+    readonly name: string;
+    /** Referenced project files or directories, relative to the manifest directory */
+    readonly references: readonly string[];
+    /** Package / module / artifact names, matched against the names of projects of the same kind */
+    readonly dependencyNames: readonly string[];
+}
+
+/** Whether the file name (not path) is a project manifest */
+export function isProjectManifestFileName(fileName: string): boolean {
+    const name = baseName(fileName);
+    return MANIFEST_FILE_NAMES.has(name) || name.toLowerCase().endsWith('.csproj');
+}
+
+/** Read a project manifest; null for unknown or unreadable files */
+export function parseProjectManifest(filePath: string, text: string): ProjectManifest | null {
+    const name = baseName(filePath);
+    if (name.toLowerCase().endsWith('.csproj')) {
+        return parseCsproj(filePath, text);
+    }
+    switch (name) {
+        case 'package.json':
+            return parsePackageJson(filePath, text);
+        case 'go.mod':
+            return parseGoMod(filePath, text);
+        case 'pom.xml':
+            return parsePom(filePath, text);
+        case 'build.gradle':
+        case 'build.gradle.kts':
+            return parseGradleBuild(filePath, text);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Projects of the manifests (one per directory) plus workspace folders without a manifest.
+ * Dependencies are the referenced directories and same-kind projects named by a dependency.
+ */
+export function buildBddProjects(
+    manifests: ReadonlyArray<{ path: string; manifest: ProjectManifest }>,
+    workspaceRoots: readonly string[] = []
+): BddProject[] {
+    const byRoot = new Map<string, Array<{ path: string; manifest: ProjectManifest }>>();
+    for (const entry of [...manifests].sort((a, b) => a.path.localeCompare(b.path))) {
+        const root = glueDirname(entry.path);
+        byRoot.set(root, [...(byRoot.get(root) ?? []), entry]);
+    }
+
+    const rootsByName = new Map<string, string[]>();
+    for (const [root, entries] of byRoot) {
+        for (const { manifest } of entries) {
+            const key = `${manifest.kind}:${manifest.name}`;
+            rootsByName.set(key, [...(rootsByName.get(key) ?? []), root]);
+        }
+    }
+
+    const projects: BddProject[] = [];
+    for (const [root, entries] of byRoot) {
+        const dependencies = new Set<string>();
+        for (const { manifest } of entries) {
+            for (const reference of manifest.references) {
+                const target = joinGluePath(root, reference);
+                dependencies.add(byRoot.has(target) ? target : glueDirname(target));
+            }
+            for (const dependency of manifest.dependencyNames) {
+                for (const dependencyRoot of rootsByName.get(`${manifest.kind}:${dependency}`) ?? []) {
+                    dependencies.add(dependencyRoot);
+                }
+            }
+        }
+        dependencies.delete(root);
+        projects.push({
+            root,
+            name: entries[0].manifest.name,
+            kind: entries[0].manifest.kind,
+            manifest: toGluePath(entries[0].path),
+            dependencies: [...dependencies].sort(),
+        });
+    }
+
+    for (const folder of workspaceRoots.map((r) => toGluePath(r).replace(/\/+$/, ''))) {
+        if (!byRoot.has(folder)) {
+            projects.push({ root: folder, name: baseName(folder), kind: 'workspace', dependencies: [] });
+        }
+    }
+    return projects;
+}
+
+function parseCsproj(filePath: string, text: string): ProjectManifest {
+    return {
+        kind: 'dotnet',
+        name: readCsprojAssemblyName(filePath, text),
+        references: [...text.matchAll(CSPROJ_PROJECT_REFERENCE_REGEX)].map((m) => toGluePath(m[1])),
+        dependencyNames: [...text.matchAll(CSPROJ_PACKAGE_REFERENCE_REGEX)].map((m) => m[1]),
+    };
+}
+
+function parsePackageJson(filePath: string, text: string): ProjectManifest | null {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!isRecord(json)) {
+        return null;
+    }
+    const references: string[] = [];
+    const dependencyNames: string[] = [];
+    for (const key of PACKAGE_JSON_DEPENDENCY_KEYS) {
+        const dependencies = json[key];
+        if (!isRecord(dependencies)) {
+            continue;
+        }
+        for (const [name, version] of Object.entries(dependencies)) {
+            dependencyNames.push(name);
+            const local = typeof version === 'string' ? /^(?:file|link|portal):(.+)$/.exec(version) : null;
+            if (local) {
+                references.push(local[1]);
+            }
+        }
+    }
+    return {
+        kind: 'node',
+        name: typeof json.name === 'string' && json.name ? json.name : baseName(glueDirname(toGluePath(filePath))),
+        references,
+        dependencyNames,
+    };
+}
+
+function parseGoMod(filePath: string, text: string): ProjectManifest {
+    const references: string[] = [];
+    const dependencyNames: string[] = [];
+    let block: 'require' | 'replace' | null = null;
+
+    for (const raw of text.split('\n')) {
+        const line = raw.replace(/\/\/.*$/, '').trim();
+        const opening = /^(require|replace)\s*\($/.exec(line);
+        if (opening) {
+            block = opening[1] as 'require' | 'replace';
+            continue;
+        }
+        if (line === ')') {
+            block = null;
+            continue;
+        }
+        const directive = /^(require|replace)\s+(.+)$/.exec(line);
+        const kind = directive ? directive[1] : block;
+        const body = directive ? directive[2] : line;
+        if (kind === 'require' && body) {
+            dependencyNames.push(body.split(/\s+/)[0]);
+        } else if (kind === 'replace') {
+            const target = /=>\s*(\S+)/.exec(body)?.[1];
+            if (target && /^(?:\.{1,2}\/|\/)/.test(target)) {
+                references.push(target);
+            }
+        }
+    }
+    return {
+        kind: 'go',
+        name: /^\s*module\s+(\S+)/m.exec(text)?.[1] ?? baseName(glueDirname(toGluePath(filePath))),
+        references,
+        dependencyNames,
+    };
+}
+
+function parsePom(filePath: string, text: string): ProjectManifest {
+    const body = text.replace(/<!--[\s\S]*?-->/g, '').replace(/<parent>[\s\S]*?<\/parent>/g, '');
+    const artifactId = (xml: string) => /<artifactId>\s*([^<\s]+)\s*<\/artifactId>/.exec(xml)?.[1];
+    return {
+        kind: 'jvm',
+        name: artifactId(body.replace(/<dependencies>[\s\S]*?<\/dependencies>/g, '')) ??
+            baseName(glueDirname(toGluePath(filePath))),
+        references: [],
+        dependencyNames: [...body.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)]
+            .map((m) => artifactId(m[1]))
+            .filter((id): id is string => id !== undefined),
+    };
+}
+
+function parseGradleBuild(filePath: string, text: string): ProjectManifest {
+    return {
+        kind: 'jvm',
+        // Gradle names projects after their directory unless settings.gradle renames them
+        name: baseName(glueDirname(toGluePath(filePath))),
+        references: [],
+        dependencyNames: [...text.matchAll(GRADLE_PROJECT_DEPENDENCY_REGEX)].map((m) => m[1].split(':').pop()!),
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function baseName(filePath: string): string {
+    return toGluePath(filePath).split('/').pop() ?? filePath;
+}
@@ -1,90 +1,94 @@
 /**
- * Python Behave step definition parser (MVP).
+ * Python Behave step definition parser.
  *
  * Supported forms:
- * - from behave import given, when, then
- * - @given('pattern') / @when("pattern") / @then('pattern') on one line
+ * - from behave import given, when, then, step
+ * - @given('pattern') / @when("pattern") / @then('pattern') / @step('pattern'), also split
+ *   over several lines or written as implicitly concatenated strings
+ * - use_step_matcher("parse" | "cfparse" | "re") switches the matcher for the steps after it
  *
- * Behave {param} placeholders are compiled as non-whitespace captures (parse-style).
+ * With the parse / cfparse matchers (default parse), `{param}` fields and format types such as
+ * `{count:d}` compile like the `parse` library; `{param:Type}` uses the pattern of a type registered
+ * with `register_type(Type=converter)`. With the re matcher the pattern is a regex.
  */
 
 import * as vscode from 'vscode';
-import type { Binding, ResolvedKeyword } from '../domain/types';
+import type { Binding, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
 import { compileBindingRegex } from './bindingRegex';
+import type { ParameterTypeLookup } from './cucumberExpression';
+import { parseFormatToRegexSource } from './parseFormat';
+import {
+    findCallEnd,
+    findConverterPattern,
+    findFunctionName,
+    lineNumberAt,
+    pythonRegexToJs,
+    readPythonStrings,
+} from './pythonSource';
 
 export interface PythonBehaveParseOptions {
     caseInsensitive?: boolean;
+    /** Types registered with `register_type` (used by `{field:Type}`) */
+    parameterTypes?: ParameterTypeLookup;
 }
 
+/** behave's built-in step matchers */
+export type BehaveStepMatcher = 'parse' | 'cfparse' | 're';
+
 const BEHAVE_IMPORT_REGEX = /from\s+behave\s+import|import\s+behave\b/;
 
-const DECORATOR_REGEX =
-    /@(given|when|then)\s*\(\s*(['"])((?:\\.|(?!\2).)*)\2/gi;
+const DECORATOR_REGEX = /^[ \t]*@(?:behave\s*\.\s*)?(given|when|then|step)\s*\(/gim;
+
+const STEP_MATCHER_REGEX = /^[ \t]*(?:behave\s*\.\s*)?(?:use_step_matcher|step_matcher)\s*\(\s*['"](\w+)['"]\s*\)/gm;
 
 const STEP_KEYWORDS: ReadonlyArray<ResolvedKeyword> = ['Given', 'When', 'Then'];
 
-function unescapePythonStringLiteral(raw: string, quote: string): string {
-    let inner = raw;
-    inner = inner
-        .replace(/\\n/g, '\n')
-        .replace(/\\r/g, '\r')
-        .replace(/\\t/g, '\t')
-        .replace(/\\\\/g, '\\');
-    if (quote === '"') inner = inner.replace(/\\"/g, '"');
-    if (quote === "'") inner = inner.replace(/\\'/g, "'");
-    return inner;
-}
+const REGISTER_TYPE_REGEX = /\bregister_type\s*\(([^)]*)\)/g;
+
+/** parse's pattern for converters without `with_pattern` */
+const DEFAULT_CONVERTER_PATTERN = '.+?';
 
 /**
- * Behave parse-style `{name}` → regex capture for a single token (MVP).
+ * Compile a behave parse / cfparse step pattern (exported to recompile once registered types are known).
+ * Cardinality suffixes (`{names:Name+}`) are accepted for both matchers.
  */
-function behavePatternToRegexSource(patternRaw: string): string {
-    const parts: string[] = [];
-    const placeholder = /\{([a-zA-Z_][\w]*)\}/g;
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
-    placeholder.lastIndex = 0;
-    while ((match = placeholder.exec(patternRaw)) !== null) {
-        const before = patternRaw.slice(lastIndex, match.index);
-        parts.push(before.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-        parts.push('(\\S+)');
-        lastIndex = match.index + match[0].length;
-    }
-    const after = patternRaw.slice(lastIndex);
-    parts.push(after.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-    return parts.join('');
-}
-
-function compileBehavePattern(
+export function compileBehavePattern(
     patternRaw: string,
-    caseInsensitive: boolean
+    caseInsensitive: boolean,
+    parameterTypes?: ParameterTypeLookup
 ): RegExp | null {
-    if (/\{[a-zA-Z_][\w]*\}/.test(patternRaw)) {
-        const source = behavePatternToRegexSource(patternRaw);
-        return compileBindingRegex(source, { caseInsensitive, expressionType: 'regex' });
-    }
-    return compileBindingRegex(patternRaw, { caseInsensitive });
+    const source = parseFormatToRegexSource(patternRaw, { parameterTypes, cardinality: true });
+    return compileBindingRegex(source, { caseInsensitive, expressionType: 'regex' });
 }
 
-function findFunctionName(lines: string[], decoratorLine: number): string {
-    for (let i = decoratorLine + 1; i < Math.min(decoratorLine + 6, lines.length); i++) {
-        const trimmed = lines[i]?.trim() ?? '';
-        if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('@')) {
-            continue;
+/** `use_step_matcher(...)` calls in file order (unknown matcher names are ignored) */
+function findStepMatcherChanges(text: string): { offset: number; matcher: BehaveStepMatcher }[] {
+    const changes: { offset: number; matcher: BehaveStepMatcher }[] = [];
+    for (const match of text.matchAll(new RegExp(STEP_MATCHER_REGEX.source, 'gm'))) {
+        const name = match[1];
+        if (name === 'parse' || name === 'cfparse' || name === 're') {
+            changes.push({ offset: match.index!, matcher: name });
         }
-        const defMatch = trimmed.match(/^def\s+([a-zA-Z_][\w]*)\s*\(/);
-        if (defMatch) {
-            return defMatch[1];
+    }
+    return changes;
+}
+
+function matcherAt(changes: readonly { offset: number; matcher: BehaveStepMatcher }[], offset: number): BehaveStepMatcher {
+    let matcher: BehaveStepMatcher = 'parse';
+    for (const change of changes) {
+        if (change.offset > offset) {
+            break;
         }
-        break;
+        matcher = change.matcher;
     }
-    return 'step_impl';
+    return matcher;
 }
 
-function normalizeKeyword(raw: string): ResolvedKeyword {
+function normalizeKeyword(raw: string): ResolvedKeyword | 'Step' {
     const lower = raw.toLowerCase();
     if (lower === 'given') return 'Given';
     if (lower === 'when') return 'When';
+    if (lower === 'step') return 'Step';
     return 'Then';
 }
 
@@ -98,39 +102,82 @@ export function parsePythonBehaveBindingsFromText(
     }
 
     const lines = text.split('\n');
+    const moduleName = uri.fsPath.split(/[/\\]/).pop()?.replace(/\.py$/, '') ?? 'steps';
+    const matcherChanges = findStepMatcherChanges(text);
+    const caseInsensitive = options.caseInsensitive ?? false;
     const bindings: Binding[] = [];
+    const decoratorRegex = new RegExp(DECORATOR_REGEX.source, 'gim');
     let match: RegExpExecArray | null;
-    DECORATOR_REGEX.lastIndex = 0;
 
-    while ((match = DECORATOR_REGEX.exec(text)) !== null) {
-        const keyword = normalizeKeyword(match[1]);
-        if (!STEP_KEYWORDS.includes(keyword)) continue;
-
-        const quote = match[2];
-        const patternRaw = unescapePythonStringLiteral(match[3], quote);
-        const before = text.slice(0, match.index);
-        const lineNumber = before.split('\n').length - 1;
-        const lineText = lines[lineNumber] ?? '';
+    while ((match = decoratorRegex.exec(text)) !== null) {
+        const openIndex = match.index + match[0].length - 1;
+        const callEnd = findCallEnd(text, openIndex);
+        const pattern = readPythonStrings(text, openIndex + 1);
+        if (callEnd === -1 || !pattern || pattern.end > callEnd) {
+            continue;
+        }
 
-        const regex = compileBehavePattern(patternRaw, options.caseInsensitive ?? false);
+        const patternRaw = pattern.value;
+        const matcher = matcherAt(matcherChanges, match.index);
+        const regex =
+            matcher === 're'
+                ? compileBindingRegex(pythonRegexToJs(patternRaw), { caseInsensitive, expressionType: 'regex' })
+                : compileBehavePattern(patternRaw, caseInsensitive, options.parameterTypes);
         if (!regex) continue;
 
+        const lineNumber = lineNumberAt(text, match.index);
+        const lineText = lines[lineNumber] ?? '';
         const methodName = findFunctionName(lines, lineNumber);
-        const moduleName = uri.fsPath.split(/[/\\]/).pop()?.replace(/\.py$/, '') ?? 'steps';
-
-        bindings.push({
-            keyword,
-            patternRaw,
-            regex,
-            className: moduleName,
-            methodName,
-            uri,
-            range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
-            lineNumber,
-            signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
-            scopeTags: [],
-        });
+        const keyword = normalizeKeyword(match[1]);
+
+        // @step registers the same function for every keyword
+        for (const stepKeyword of keyword === 'Step' ? STEP_KEYWORDS : [keyword]) {
+            bindings.push({
+                keyword: stepKeyword,
+                patternRaw,
+                regex,
+                className: moduleName,
+                methodName,
+                uri,
+                range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
+                lineNumber,
+                signature: `${uri.fsPath}:${lineNumber}:${stepKeyword}`,
+                scopeTags: [],
+                providerId: 'python-behave',
+                ...(matcher === 're' ? { expressionType: 'regex' as const } : {}),
+            });
+        }
     }
 
     return bindings;
 }
+
+/**
+ * Types registered with `register_type(Name=converter)`. The pattern comes from
+ * `@parse.with_pattern(r"…")` on the converter (or `converter.pattern = r"…"`), else parse's default.
+ */
+export function parsePythonBehaveParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    if (!BEHAVE_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const definitions: ParameterTypeDefinition[] = [];
+    const registerRegex = new RegExp(REGISTER_TYPE_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = registerRegex.exec(text)) !== null) {
+        const registerLine = lineNumberAt(text, match.index);
+        for (const pair of match[1].matchAll(/\b([a-zA-Z_]\w*)\s*=\s*([a-zA-Z_][\w.]*)/g)) {
+            const converter = findConverterPattern(text, pair[2]);
+            definitions.push({
+                name: pair[1],
+                regexps: [converter?.pattern ?? DEFAULT_CONVERTER_PATTERN],
+                uri,
+                lineNumber: converter?.lineNumber ?? registerLine,
+                providerId: 'python-behave',
+            });
+        }
+    }
+
+    return definitions;
+}
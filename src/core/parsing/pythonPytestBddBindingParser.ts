@@ -0,0 +1,217 @@
+/**
+ * pytest-bdd step definition parser.
+ *
+ * Supported forms (files that import pytest_bdd):
+ * - @given("exact text") / @when(...) / @then(...) — plain strings match the whole step text
+ * - @given(parsers.parse("I have {n:d} cucumbers")) — `parse` format fields
+ * - @given(parsers.cfparse("I eat {items:Item+}", extra_types={...})) — cfparse cardinality
+ * - @given(parsers.re(r"I have (?P<n>\d+) cucumbers")) — full-match regex
+ * - target_fixture="name", decorators split over several lines, implicitly concatenated strings
+ *
+ * Also finds `scenarios("x.feature")` / `@scenario("x.feature", "Name")` references to feature files.
+ */
+
+import * as vscode from 'vscode';
+import type { Binding, ResolvedKeyword } from '../domain/types';
+import { compileBindingRegex } from './bindingRegex';
+import { parseFormatToRegexSource } from './parseFormat';
+import {
+    findCallEnd,
+    findConverterPattern,
+    findFunctionName,
+    lineNumberAt,
+    pythonRegexToJs,
+    pythonStringValue,
+    readPythonStrings,
+} from './pythonSource';
+
+export interface PythonPytestBddParseOptions {
+    caseInsensitive?: boolean;
+}
+
+/** A feature file named in `scenarios(...)` or `scenario(...)` */
+export interface PytestBddFeatureReference {
+    /** Path as written (relative to the test module's directory) */
+    readonly path: string;
+    readonly lineNumber: number;
+    /** Start/end character of the path inside the string literal */
+    readonly startCharacter: number;
+    readonly endCharacter: number;
+    /** Scenario name for `@scenario("x.feature", "Name")` */
+    readonly scenarioName?: string;
+}
+
+const PYTEST_BDD_IMPORT_REGEX = /\bfrom\s+pytest_bdd(?:\.\w+)?\s+import\b|\bimport\s+pytest_bdd\b/;
+
+const STEP_DECORATOR_REGEX = /^[ \t]*@(?:pytest_bdd\s*\.\s*)?(given|when|then)\s*\(/gm;
+
+const STEP_PARSER_REGEX = /^\s*(?:parsers\s*\.\s*)?(parse|cfparse|re|string)\s*\(/;
+
+const TARGET_FIXTURE_REGEX = /\btarget_fixture\s*=\s*(['"])(\w+)\1/;
+
+const EXTRA_TYPES_REGEX = /\bextra_types\s*=\s*(\{[^}]*\}|dict\s*\([^)]*\))/;
+
+const SCENARIO_CALL_REGEX = /(?:^[ \t]*@|\b)(?:pytest_bdd\s*\.\s*)?(scenarios|scenario)\s*\(/gm;
+
+const POSITIONAL_STRING_REGEX = /(^|,)\s*(\w+\s*=\s*)?([rRuU]{0,2})(['"])((?:\\.|(?!\4)[^\\\n])*)\4/g;
+
+const LITERAL_ESCAPE_REGEX = /[.*+?^${}()|[\]\\]/g;
+
+function normalizeKeyword(raw: string): ResolvedKeyword {
+    if (raw === 'given') return 'Given';
+    if (raw === 'when') return 'When';
+    return 'Then';
+}
+
+/**
+ * `extra_types={"Number": parse_number}` / `extra_types=dict(Number=parse_number)` → name → pattern
+ * (from `@parse.with_pattern` on the converter; `.+?` when the pattern is not in the file)
+ */
+function readExtraTypes(callText: string, fileText: string): Map<string, readonly string[]> {
+    const types = new Map<string, readonly string[]>();
+    const extra = EXTRA_TYPES_REGEX.exec(callText);
+    if (!extra) {
+        return types;
+    }
+    for (const pair of extra[1].matchAll(/['"]?([a-zA-Z_]\w*)['"]?\s*[:=]\s*([a-zA-Z_][\w.]*)/g)) {
+        if (pair[1] === 'dict') {
+            continue;
+        }
+        const converter = findConverterPattern(fileText, pair[2]);
+        if (converter) {
+            types.set(pair[1], [converter.pattern]);
+        }
+    }
+    return types;
+}
+
+function compileStepPattern(
+    parser: string | undefined,
+    patternRaw: string,
+    callText: string,
+    fileText: string,
+    caseInsensitive: boolean
+): RegExp | null {
+    if (parser === 're') {
+        return compileBindingRegex(pythonRegexToJs(patternRaw), { caseInsensitive, expressionType: 'regex' });
+    }
+    const source =
+        parser === 'parse' || parser === 'cfparse'
+            ? parseFormatToRegexSource(patternRaw, {
+                  parameterTypes: readExtraTypes(callText, fileText),
+                  cardinality: parser === 'cfparse',
+              })
+            : patternRaw.replace(LITERAL_ESCAPE_REGEX, '\\$&');
+    return compileBindingRegex(source, { caseInsensitive, expressionType: 'regex' });
+}
+
+export function parsePythonPytestBddBindingsFromText(
+    text: string,
+    uri: vscode.Uri,
+    options: PythonPytestBddParseOptions = {}
+): Binding[] {
+    if (!PYTEST_BDD_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const lines = text.split('\n');
+    const moduleName = uri.fsPath.split(/[/\\]/).pop()?.replace(/\.py$/, '') ?? 'conftest';
+    const bindings: Binding[] = [];
+    const decoratorRegex = new RegExp(STEP_DECORATOR_REGEX.source, 'gm');
+    let match: RegExpExecArray | null;
+
+    while ((match = decoratorRegex.exec(text)) !== null) {
+        const openIndex = match.index + match[0].length - 1;
+        const callEnd = findCallEnd(text, openIndex);
+        if (callEnd === -1) {
+            continue;
+        }
+        const callText = text.slice(openIndex + 1, callEnd - 1);
+        const parserCall = STEP_PARSER_REGEX.exec(callText);
+        const argument = readPythonStrings(callText, parserCall ? parserCall[0].length : 0);
+        if (!argument) {
+            continue;
+        }
+
+        const keyword = normalizeKeyword(match[1]);
+        const parser = parserCall?.[1];
+        const patternRaw = argument.value;
+        const regex = compileStepPattern(parser, patternRaw, callText, text, options.caseInsensitive ?? false);
+        if (!regex) {
+            continue;
+        }
+
+        const lineNumber = lineNumberAt(text, match.index);
+        const lineText = lines[lineNumber] ?? '';
+        const targetFixture = TARGET_FIXTURE_REGEX.exec(callText)?.[2];
+
+        bindings.push({
+            keyword,
+            patternRaw,
+            regex,
+            className: moduleName,
+            methodName: findFunctionName(lines, lineNumber),
+            uri,
+            range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
+            lineNumber,
+            signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
+            scopeTags: [],
+            providerId: 'python-pytestbdd',
+            ...(parser === 're' ? { expressionType: 'regex' as const } : {}),
+            ...(targetFixture ? { targetFixture } : {}),
+        });
+    }
+
+    return bindings;
+}
+
+/**
+ * Feature files named by `scenarios(...)` (every positional string) and
+ * `scenario(...)` / `@scenario(...)` (first positional string, second is the scenario name).
+ */
+export function findPytestBddFeatureReferences(text: string): PytestBddFeatureReference[] {
+    if (!PYTEST_BDD_IMPORT_REGEX.test(text)) {
+        return [];
+    }
+
+    const references: PytestBddFeatureReference[] = [];
+    const callRegex = new RegExp(SCENARIO_CALL_REGEX.source, 'gm');
+    let match: RegExpExecArray | null;
+
+    while ((match = callRegex.exec(text)) !== null) {
+        const openIndex = match.index + match[0].length - 1;
+        const callEnd = findCallEnd(text, openIndex);
+        if (callEnd === -1) {
+            continue;
+        }
+        const argsStart = openIndex + 1;
+        const callText = text.slice(argsStart, callEnd - 1);
+        const strings: { value: string; offset: number; length: number }[] = [];
+        for (const arg of callText.matchAll(new RegExp(POSITIONAL_STRING_REGEX.source, 'g'))) {
+            if (arg[2]) {
+                continue;
+            }
+            const bodyOffset = arg.index! + arg[0].length - 1 - arg[5].length;
+            strings.push({
+                value: pythonStringValue(arg[3], arg[4], arg[5]),
+                offset: argsStart + bodyOffset,
+                length: arg[5].length,
+            });
+        }
+
+        const paths = match[1] === 'scenarios' ? strings : strings.slice(0, 1);
+        for (const path of paths) {
+            const lineNumber = lineNumberAt(text, path.offset);
+            const startCharacter = path.offset - (text.lastIndexOf('\n', path.offset - 1) + 1);
+            references.push({
+                path: path.value,
+                lineNumber,
+                startCharacter,
+                endCharacter: startCharacter + path.length,
+                ...(match[1] === 'scenario' && strings[1] ? { scenarioName: strings[1].value } : {}),
+            });
+        }
+    }
+
+    return references;
+}
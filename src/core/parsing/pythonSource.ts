@@ -0,0 +1,178 @@
+/**
+ * Small Python source helpers shared by the behave and pytest-bdd parsers.
+ */
+
+export function unescapePythonStringLiteral(raw: string, quote: string): string {
+    let inner = raw;
+    inner = inner
+        .replace(/\\n/g, '\n')
+        .replace(/\\r/g, '\r')
+        .replace(/\\t/g, '\t')
+        .replace(/\\\\/g, '\\');
+    if (quote === '"') inner = inner.replace(/\\"/g, '"');
+    if (quote === "'") inner = inner.replace(/\\'/g, "'");
+    return inner;
+}
+
+/**
+ * Value of a string literal given its prefix, quote and body (raw strings are kept as written)
+ */
+export function pythonStringValue(prefix: string, quote: string, body: string): string {
+    return prefix.toLowerCase().includes('r') ? body : unescapePythonStringLiteral(body, quote);
+}
+
+const STRING_START_REGEX = /([rRuUbB]{0,2})('''|"""|'|")/y;
+
+/**
+ * Adjacent string literals from `start` on (implicit concatenation; whitespace, line breaks
+ * and comments between them are skipped). `end` is the offset after the last literal.
+ * Null when no string literal starts there.
+ */
+export function readPythonStrings(text: string, start: number): { value: string; end: number } | null {
+    let value = '';
+    let end = -1;
+    let i = start;
+
+    for (;;) {
+        while (i < text.length && /\s/.test(text[i])) {
+            i++;
+        }
+        if (text[i] === '#') {
+            const newline = text.indexOf('\n', i);
+            i = newline === -1 ? text.length : newline;
+            continue;
+        }
+        STRING_START_REGEX.lastIndex = i;
+        const opening = STRING_START_REGEX.exec(text);
+        if (!opening) {
+            break;
+        }
+        const bodyStart = i + opening[0].length;
+        const closing = skipString(text, bodyStart - opening[2].length);
+        if (closing >= text.length || !text.startsWith(opening[2], closing - opening[2].length + 1)) {
+            break;
+        }
+        const body = text.slice(bodyStart, closing - opening[2].length + 1);
+        value += pythonStringValue(opening[1], opening[2][0], body);
+        end = closing + 1;
+        i = end;
+    }
+
+    return end === -1 ? null : { value, end };
+}
+
+/** Python-only named group syntax: `(?P<name>…)` → `(?<name>…)`, `(?P=name)` → `\k<name>` */
+export function pythonRegexToJs(pattern: string): string {
+    return pattern.replace(/\(\?P<(\w+)>/g, '(?<$1>').replace(/\(\?P=(\w+)\)/g, '\\k<$1>');
+}
+
+/** 0-based line of a character offset */
+export function lineNumberAt(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
+}
+
+/**
+ * Offset just past the `)` closing the call whose `(` is at `openIndex`
+ * (string literals are skipped). -1 when the call is not closed.
+ */
+export function findCallEnd(text: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"' || char === "'") {
+            i = skipString(text, i);
+            continue;
+        }
+        if (char === '#') {
+            const newline = text.indexOf('\n', i);
+            i = newline === -1 ? text.length : newline;
+            continue;
+        }
+        if (char === '(' || char === '[' || char === '{') {
+            depth++;
+        } else if (char === ')' || char === ']' || char === '}') {
+            depth--;
+            if (depth === 0) {
+                return i + 1;
+            }
+        }
+    }
+    return -1;
+}
+
+function skipString(text: string, start: number): number {
+    const quote = text[start];
+    const triple = text.startsWith(quote.repeat(3), start);
+    const end = triple ? quote.repeat(3) : quote;
+    for (let i = start + end.length; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (text.startsWith(end, i)) {
+            return i + end.length - 1;
+        }
+        if (!triple && text[i] === '\n') {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+function parenBalance(line: string): number {
+    let balance = 0;
+    for (const char of line) {
+        if (char === '(') balance++;
+        else if (char === ')') balance--;
+    }
+    return balance;
+}
+
+/**
+ * Name of the function a decorator applies to, skipping further (multi-line) decorators.
+ */
+export function findFunctionName(lines: string[], decoratorLine: number): string {
+    let depth = Math.max(0, parenBalance(lines[decoratorLine] ?? ''));
+    for (let i = decoratorLine + 1; i < Math.min(decoratorLine + 30, lines.length); i++) {
+        const trimmed = lines[i]?.trim() ?? '';
+        if (depth > 0) {
+            depth = Math.max(0, depth + parenBalance(trimmed));
+            continue;
+        }
+        if (!trimmed || trimmed.startsWith('#')) {
+            continue;
+        }
+        if (trimmed.startsWith('@')) {
+            depth = Math.max(0, parenBalance(trimmed));
+            continue;
+        }
+        const defMatch = trimmed.match(/^(?:async\s+)?def\s+([a-zA-Z_][\w]*)\s*\(/);
+        if (defMatch) {
+            return defMatch[1];
+        }
+        break;
+    }
+    return 'step_impl';
+}
+
+/**
+ * Pattern of a `parse` type converter: `@parse.with_pattern(r"…")` on the function
+ * or `converter.pattern = r"…"`. Null when neither is in the text.
+ */
+export function findConverterPattern(text: string, converter: string): { pattern: string; lineNumber: number } | null {
+    const functionName = converter.split('.').pop()!;
+    const decorated = new RegExp(
+        `with_pattern\\s*\\(\\s*([rRuU]?)(['"])((?:\\\\.|(?!\\2).)*)\\2[^)]*\\)\\s*\\n\\s*def\\s+${functionName}\\s*\\(`
+    ).exec(text);
+    const assigned = new RegExp(
+        `\\b${converter.replace(/\./g, '\\.')}\\.pattern\\s*=\\s*([rRuU]?)(['"])((?:\\\\.|(?!\\2).)*)\\2`
+    ).exec(text);
+    const found = decorated ?? assigned;
+    if (!found) {
+        return null;
+    }
+    return {
+        pattern: pythonStringValue(found[1], found[2], found[3]),
+        lineNumber: lineNumberAt(text, found.index),
+    };
+}
@@ -0,0 +1,215 @@
+/**
+ * Ruby Cucumber step definition parser.
+ *
+ * Supported forms (step definition files, no import needed):
+ * - `Given(/^I have (\d+) cukes$/) do |n|` / `When /regex/i do` / `Then %r{regex} do` — Ruby regexes
+ * - `Given('I have {int} cukes') do |n|` / `Given "…" { |n| … }` — Cucumber Expressions
+ * - `ParameterType(name: 'color', regexp: /red|blue/, transformer: …)` — custom `{color}` parameter types
+ *
+ * Regexes match as written (`/…/i` keeps its flag); `\A` / `\z` anchors are converted for JS.
+ */
+
+import * as vscode from 'vscode';
+import type { Binding, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
+import { compileBindingRegex } from './bindingRegex';
+import {
+    classifyStepArgument,
+    countPatternParameters,
+    extractParenthesized,
+    rubyParameterTypes,
+} from './stepArgumentSignature';
+
+export interface RubyCucumberParseOptions {
+    caseInsensitive?: boolean;
+}
+
+const STEP_CALL_REGEX = /^[ \t]*(Given|When|Then)(?:[ \t]*\([ \t]*|[ \t]+)(?=[/'"%])/gm;
+
+const PARAMETER_TYPE_REGEX = /^[ \t]*ParameterType[ \t]*\(/gm;
+
+/** `%r{…}`, `%r(…)`, `%r[…]`, `%r<…>` or `%r` with any other delimiter */
+const PERCENT_REGEX_CLOSERS: Readonly<Record<string, string>> = { '{': '}', '(': ')', '[': ']', '<': '>' };
+
+const BLOCK_START_REGEX = /^[ \t]*\)?[ \t]*(?:do\b|\{)[ \t]*(?:\|([^|]*)\|)?/;
+
+const STRING_ESCAPES: Readonly<Record<string, string>> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+
+interface RubyLiteral {
+    readonly kind: 'regex' | 'string';
+    readonly value: string;
+    readonly flags: string;
+    readonly end: number;
+}
+
+/** Ruby string (`'…'`, `"…"`) or regex (`/…/imx`, `%r{…}imx`) literal at `start` */
+function readRubyLiteral(text: string, start: number): RubyLiteral | null {
+    const first = text[start];
+    if (first === "'" || first === '"') {
+        let value = '';
+        let i = start + 1;
+        while (i < text.length && text[i] !== first && text[i] !== '\n') {
+            if (text[i] === '\\' && i + 1 < text.length) {
+                const next = text[i + 1];
+                if (first === "'") {
+                    value += next === "'" || next === '\\' ? next : `\\${next}`;
+                } else {
+                    value += STRING_ESCAPES[next] ?? `\\${next}`;
+                }
+                i += 2;
+                continue;
+            }
+            value += text[i];
+            i++;
+        }
+        return text[i] === first ? { kind: 'string', value, flags: '', end: i + 1 } : null;
+    }
+
+    let open: string;
+    let bodyStart: number;
+    if (first === '/') {
+        open = '/';
+        bodyStart = start + 1;
+    } else if (text.startsWith('%r', start) && start + 2 < text.length) {
+        open = text[start + 2];
+        bodyStart = start + 3;
+    } else {
+        return null;
+    }
+    const close = PERCENT_REGEX_CLOSERS[open] ?? open;
+    let depth = 0;
+    for (let i = bodyStart; i < text.length && text[i] !== '\n'; i++) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === open && close !== open) {
+            depth++;
+        } else if (ch === close && depth-- === 0) {
+            const flags = /^[imxounse]*/.exec(text.slice(i + 1))![0];
+            return { kind: 'regex', value: text.slice(bodyStart, i), flags, end: i + 1 + flags.length };
+        }
+    }
+    return null;
+}
+
+/** Ruby (Onigmo) regex source → JS: `\A` / `\z` / `\Z` string anchors */
+function rubyRegexToJs(source: string): string {
+    return source.replace(/\\A/g, '^').replace(/\\[zZ]/g, '$');
+}
+
+function lineNumberAt(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
+}
+
+export function parseRubyCucumberBindingsFromText(
+    text: string,
+    uri: vscode.Uri,
+    options: RubyCucumberParseOptions = {}
+): Binding[] {
+    const lines = text.split('\n');
+    const fileName = uri.fsPath.split(/[/\\]/).pop()?.replace(/\.rb$/, '') ?? 'steps';
+    const caseInsensitive = options.caseInsensitive ?? false;
+    const bindings: Binding[] = [];
+
+    for (const match of text.matchAll(STEP_CALL_REGEX)) {
+        const literal = readRubyLiteral(text, match.index! + match[0].length);
+        if (!literal) {
+            continue;
+        }
+        const block = BLOCK_START_REGEX.exec(text.slice(literal.end, literal.end + 200));
+        if (!block) {
+            continue;
+        }
+
+        const keyword = match[1] as ResolvedKeyword;
+        const isRegex = literal.kind === 'regex';
+        const patternRaw = isRegex ? rubyRegexToJs(literal.value) : literal.value;
+        const regex = compileBindingRegex(patternRaw, {
+            caseInsensitive: caseInsensitive || literal.flags.includes('i'),
+            expressionType: isRegex ? 'regex' : 'cucumber',
+        });
+        if (!regex) {
+            continue;
+        }
+
+        const lineNumber = lineNumberAt(text, match.index!);
+        const lineText = lines[lineNumber] ?? '';
+        const stepArgument = classifyStepArgument(
+            rubyParameterTypes(block[1] ?? ''),
+            countPatternParameters(patternRaw, isRegex ? 'regex' : 'cucumber'),
+            'ruby'
+        );
+
+        bindings.push({
+            keyword,
+            patternRaw,
+            regex,
+            className: fileName,
+            methodName: `${keyword}(...)`,
+            uri,
+            range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
+            lineNumber,
+            signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
+            scopeTags: [],
+            stepArgument,
+            providerId: 'ruby-cucumber',
+            expressionType: isRegex ? 'regex' : 'cucumber',
+        });
+    }
+
+    return bindings;
+}
+
+/** Regex sources of one literal or an `[a, b]` array of literals starting at `index` */
+function readRegexpArgument(text: string, index: number): string[] {
+    const isArray = text[index] === '[';
+    let pos = isArray ? index + 1 : index;
+    const sources: string[] = [];
+    while (pos < text.length) {
+        while (isArray && /[\s,]/.test(text[pos] ?? '')) {
+            pos++;
+        }
+        const literal = readRubyLiteral(text, pos);
+        if (!literal) {
+            break;
+        }
+        sources.push(literal.kind === 'regex' ? rubyRegexToJs(literal.value) : literal.value);
+        pos = literal.end;
+        if (!isArray) {
+            break;
+        }
+    }
+    return sources;
+}
+
+/**
+ * Custom parameter types from `ParameterType(name: 'color', regexp: /red|blue/, …)`.
+ * `name` may be a string or a symbol, `regexp` a regex, a string or an array of those.
+ */
+export function parseRubyParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    const definitions: ParameterTypeDefinition[] = [];
+
+    for (const match of text.matchAll(PARAMETER_TYPE_REGEX)) {
+        const args = extractParenthesized(text, match.index! + match[0].length - 1);
+        if (args === null) {
+            continue;
+        }
+        const name = /(?:\bname:|:name\s*=>)\s*(?:'([^']*)'|"([^"]*)"|:(\w+))/.exec(args);
+        const regexpKey = /(?:\bregexp:|:regexp\s*=>)\s*/.exec(args);
+        if (!name || !regexpKey) {
+            continue;
+        }
+        const regexps = readRegexpArgument(args, regexpKey.index + regexpKey[0].length);
+        if (regexps.length === 0) {
+            continue;
+        }
+        definitions.push({
+            name: name[1] ?? name[2] ?? name[3],
+            regexps,
+            uri,
+            lineNumber: lineNumberAt(text, match.index!),
+            providerId: 'ruby-cucumber',
+        });
+    }
+
+    return definitions;
+}
@@ -0,0 +1,303 @@
+/**
+ * Rust cucumber-rs step definition parser.
+ *
+ * Supported forms (attributes on `fn` / `async fn` step functions, several per function):
+ * - `#[given("exact text")]` — a plain string matches the whole step text literally
+ * - `#[when(expr = "I eat {int} cukes")]` — Cucumber Expression
+ * - `#[then(regex = r"^(\d+) cukes? left$")]` — Rust regex (`regex` crate), matched as written
+ * - `#[cucumber::given(...)]`, raw strings `r"…"` / `r#"…"#`, arguments split over several lines
+ *
+ * Custom parameter types come from `#[derive(Parameter)]` types with `#[param(regex = "…", name = "…")]`.
+ */
+
+import * as vscode from 'vscode';
+import type { Binding, ParameterTypeDefinition, ResolvedKeyword } from '../domain/types';
+import { compileBindingRegex } from './bindingRegex';
+
+export interface RustCucumberParseOptions {
+    caseInsensitive?: boolean;
+}
+
+const CUCUMBER_CRATE_REGEX = /\bcucumber\b/;
+
+const STEP_ATTRIBUTE_REGEX = /#\[\s*(?:cucumber\s*::\s*)?(given|when|then)\s*\(/g;
+
+const PARAM_ATTRIBUTE_REGEX = /#\[\s*param\s*\(/g;
+
+const FUNCTION_REGEX = /\bfn\s+(\w+)\s*[<(]/;
+
+const TYPE_DECLARATION_REGEX = /\b(?:struct|enum)\s+(\w+)/;
+
+const LITERAL_ESCAPE_REGEX = /[.*+?^${}()|[\]\\]/g;
+
+const STRING_ESCAPES: Readonly<Record<string, string>> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '0': '\0',
+    '\\': '\\',
+    '"': '"',
+    "'": "'",
+};
+
+function normalizeKeyword(raw: string): ResolvedKeyword {
+    if (raw === 'given') return 'Given';
+    if (raw === 'when') return 'When';
+    return 'Then';
+}
+
+function lineNumberAt(text: string, offset: number): number {
+    return text.slice(0, offset).split('\n').length - 1;
+}
+
+/**
+ * Rust string literal at `start` (`"…"`, `r"…"`, `r#"…"#`) → value and end offset
+ */
+function readRustString(text: string, start: number): { value: string; end: number } | null {
+    const raw = /^r(#*)"/.exec(text.slice(start, start + 260));
+    if (raw) {
+        const close = '"' + raw[1];
+        const bodyStart = start + raw[0].length;
+        const bodyEnd = text.indexOf(close, bodyStart);
+        return bodyEnd === -1 ? null : { value: text.slice(bodyStart, bodyEnd), end: bodyEnd + close.length };
+    }
+    if (text[start] !== '"') {
+        return null;
+    }
+
+    let value = '';
+    let i = start + 1;
+    while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+            const next = text[i + 1];
+            const unicode = next === 'u' ? /^\\u\{([0-9a-fA-F]{1,6})\}/.exec(text.slice(i, i + 10)) : null;
+            if (unicode) {
+                value += String.fromCodePoint(parseInt(unicode[1], 16));
+                i += unicode[0].length;
+            } else if (next === '\n' || next === '\r') {
+                // line continuation: the newline and the next line's leading whitespace are dropped
+                i = i + 1 + /^\s*/.exec(text.slice(i + 1))![0].length;
+            } else {
+                value += STRING_ESCAPES[next] ?? `\\${next}`;
+                i += 2;
+            }
+            continue;
+        }
+        value += text[i];
+        i++;
+    }
+    return i < text.length ? { value, end: i + 1 } : null;
+}
+
+/** Whether a raw string (`r"…"`, `r#"…"#`, `br"…"`) starts at `i` */
+function isRawStringStart(text: string, i: number): boolean {
+    const before = text[i - 1] === 'b' ? i - 1 : i;
+    return text[i] === 'r' && /^r#*"/.test(text.slice(i, i + 260)) && !/\w/.test(text[before - 1] ?? '');
+}
+
+/**
+ * Text with comments, string and char literals blanked (offsets and line breaks kept), so the
+ * attribute scans skip `#[…]` that is commented out or quoted. Block comments nest, as in Rust.
+ */
+function maskCommentsAndStrings(text: string): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number): number => {
+        for (let k = from; k < to; k++) {
+            if (chars[k] !== '\n' && chars[k] !== '\r') {
+                chars[k] = ' ';
+            }
+        }
+        return to;
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '/' && text[i + 1] === '/') {
+            const newline = text.indexOf('\n', i);
+            i = blank(i, newline === -1 ? text.length : newline);
+        } else if (ch === '/' && text[i + 1] === '*') {
+            let depth = 0;
+            let end = i;
+            while (end < text.length) {
+                if (text.startsWith('/*', end)) {
+                    depth++;
+                    end += 2;
+                } else if (text.startsWith('*/', end)) {
+                    end += 2;
+                    if (--depth === 0) break;
+                } else {
+                    end++;
+                }
+            }
+            i = blank(i, end);
+        } else if (ch === '"' || isRawStringStart(text, i)) {
+            i = blank(i, readRustString(text, i)?.end ?? i + 1);
+        } else if (ch === "'") {
+            // char literal ('"', '\''); a lifetime (`'a`) has no closing quote
+            const literal = /^'(?:\\(?:u\{[0-9a-fA-F]{1,6}\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/.exec(text.slice(i, i + 12));
+            i = literal ? blank(i, i + literal[0].length) : i + 1;
+        } else {
+            i++;
+        }
+    }
+    return chars.join('');
+}
+
+/**
+ * Argument list of the attribute call whose `(` is at `openIndex` (string literals skipped)
+ * and the offset just past its closing `]`
+ */
+function readAttributeArguments(text: string, openIndex: number): { args: string; end: number } | null {
+    let depth = 0;
+    for (let i = openIndex; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"' || isRawStringStart(text, i)) {
+            const literal = readRustString(text, i);
+            if (!literal) return null;
+            i = literal.end - 1;
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')' && --depth === 0) {
+            const close = /^\s*\]/.exec(text.slice(i + 1));
+            return { args: text.slice(openIndex + 1, i), end: i + 1 + (close ? close[0].length : 0) };
+        }
+    }
+    return null;
+}
+
+/** `name = "…"` argument of an attribute argument list */
+function readNamedString(args: string, name: string): string | null {
+    const named = new RegExp(`(?:^|,)\\s*${name}\\s*=\\s*`).exec(args);
+    return named ? readRustString(args, named.index + named[0].length)?.value ?? null : null;
+}
+
+/** `regex` crate syntax → JS: named groups, leading `(?i)` as a flag */
+function rustRegexToJs(pattern: string): { source: string; caseInsensitive: boolean } {
+    const flags = /^\(\?([a-zA-Z]+)\)/.exec(pattern);
+    const source = (flags ? pattern.slice(flags[0].length) : pattern).replace(/\(\?P<(\w+)>/g, '(?<$1>');
+    return { source, caseInsensitive: !!flags?.[1].includes('i') };
+}
+
+/**
+ * The step pattern of an attribute argument list; `expressionType` follows the argument name
+ * (plain string → literal, `expr =` → Cucumber Expression, `regex =` → regex).
+ */
+function readStepPattern(
+    args: string,
+    caseInsensitive: boolean
+): { patternRaw: string; regex: RegExp; expressionType?: 'regex' | 'cucumber' } | null {
+    const expr = readNamedString(args, 'expr');
+    if (expr !== null) {
+        const regex = compileBindingRegex(expr, { caseInsensitive, expressionType: 'cucumber' });
+        return regex ? { patternRaw: expr, regex, expressionType: 'cucumber' } : null;
+    }
+
+    const regexArg = readNamedString(args, 'regex');
+    if (regexArg !== null) {
+        const converted = rustRegexToJs(regexArg);
+        const regex = compileBindingRegex(converted.source, {
+            caseInsensitive: caseInsensitive || converted.caseInsensitive,
+            expressionType: 'regex',
+        });
+        return regex ? { patternRaw: converted.source, regex, expressionType: 'regex' } : null;
+    }
+
+    const literal = readRustString(args, /^\s*/.exec(args)![0].length);
+    if (!literal) {
+        return null;
+    }
+    const regex = compileBindingRegex(literal.value.replace(LITERAL_ESCAPE_REGEX, '\\$&'), {
+        caseInsensitive,
+        expressionType: 'regex',
+    });
+    return regex ? { patternRaw: literal.value, regex } : null;
+}
+
+/** The function declared after the attribute ending at `offset` (other attributes in between) */
+function findFunctionName(text: string, offset: number): string {
+    const window = text.slice(offset, offset + 800);
+    const fn = FUNCTION_REGEX.exec(window);
+    if (!fn || /[;{}]/.test(window.slice(0, fn.index).replace(/#\[(?:[^\]"]|"(?:\\.|[^"\\])*")*\]/g, ''))) {
+        return 'step';
+    }
+    return fn[1];
+}
+
+export function parseRustCucumberBindingsFromText(
+    text: string,
+    uri: vscode.Uri,
+    options: RustCucumberParseOptions = {}
+): Binding[] {
+    if (!CUCUMBER_CRATE_REGEX.test(text)) {
+        return [];
+    }
+
+    const lines = text.split('\n');
+    const moduleName = uri.fsPath.split(/[/\\]/).pop()?.replace(/\.rs$/, '') ?? 'steps';
+    const caseInsensitive = options.caseInsensitive ?? false;
+    const bindings: Binding[] = [];
+
+    for (const match of maskCommentsAndStrings(text).matchAll(STEP_ATTRIBUTE_REGEX)) {
+        const attribute = readAttributeArguments(text, match.index! + match[0].length - 1);
+        const pattern = attribute ? readStepPattern(attribute.args, caseInsensitive) : null;
+        if (!attribute || !pattern) {
+            continue;
+        }
+
+        const keyword = normalizeKeyword(match[1]);
+        const lineNumber = lineNumberAt(text, match.index!);
+        const lineText = lines[lineNumber] ?? '';
+
+        bindings.push({
+            keyword,
+            patternRaw: pattern.patternRaw,
+            regex: pattern.regex,
+            className: moduleName,
+            methodName: findFunctionName(text, attribute.end),
+            uri,
+            range: new vscode.Range(lineNumber, 0, lineNumber, lineText.length),
+            lineNumber,
+            signature: `${uri.fsPath}:${lineNumber}:${keyword}`,
+            scopeTags: [],
+            providerId: 'rust-cucumber',
+            ...(pattern.expressionType ? { expressionType: pattern.expressionType } : {}),
+        });
+    }
+
+    return bindings;
+}
+
+/**
+ * Custom parameter types from `#[param(regex = "…")]` on `#[derive(Parameter)]` types.
+ * The name defaults to the lowercased type name.
+ */
+export function parseRustCucumberParameterTypesFromText(text: string, uri: vscode.Uri): ParameterTypeDefinition[] {
+    if (!CUCUMBER_CRATE_REGEX.test(text) || !/\bParameter\b/.test(text)) {
+        return [];
+    }
+
+    const definitions: ParameterTypeDefinition[] = [];
+
+    for (const match of maskCommentsAndStrings(text).matchAll(PARAM_ATTRIBUTE_REGEX)) {
+        const attribute = readAttributeArguments(text, match.index! + match[0].length - 1);
+        const regexp = attribute && readNamedString(attribute.args, 'regex');
+        if (!attribute || regexp === null) {
+            continue;
+        }
+        const declaration = TYPE_DECLARATION_REGEX.exec(text.slice(attribute.end));
+        const name = readNamedString(attribute.args, 'name') ?? declaration?.[1].toLowerCase();
+        if (!name) {
+            continue;
+        }
+        definitions.push({
+            name,
+            regexps: [rustRegexToJs(regexp).source],
+            uri,
+            lineNumber: lineNumberAt(text, match.index!),
+            providerId: 'rust-cucumber',
+        });
+    }
+
+    return definitions;
+}
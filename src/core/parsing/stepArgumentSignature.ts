@@ -0,0 +1,201 @@
+/**
+ * Step argument signature
+ * Decides whether a step definition takes a data table / doc string after its pattern parameters,
+ * from the parameter list of the method (C#, Java, Kotlin, PHP), function (JS/TS), handler (Go) or block (Ruby).
+ */
+
+import type { BindingStepArgument } from '../domain/types';
+import { countCaptureGroups, type BindingExpressionType } from './bindingRegex';
+import { looksLikeCucumberExpression } from './cucumberExpression';
+
+export type SignatureLanguage = 'csharp' | 'java' | 'kotlin' | 'php' | 'js' | 'go' | 'ruby';
+
+const DATA_TABLE_TYPES: Record<SignatureLanguage, RegExp> = {
+    csharp: /^(?:[\w.]+\.)?(?:DataTable|Table)$|^(?:[\w.]+\.)?I?(?:Enumerable|List|ReadOnlyList|Collection|ReadOnlyCollection)<.+>$|\[\]$/,
+    java: /^(?:[\w.]+\.)?DataTable$|^(?:[\w.]+\.)?(?:List|Map|Collection|Iterable)<.+>$|\[\]$/,
+    kotlin: /^(?:[\w.]+\.)?DataTable\??$|^(?:[\w.]+\.)?(?:List|Map|Collection|Iterable|Array)<.+>\??$/,
+    php: /^\??\\?(?:\w+\\)*TableNode$/,
+    js: /^(?:[\w.]+\.)?DataTable$/,
+    go: /^\*(?:godog\.Table|messages\.PickleTable)$/,
+    ruby: /^(?:\w+_)?table$/,
+};
+
+const DOC_STRING_TYPES: Record<SignatureLanguage, RegExp> = {
+    csharp: /^(?:string|String|System\.String)$/,
+    java: /^(?:[\w.]+\.)?(?:DocString|String)$/,
+    kotlin: /^(?:[\w.]+\.)?(?:DocString|String)\??$/,
+    php: /^\??\\?(?:\w+\\)*PyStringNode$/,
+    js: /^string$/,
+    go: /^\*(?:godog\.DocString|messages\.PickleDocString)$/,
+    ruby: /^(?:\w+_)?doc_?string$/,
+};
+
+/**
+ * Number of parameters a pattern passes to its step definition
+ * (`{…}` for Cucumber Expressions, capture groups for regex).
+ */
+export function countPatternParameters(
+    patternRaw: string,
+    expressionType: BindingExpressionType = 'auto'
+): number {
+    const isCucumber =
+        expressionType === 'cucumber' ||
+        (expressionType === 'auto' && looksLikeCucumberExpression(patternRaw));
+    if (!isCucumber) {
+        return countCaptureGroups(patternRaw);
+    }
+    const params = patternRaw.match(/(?<!\\)\{[^{}]*\}/g);
+    return params?.length ?? 0;
+}
+
+/**
+ * Classify the step argument from parameter types (`undefined` type = untyped parameter).
+ * Returns undefined when the parameter count does not fit the pattern, and for an untyped extra
+ * JS/TS parameter (a table or doc string, or the `done` callback of callback-style steps).
+ */
+export function classifyStepArgument(
+    parameterTypes: readonly (string | undefined)[],
+    patternParameters: number,
+    language: SignatureLanguage
+): BindingStepArgument | undefined {
+    if (parameterTypes.length === patternParameters) {
+        return 'none';
+    }
+    if (parameterTypes.length !== patternParameters + 1) {
+        return undefined;
+    }
+    const type = parameterTypes[parameterTypes.length - 1]?.replace(/\s+/g, '');
+    if (!type) {
+        return language === 'js' ? undefined : 'any';
+    }
+    if (DATA_TABLE_TYPES[language].test(type)) {
+        return 'dataTable';
+    }
+    if (DOC_STRING_TYPES[language].test(type)) {
+        return 'docString';
+    }
+    return 'any';
+}
+
+/**
+ * Text between the parenthesis at `openIndex` and its matching `)`, or null if unbalanced.
+ */
+export function extractParenthesized(text: string, openIndex: number): string | null {
+    let depth = 0;
+    for (let i = openIndex; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth === 0) {
+                return text.slice(openIndex + 1, i);
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Split a parameter list on top-level commas (generics, arrays and defaults kept intact).
+ */
+export function splitParameters(list: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of list) {
+        if (ch === '<' || ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === '>' || ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        }
+        if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    if (current.trim()) {
+        parts.push(current.trim());
+    }
+    return parts;
+}
+
+/**
+ * Parameter types of a C#/Java parameter list (`Type name`, annotations and modifiers dropped).
+ */
+export function typedParameterTypes(list: string): string[] {
+    return splitParameters(list).map((param) => {
+        const cleaned = param
+            .replace(/\[[^\]]*\]\s*/g, (m) => (/^\[\s*\]/.test(m) ? m : ''))
+            .replace(/@\w+(?:\([^)]*\))?\s*/g, '')
+            .replace(/=.*$/, '')
+            .replace(/\b(?:ref|out|in|params|final|this)\s+/g, '')
+            .trim();
+        const nameStart = cleaned.search(/\w+$/);
+        return (nameStart > 0 ? cleaned.slice(0, nameStart) : cleaned).trim();
+    });
+}
+
+/**
+ * Parameter types of a JS/TS parameter list (undefined for untyped parameters).
+ * A TypeScript `this: World` parameter is not a step parameter and is dropped.
+ */
+export function jsParameterTypes(list: string): (string | undefined)[] {
+    return splitParameters(list)
+        .filter((param) => !/^this\s*:/.test(param))
+        .map((param) => {
+            const withoutDefault = param.replace(/=.*$/, '');
+            const colon = withoutDefault.indexOf(':');
+            return colon >= 0 ? withoutDefault.slice(colon + 1).trim() : undefined;
+        });
+}
+
+/**
+ * Parameter types of a Kotlin parameter list (`name: Type`, annotations and defaults dropped).
+ */
+export function kotlinParameterTypes(list: string): (string | undefined)[] {
+    return splitParameters(list).map((param) => {
+        const withoutDefault = param.replace(/=.*$/, '');
+        const colon = withoutDefault.indexOf(':');
+        return colon >= 0 ? withoutDefault.slice(colon + 1).trim() : undefined;
+    });
+}
+
+/**
+ * Parameter types of a PHP parameter list (`?Type $name = default`; untyped → undefined).
+ */
+export function phpParameterTypes(list: string): (string | undefined)[] {
+    return splitParameters(list).map((param) => {
+        const typed = /^(?:#\[[^\]]*\]\s*)*(?:(?:public|protected|private|readonly)\s+)*(.*?)\s*&?\s*(?:\.\.\.)?\$\w+/.exec(param.trim());
+        return typed?.[1] ? typed[1] : undefined;
+    });
+}
+
+/**
+ * Parameter types of a Go parameter list; grouped names (`a, b string`) share the type.
+ * A leading `context.Context` is not a step parameter and is dropped.
+ */
+export function goParameterTypes(list: string): string[] {
+    const parts = splitParameters(list).map((p) => p.split(/\s+/));
+    const types: string[] = [];
+    let pendingType = '';
+    for (let i = parts.length - 1; i >= 0; i--) {
+        if (parts[i].length > 1) {
+            pendingType = parts[i].slice(1).join('');
+        }
+        types.unshift(pendingType);
+    }
+    return types[0] === 'context.Context' ? types.slice(1) : types;
+}
+
+/**
+ * Block parameters of a Ruby step (`|count, table|`). Ruby has no parameter types, so the names stand in
+ * for them: Cucumber's snippets call the last parameter `table` or `doc_string`. `&block` is dropped.
+ */
+export function rubyParameterTypes(list: string): string[] {
+    return splitParameters(list)
+        .filter((param) => param !== '' && !param.startsWith('&'))
+        .map((param) => param.replace(/^\*+|\s*=.*$/g, '').trim());
+}
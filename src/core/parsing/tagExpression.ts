@@ -0,0 +1,184 @@
+/**
+ * Cucumber tag expressions: `@smoke and not (@wip or @flaky)`.
+ *
+ * Precedence: `not` binds tighter than `and`, which binds tighter than `or`.
+ * Tags are compared case-insensitively, like Scope tags and the legacy tag filter.
+ */
+
+import type { FeatureStep, TagFilterMode } from '../domain/types';
+
+export type TagExpression =
+    | { readonly kind: 'tag'; readonly tag: string }
+    | { readonly kind: 'not'; readonly operand: TagExpression }
+    | { readonly kind: 'and' | 'or'; readonly left: TagExpression; readonly right: TagExpression };
+
+interface Token {
+    readonly text: string;
+    /** 1-based column where the token starts */
+    readonly column: number;
+    readonly isOperator: boolean;
+}
+
+const OPERATORS = new Set(['and', 'or', 'not', '(', ')']);
+
+/**
+ * Parse a tag expression. Returns null for an empty expression (matches everything).
+ * Throws an Error naming the problem and its column for invalid input.
+ */
+export function parseTagExpression(text: string): TagExpression | null {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) {
+        return null;
+    }
+
+    let pos = 0;
+    const fail = (message: string, token?: Token): never => {
+        const column = token?.column ?? text.length + 1;
+        throw new Error(`Invalid tag expression "${text}": ${message} (column ${column})`);
+    };
+    const peek = (): Token | undefined => tokens[pos];
+    const isOperator = (token: Token | undefined, op: string) => token?.isOperator === true && token.text === op;
+
+    const parseOr = (): TagExpression => {
+        let left = parseAnd();
+        while (isOperator(peek(), 'or')) {
+            pos++;
+            left = { kind: 'or', left, right: parseAnd() };
+        }
+        return left;
+    };
+
+    const parseAnd = (): TagExpression => {
+        let left = parseUnary();
+        while (isOperator(peek(), 'and')) {
+            pos++;
+            left = { kind: 'and', left, right: parseUnary() };
+        }
+        return left;
+    };
+
+    const parseUnary = (): TagExpression => {
+        const token = peek();
+        if (!token) {
+            const previous = tokens[pos - 1];
+            return fail(`expected a tag after "${previous.text}"`);
+        }
+        if (isOperator(token, 'not')) {
+            pos++;
+            return { kind: 'not', operand: parseUnary() };
+        }
+        if (isOperator(token, '(')) {
+            pos++;
+            const inner = parseOr();
+            if (!isOperator(peek(), ')')) {
+                return fail('missing ")"', peek());
+            }
+            pos++;
+            return inner;
+        }
+        if (token.isOperator) {
+            return fail(`expected a tag but found "${token.text}"`, token);
+        }
+        if (!token.text.startsWith('@')) {
+            return fail(`tags must start with "@" (found "${token.text}")`, token);
+        }
+        pos++;
+        return { kind: 'tag', tag: token.text };
+    };
+
+    const expression = parseOr();
+    const extra = peek();
+    if (extra) {
+        fail(
+            isOperator(extra, ')') ? 'unmatched ")"' : `expected "and" or "or" before "${extra.text}"`,
+            extra
+        );
+    }
+    return expression;
+}
+
+/**
+ * True when the tags satisfy the expression (null matches everything).
+ */
+export function evaluateTagExpression(expression: TagExpression | null, tags: readonly string[]): boolean {
+    if (!expression) {
+        return true;
+    }
+    switch (expression.kind) {
+        case 'tag': {
+            const wanted = expression.tag.toLowerCase();
+            return tags.some((t) => t.toLowerCase() === wanted);
+        }
+        case 'not':
+            return !evaluateTagExpression(expression.operand, tags);
+        case 'and':
+            return evaluateTagExpression(expression.left, tags) && evaluateTagExpression(expression.right, tags);
+        case 'or':
+            return evaluateTagExpression(expression.left, tags) || evaluateTagExpression(expression.right, tags);
+    }
+}
+
+/**
+ * The part of a step the expression selects, or null. Outline steps are selected per Examples row
+ * (step tags plus Examples block tags): only the matching rows are kept.
+ */
+export function selectStepByTags(expression: TagExpression | null, step: FeatureStep): FeatureStep | null {
+    if (!expression) {
+        return step;
+    }
+    const rows = step.exampleRows ?? [];
+    if (rows.length === 0) {
+        return evaluateTagExpression(expression, step.tagsEffective) ? step : null;
+    }
+    const selected = rows.filter((row) => evaluateTagExpression(expression, row.tags));
+    if (selected.length === 0) {
+        return null;
+    }
+    return selected.length === rows.length ? step : { ...step, exampleRows: selected };
+}
+
+/**
+ * Expression for the legacy list filter: include → `a or b`, exclude → `not (a or b)`.
+ * List entries may themselves be expressions.
+ */
+export function tagListToExpression(tags: readonly string[], mode: TagFilterMode): string {
+    const entries = tags.map((t) => t.trim()).filter((t) => t.length > 0);
+    if (entries.length === 0) {
+        return '';
+    }
+    const any = entries.length === 1 ? entries[0] : entries.map((t) => `(${t})`).join(' or ');
+    return mode === 'exclude' ? `not (${any})` : any;
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (ch === '(' || ch === ')') {
+            tokens.push({ text: ch, column: i + 1, isOperator: true });
+            i++;
+            continue;
+        }
+        const start = i;
+        let word = '';
+        while (i < text.length && !/[\s()]/.test(text[i])) {
+            if (text[i] === '\\') {
+                if (i + 1 >= text.length) {
+                    throw new Error(`Invalid tag expression "${text}": dangling "\\" (column ${i + 1})`);
+                }
+                word += text[i + 1];
+                i += 2;
+                continue;
+            }
+            word += text[i++];
+        }
+        const escaped = i - start !== word.length;
+        tokens.push({ text: word, column: start + 1, isOperator: !escaped && OPERATORS.has(word) });
+    }
+    return tokens;
+}
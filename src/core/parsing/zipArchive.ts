@@ -0,0 +1,79 @@
+/**
+ * Minimal ZIP reader for source jars: text entries of stored or deflated members.
+ *
+ * Reads the central directory (ZIP64 and encrypted archives are not supported: such entries are
+ * skipped). Entry names keep their archive form (`com/shop/steps/LoginSteps.java`).
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** UTF-8 text of the entries `accept` selects; an unreadable archive yields no entries */
+export function readZipTextEntries(data: Uint8Array, accept: (name: string) => boolean): Map<string, string> {
+    const entries = new Map<string, string>();
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    const end = findEndOfCentralDirectory(buffer);
+    if (end < 0) {
+        return entries;
+    }
+
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    for (let i = 0; i < count && offset + 46 <= buffer.length; i++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_FILE_HEADER) {
+            break;
+        }
+        const flags = buffer.readUInt16LE(offset + 8);
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        const encrypted = (flags & 1) !== 0;
+        if (name.endsWith('/') || encrypted || !accept(name)) {
+            continue;
+        }
+        const content = readEntry(buffer, localOffset, method, compressedSize);
+        if (content !== null) {
+            entries.set(name, content);
+        }
+    }
+    return entries;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+    // the record is 22 bytes plus a comment of up to 64 KiB
+    const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+    for (let i = buffer.length - 22; i >= earliest; i--) {
+        if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function readEntry(buffer: Buffer, localOffset: number, method: number, compressedSize: number): string | null {
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        return null;
+    }
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(start, start + compressedSize);
+    try {
+        if (method === 0) {
+            return raw.toString('utf8');
+        }
+        if (method === 8) {
+            return inflateRawSync(raw).toString('utf8');
+        }
+    } catch {
+        // corrupt member
+    }
+    return null;
+}
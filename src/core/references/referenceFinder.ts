@@ -66,6 +66,7 @@ export function findReferencesForBinding(
 
 /**
  * Bindings with zero feature-step usages (same rules as binding CodeLens).
+ * Shared library bindings are never orphans: other consumers of the library may use them.
  */
 export function listOrphanBindings(
     bindings: readonly Binding[],
@@ -74,6 +75,9 @@ export function listOrphanBindings(
 ): Binding[] {
     const orphans: Binding[] = [];
     for (const binding of bindings) {
+        if (binding.library) {
+            continue;
+        }
         if (findReferencesForBinding(binding, allSteps, resolve).length === 0) {
             orphans.push(binding);
         }
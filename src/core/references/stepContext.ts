@@ -4,12 +4,12 @@
 
 import * as vscode from 'vscode';
 import { parseFeatureDocument } from '../parsing/gherkinParser';
-import type { FeatureStep, ResolvedKeyword, StepKeyword, ResolveResult } from '../domain/types';
+import { isContinuationKeyword, matchGherkinStepLine, resolveGherkinDialect } from '../parsing/gherkinDialects';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
+import type { FeatureStep, ResolvedKeyword, ResolveResult } from '../domain/types';
 import { normalizeWhitespace } from '../matching/normalization';
 import type { createResolver } from '../matching/resolver';
 
-const STEP_LINE_REGEX = /^\s*(Given|When|Then|And|But)\s+(.+)$/i;
-
 /** Build a minimal TextDocument for headless / disk-read feature parsing. */
 export function featureTextDocument(uri: vscode.Uri, text: string): vscode.TextDocument {
     const lines = text.split('\n');
@@ -42,26 +42,6 @@ export function getStepAtPositionFromContent(
     );
 }
 
-function resolveKeyword(keyword: string, previous: ResolvedKeyword): ResolvedKeyword {
-    const lower = keyword.toLowerCase();
-    if (lower === 'given') return 'Given';
-    if (lower === 'when') return 'When';
-    if (lower === 'then') return 'Then';
-    return previous;
-}
-
-function normalizeStepKeyword(keyword: string): StepKeyword {
-    const lower = keyword.toLowerCase();
-    switch (lower) {
-        case 'given': return 'Given';
-        case 'when': return 'When';
-        case 'then': return 'Then';
-        case 'and': return 'And';
-        case 'but': return 'But';
-        default: return 'Given';
-    }
-}
-
 /**
  * Prefer full parse (Scenario Outline candidates); fall back to single-line parse.
  */
@@ -77,23 +57,24 @@ export function getStepAtPosition(
         }
     }
 
+    const dialect = resolveGherkinDialect(document.getText(), getDefaultGherkinLanguage(document.uri));
     const line = document.lineAt(position.line).text;
-    const stepMatch = line.match(STEP_LINE_REGEX);
+    const stepMatch = matchGherkinStepLine(line, dialect);
     if (!stepMatch) {
         return undefined;
     }
 
-    const keywordOriginal = normalizeStepKeyword(stepMatch[1]);
-    const rawText = stepMatch[2].trim();
+    const keywordOriginal = stepMatch.keyword;
+    const rawText = stepMatch.text;
 
     let keywordResolved: ResolvedKeyword = 'Given';
-    if (keywordOriginal !== 'And' && keywordOriginal !== 'But') {
-        keywordResolved = keywordOriginal as ResolvedKeyword;
+    if (!isContinuationKeyword(keywordOriginal)) {
+        keywordResolved = keywordOriginal;
     } else {
         for (let i = position.line - 1; i >= 0; i--) {
-            const prev = document.lineAt(i).text.match(STEP_LINE_REGEX);
-            if (prev) {
-                keywordResolved = resolveKeyword(prev[1], 'Given');
+            const prev = matchGherkinStepLine(document.lineAt(i).text, dialect);
+            if (prev && !isContinuationKeyword(prev.keyword)) {
+                keywordResolved = prev.keyword;
                 break;
             }
         }
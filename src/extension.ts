@@ -3,11 +3,15 @@
  */
 
 import * as vscode from 'vscode';
-import { WorkspaceIndex, IndexManager, FileWatchers } from './core/index';
+import { WorkspaceIndex, IndexManager, FileWatchers, LIBRARY_SCHEME } from './core/index';
 import { FILE_WATCHER_DEBOUNCE_MS } from './core/domain/constants';
-import { getConfig, invalidateConfigCache } from './config';
+import { getConfig, getTagFilterError, invalidateConfigCache } from './config';
 import {
     createDefinitionProvider,
+    createLibraryDocumentProvider,
+    createParameterTypeDefinitionProvider,
+    createPytestBddFeatureLinkProvider,
+    createPlaywrightBddFeatureLinkProvider,
     createReferenceProvider,
     createCodeLensProvider,
     createHoverProvider,
@@ -38,6 +42,8 @@ import { t, refreshLanguage } from './i18n';
 import { createGuardianIndexApi, type GuardianIndexApiV1 } from './api';
 import { showZeroBindingsHintIfNeeded } from './features/onboarding';
 import { BindingCodeActionsProvider, registerAuthorCommands, StepCompletionProvider } from './features/author';
+import { FeatureFormattingProvider } from './features/formatting';
+import { FEATURE_DOCUMENT_SELECTORS } from './features/navigation/documentSelectors';
 
 let indexManager: IndexManager;
 let workspaceIndex: WorkspaceIndex;
@@ -69,7 +75,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<Guardi
         () => { refreshAllUI(); }
     );
 
+    context.subscriptions.push(createLibraryDocumentProvider(indexManager));
     context.subscriptions.push(createDefinitionProvider(indexManager));
+    context.subscriptions.push(createParameterTypeDefinitionProvider(indexManager));
+    context.subscriptions.push(createPytestBddFeatureLinkProvider(indexManager));
+    context.subscriptions.push(createPlaywrightBddFeatureLinkProvider());
     context.subscriptions.push(createReferenceProvider(indexManager));
     context.subscriptions.push(createHoverProvider(indexManager));
     
@@ -87,6 +97,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<Guardi
                 { language: 'javascript', scheme: 'file' },
                 { language: 'python', scheme: 'file' },
                 { language: 'go', scheme: 'file' },
+                { language: 'kotlin', scheme: 'file' },
+                { language: 'php', scheme: 'file' },
+                { language: 'rust', scheme: 'file' },
+                { language: 'ruby', scheme: 'file' },
+                { scheme: LIBRARY_SCHEME },
             ],
             bindingCodeLensProvider
         )
@@ -150,6 +165,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<Guardi
         )
     );
 
+    const featureFormattingProvider = new FeatureFormattingProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider(FEATURE_DOCUMENT_SELECTORS, featureFormattingProvider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(FEATURE_DOCUMENT_SELECTORS, featureFormattingProvider)
+    );
+
     registerCommands(context);
     registerEventHandlers(context);
 
@@ -162,6 +183,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<Guardi
         getNavigationHistory()
     );
 
+    reportTagFilterError();
     await performInitialIndexing(context);
     fileWatchers.start();
 
@@ -248,6 +270,8 @@ async function showAmbiguousMatches(): Promise<void> {
     const deps: ResolverDependencies = {
         getAllBindings: () => allBindings,
         getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+        glueScopes: index.getGlueScopes(),
+        projects: index.getProjects(),
     };
     const resolve = createResolver(applyMatchingSettings(deps));
     const step = getStepAtPosition(document, position);
@@ -359,16 +383,27 @@ function registerEventHandlers(context: vscode.ExtensionContext): void {
             if (
                 e.affectsConfiguration('reqnrollNavigator') ||
                 e.affectsConfiguration('bddGuardian.providers') ||
+                e.affectsConfiguration('bddGuardian.gherkin') ||
                 e.affectsConfiguration('bddGuardian.ui') ||
                 e.affectsConfiguration('bddGuardian.authorActions') ||
-                e.affectsConfiguration('bddGuardian.orphanBindings')
+                e.affectsConfiguration('bddGuardian.orphanBindings') ||
+                e.affectsConfiguration('bddGuardian.matching') ||
+                e.affectsConfiguration('bddGuardian.bindingRoots')
             ) {
                 invalidateConfigCache();
+                if (e.affectsConfiguration('reqnrollNavigator.tagFilter') || e.affectsConfiguration('reqnrollNavigator.tagFilterMode')) {
+                    reportTagFilterError();
+                }
                 codeLensProvider.refresh();
                 bindingCodeLensProvider.refresh();
                 updateAllDiagnostics();
                 orphanBindingsDiagnostics.refresh();
-                if (e.affectsConfiguration('bddGuardian.providers')) {
+                if (
+                    e.affectsConfiguration('bddGuardian.providers') ||
+                    e.affectsConfiguration('bddGuardian.gherkin') ||
+                    e.affectsConfiguration('bddGuardian.bindingRoots') ||
+                    e.affectsConfiguration('reqnrollNavigator.maxExampleRows')
+                ) {
                     void performInitialIndexing(context).then(() => refreshAllUI());
                 }
             }
@@ -413,6 +448,14 @@ async function performInitialIndexing(context?: vscode.ExtensionContext): Promis
     }
 }
 
+function reportTagFilterError(): void {
+    const error = getTagFilterError();
+    if (error) {
+        outputChannel.appendLine(error);
+        void vscode.window.showWarningMessage(t('tagFilterInvalid', error));
+    }
+}
+
 function updateAllDiagnostics(): void {
     vscode.workspace.textDocuments.forEach((doc) => {
         if (isFeatureFile(doc)) diagnosticsEngine.analyzeFile(doc);
@@ -71,7 +71,7 @@ async function copySnippet(ref: AuthorStepRef): Promise<void> {
     if (!doc) {
         return;
     }
-    const ctx = resolveAuthorStepContext(doc, ref.line);
+    const ctx = resolveAuthorStepContext(doc, ref.line, ref.rowLine);
     if (!ctx) {
         return;
     }
@@ -85,7 +85,7 @@ async function copyPattern(ref: AuthorStepRef): Promise<void> {
     if (!doc) {
         return;
     }
-    const ctx = resolveAuthorStepContext(doc, ref.line);
+    const ctx = resolveAuthorStepContext(doc, ref.line, ref.rowLine);
     if (!ctx) {
         return;
     }
@@ -98,21 +98,18 @@ async function generateBinding(ref: AuthorStepRef, indexManager: IndexManager):
     if (!doc) {
         return;
     }
-    const ctx = resolveAuthorStepContext(doc, ref.line);
+    const ctx = resolveAuthorStepContext(doc, ref.line, ref.rowLine);
     if (!ctx) {
         return;
     }
 
     const selection = getProviderManager().getCachedSelection();
-    const framework = resolveHoverFrameworkContext({ selection });
+    let framework = resolveHoverFrameworkContext({ selection });
     if (!supportsScaffoldInsert(framework.snippetKind)) {
         vscode.window.showInformationMessage(t('bindingScaffoldNoTarget'));
         return;
     }
 
-    const methodName = sanitizeMethodName(ctx.keyword, ctx.stepText);
-    const snippetCode = buildAuthorSnippetText(ctx.stepText, ctx.keyword, methodName);
-
     const bindingPaths = [
         ...new Set(
             indexManager
@@ -123,6 +120,13 @@ async function generateBinding(ref: AuthorStepRef, indexManager: IndexManager):
     ];
 
     const targetPath = pickScaffoldTargetPath(framework.snippetKind, bindingPaths);
+    if (targetPath) {
+        // Java and Kotlin glue share a provider: the target file decides the scaffold language
+        framework = resolveHoverFrameworkContext({ selection, bindingUriPath: targetPath });
+    }
+
+    const methodName = sanitizeMethodName(ctx.keyword, ctx.stepText);
+    const snippetCode = buildAuthorSnippetText(ctx.stepText, ctx.keyword, methodName, framework.snippetKind);
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
     if (!workspaceFolder) {
@@ -213,7 +217,7 @@ function resolveBraceInsertLine(
     snippetKind: ReturnType<typeof resolveHoverFrameworkContext>['snippetKind'],
     content: string
 ): number | null {
-    if (snippetKind === 'java-cucumber') {
+    if (snippetKind === 'java-cucumber' || snippetKind === 'kotlin-cucumber' || snippetKind === 'php-behat') {
         return findJavaStepClassInsertLine(content);
     }
     if (snippetKind === 'go-godog') {
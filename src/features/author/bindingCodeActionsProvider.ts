@@ -8,12 +8,16 @@ import { getProviderManager } from '../../providers/bindings';
 import {
     buildUnboundBindingSnippet,
     resolveHoverFrameworkContext,
+    SnippetKind,
     suggestBindingPattern,
 } from '../hovers/bindingSnippets';
 import { t } from '../../i18n';
 import {
+    authorStepRefFromDiagnostic,
+    authorStepText,
     isUnboundBindingDiagnostic,
     supportsScaffoldInsert,
+    type AuthorStepRef,
 } from './scaffoldInsert';
 import {
     isPilotExtensionInstalled,
@@ -21,7 +25,7 @@ import {
     resolvePilotHandoffAction,
 } from '../ecosystem';
 
-export { isUnboundBindingDiagnostic } from './scaffoldInsert';
+export { isUnboundBindingDiagnostic, type AuthorStepRef } from './scaffoldInsert';
 
 export class BindingCodeActionsProvider implements vscode.CodeActionProvider {
     static readonly providedCodeActionKinds = [
@@ -45,9 +49,7 @@ export class BindingCodeActionsProvider implements vscode.CodeActionProvider {
         }
 
         const actions: vscode.CodeAction[] = [];
-        const diagnostic = unboundDiagnostics[0];
-        const line = diagnostic.range.start.line;
-        const args = { documentUri: document.uri.toString(), line };
+        const args: AuthorStepRef = authorStepRefFromDiagnostic(document.uri.toString(), unboundDiagnostics[0]);
 
         const copySnippet = new vscode.CodeAction(
             t('codeActionCopySnippet'),
@@ -121,31 +123,28 @@ export function isAuthorActionsEnabled(): boolean {
     return vscode.workspace.getConfiguration('bddGuardian.authorActions').get<boolean>('enabled', true);
 }
 
-export interface AuthorStepRef {
-    documentUri: string;
-    line: number;
-}
-
 export function resolveAuthorStepContext(
     document: vscode.TextDocument,
-    line: number
+    line: number,
+    rowLine?: number
 ): { stepText: string; keyword: import('../../core/domain').ResolvedKeyword } | null {
     const step = getStepAtPosition(document, new vscode.Position(line, 0));
     if (!step) {
         return null;
     }
-    return { stepText: step.rawText, keyword: step.keywordResolved };
+    return { stepText: authorStepText(step, rowLine), keyword: step.keywordResolved };
 }
 
 export function buildAuthorSnippetText(
     stepText: string,
     keyword: import('../../core/domain').ResolvedKeyword,
-    methodName?: string
+    methodName?: string,
+    snippetKind?: SnippetKind
 ): string {
     const selection = getProviderManager().getCachedSelection();
-    const framework = resolveHoverFrameworkContext({ selection });
+    const kind = snippetKind ?? resolveHoverFrameworkContext({ selection }).snippetKind;
     const pattern = suggestBindingPattern(stepText);
-    const snippet = buildUnboundBindingSnippet(framework.snippetKind, keyword, pattern);
+    const snippet = buildUnboundBindingSnippet(kind, keyword, pattern);
     if (methodName && snippet.code.includes('public void Step()')) {
         return snippet.code.replace('public void Step()', `public void ${methodName}()`);
     }
@@ -155,6 +154,16 @@ export function buildAuthorSnippetText(
             `public void ${methodName}()`
         );
     }
+    if (methodName && snippet.code.includes('public function stepDefinition()')) {
+        return snippet.code.replace('public function stepDefinition()', `public function ${methodName}()`);
+    }
+    if (methodName && snippet.code.includes('fun stepDefinition()')) {
+        return snippet.code.replace('fun stepDefinition()', `fun ${methodName}()`);
+    }
+    if (methodName && snippet.code.includes('async fn step_definition(')) {
+        const snakeName = methodName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+        return snippet.code.replace('async fn step_definition(', `async fn ${snakeName}(`);
+    }
     if (methodName && snippet.code.includes('def step_definition(context)')) {
         return snippet.code.replace(
             'def step_definition(context)',
@@ -4,6 +4,7 @@
 
 import { SnippetKind } from '../hovers/bindingSnippets';
 import { BINDINGS_DIAGNOSTIC_SOURCE, UNBOUND_STEP_DIAGNOSTIC_CODE } from '../../core/domain/constants';
+import type { FeatureStep } from '../../core/domain/types';
 
 export { UNBOUND_STEP_DIAGNOSTIC_CODE };
 
@@ -17,20 +18,62 @@ export function isUnboundBindingDiagnostic(diagnostic: {
     return diagnostic.code === UNBOUND_STEP_DIAGNOSTIC_CODE;
 }
 
+export interface AuthorStepRef {
+    documentUri: string;
+    /** Line of the step */
+    line: number;
+    /** Line of the Examples row the diagnostic is on (row-level unbound diagnostics) */
+    rowLine?: number;
+}
+
+/**
+ * Step reference of an unbound diagnostic. Examples row diagnostics point at their outline step
+ * through their first related information.
+ */
+export function authorStepRefFromDiagnostic(
+    documentUri: string,
+    diagnostic: {
+        range: { start: { line: number } };
+        relatedInformation?: ReadonlyArray<{ location: { range: { start: { line: number } } } }>;
+    }
+): AuthorStepRef {
+    const step = diagnostic.relatedInformation?.[0]?.location;
+    return step
+        ? { documentUri, line: step.range.start.line, rowLine: diagnostic.range.start.line }
+        : { documentUri, line: diagnostic.range.start.line };
+}
+
+/** Text to author a binding for: the Examples row's expanded text, else the step text */
+export function authorStepText(step: FeatureStep, rowLine?: number): string {
+    const row = rowLine === undefined ? undefined : step.exampleRows?.find((r) => r.lineNumber === rowLine);
+    return row?.text ?? step.rawText;
+}
+
 export function supportsScaffoldInsert(snippetKind: SnippetKind): boolean {
     return (
         snippetKind === 'csharp-reqnroll' ||
         snippetKind === 'csharp-specflow' ||
         snippetKind === 'js-cucumber' ||
         snippetKind === 'python-behave' ||
+        snippetKind === 'python-pytestbdd' ||
         snippetKind === 'go-godog' ||
-        snippetKind === 'java-cucumber'
+        snippetKind === 'java-cucumber' ||
+        snippetKind === 'kotlin-cucumber' ||
+        snippetKind === 'php-behat' ||
+        snippetKind === 'rust-cucumber' ||
+        snippetKind === 'ruby-cucumber'
     );
 }
 
 /** Stacks that append snippet at end of an existing file. */
 export function usesAppendInsert(snippetKind: SnippetKind): boolean {
-    return snippetKind === 'js-cucumber' || snippetKind === 'python-behave';
+    return (
+        snippetKind === 'js-cucumber' ||
+        snippetKind === 'python-behave' ||
+        snippetKind === 'python-pytestbdd' ||
+        snippetKind === 'rust-cucumber' ||
+        snippetKind === 'ruby-cucumber'
+    );
 }
 
 export function sanitizeMethodName(keyword: string, stepText: string): string {
@@ -49,7 +92,7 @@ export function findCSharpBindingInsertLine(fileContent: string): number | null
 }
 
 /**
- * Insert before closing brace of first class that looks like Cucumber step defs.
+ * Insert before closing brace of first class that looks like Cucumber step defs (Java, Kotlin or a Behat Context).
  */
 export function findJavaStepClassInsertLine(fileContent: string): number | null {
     const hasStepAnnotation = /@(Given|When|Then|And|But)\b/.test(fileContent);
@@ -167,6 +210,14 @@ export function buildPythonNewFileContent(snippetCode: string): string {
     return `from behave import given, when, then
 
 
+${snippetCode}
+`;
+}
+
+export function buildPytestBddNewFileContent(snippetCode: string): string {
+    return `from pytest_bdd import given, when, then, parsers
+
+
 ${snippetCode}
 `;
 }
@@ -207,6 +258,55 @@ ${indented}
 `;
 }
 
+export function buildKotlinNewFileContent(snippetCode: string): string {
+    const indented = snippetCode
+        .split('\n')
+        .map((l) => `    ${l}`)
+        .join('\n');
+    return `package generated
+
+import io.cucumber.java.en.Given
+import io.cucumber.java.en.When
+import io.cucumber.java.en.Then
+
+class GuardianGeneratedSteps {
+${indented}
+}
+`;
+}
+
+export function buildPhpBehatNewFileContent(snippetCode: string): string {
+    const indented = snippetCode
+        .split('\n')
+        .map((l) => `    ${l}`)
+        .join('\n');
+    return `<?php
+
+use Behat\\Behat\\Context\\Context;
+use Behat\\Behat\\Tester\\Exception\\PendingException;
+
+class GuardianGeneratedContext implements Context
+{
+${indented}
+}
+`;
+}
+
+export function buildRustNewFileContent(snippetCode: string): string {
+    return `// Declare with \`mod guardian_generated_steps;\` in the steps module of your cucumber test target.
+use cucumber::{given, then, when};
+
+use crate::World;
+
+${snippetCode}
+`;
+}
+
+export function buildRubyNewFileContent(snippetCode: string): string {
+    return `${snippetCode}
+`;
+}
+
 export function formatJsAppend(snippetCode: string, existingContent: string): string {
     const trimmed = existingContent.trimEnd();
     const prefix = trimmed.endsWith('\n') ? '' : '\n\n';
@@ -258,12 +358,33 @@ export function pickScaffoldTargetPath(
         return pickByExtension(bindingFilePaths, ['.py'], ['features/steps', '/steps/', 'step']);
     }
 
+    if (snippetKind === 'python-pytestbdd') {
+        return pickByExtension(bindingFilePaths, ['.py'], ['conftest.py', 'step_defs', 'steps']);
+    }
+
     if (snippetKind === 'go-godog') {
         return pickByExtension(bindingFilePaths, ['.go'], ['_test.go', 'steps']);
     }
 
     if (snippetKind === 'java-cucumber') {
-        return pickByExtension(bindingFilePaths, ['.java'], ['steps', 'stepdefinitions']);
+        // Mixed Cucumber-JVM projects: the target's extension decides Java vs Kotlin scaffolds
+        return pickByExtension(bindingFilePaths, ['.java', '.kt'], ['steps', 'stepdefinitions']);
+    }
+
+    if (snippetKind === 'kotlin-cucumber') {
+        return pickByExtension(bindingFilePaths, ['.kt'], ['steps', 'stepdefinitions']);
+    }
+
+    if (snippetKind === 'php-behat') {
+        return pickByExtension(bindingFilePaths, ['.php'], ['featurecontext', 'context']);
+    }
+
+    if (snippetKind === 'rust-cucumber') {
+        return pickByExtension(bindingFilePaths, ['.rs'], ['/steps/', 'steps']);
+    }
+
+    if (snippetKind === 'ruby-cucumber') {
+        return pickByExtension(bindingFilePaths, ['.rb'], ['step_definitions', 'steps']);
     }
 
     return null;
@@ -279,12 +400,27 @@ export function defaultNewScaffoldPath(snippetKind: SnippetKind): string | null
     if (snippetKind === 'python-behave') {
         return 'features/steps/guardian_generated_steps.py';
     }
+    if (snippetKind === 'python-pytestbdd') {
+        return 'tests/step_defs/conftest.py';
+    }
     if (snippetKind === 'go-godog') {
         return 'features/guardian_generated_steps_test.go';
     }
     if (snippetKind === 'java-cucumber') {
         return 'src/test/java/generated/GuardianGeneratedSteps.java';
     }
+    if (snippetKind === 'kotlin-cucumber') {
+        return 'src/test/kotlin/generated/GuardianGeneratedSteps.kt';
+    }
+    if (snippetKind === 'php-behat') {
+        return 'features/bootstrap/GuardianGeneratedContext.php';
+    }
+    if (snippetKind === 'rust-cucumber') {
+        return 'tests/steps/guardian_generated_steps.rs';
+    }
+    if (snippetKind === 'ruby-cucumber') {
+        return 'features/step_definitions/guardian_generated_steps.rb';
+    }
     return null;
 }
 
@@ -297,10 +433,20 @@ export function buildNewScaffoldFileContent(
             return buildJsNewFileContent(snippetCode);
         case 'python-behave':
             return buildPythonNewFileContent(snippetCode);
+        case 'python-pytestbdd':
+            return buildPytestBddNewFileContent(snippetCode);
         case 'go-godog':
             return buildGoNewFileContent(snippetCode);
         case 'java-cucumber':
             return buildJavaNewFileContent(snippetCode);
+        case 'kotlin-cucumber':
+            return buildKotlinNewFileContent(snippetCode);
+        case 'php-behat':
+            return buildPhpBehatNewFileContent(snippetCode);
+        case 'rust-cucumber':
+            return buildRustNewFileContent(snippetCode);
+        case 'ruby-cucumber':
+            return buildRubyNewFileContent(snippetCode);
         case 'csharp-specflow':
             return buildCSharpNewFileContent(snippetCode, 'csharp-specflow');
         case 'csharp-reqnroll':
@@ -11,6 +11,8 @@ import {
     type BindingCompletionSource,
 } from '../../core/autocomplete';
 import type { ResolvedKeyword } from '../../core/domain';
+import { resolveGherkinDialect } from '../../core/parsing/gherkinDialects';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
 
 export class StepCompletionProvider implements vscode.CompletionItemProvider {
     constructor(private readonly indexManager: IndexManager) {}
@@ -30,8 +32,9 @@ export class StepCompletionProvider implements vscode.CompletionItemProvider {
         for (let i = 0; i < position.line; i++) {
             linesAbove.push(document.lineAt(i).text);
         }
-        const previousStrong = findPreviousStrongKeyword(linesAbove);
-        const ctx = parseStepCompletionLine(line, previousStrong);
+        const dialect = resolveGherkinDialect(document.getText(), getDefaultGherkinLanguage(document.uri));
+        const previousStrong = findPreviousStrongKeyword(linesAbove, 'Given', dialect);
+        const ctx = parseStepCompletionLine(line, previousStrong, dialect);
         if (!ctx.eligible) {
             return [];
         }
@@ -42,7 +45,7 @@ export class StepCompletionProvider implements vscode.CompletionItemProvider {
             return [];
         }
 
-        const sources: BindingCompletionSource[] = all.map((b) => ({
+        const sources: BindingCompletionSource[] = all.filter((b) => !b.patternUnresolved).map((b) => ({
             keyword: b.keyword as ResolvedKeyword,
             patternRaw: b.patternRaw,
             methodName: b.methodName,
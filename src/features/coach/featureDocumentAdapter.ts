@@ -3,9 +3,10 @@
  * No vscode — usable from guardian-cli / MCP.
  */
 
-import type { FeatureDocument, FeatureStep, Scenario, ExampleTable } from '../../core/domain/types';
+import type { FeatureDocument, FeatureStep, Scenario, Rule, ExampleTable } from '../../core/domain/types';
 import type {
     GherkinModel,
+    GherkinRule,
     GherkinScenario,
     GherkinStep,
     GherkinBackground,
@@ -31,7 +32,7 @@ function examplesToGherkinExamples(table: ExampleTable, scenarioStartLine: numbe
     };
 }
 
-function scenarioToGherkinScenario(s: Scenario): GherkinScenario {
+function scenarioToGherkinScenario(s: Scenario, rule: Rule | undefined): GherkinScenario {
     return {
         title: s.name,
         line: s.range.start.line,
@@ -39,6 +40,26 @@ function scenarioToGherkinScenario(s: Scenario): GherkinScenario {
         steps: s.steps.map(stepToGherkinStep),
         examples: s.examples.map((ex) => examplesToGherkinExamples(ex, s.range.start.line)),
         tags: [...s.tags],
+        ruleTags: rule ? [...rule.tags] : [],
+    };
+}
+
+function backgroundToGherkinBackground(steps: readonly FeatureStep[]): GherkinBackground | undefined {
+    return steps.length > 0
+        ? {
+              line: steps[0].lineNumber,
+              steps: steps.map(stepToGherkinStep),
+          }
+        : undefined;
+}
+
+function ruleToGherkinRule(rule: Rule): GherkinRule {
+    return {
+        title: rule.name,
+        line: rule.range.start.line,
+        tags: [...rule.tags],
+        background: backgroundToGherkinBackground(rule.backgroundSteps),
+        scenarioLines: rule.scenarios.map((s) => s.range.start.line),
     };
 }
 
@@ -46,20 +67,21 @@ function scenarioToGherkinScenario(s: Scenario): GherkinScenario {
  * Converts a core FeatureDocument into the Coach's GherkinModel.
  */
 export function featureDocumentToGherkinModel(doc: FeatureDocument): GherkinModel {
-    const background: GherkinBackground | undefined =
-        doc.backgroundSteps.length > 0
-            ? {
-                  line: doc.backgroundSteps[0].lineNumber,
-                  steps: doc.backgroundSteps.map(stepToGherkinStep),
-              }
-            : undefined;
+    const rules = doc.rules ?? [];
+    const ruleOf = new Map<Scenario, Rule>();
+    for (const rule of rules) {
+        for (const scenario of rule.scenarios) {
+            ruleOf.set(scenario, rule);
+        }
+    }
 
     return {
         featureTitle: doc.featureName,
         featureLine: 0,
         featureTags: [...doc.featureTags],
-        scenarios: doc.scenarios.map(scenarioToGherkinScenario),
-        background,
+        scenarios: doc.scenarios.map((s) => scenarioToGherkinScenario(s, ruleOf.get(s))),
+        background: backgroundToGherkinBackground(doc.backgroundSteps),
+        rules: rules.map(ruleToGherkinRule),
     };
 }
 
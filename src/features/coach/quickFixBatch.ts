@@ -1,21 +1,32 @@
+import {
+    DEFAULT_GHERKIN_LANGUAGE,
+    matchGherkinBlockLine,
+    resolveGherkinDialect,
+} from '../../core/parsing/gherkinDialects';
+
 export type CoachQuickFixInsert = { line: number; newText: string };
 
 /**
  * Compute batch quick-fix inserts from diagnostics (pure helper for testing).
  *
  * MVP: supports `coach/outline-examples` by inserting an Examples template before the next
- * scenario/tag block.
+ * scenario/tag block. Keywords follow the file's `# language:` dialect.
  */
 export function computeCoachQuickFixInserts(
     documentText: string,
-    diagnostics: readonly { line: number; ruleId: string }[]
+    diagnostics: readonly { line: number; ruleId: string }[],
+    defaultLanguage: string = DEFAULT_GHERKIN_LANGUAGE
 ): CoachQuickFixInsert[] {
     const lines = documentText.split('\n');
     const inserts: CoachQuickFixInsert[] = [];
+    const dialect = resolveGherkinDialect(documentText, defaultLanguage);
 
     const OUTLINE_RULE = 'coach/outline-examples';
-    const EXAMPLES_LINE_REGEX = /^\s*Examples\s*:/i;
-    const NEXT_BLOCK_REGEX = /^\s*(?:@|Feature:|Background:|Scenario Outline:|Scenario:)/i;
+    const isNextBlock = (line: string): boolean => {
+        if (/^\s*@/.test(line)) return true;
+        const block = matchGherkinBlockLine(line, dialect);
+        return block !== null && block.kind !== 'examples';
+    };
 
     const dedupeLines = new Set<number>();
 
@@ -26,11 +37,11 @@ export function computeCoachQuickFixInserts(
         // If an Examples block already exists below, don't insert.
         let insertLine = lines.length;
         for (let i = d.line + 1; i < lines.length; i++) {
-            if (EXAMPLES_LINE_REGEX.test(lines[i])) {
+            if (matchGherkinBlockLine(lines[i], dialect)?.kind === 'examples') {
                 insertLine = -1;
                 break;
             }
-            if (NEXT_BLOCK_REGEX.test(lines[i])) {
+            if (isNextBlock(lines[i])) {
                 insertLine = i;
                 break;
             }
@@ -41,7 +52,7 @@ export function computeCoachQuickFixInserts(
 
         inserts.push({
             line: insertLine,
-            newText: '\n\n    Examples:\n      | placeholder |\n      | value       |\n',
+            newText: `\n\n    ${dialect.examples[0]}:\n      | placeholder |\n      | value       |\n`,
         });
     }
 
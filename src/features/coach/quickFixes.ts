@@ -16,6 +16,8 @@ import {
     removeTagFromLine,
 } from './rules/redundantTagsRule';
 import { t } from '../../i18n';
+import { resolveGherkinDialect } from '../../core/parsing/gherkinDialects';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
 
 export class CoachQuickFixProvider implements vscode.CodeActionProvider {
     static readonly providedCodeActionKinds = [
@@ -75,8 +77,10 @@ export class CoachQuickFixProvider implements vscode.CodeActionProvider {
             return undefined;
         }
 
-        const lines = document.getText().split(/\r?\n/);
-        const tagLine = findTagLineAbove(lines, diagnostic.range.start.line, tag);
+        const text = document.getText();
+        const lines = text.split(/\r?\n/);
+        const dialect = resolveGherkinDialect(text, getDefaultGherkinLanguage(document.uri));
+        const tagLine = findTagLineAbove(lines, diagnostic.range.start.line, tag, dialect);
         if (tagLine === null) {
             return undefined;
         }
@@ -115,7 +119,8 @@ export class CoachQuickFixProvider implements vscode.CodeActionProvider {
                     line: d.range.start.line,
                     ruleId: String(d.code ?? ''),
                 }))
-                .filter((d) => d.ruleId.length > 0)
+                .filter((d) => d.ruleId.length > 0),
+            getDefaultGherkinLanguage(document.uri)
         );
 
         if (edits.length === 0) {
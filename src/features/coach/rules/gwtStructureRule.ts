@@ -1,9 +1,11 @@
 /**
  * Rule: GWT Structure
  * Ensures scenarios follow Given-When-Then order.
+ * `*` bullet steps carry no Given/When/Then intent and are left out of the check.
  */
 
 import { CoachRule, CoachFinding, GherkinModel, GherkinScenario } from './types';
+import { BULLET_KEYWORD } from '../../../core/parsing/gherkinDialects';
 
 type GWTKeyword = 'Given' | 'When' | 'Then';
 
@@ -37,7 +39,7 @@ function checkScenarioStructure(
     severity: 'error' | 'warning' | 'info' | 'hint' | 'off'
 ): CoachFinding[] {
     const issues: CoachFinding[] = [];
-    const steps = scenario.steps;
+    const steps = scenario.steps.filter(s => s.keyword !== BULLET_KEYWORD);
     
     if (steps.length === 0) {
         return issues;
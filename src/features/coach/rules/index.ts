@@ -70,6 +70,6 @@ export function getAllRuleInfo(): { id: string; name: string; description: strin
         { id: 'coach/vague-then', name: 'Vague Then Assertion', description: 'Then steps should assert specific, observable outcomes, not vague statements.' },
         { id: 'coach/too-many-steps', name: 'Too Many Steps', description: 'Scenarios should be focused and have a reasonable number of steps.' },
         { id: 'coach/dominant-then', name: 'Dominant Then', description: 'Scenarios should have a clear Then outcome (at least one, capped by max).' },
-        { id: 'coach/redundant-tags', name: 'Redundant Tags', description: 'Scenario tags that already appear on Feature are redundant.' },
+        { id: 'coach/redundant-tags', name: 'Redundant Tags', description: 'Scenario tags that already appear on Feature or Rule are redundant.' },
     ];
 }
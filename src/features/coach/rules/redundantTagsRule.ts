@@ -1,9 +1,15 @@
 /**
  * Redundant Tags Rule
- * Scenario tags that already appear on Feature are noise (Feature tags inherit).
+ * Scenario tags that already appear on Feature (or the enclosing Rule) are noise —
+ * Feature and Rule tags inherit.
  */
 
 import { CoachRule, CoachFinding, GherkinModel, CoachSeverity } from './types';
+import {
+    matchGherkinBlockLine,
+    resolveGherkinDialect,
+    type GherkinDialect,
+} from '../../../core/parsing/gherkinDialects';
 
 export function normalizeCoachTag(tag: string): string {
     const t = tag.trim().toLowerCase();
@@ -61,7 +67,8 @@ export function removeTagFromLine(lineText: string, tag: string): string | null
 export function findTagLineAbove(
     lines: readonly string[],
     startLine: number,
-    tag: string
+    tag: string,
+    dialect: GherkinDialect = resolveGherkinDialect(lines.join('\n'))
 ): number | null {
     const target = normalizeCoachTag(tag);
     if (!target || lines.length === 0) {
@@ -70,14 +77,15 @@ export function findTagLineAbove(
     const start = Math.min(Math.max(0, startLine), lines.length - 1);
     for (let i = start; i >= 0; i--) {
         const line = lines[i];
-        if (/^\s*(Feature|Background)\s*:/i.test(line)) {
+        const block = matchGherkinBlockLine(line, dialect);
+        if (block?.kind === 'feature' || block?.kind === 'background') {
             break;
         }
         const tokens = line.trim().split(/\s+/).filter((t) => t.startsWith('@'));
         if (tokens.some((t) => normalizeCoachTag(t) === target)) {
             return i;
         }
-        if (i < start && /^\s*Scenario(?:\s+Outline)?\s*:/i.test(line)) {
+        if (i < start && (block?.kind === 'scenario' || block?.kind === 'scenarioOutline' || block?.kind === 'rule')) {
             break;
         }
     }
@@ -88,40 +96,59 @@ export class RedundantTagsRule implements CoachRule {
     readonly id = 'coach/redundant-tags';
     readonly name = 'Redundant Tags';
     readonly description =
-        'Scenario tags that already appear on the Feature are redundant (Feature tags apply to all scenarios).';
+        'Scenario tags that already appear on the Feature or enclosing Rule are redundant (Feature and Rule tags apply to all their scenarios).';
     readonly severity: CoachSeverity = 'info';
 
     run(model: GherkinModel): CoachFinding[] {
         const findings: CoachFinding[] = [];
-        const featureSet = new Set(model.featureTags.map(normalizeCoachTag).filter(Boolean));
-        if (featureSet.size === 0) {
-            return findings;
+        const featureSet = toTagSet(model.featureTags);
+
+        for (const rule of model.rules ?? []) {
+            for (const tag of rule.tags) {
+                const normalized = normalizeCoachTag(tag);
+                if (normalized && featureSet.has(normalized)) {
+                    findings.push(this.finding(normalized, 'Feature', rule.line));
+                }
+            }
         }
 
         for (const scenario of model.scenarios) {
+            const ruleSet = toTagSet(scenario.ruleTags ?? []);
             for (const tag of scenario.tags) {
                 const normalized = normalizeCoachTag(tag);
-                if (!normalized || !featureSet.has(normalized)) {
+                if (!normalized) {
                     continue;
                 }
-                findings.push({
-                    ruleId: this.id,
-                    message: `Redundant tag "${normalized}": already declared on Feature.`,
-                    severity: 'info',
-                    line: Math.max(0, scenario.line - 1),
-                    column: 0,
-                    fixes: [
-                        {
-                            title: `Remove redundant ${normalized}`,
-                            newText: normalized,
-                        },
-                    ],
-                });
+                if (featureSet.has(normalized)) {
+                    findings.push(this.finding(normalized, 'Feature', scenario.line));
+                } else if (ruleSet.has(normalized)) {
+                    findings.push(this.finding(normalized, 'Rule', scenario.line));
+                }
             }
         }
 
         return findings;
     }
+
+    private finding(tag: string, declaredOn: 'Feature' | 'Rule', declarationLine: number): CoachFinding {
+        return {
+            ruleId: this.id,
+            message: `Redundant tag "${tag}": already declared on ${declaredOn}.`,
+            severity: 'info',
+            line: Math.max(0, declarationLine - 1),
+            column: 0,
+            fixes: [
+                {
+                    title: `Remove redundant ${tag}`,
+                    newText: tag,
+                },
+            ],
+        };
+    }
+}
+
+function toTagSet(tags: readonly string[]): Set<string> {
+    return new Set(tags.map(normalizeCoachTag).filter(Boolean));
 }
 
 export const redundantTagsRule = new RedundantTagsRule();
@@ -57,6 +57,24 @@ export interface GherkinModel {
     background?: GherkinBackground;
     /** Feature-level tags */
     featureTags: string[];
+    /** Rule blocks (Gherkin 6+); their scenarios are also listed in `scenarios` */
+    rules?: GherkinRule[];
+}
+
+/**
+ * A Rule block grouping scenarios.
+ */
+export interface GherkinRule {
+    /** Rule title */
+    title: string;
+    /** Line number of the Rule declaration */
+    line: number;
+    /** Tags on this rule */
+    tags: string[];
+    /** Background scoped to this rule (if present) */
+    background?: GherkinBackground;
+    /** Declaration lines of the scenarios inside this rule */
+    scenarioLines: number[];
 }
 
 /**
@@ -75,6 +93,8 @@ export interface GherkinScenario {
     examples: GherkinExamples[];
     /** Tags on this scenario */
     tags: string[];
+    /** Tags inherited from the enclosing Rule (empty outside Rules) */
+    ruleTags?: string[];
 }
 
 /**
@@ -91,7 +111,7 @@ export interface GherkinBackground {
  * A parsed step.
  */
 export interface GherkinStep {
-    /** Original keyword (Given, When, Then, And, But) */
+    /** Original keyword (Given, When, Then, And, But, *) */
     keyword: string;
     /** Resolved keyword (Given, When, Then) */
     keywordResolved: 'Given' | 'When' | 'Then';
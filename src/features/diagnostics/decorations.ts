@@ -13,7 +13,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { IndexManager } from '../../core/index';
 import { createResolver, applyMatchingSettings, ResolverDependencies } from '../../core/matching';
-import { getConfig, shouldShowStep } from '../../config';
+import { getConfig, selectStepForTagFilter } from '../../config';
 import { ResolvedKeyword } from '../../core/domain';
 import { StepStatus, getUIConfig, getStatusEmoji, getStatusLabel, getAmbiguousStatusLabel } from '../../ui/stepStatus';
 import { parseFeatureDocument } from '../../core/parsing/gherkinParser';
@@ -214,6 +214,8 @@ export class DecorationsManager {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
         
@@ -225,8 +227,9 @@ export class DecorationsManager {
         const unboundRanges: vscode.DecorationOptions[] = [];
         const ambiguousRanges: vscode.DecorationOptions[] = [];
         
-        for (const step of steps) {
-            if (config.tagFilter.length > 0 && !shouldShowStep(step.tagsEffective)) {
+        for (const fullStep of steps) {
+            const step = config.tagFilter.length > 0 ? selectStepForTagFilter(fullStep) : fullStep;
+            if (!step) {
                 continue;
             }
 
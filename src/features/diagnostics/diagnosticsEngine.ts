@@ -1,16 +1,24 @@
 /**
- * Diagnostics Engine - Analyzes feature files and reports unbound/ambiguous steps.
+ * Diagnostics Engine - Analyzes feature files and reports unbound/ambiguous steps,
+ * plus Gherkin syntax errors under their own source.
  */
 
 import * as vscode from 'vscode';
 import { IndexManager } from '../../core/index';
 import { createResolver, applyMatchingSettings, ResolverDependencies, explainAmbiguity, ambiguityI18n, truncateForDiagnostic } from '../../core/matching';
 import { parseFeatureDocument } from '../../core/parsing/gherkinParser';
-import { getConfig, shouldShowStep } from '../../config';
-import { ResolvedKeyword, BINDINGS_DIAGNOSTIC_SOURCE, UNBOUND_STEP_DIAGNOSTIC_CODE } from '../../core/domain';
+import { getConfig, selectStepForTagFilter } from '../../config';
+import {
+    ResolvedKeyword,
+    MatchCandidate,
+    FeatureDocument,
+    BINDINGS_DIAGNOSTIC_SOURCE,
+    SYNTAX_DIAGNOSTIC_SOURCE,
+    UNBOUND_STEP_DIAGNOSTIC_CODE,
+} from '../../core/domain';
 import { t } from '../../i18n';
 
-export { BINDINGS_DIAGNOSTIC_SOURCE } from '../../core/domain/constants';
+export { BINDINGS_DIAGNOSTIC_SOURCE, SYNTAX_DIAGNOSTIC_SOURCE } from '../../core/domain/constants';
 
 export interface DiagnosticsResult {
     readonly uri: vscode.Uri;
@@ -18,16 +26,50 @@ export interface DiagnosticsResult {
     readonly unbound: number;
     readonly ambiguous: number;
     readonly bound: number;
+    readonly syntaxErrors: number;
+}
+
+function createDiagnostic(
+    range: vscode.Range,
+    message: string,
+    severity: vscode.DiagnosticSeverity
+): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+        range,
+        message.length > 280 ? message.slice(0, 279) + '…' : message,
+        severity
+    );
+    diagnostic.source = BINDINGS_DIAGNOSTIC_SOURCE;
+    return diagnostic;
+}
+
+function createSyntaxDiagnostics(parsed: FeatureDocument | undefined): vscode.Diagnostic[] {
+    return (parsed?.syntaxErrors ?? []).map((error) => {
+        const diagnostic = new vscode.Diagnostic(error.range, error.message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = SYNTAX_DIAGNOSTIC_SOURCE;
+        diagnostic.code = error.code;
+        return diagnostic;
+    });
+}
+
+function formatAmbiguousMessage(candidates: readonly MatchCandidate[]): string {
+    const names = candidates.slice(0, 3).map(c => c.binding.methodName).join(', ');
+    const moreSuffix = candidates.length > 3 ? t('diagnosticAmbiguousStepMore', String(candidates.length - 3)) : '';
+    const why = ambiguityI18n(explainAmbiguity(candidates));
+    const whyArgs = why.args.map((a) => truncateForDiagnostic(a));
+    return t('diagnosticAmbiguousStep', names) + moreSuffix + ' — ' + t(why.key, ...whyArgs);
 }
 
 export class DiagnosticsEngine {
     private diagnosticCollection: vscode.DiagnosticCollection;
+    private syntaxCollection: vscode.DiagnosticCollection;
     
     constructor(
         private indexManager: IndexManager,
         collectionName: string = BINDINGS_DIAGNOSTIC_SOURCE
     ) {
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection(collectionName);
+        this.syntaxCollection = vscode.languages.createDiagnosticCollection(SYNTAX_DIAGNOSTIC_SOURCE);
     }
     
     /**
@@ -38,14 +80,21 @@ export class DiagnosticsEngine {
         
         if (!config.enableDiagnostics || !document.fileName.endsWith('.feature')) {
             this.diagnosticCollection.delete(document.uri);
+            this.syntaxCollection.delete(document.uri);
             return {
                 uri: document.uri,
                 diagnostics: [],
                 unbound: 0,
                 ambiguous: 0,
                 bound: 0,
+                syntaxErrors: 0,
             };
         }
+
+        // Syntax errors do not depend on bindings, so they are published first
+        const parsed = parseFeatureDocument(document);
+        const syntaxDiagnostics = createSyntaxDiagnostics(parsed);
+        this.syntaxCollection.set(document.uri, syntaxDiagnostics);
         
         const index = this.indexManager.getIndex();
         const allBindings = index.getAllBindings();
@@ -57,16 +106,18 @@ export class DiagnosticsEngine {
                 unbound: 0,
                 ambiguous: 0,
                 bound: 0,
+                syntaxErrors: syntaxDiagnostics.length,
             };
         }
         
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
         
-        const parsed = parseFeatureDocument(document);
         const steps = parsed?.allSteps ?? [];
 
         const diagnostics: vscode.Diagnostic[] = [];
@@ -74,47 +125,85 @@ export class DiagnosticsEngine {
         let ambiguous = 0;
         let bound = 0;
         
-        for (const step of steps) {
-            if (config.tagFilter.length > 0 && !shouldShowStep(step.tagsEffective)) {
+        for (const fullStep of steps) {
+            const step = config.tagFilter.length > 0 ? selectStepForTagFilter(fullStep) : fullStep;
+            if (!step) {
                 continue;
             }
 
             const result = resolve(step);
-            
+
             if (result.status === 'unbound') {
                 unbound++;
-                const diagnostic = new vscode.Diagnostic(
+            } else if (result.status === 'ambiguous') {
+                ambiguous++;
+            } else {
+                bound++;
+            }
+
+            // Rows that disagree with each other are reported on the Examples row itself
+            const rows = result.rows ?? [];
+            if (rows.some((r) => r.status !== rows[0].status)) {
+                for (const row of rows) {
+                    if (row.status === 'unbound') {
+                        const diagnostic = createDiagnostic(
+                            row.row.range,
+                            t('diagnosticUnboundExampleRow', String(row.row.rowNumber), row.row.text),
+                            vscode.DiagnosticSeverity.Warning
+                        );
+                        // Quick fixes author the binding for this row's text (see authorStepRefFromDiagnostic)
+                        diagnostic.code = UNBOUND_STEP_DIAGNOSTIC_CODE;
+                        diagnostic.relatedInformation = [
+                            new vscode.DiagnosticRelatedInformation(
+                                new vscode.Location(document.uri, step.range),
+                                t('diagnosticExampleRowStep', step.rawText)
+                            ),
+                        ];
+                        diagnostics.push(diagnostic);
+                    } else if (row.status === 'ambiguous') {
+                        diagnostics.push(createDiagnostic(
+                            row.row.range,
+                            t('diagnosticAmbiguousExampleRow', String(row.row.rowNumber), row.row.text) +
+                                ' — ' + formatAmbiguousMessage(row.candidates),
+                            vscode.DiagnosticSeverity.Information
+                        ));
+                    }
+                }
+                continue;
+            }
+
+            if (result.status === 'unbound') {
+                const diagnostic = createDiagnostic(
                     step.range,
                     t('diagnosticUnboundStep', step.rawText),
                     vscode.DiagnosticSeverity.Warning
                 );
-                diagnostic.source = BINDINGS_DIAGNOSTIC_SOURCE;
                 diagnostic.code = UNBOUND_STEP_DIAGNOSTIC_CODE;
                 diagnostics.push(diagnostic);
             } else if (result.status === 'ambiguous') {
-                ambiguous++;
-                const names = result.candidates.slice(0, 3).map(c => c.binding.methodName).join(', ');
-                const moreSuffix = result.candidates.length > 3 ? t('diagnosticAmbiguousStepMore', String(result.candidates.length - 3)) : '';
-                const why = ambiguityI18n(explainAmbiguity(result.candidates));
-                const whyArgs = why.args.map((a) => truncateForDiagnostic(a));
-                const whyHint = t(why.key, ...whyArgs);
-                const message =
-                    t('diagnosticAmbiguousStep', names) + moreSuffix + ' — ' + whyHint;
-                const diagnostic = new vscode.Diagnostic(
+                diagnostics.push(createDiagnostic(
                     step.range,
-                    message.length > 280 ? message.slice(0, 279) + '…' : message,
+                    formatAmbiguousMessage(result.candidates),
                     vscode.DiagnosticSeverity.Information
-                );
-                diagnostic.source = BINDINGS_DIAGNOSTIC_SOURCE;
-                diagnostics.push(diagnostic);
-            } else {
-                bound++;
+                ));
+            }
+        }
+
+        // Rows beyond maxExampleRows are not resolved: say so rather than report them as bound
+        for (const examples of (parsed?.scenarios ?? []).flatMap((s) => s.examples)) {
+            if (examples.lineNumber !== undefined && (examples.totalRowCount ?? 0) > examples.rows.length) {
+                const line = document.lineAt(examples.lineNumber);
+                diagnostics.push(createDiagnostic(
+                    line.range,
+                    t('diagnosticTruncatedExamples', String(examples.rows.length), String(examples.totalRowCount)),
+                    vscode.DiagnosticSeverity.Information
+                ));
             }
         }
         
         this.diagnosticCollection.set(document.uri, diagnostics);
         
-        return { uri: document.uri, diagnostics, unbound, ambiguous, bound };
+        return { uri: document.uri, diagnostics, unbound, ambiguous, bound, syntaxErrors: syntaxDiagnostics.length };
     }
     
     /**
@@ -122,6 +211,7 @@ export class DiagnosticsEngine {
      */
     public clearFile(uri: vscode.Uri): void {
         this.diagnosticCollection.delete(uri);
+        this.syntaxCollection.delete(uri);
     }
     
     /**
@@ -129,9 +219,11 @@ export class DiagnosticsEngine {
      */
     public clearAll(): void {
         this.diagnosticCollection.clear();
+        this.syntaxCollection.clear();
     }
     
     dispose(): void {
         this.diagnosticCollection.dispose();
+        this.syntaxCollection.dispose();
     }
 }
@@ -1,5 +1,6 @@
 /**
  * Orphan / unused binding diagnostics — Problems panel on binding files.
+ * Bindings whose pattern constants could not be resolved are reported as unresolvable instead.
  */
 
 import * as vscode from 'vscode';
@@ -10,6 +11,7 @@ import {
     MAX_ORPHAN_BINDING_SCAN,
     ORPHAN_BINDING_DIAGNOSTIC_CODE,
     ResolvedKeyword,
+    UNRESOLVABLE_PATTERN_DIAGNOSTIC_CODE,
 } from '../../core/domain';
 import {
     collectAllIndexedSteps,
@@ -62,6 +64,8 @@ export class OrphanBindingsDiagnostics implements vscode.Disposable {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
         const allSteps = collectAllIndexedSteps(index);
@@ -71,13 +75,21 @@ export class OrphanBindingsDiagnostics implements vscode.Disposable {
         for (const binding of orphans) {
             const key = binding.uri.toString();
             const list = byUri.get(key) ?? [];
-            const diagnostic = new vscode.Diagnostic(
-                binding.range,
-                t('diagnosticOrphanBinding', binding.methodName),
-                vscode.DiagnosticSeverity.Information
-            );
+            const diagnostic = binding.patternUnresolved
+                ? new vscode.Diagnostic(
+                      binding.range,
+                      t('diagnosticUnresolvablePattern', binding.patternRaw),
+                      vscode.DiagnosticSeverity.Warning
+                  )
+                : new vscode.Diagnostic(
+                      binding.range,
+                      t('diagnosticOrphanBinding', binding.methodName),
+                      vscode.DiagnosticSeverity.Information
+                  );
             diagnostic.source = BINDINGS_DIAGNOSTIC_SOURCE;
-            diagnostic.code = ORPHAN_BINDING_DIAGNOSTIC_CODE;
+            diagnostic.code = binding.patternUnresolved
+                ? UNRESOLVABLE_PATTERN_DIAGNOSTIC_CODE
+                : ORPHAN_BINDING_DIAGNOSTIC_CODE;
             list.push(diagnostic);
             byUri.set(key, list);
         }
@@ -0,0 +1,56 @@
+/**
+ * VS Code formatting providers for .feature files (Format Document / Format Selection).
+ */
+
+import * as vscode from 'vscode';
+import { formatFeatureRange, type FeatureTextEdit } from '../../core/formatting';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
+
+export class FeatureFormattingProvider
+    implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider
+{
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        return formatLines(document, 0, document.lineCount - 1, options);
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        return formatLines(document, range.start.line, range.end.line, options);
+    }
+}
+
+export function isFormatterEnabled(): boolean {
+    return vscode.workspace.getConfiguration('bddGuardian.format').get<boolean>('enabled', true);
+}
+
+function formatLines(
+    document: vscode.TextDocument,
+    startLine: number,
+    endLine: number,
+    options: vscode.FormattingOptions
+): vscode.TextEdit[] {
+    if (!isFormatterEnabled()) {
+        return [];
+    }
+    const edit = formatFeatureRange(document.getText(), startLine, endLine, {
+        indentSize: options.tabSize,
+        useTabs: !options.insertSpaces,
+        defaultLanguage: getDefaultGherkinLanguage(document.uri),
+    });
+    return edit ? [toTextEdit(edit)] : [];
+}
+
+function toTextEdit(edit: FeatureTextEdit): vscode.TextEdit {
+    return vscode.TextEdit.replace(
+        new vscode.Range(edit.startLine, edit.startCharacter, edit.endLine, edit.endCharacter),
+        edit.newText
+    );
+}
@@ -0,0 +1,5 @@
+/**
+ * Formatting Module Exports
+ */
+
+export { FeatureFormattingProvider, isFormatterEnabled } from './featureFormattingProvider';
@@ -14,8 +14,13 @@ export type SnippetKind =
     | 'csharp-specflow'
     | 'js-cucumber'
     | 'java-cucumber'
+    | 'kotlin-cucumber'
     | 'python-behave'
+    | 'python-pytestbdd'
     | 'go-godog'
+    | 'php-behat'
+    | 'rust-cucumber'
+    | 'ruby-cucumber'
     | 'generic-csharp-fallback';
 
 export interface HoverFrameworkContext {
@@ -40,8 +45,13 @@ const SNIPPET_KIND_DISPLAY: Record<SnippetKind, string> = {
     'csharp-specflow': PROVIDER_INFO['csharp-specflow'].displayName,
     'js-cucumber': PROVIDER_INFO['js-cucumber'].displayName,
     'java-cucumber': PROVIDER_INFO['java-cucumber'].displayName,
+    'kotlin-cucumber': 'Kotlin Cucumber',
     'python-behave': PROVIDER_INFO['python-behave'].displayName,
+    'python-pytestbdd': PROVIDER_INFO['python-pytestbdd'].displayName,
     'go-godog': PROVIDER_INFO['go-godog'].displayName,
+    'php-behat': PROVIDER_INFO['php-behat'].displayName,
+    'rust-cucumber': PROVIDER_INFO['rust-cucumber'].displayName,
+    'ruby-cucumber': PROVIDER_INFO['ruby-cucumber'].displayName,
     'generic-csharp-fallback': 'C# (Reqnroll-style)',
 };
 
@@ -58,12 +68,24 @@ function providerIdToSnippetKind(id: BindingProviderId): SnippetKind {
     if (id === 'java-cucumber') {
         return 'java-cucumber';
     }
-    if (id === 'python-behave' || id === 'python-pytestbdd') {
+    if (id === 'python-behave') {
         return 'python-behave';
     }
+    if (id === 'python-pytestbdd') {
+        return 'python-pytestbdd';
+    }
     if (id === 'go-godog') {
         return 'go-godog';
     }
+    if (id === 'php-behat') {
+        return 'php-behat';
+    }
+    if (id === 'rust-cucumber') {
+        return 'rust-cucumber';
+    }
+    if (id === 'ruby-cucumber') {
+        return 'ruby-cucumber';
+    }
     return 'generic-csharp-fallback';
 }
 
@@ -78,12 +100,27 @@ function inferSnippetKindFromUri(
     if (lower.endsWith('.java')) {
         return 'java-cucumber';
     }
+    if (lower.endsWith('.kt')) {
+        return 'kotlin-cucumber';
+    }
     if (lower.endsWith('.py')) {
+        if (selection?.primary?.id === 'python-pytestbdd') {
+            return 'python-pytestbdd';
+        }
         return 'python-behave';
     }
     if (lower.endsWith('.go')) {
         return 'go-godog';
     }
+    if (lower.endsWith('.php')) {
+        return 'php-behat';
+    }
+    if (lower.endsWith('.rs')) {
+        return 'rust-cucumber';
+    }
+    if (lower.endsWith('.rb')) {
+        return 'ruby-cucumber';
+    }
     if (lower.endsWith('.cs')) {
         if (selection?.primary?.id === 'csharp-specflow') {
             return 'csharp-specflow';
@@ -160,12 +197,24 @@ export function getPreviewFenceLanguage(uriPath: string): string {
     if (lower.endsWith('.java')) {
         return 'java';
     }
+    if (lower.endsWith('.kt')) {
+        return 'kotlin';
+    }
     if (lower.endsWith('.py')) {
         return 'python';
     }
     if (lower.endsWith('.go')) {
         return 'go';
     }
+    if (lower.endsWith('.php')) {
+        return 'php';
+    }
+    if (lower.endsWith('.rs')) {
+        return 'rust';
+    }
+    if (lower.endsWith('.rb')) {
+        return 'ruby';
+    }
     return 'csharp';
 }
 
@@ -191,6 +240,134 @@ function behaveDecorator(keyword: ResolvedKeyword): string {
     return keyword.toLowerCase();
 }
 
+/**
+ * Suggested regex → behave's default parse matcher: `(.*)` → `{text}`, `(\d+)` → `{n:d}`
+ * (numbered when repeated — parse treats repeated names as the same value).
+ */
+function toBehaveParsePattern(pattern: string): string {
+    const used = new Map<string, number>();
+    const field = (name: string, type = ''): string => {
+        const count = (used.get(name) ?? 0) + 1;
+        used.set(name, count);
+        return `{${count > 1 ? `${name}${count}` : name}${type}}`;
+    };
+    return pattern
+        .replace(/[{}]/g, '$&$&')
+        .replace(/\(\.\*\)|\(\\d\+\)|\\([.?])/g, (match, escaped?: string) => {
+            if (escaped) {
+                return escaped;
+            }
+            return match === '(.*)' ? field('text') : field('n', ':d');
+        });
+}
+
+/** Plain strings match exactly in pytest-bdd; suggested regexes go through parsers.re */
+function pytestBddStepArgument(pattern: string): string {
+    return /[\\()[\]]/.test(pattern) ? `parsers.re(r'${pattern}')` : `'${pattern}'`;
+}
+
+/**
+ * Suggested regex → Behat turnip pattern: `"(.*)"` / `(\d+)` → `:arg1`, `:arg2`, …
+ * (turnip placeholders take quoted values); `/`, `(`, `)` and `:` in literal text are escaped.
+ */
+function toBehatTurnipPattern(pattern: string): string {
+    let count = 0;
+    return pattern.replace(/"\(\.\*\)"|'\(\.\*\)'|\(\.\*\)|\(\\d\+\)|\\([.?])|([/():])/g, (match, escaped?: string, special?: string) => {
+        if (escaped) {
+            return escaped;
+        }
+        if (special) {
+            return `\\${special}`;
+        }
+        count++;
+        return `:arg${count}`;
+    });
+}
+
+/**
+ * Suggested regex → Cucumber Expression: `"(.*)"` / `'(.*)'` → `{string}`, `(\d+)` → `{int}`, `\.` / `\?` →
+ * plain text; `(`, `)`, `{`, `}` and `/` in literal text are escaped. Returns the parameter types in order,
+ * or null for patterns a Cucumber Expression cannot express (an unquoted `(.*)`).
+ */
+function toCucumberExpression(pattern: string): { expression: string; parameterTypes: ('int' | 'string')[] } | null {
+    if (/(?<!["'])\(\.\*\)|\(\.\*\)(?!["'])/.test(pattern)) {
+        return null;
+    }
+    const parameterTypes: ('int' | 'string')[] = [];
+    const expression = pattern.replace(
+        /"\(\.\*\)"|'\(\.\*\)'|\(\\d\+\)|\\([.?])|([(){}/\\])/g,
+        (match, escaped?: string, special?: string) => {
+            if (escaped) {
+                return escaped;
+            }
+            if (special) {
+                return `\\${special}`;
+            }
+            const type = match === '(\\d+)' ? 'int' : 'string';
+            parameterTypes.push(type);
+            return `{${type}}`;
+        }
+    );
+    return { expression, parameterTypes };
+}
+
+/**
+ * cucumber-rs step: plain text stays an exact literal, parameters go through an `expr = "…"`
+ * Cucumber Expression (a `regex = "^…$"` when that cannot express them), one typed argument each.
+ */
+function toRustCucumberStep(pattern: string): { argument: string; parameters: string[] } {
+    const ce = toCucumberExpression(pattern);
+    if (ce && ce.parameterTypes.length === 0) {
+        return { argument: rustStringLiteral(pattern.replace(/\\([.?])/g, '$1')), parameters: [] };
+    }
+    if (ce) {
+        return {
+            argument: `expr = ${rustStringLiteral(ce.expression)}`,
+            parameters: ce.parameterTypes.map((type, i) => `arg${i + 1}: ${type === 'int' ? 'i32' : 'String'}`),
+        };
+    }
+    const groups = pattern.match(/\((?!\?)/g)?.length ?? 0;
+    return {
+        argument: `regex = ${rustStringLiteral(`^${pattern}$`)}`,
+        parameters: Array.from({ length: groups }, (_, i) => `arg${i + 1}: String`),
+    };
+}
+
+/** Raw strings keep Cucumber Expression escapes and quotes as written */
+function rustStringLiteral(text: string): string {
+    if (!/["\\]/.test(text)) {
+        return `"${text}"`;
+    }
+    return text.includes('"#') ? `"${text.replace(/["\\]/g, '\\$&')}"` : `r#"${text}"#`;
+}
+
+/**
+ * Cucumber Ruby step like its own snippets: a Cucumber Expression with `|int, string|` block
+ * parameters (numbered when repeated), or a `/^…$/` regex when a Cucumber Expression cannot express it.
+ */
+function toRubyCucumberStep(pattern: string): { argument: string; parameters: string[] } {
+    const ce = toCucumberExpression(pattern);
+    if (!ce) {
+        const groups = pattern.match(/\((?!\?)/g)?.length ?? 0;
+        return {
+            argument: `/^${pattern.replace(/\//g, '\\/')}$/`,
+            parameters: Array.from({ length: groups }, (_, i) => `arg${i + 1}`),
+        };
+    }
+    const used = new Map<string, number>();
+    const parameters = ce.parameterTypes.map((type) => {
+        const count = (used.get(type) ?? 0) + 1;
+        used.set(type, count);
+        return count > 1 ? `${type}${count}` : type;
+    });
+    return { argument: `'${ce.expression.replace(/[\\']/g, '\\$&')}'`, parameters };
+}
+
+/** Raw strings keep regex backslashes and quotes as written */
+function kotlinStringLiteral(pattern: string): string {
+    return /["\\]/.test(pattern) ? `"""${pattern}"""` : `"${pattern}"`;
+}
+
 /**
  * Build unbound step definition snippet for the detected framework.
  */
@@ -210,11 +387,54 @@ export function buildUnboundBindingSnippet(
                 fenceLanguage: 'java',
                 code: `@${keyword}("${pattern}")\npublic void stepDefinition() {\n}`,
             };
+        case 'kotlin-cucumber':
+            return {
+                fenceLanguage: 'kotlin',
+                code: `@${keyword}(${kotlinStringLiteral(pattern)})\nfun stepDefinition() {\n}`,
+            };
         case 'python-behave':
             return {
                 fenceLanguage: 'python',
-                code: `@${behaveDecorator(keyword)}('${pattern}')\ndef step_definition(context):\n    pass`,
+                code: `@${behaveDecorator(keyword)}('${toBehaveParsePattern(pattern)}')\ndef step_definition(context):\n    pass`,
+            };
+        case 'python-pytestbdd':
+            return {
+                fenceLanguage: 'python',
+                code: `@${behaveDecorator(keyword)}(${pytestBddStepArgument(pattern)})\ndef step_definition():\n    pass`,
+            };
+        case 'php-behat':
+            return {
+                fenceLanguage: 'php',
+                code: [
+                    '/**',
+                    ` * @${keyword} ${toBehatTurnipPattern(pattern)}`,
+                    ' */',
+                    'public function stepDefinition()',
+                    '{',
+                    '    throw new PendingException();',
+                    '}',
+                ].join('\n'),
+            };
+        case 'rust-cucumber': {
+            const step = toRustCucumberStep(pattern);
+            const parameters = ['world: &mut World', ...step.parameters].join(', ');
+            return {
+                fenceLanguage: 'rust',
+                code: `#[${keyword.toLowerCase()}(${step.argument})]\nasync fn step_definition(${parameters}) {\n    todo!()\n}`,
             };
+        }
+        case 'ruby-cucumber': {
+            const step = toRubyCucumberStep(pattern);
+            const block = step.parameters.length > 0 ? ` do |${step.parameters.join(', ')}|` : ' do';
+            return {
+                fenceLanguage: 'ruby',
+                code: [
+                    `${keyword}(${step.argument})${block}`,
+                    '  pending # Write code here that turns the phrase above into concrete actions',
+                    'end',
+                ].join('\n'),
+            };
+        }
         case 'go-godog':
             return {
                 fenceLanguage: 'go',
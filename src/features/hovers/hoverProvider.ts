@@ -12,8 +12,8 @@
 
 import * as vscode from 'vscode';
 import { IndexManager } from '../../core/index';
-import { createResolver, applyMatchingSettings, ResolverDependencies, explainAmbiguity, ambiguityI18n } from '../../core/matching';
-import { ResolvedKeyword, Binding, MatchCandidate } from '../../core/domain';
+import { createResolver, applyMatchingSettings, ResolverDependencies, explainAmbiguity, ambiguityI18n, findOwningGlueScopes } from '../../core/matching';
+import { ResolvedKeyword, Binding, MatchCandidate, ExampleRowResult, GlueScope } from '../../core/domain';
 import { 
     StepStatus, 
     getUIConfig, 
@@ -23,6 +23,8 @@ import {
 } from '../../ui/stepStatus';
 import { t } from '../../i18n';
 import { getStepAtPosition } from '../../core/references/stepContext';
+import { matchGherkinStepLine, resolveGherkinDialect } from '../../core/parsing/gherkinDialects';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
 import { getProviderManager } from '../../providers/bindings';
 import {
     buildUnboundBindingSnippet,
@@ -54,7 +56,8 @@ export class HoverProvider implements vscode.HoverProvider {
         }
         
         const line = document.lineAt(position.line).text;
-        const stepMatch = line.match(/^\s*(Given|When|Then|And|But)\s+(.+)$/i);
+        const dialect = resolveGherkinDialect(document.getText(), getDefaultGherkinLanguage(document.uri));
+        const stepMatch = matchGherkinStepLine(line, dialect);
         
         if (!stepMatch) {
             return null;
@@ -78,6 +81,8 @@ export class HoverProvider implements vscode.HoverProvider {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
         
@@ -102,10 +107,14 @@ export class HoverProvider implements vscode.HoverProvider {
         const statusLabel = status === StepStatus.Bound ? t('hoverBound') : status === StepStatus.Unbound ? t('hoverUnbound') : t('hoverAmbiguous');
         contents.appendMarkdown(`#### ${t('hoverTitle')}\n\n`);
         contents.appendMarkdown(`**${t('hoverStatus')}:** ${getStatusEmoji(status)} ${statusLabel}\n\n`);
+        this.buildRunnerContent(contents, findOwningGlueScopes(index.getGlueScopes(), document.uri.fsPath));
         contents.appendMarkdown('---\n\n');
         
         // Build content based on status
-        if (status === StepStatus.Unbound) {
+        if (status === StepStatus.Unbound && result.best) {
+            // Outline step bound for some Examples rows only
+            await this.buildBoundContent(contents, result.best, result.best.matchedCandidate);
+        } else if (status === StepStatus.Unbound) {
             await this.buildUnboundContent(contents, step.rawText, step.keywordResolved);
         } else if (status === StepStatus.Ambiguous) {
             await this.buildAmbiguousContent(contents, [...result.candidates], step.rawText);
@@ -113,6 +122,10 @@ export class HoverProvider implements vscode.HoverProvider {
             await this.buildBoundContent(contents, result.best!, step.rawText);
         }
 
+        if (result.rows && result.rows.length > 0) {
+            this.buildExampleRowsContent(contents, result.rows);
+        }
+
         return new vscode.Hover(contents, new vscode.Range(position.line, 0, position.line, line.length));
     }
 
@@ -189,6 +202,50 @@ export class HoverProvider implements vscode.HoverProvider {
         contents.appendMarkdown(`[${t('hoverShowAllMatches')}](command:reqnrollNavigator.showAmbiguousMatches)`);
     }
     
+    /**
+     * Build the per-Examples-row breakdown (row counts, then rows that are not bound).
+     */
+    private buildExampleRowsContent(
+        contents: vscode.MarkdownString,
+        rows: readonly ExampleRowResult[]
+    ): void {
+        const count = (status: ExampleRowResult['status']) =>
+            String(rows.filter((r) => r.status === status).length);
+        const failing = rows.filter((r) => r.status !== 'bound');
+
+        contents.appendMarkdown('\n\n---\n\n');
+        contents.appendMarkdown(
+            `**${t('hoverExampleRows')}:** ${t('hoverExampleRowsSummary', count('bound'), count('unbound'), count('ambiguous'))}\n\n`
+        );
+        for (const row of failing.slice(0, HoverProvider.MAX_FAILING_ROWS)) {
+            const rowStatus = row.status === 'unbound' ? StepStatus.Unbound : StepStatus.Ambiguous;
+            contents.appendMarkdown(
+                `- ${getStatusEmoji(rowStatus)} ${t('hoverExampleRow', String(row.row.rowNumber), String(row.row.lineNumber + 1))}: \`${this.truncate(row.row.text, 60)}\`\n`
+            );
+        }
+        if (failing.length > HoverProvider.MAX_FAILING_ROWS) {
+            contents.appendMarkdown(`_...and ${failing.length - HoverProvider.MAX_FAILING_ROWS} more_\n`);
+        }
+    }
+
+    /**
+     * Cucumber-JVM runners whose features cover the document (their glue limits the candidates).
+     */
+    private buildRunnerContent(contents: vscode.MarkdownString, scopes: GlueScope[]): void {
+        for (const scope of scopes) {
+            if (!scope.runner) {
+                continue;
+            }
+            const uri = vscode.Uri.file(scope.source);
+            contents.appendMarkdown(
+                `**${t('hoverRunner')}:** \`${scope.runner}\` ([${vscode.workspace.asRelativePath(uri)}](${uri.toString()}))\n\n`
+            );
+        }
+    }
+
+    /** Max failing Examples rows listed in the hover */
+    private static readonly MAX_FAILING_ROWS = 5;
+
     /**
      * Build content for bound steps.
      */
@@ -204,6 +261,9 @@ export class HoverProvider implements vscode.HoverProvider {
         contents.appendMarkdown(`**${t('hoverBinding')}:** \`${binding.className}.${binding.methodName}\`\n\n`);
         contents.appendMarkdown(`**${t('hoverPattern')}:** \`${binding.patternRaw}\`\n\n`);
         contents.appendMarkdown(`**${t('hoverFile')}:** [${relativePath}:${binding.lineNumber + 1}](${binding.uri.toString()}#L${binding.lineNumber + 1})\n\n`);
+        if (binding.targetFixture) {
+            contents.appendMarkdown(`**${t('hoverTargetFixture')}:** \`${binding.targetFixture}\`\n\n`);
+        }
         
         // Captured parameters
         const captures = this.extractCaptures(stepText, binding);
@@ -12,6 +12,10 @@ export {
     showAllBindingsQuickPick,
     DefinitionProvider,
     createDefinitionProvider,
+    createLibraryDocumentProvider,
+    createParameterTypeDefinitionProvider,
+    createPytestBddFeatureLinkProvider,
+    createPlaywrightBddFeatureLinkProvider,
     CodeLensProvider,
     createCodeLensProvider,
     createReferenceProvider,
@@ -7,8 +7,15 @@ import * as vscode from 'vscode';
 import { IndexManager } from '../../core/index';
 import { createResolver, applyMatchingSettings, ResolveResult, ResolverDependencies } from '../../core/matching';
 import { parseFeatureDocument } from '../../core/parsing/gherkinParser';
+import {
+    matchGherkinBlockLine,
+    matchGherkinStepLine,
+    BULLET_KEYWORD,
+    resolveGherkinDialect,
+} from '../../core/parsing/gherkinDialects';
 import { getStepAtPosition, getStepAtPositionFromContent } from '../../core/references/stepContext';
-import { getConfig, shouldShowStep } from '../../config';
+import { getConfig, selectStepForTagFilter, shouldShowStep } from '../../config';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
 import { ResolvedKeyword, FeatureStep } from '../../core/domain';
 import { getUIConfig, formatBoundCodeLensTitle, getCodeLensIcon, stepStatusFromResolve, StepStatus } from '../../ui/stepStatus';
 import { t } from '../../i18n';
@@ -52,7 +59,9 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
         );
         
         const codeLenses: vscode.CodeLens[] = [];
-        const lines = document.getText().split('\n');
+        const text = document.getText();
+        const lines = text.split('\n');
+        const dialect = resolveGherkinDialect(text, getDefaultGherkinLanguage(document.uri));
         let currentTags: string[] = [];
         
         for (let i = 0; i < lines.length; i++) {
@@ -64,31 +73,40 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
                 continue;
             }
 
-            if (/^\s*(Scenario|Scenario Outline|Feature|Background):/i.test(line.trim())) {
+            const block = matchGherkinBlockLine(line, dialect);
+            if (block && block.kind !== 'examples') {
                 currentTags = [];
                 continue;
             }
             
-            const stepMatch = line.match(/^\s*(Given|When|Then|And|But)\s+(.+)$/i);
+            const stepMatch = matchGherkinStepLine(line, dialect);
             if (!stepMatch) {
                 continue;
             }
 
-            const indexedStep = stepByLine.get(i);
-            const effectiveTags = indexedStep?.tagsEffective ?? currentTags;
-
-            if (config.tagFilter.length > 0 && !shouldShowStep(effectiveTags)) {
+            let indexedStep = stepByLine.get(i);
+            // Bullets the parser did not index are description text, not steps
+            if (stepMatch.keyword === BULLET_KEYWORD && !indexedStep) {
                 continue;
             }
+
+            if (config.tagFilter.length > 0) {
+                // outline steps keep only the Examples rows the filter selects
+                const selected = indexedStep ? selectStepForTagFilter(indexedStep) : null;
+                if (indexedStep ? !selected : !shouldShowStep(currentTags)) {
+                    continue;
+                }
+                indexedStep = selected ?? undefined;
+            }
                 
-            const keyword = stepMatch[1];
-            const text = stepMatch[2].trim();
+            const keyword = stepMatch.keyword;
+            const stepText = stepMatch.text;
             const range = new vscode.Range(i, 0, i, line.length);
                 
             const lens: StepCodeLens = Object.assign(
                 new vscode.CodeLens(range),
                 { 
-                    stepText: text, 
+                    stepText, 
                     keyword,
                     lineIndex: i,
                     documentUri: document.uri,
@@ -125,6 +143,8 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
 
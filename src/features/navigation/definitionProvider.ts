@@ -35,6 +35,8 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         
         const resolve = createResolver(applyMatchingSettings(deps));
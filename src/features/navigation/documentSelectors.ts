@@ -3,6 +3,7 @@
  */
 
 import * as vscode from 'vscode';
+import { LIBRARY_SCHEME } from '../../core/index/stepLibraries';
 
 export const FEATURE_DOCUMENT_SELECTORS: vscode.DocumentSelector = [
     { language: 'gherkin', scheme: 'file' },
@@ -17,6 +18,13 @@ export const BINDING_DOCUMENT_SELECTORS: vscode.DocumentSelector = [
     { language: 'javascript', scheme: 'file' },
     { language: 'python', scheme: 'file' },
     { language: 'go', scheme: 'file' },
+    { language: 'java', scheme: 'file' },
+    { language: 'kotlin', scheme: 'file' },
+    { language: 'php', scheme: 'file' },
+    { language: 'rust', scheme: 'file' },
+    { language: 'ruby', scheme: 'file' },
+    // read-only files of shared step libraries
+    { scheme: LIBRARY_SCHEME },
 ];
 
 export const REFERENCE_DOCUMENT_SELECTORS: vscode.DocumentSelector = [
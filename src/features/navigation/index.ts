@@ -5,8 +5,18 @@
 export { navigateToBinding, navigateToLocation, navigateFromResolveResult, peekLocation } from './navigator';
 export { showBindingQuickPick, showAllBindingsQuickPick } from './quickPick';
 export { DefinitionProvider, createDefinitionProvider } from './definitionProvider';
+export {
+    ParameterTypeDefinitionProvider,
+    createParameterTypeDefinitionProvider,
+} from './parameterTypeDefinitionProvider';
+export { PytestBddFeatureLinkProvider, createPytestBddFeatureLinkProvider } from './pytestBddFeatureLinkProvider';
+export {
+    PlaywrightBddFeatureLinkProvider,
+    createPlaywrightBddFeatureLinkProvider,
+} from './playwrightBddFeatureLinkProvider';
 export { CodeLensProvider, createCodeLensProvider } from './codelensProvider';
 export { ReferenceProvider, createReferenceProvider } from './referenceProvider';
+export { LibraryDocumentProvider, createLibraryDocumentProvider } from './libraryDocumentProvider';
 export {
     FEATURE_DOCUMENT_SELECTORS,
     BINDING_DOCUMENT_SELECTORS,
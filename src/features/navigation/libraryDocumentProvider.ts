@@ -0,0 +1,39 @@
+/**
+ * Library Document Provider - read-only documents of shared step libraries
+ * (`bddguardian-library:` URIs), so Go to Definition can open library steps and source jar entries.
+ */
+
+import * as vscode from 'vscode';
+import { IndexManager } from '../../core/index';
+import { JAR_ENTRY_SEPARATOR, LIBRARY_SCHEME } from '../../core/index/stepLibraries';
+import { readZipTextEntries } from '../../core/parsing/zipArchive';
+
+export class LibraryDocumentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private indexManager: IndexManager) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const cached = this.indexManager.getLibraryContent(uri);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const separator = uri.path.indexOf(JAR_ENTRY_SEPARATOR);
+        if (separator < 0) {
+            const data = await vscode.workspace.fs.readFile(uri.with({ scheme: 'file' }));
+            return Buffer.from(data).toString('utf8');
+        }
+
+        // Source jar entry not indexed (yet): read it from the jar
+        const entry = uri.path.slice(separator + JAR_ENTRY_SEPARATOR.length);
+        const jar = uri.with({ scheme: 'file', path: uri.path.slice(0, separator) });
+        const entries = readZipTextEntries(await vscode.workspace.fs.readFile(jar), (name) => name === entry);
+        return entries.get(entry) ?? '';
+    }
+}
+
+export function createLibraryDocumentProvider(indexManager: IndexManager): vscode.Disposable {
+    return vscode.workspace.registerTextDocumentContentProvider(
+        LIBRARY_SCHEME,
+        new LibraryDocumentProvider(indexManager)
+    );
+}
@@ -12,6 +12,8 @@
 
 import * as vscode from 'vscode';
 import { t } from '../../i18n';
+import { matchGherkinStepLine, resolveGherkinDialect } from '../../core/parsing/gherkinDialects';
+import { getDefaultGherkinLanguage } from '../../config/gherkinSettings';
 
 /**
  * Represents a location in the navigation history
@@ -221,6 +223,10 @@ export class NavigationHistoryManager {
             doc.fileName.endsWith('.js') ||
             doc.fileName.endsWith('.py') ||
             doc.fileName.endsWith('.java') ||
+            doc.fileName.endsWith('.kt') ||
+            doc.fileName.endsWith('.php') ||
+            doc.fileName.endsWith('.rs') ||
+            doc.fileName.endsWith('.rb') ||
             doc.fileName.endsWith('.go')) {
             return 'binding';
         }
@@ -234,9 +240,11 @@ export class NavigationHistoryManager {
         const lineText = doc.lineAt(line).text.trim();
         
         // For feature files, try to get step text
-        const stepMatch = lineText.match(/^\s*(Given|When|Then|And|But)\s+(.+)$/i);
+        const stepMatch = doc.fileName.endsWith('.feature')
+            ? matchGherkinStepLine(lineText, resolveGherkinDialect(doc.getText(), getDefaultGherkinLanguage(doc.uri)))
+            : null;
         if (stepMatch) {
-            const text = stepMatch[2];
+            const text = stepMatch.text;
             return text.length > 50 ? text.substring(0, 47) + '...' : text;
         }
         
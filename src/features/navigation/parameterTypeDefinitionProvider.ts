@@ -0,0 +1,46 @@
+/**
+ * Parameter Type Definition Provider - Go to Definition from `{color}` in a step pattern
+ * to the custom parameter type that defines it.
+ */
+
+import * as vscode from 'vscode';
+import { IndexManager } from '../../core/index';
+import { findParameterTypeAt, getReferencedParameterTypes } from '../../core/parsing/parameterTypes';
+import { getBindingsForUri } from '../../core/references';
+import { BINDING_DOCUMENT_SELECTORS } from './documentSelectors';
+
+export class ParameterTypeDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private indexManager: IndexManager) {}
+
+    provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.Definition | null {
+        const index = this.indexManager.getIndex();
+        const binding = getBindingsForUri(index.getAllBindings(), document.uri).find(
+            b => b.lineNumber === position.line
+        );
+        if (!binding) {
+            return null;
+        }
+
+        const name = findParameterTypeAt(document.lineAt(position.line).text, position.character);
+        if (!name || !getReferencedParameterTypes(binding).includes(name)) {
+            return null;
+        }
+
+        const definition = index.findParameterType(name, binding.providerId);
+        if (!definition) {
+            return null;
+        }
+        return new vscode.Location(definition.uri, new vscode.Position(definition.lineNumber, 0));
+    }
+}
+
+export function createParameterTypeDefinitionProvider(
+    indexManager: IndexManager
+): vscode.Disposable {
+    const provider = new ParameterTypeDefinitionProvider(indexManager);
+    return vscode.languages.registerDefinitionProvider(BINDING_DOCUMENT_SELECTORS, provider);
+}
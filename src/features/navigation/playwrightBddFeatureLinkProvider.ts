@@ -0,0 +1,53 @@
+/**
+ * playwright-bdd Feature Link Provider - makes the `// Generated from: features/x.feature`
+ * header of the test files under `.features-gen/` clickable.
+ *
+ * The path is relative to the playwright config directory, which is the parent of
+ * `.features-gen` (playwright-bdd's default output dir); otherwise the workspace folder.
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findPlaywrightBddGeneratedSource } from '../../core/parsing/jsCucumberBindingParser';
+
+const OUTPUT_DIR_NAME = '.features-gen';
+
+export class PlaywrightBddFeatureLinkProvider implements vscode.DocumentLinkProvider {
+    provideDocumentLinks(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.DocumentLink[] {
+        const source = findPlaywrightBddGeneratedSource(document.getText());
+        const configDir = source ? getConfigDir(document.uri) : undefined;
+        if (!source || !configDir) {
+            return [];
+        }
+
+        const range = new vscode.Range(
+            source.lineNumber,
+            source.startCharacter,
+            source.lineNumber,
+            source.endCharacter
+        );
+        return [new vscode.DocumentLink(range, vscode.Uri.file(path.resolve(configDir, source.path)))];
+    }
+}
+
+function getConfigDir(uri: vscode.Uri): string | undefined {
+    const segments = uri.fsPath.split(/[/\\]/);
+    const outputIndex = segments.lastIndexOf(OUTPUT_DIR_NAME);
+    if (outputIndex > 0) {
+        return segments.slice(0, outputIndex).join(path.sep) || path.sep;
+    }
+    return vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+}
+
+export function createPlaywrightBddFeatureLinkProvider(): vscode.Disposable {
+    return vscode.languages.registerDocumentLinkProvider(
+        [
+            { language: 'javascript', scheme: 'file', pattern: `**/${OUTPUT_DIR_NAME}/**` },
+            { language: 'typescript', scheme: 'file', pattern: `**/${OUTPUT_DIR_NAME}/**` },
+        ],
+        new PlaywrightBddFeatureLinkProvider()
+    );
+}
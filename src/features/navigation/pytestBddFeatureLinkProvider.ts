@@ -0,0 +1,52 @@
+/**
+ * pytest-bdd Feature Link Provider - makes the feature paths in `scenarios("x.feature")`
+ * and `@scenario("x.feature", "Name")` clickable.
+ *
+ * Paths resolve against the test module's directory (pytest-bdd's default features base dir);
+ * `@scenario` links jump to the named scenario when the feature file is indexed.
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IndexManager } from '../../core/index';
+import { findPytestBddFeatureReferences } from '../../core/parsing/pythonPytestBddBindingParser';
+
+export class PytestBddFeatureLinkProvider implements vscode.DocumentLinkProvider {
+    constructor(private indexManager: IndexManager) {}
+
+    provideDocumentLinks(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.DocumentLink[] {
+        const links: vscode.DocumentLink[] = [];
+        const moduleDir = path.dirname(document.uri.fsPath);
+
+        for (const reference of findPytestBddFeatureReferences(document.getText())) {
+            if (!reference.path.toLowerCase().endsWith('.feature')) {
+                continue;
+            }
+            let target = vscode.Uri.file(path.resolve(moduleDir, reference.path));
+            if (reference.scenarioName) {
+                const feature = this.indexManager.getIndex().getFeatureByUri(target);
+                const scenario = feature?.scenarios.find(s => s.name === reference.scenarioName);
+                if (scenario) {
+                    target = target.with({ fragment: `L${scenario.range.start.line + 1}` });
+                }
+            }
+            const range = new vscode.Range(
+                reference.lineNumber,
+                reference.startCharacter,
+                reference.lineNumber,
+                reference.endCharacter
+            );
+            links.push(new vscode.DocumentLink(range, target));
+        }
+
+        return links;
+    }
+}
+
+export function createPytestBddFeatureLinkProvider(indexManager: IndexManager): vscode.Disposable {
+    const provider = new PytestBddFeatureLinkProvider(indexManager);
+    return vscode.languages.registerDocumentLinkProvider({ language: 'python', scheme: 'file' }, provider);
+}
@@ -36,6 +36,8 @@ export class ReferenceProvider implements vscode.ReferenceProvider {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: kw => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
         const allSteps = collectAllIndexedSteps(index);
@@ -25,6 +25,7 @@ export const en: Record<string, string> = {
   selectUsagePlaceholder: 'Select a step usage to open',
   hoverTitle: 'BDD Guardian',
   hoverStatus: 'Status',
+  hoverRunner: 'Runner',
   hoverBound: 'Bound',
   hoverUnbound: 'Unbound',
   hoverAmbiguous: 'Ambiguous',
@@ -39,9 +40,13 @@ export const en: Record<string, string> = {
   ambiguityBroadVsSpecific: 'Broad pattern "{0}" overlaps more specific "{1}"',
   ambiguityGeneric: '{0} bindings match this step',
   hoverBestMatch: 'Best match:',
+  hoverExampleRows: 'Examples rows',
+  hoverExampleRowsSummary: '{0} bound · {1} unbound · {2} ambiguous',
+  hoverExampleRow: 'Row {0} (line {1})',
   hoverBinding: 'Binding',
   hoverPattern: 'Pattern',
   hoverFile: 'File',
+  hoverTargetFixture: 'Target fixture',
   hoverCaptured: 'Captured',
   hoverPreview: 'Preview',
   hoverClickFileLink: 'Click the file link above to open the full method.',
@@ -49,6 +54,7 @@ export const en: Record<string, string> = {
   hoverNoBindingsIndexed: 'No step bindings are indexed for this workspace. Check that step definition files exist and match your framework (e.g. `@cucumber/cucumber` in package.json).',
   hoverReindexNow: 'Reindex Now',
   bindingUsagesNoUsages: 'No usages',
+  bindingUsagesUnresolvablePattern: 'Unresolvable pattern',
   bindingUsagesOneUsage: '1 usage',
   bindingUsagesNUsages: '{0} usages',
   bindingUsagesScenarios: '{0} scenarios',
@@ -63,7 +69,12 @@ export const en: Record<string, string> = {
   diagnosticUnboundStep: 'No binding found for step: {0}',
   diagnosticAmbiguousStep: 'Ambiguous step - matches: {0}',
   diagnosticAmbiguousStepMore: ' +{0} more',
+  diagnosticUnboundExampleRow: 'No binding found for Examples row {0}: {1}',
+  diagnosticAmbiguousExampleRow: 'Examples row {0}: {1}',
+  diagnosticExampleRowStep: 'Outline step: {0}',
+  diagnosticTruncatedExamples: 'Only the first {0} of {1} Examples rows are checked (reqnrollNavigator.maxExampleRows)',
   diagnosticOrphanBinding: 'Unused binding: no feature steps resolve to "{0}"',
+  diagnosticUnresolvablePattern: 'Unresolvable pattern: the constants in {0} were not found, so no step can match this binding',
   codelensNoBindingFound: 'No binding found',
   codelensAmbiguousMore: '+{0} more (ambiguous)',
   codelensNoBindingsIndexed: 'No bindings indexed - click to reindex',
@@ -106,6 +117,7 @@ export const en: Record<string, string> = {
   codeActionOpenPilot: 'BDD Guardian: Open BDD Pilot',
   codeActionInstallPilot: 'BDD Guardian: Install BDD Pilot',
   pilotHandoffFailed: 'Could not open BDD Pilot — is it installed and enabled?',
+  tagFilterInvalid: 'reqnrollNavigator.tagFilter is ignored: {0}',
 };
 
 export const es: Record<string, string> = {
@@ -130,6 +142,7 @@ export const es: Record<string, string> = {
   selectUsagePlaceholder: 'Elige un uso del paso para abrir',
   hoverTitle: 'BDD Guardian',
   hoverStatus: 'Estado',
+  hoverRunner: 'Ejecutor',
   hoverBound: 'Enlazado',
   hoverUnbound: 'Sin enlazar',
   hoverAmbiguous: 'Ambiguo',
@@ -144,9 +157,13 @@ export const es: Record<string, string> = {
   ambiguityBroadVsSpecific: 'El patrón amplio "{0}" se solapa con el más específico "{1}"',
   ambiguityGeneric: '{0} bindings coinciden con este paso',
   hoverBestMatch: 'Mejor coincidencia:',
+  hoverExampleRows: 'Filas de Examples',
+  hoverExampleRowsSummary: '{0} enlazadas · {1} sin binding · {2} ambiguas',
+  hoverExampleRow: 'Fila {0} (línea {1})',
   hoverBinding: 'Binding',
   hoverPattern: 'Patrón',
   hoverFile: 'Archivo',
+  hoverTargetFixture: 'Fixture de destino',
   hoverCaptured: 'Capturados',
   hoverPreview: 'Vista previa',
   hoverClickFileLink: 'Haz clic en el enlace del archivo de arriba para abrir el método completo.',
@@ -154,6 +171,7 @@ export const es: Record<string, string> = {
   hoverNoBindingsIndexed: 'No hay bindings de steps indexados en este workspace. Comprueba que existan archivos de step definitions y que coincidan con tu framework (p. ej. `@cucumber/cucumber` en package.json).',
   hoverReindexNow: 'Reindexar ahora',
   bindingUsagesNoUsages: 'Sin usos',
+  bindingUsagesUnresolvablePattern: 'Patrón no resoluble',
   bindingUsagesOneUsage: '1 uso',
   bindingUsagesNUsages: '{0} usos',
   bindingUsagesScenarios: '{0} escenarios',
@@ -168,7 +186,12 @@ export const es: Record<string, string> = {
   diagnosticUnboundStep: 'No se encontró binding para el paso: {0}',
   diagnosticAmbiguousStep: 'Paso ambiguo - coinciden: {0}',
   diagnosticAmbiguousStepMore: ' +{0} más',
+  diagnosticUnboundExampleRow: 'No se encontró binding para la fila {0} de Examples: {1}',
+  diagnosticAmbiguousExampleRow: 'Fila {0} de Examples: {1}',
+  diagnosticExampleRowStep: 'Paso del esquema: {0}',
+  diagnosticTruncatedExamples: 'Solo se comprueban las primeras {0} de {1} filas de Examples (reqnrollNavigator.maxExampleRows)',
   diagnosticOrphanBinding: 'Binding sin uso: ningún step de feature resuelve a "{0}"',
+  diagnosticUnresolvablePattern: 'Patrón no resoluble: no se encontraron las constantes de {0}, ningún step puede coincidir con este binding',
   codelensNoBindingFound: 'No se encontró binding',
   codelensAmbiguousMore: '+{0} más (ambiguo)',
   codelensNoBindingsIndexed: 'Sin bindings indexados - clic para reindexar',
@@ -211,4 +234,5 @@ export const es: Record<string, string> = {
   codeActionOpenPilot: 'BDD Guardian: Abrir BDD Pilot',
   codeActionInstallPilot: 'BDD Guardian: Instalar BDD Pilot',
   pilotHandoffFailed: 'No se pudo abrir BDD Pilot — ¿está instalado y activado?',
+  tagFilterInvalid: 'Se ignora reqnrollNavigator.tagFilter: {0}',
 };
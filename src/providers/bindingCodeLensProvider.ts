@@ -51,6 +51,8 @@ export class BindingCodeLensProvider implements vscode.CodeLensProvider {
         const deps: ResolverDependencies = {
             getAllBindings: () => allBindings,
             getBindingsByKeyword: (kw: ResolvedKeyword) => index.getBindingsByKeyword(kw),
+            glueScopes: index.getGlueScopes(),
+            projects: index.getProjects(),
         };
         const resolve = createResolver(applyMatchingSettings(deps));
 
@@ -75,6 +77,14 @@ export class BindingCodeLensProvider implements vscode.CodeLensProvider {
         const uniqueScenarios = this.getUniqueScenarios(usages);
         const range = new vscode.Range(binding.lineNumber, 0, binding.lineNumber, 0);
 
+        if (binding.patternUnresolved) {
+            return new vscode.CodeLens(range, {
+                title: '⚠ ' + t('bindingUsagesUnresolvablePattern'),
+                command: '',
+                tooltip: t('diagnosticUnresolvablePattern', binding.patternRaw),
+            });
+        }
+
         if (count === 0) {
             return new vscode.CodeLens(range, {
                 title: '○ ' + t('bindingUsagesNoUsages'),
@@ -13,8 +13,13 @@ import {
     BindingIndexOptions,
     createDetectionResult,
 } from './types';
-import { Binding } from '../../core/domain';
-import { parseCSharpBindingsFromText } from '../../core/parsing/csharpBindingParser';
+import { Binding, BindingClassDeclaration, ParameterTypeDefinition } from '../../core/domain';
+import {
+    linkCSharpBindings,
+    parseCSharpBindingsFromText,
+    parseCSharpClassDeclarationsFromText,
+    parseCSharpParameterTypesFromText,
+} from '../../core/parsing/csharpBindingParser';
 
 /**
  * Regex patterns for C# Reqnroll binding detection and parsing
@@ -176,6 +181,22 @@ export class CSharpReqnrollProvider implements IBindingProvider {
             caseInsensitive: options.caseInsensitive,
         });
     }
+
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        return parseCSharpParameterTypesFromText(document.getText(), document.uri);
+    }
+
+    parseClassDeclarations(document: vscode.TextDocument): BindingClassDeclaration[] {
+        return parseCSharpClassDeclarationsFromText(document.getText(), document.uri);
+    }
+
+    /**
+     * Patterns built from constants in other files, and steps inherited from base classes
+     * declared in other files with their `[Scope]`.
+     */
+    linkBindings(bindings: readonly Binding[], classes: readonly BindingClassDeclaration[]): Binding[] {
+        return linkCSharpBindings(bindings, classes);
+    }
     
     /**
      * Read file content as string.
@@ -13,8 +13,13 @@ import {
     BindingIndexOptions,
     createDetectionResult,
 } from './types';
-import { Binding } from '../../core/domain';
-import { parseCSharpBindingsFromText } from '../../core/parsing/csharpBindingParser';
+import { Binding, BindingClassDeclaration, ParameterTypeDefinition } from '../../core/domain';
+import {
+    linkCSharpBindings,
+    parseCSharpBindingsFromText,
+    parseCSharpClassDeclarationsFromText,
+    parseCSharpParameterTypesFromText,
+} from '../../core/parsing/csharpBindingParser';
 
 const PATTERNS = {
     CSPROJ_SPECFLOW: /PackageReference\s+Include\s*=\s*["']SpecFlow/i,
@@ -166,6 +171,22 @@ export class CSharpSpecflowProvider implements IBindingProvider {
         });
     }
 
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        return parseCSharpParameterTypesFromText(document.getText(), document.uri);
+    }
+
+    parseClassDeclarations(document: vscode.TextDocument): BindingClassDeclaration[] {
+        return parseCSharpClassDeclarationsFromText(document.getText(), document.uri);
+    }
+
+    /**
+     * Patterns built from constants in other files, and steps inherited from base classes
+     * declared in other files with their `[Scope]`.
+     */
+    linkBindings(bindings: readonly Binding[], classes: readonly BindingClassDeclaration[]): Binding[] {
+        return linkCSharpBindings(bindings, classes);
+    }
+
     private async readFileContent(uri: vscode.Uri): Promise<string> {
         const bytes = await vscode.workspace.fs.readFile(uri);
         return Buffer.from(bytes).toString('utf-8');
@@ -32,3 +32,6 @@ export { JavaCucumberProvider, getJavaCucumberProvider } from './javaCucumberPro
 export { PythonBehaveProvider, getPythonBehaveProvider } from './pythonBehaveProvider';
 export { PythonPytestBddProvider, getPythonPytestBddProvider } from './pythonPytestBddProvider';
 export { GoGodogProvider, getGoGodogProvider } from './goGodogProvider';
+export { PhpBehatProvider, getPhpBehatProvider } from './phpBehatProvider';
+export { RustCucumberProvider, getRustCucumberProvider } from './rustCucumberProvider';
+export { RubyCucumberProvider, getRubyCucumberProvider } from './rubyCucumberProvider';
@@ -1,7 +1,8 @@
 /**
  * Java Cucumber-JVM Binding Provider (MVP)
  *
- * Detects io.cucumber in Maven/Gradle and indexes @Given/@When/@Then annotations.
+ * Detects io.cucumber in Maven/Gradle and indexes @Given/@When/@Then annotations
+ * in Java and Kotlin glue.
  */
 
 import * as vscode from 'vscode';
@@ -12,8 +13,15 @@ import {
     BindingIndexOptions,
     createDetectionResult,
 } from './types';
-import { Binding } from '../../core/domain';
-import { parseJavaCucumberBindingsFromText } from '../../core/parsing/javaCucumberBindingParser';
+import { Binding, ParameterTypeDefinition } from '../../core/domain';
+import {
+    parseJavaCucumberBindingsFromText,
+    parseJavaParameterTypesFromText,
+} from '../../core/parsing/javaCucumberBindingParser';
+import {
+    parseKotlinCucumberBindingsFromText,
+    parseKotlinParameterTypesFromText,
+} from '../../core/parsing/kotlinCucumberBindingParser';
 
 const DEP_FILE_EXCLUDE =
     '{**/target/**,**/.gradle/**,**/node_modules/**,**/.mvn/**,**/build/**}';
@@ -21,14 +29,19 @@ const DEP_FILE_EXCLUDE =
 export class JavaCucumberProvider implements IBindingProvider {
     public readonly id: BindingProviderId = 'java-cucumber';
     public readonly displayName = 'Java Cucumber';
-    public readonly bindingFileExtensions = ['.java'];
+    public readonly bindingFileExtensions = ['.java', '.kt'];
     public readonly bindingGlob =
         '{' +
         'src/test/java/**/*.java,' +
+        'src/test/kotlin/**/*.kt,' +
         '**/stepdefs/**/*.java,' +
+        '**/stepdefs/**/*.kt,' +
         '**/steps/**/*.java,' +
+        '**/steps/**/*.kt,' +
         '**/*Steps.java,' +
-        '**/*StepDefinitions.java' +
+        '**/*Steps.kt,' +
+        '**/*StepDefinitions.java,' +
+        '**/*StepDefinitions.kt' +
         '}';
 
     async detect(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DetectionResult> {
@@ -55,18 +68,34 @@ export class JavaCucumberProvider implements IBindingProvider {
                             const rel = vscode.workspace.asRelativePath(fileUri);
                             signals.push(`Found io.cucumber in ${rel}`);
                             reasons.push(`Found io.cucumber in ${pattern.replace('**/', '')}`);
-                            return createDetectionResult(0.9, reasons, signals, ['java']);
+                            return createDetectionResult(0.9, reasons, signals, this.buildLanguages(content));
                         }
                     } catch {
                         // skip unreadable file
                     }
                 }
             }
+
+            // Kotlin glue without a recognizable dependency declaration (version catalogs, convention plugins)
+            const kotlinFiles = await vscode.workspace.findFiles('**/*.kt', DEP_FILE_EXCLUDE, 50);
+            for (const fileUri of kotlinFiles) {
+                try {
+                    const content = await this.readFileContent(fileUri);
+                    if (/^\s*import\s+(?:io\.cucumber\.java8?|cucumber\.api\.java)\./m.test(content)) {
+                        const rel = vscode.workspace.asRelativePath(fileUri);
+                        signals.push(`Found io.cucumber import in ${rel}`);
+                        reasons.push('Found io.cucumber imports in Kotlin sources');
+                        return createDetectionResult(0.8, reasons, signals, ['kotlin']);
+                    }
+                } catch {
+                    // skip unreadable file
+                }
+            }
         } catch (error) {
             reasons.push(`Detection error: ${error}`);
         }
 
-        reasons.push('No io.cucumber dependency found in pom.xml or build.gradle');
+        reasons.push('No io.cucumber dependency found in pom.xml or build.gradle(.kts)');
         return createDetectionResult(0, reasons, signals, []);
     }
 
@@ -89,11 +118,23 @@ export class JavaCucumberProvider implements IBindingProvider {
     }
 
     parseFile(document: vscode.TextDocument, options?: BindingIndexOptions): Binding[] {
+        if (isKotlinFile(document.uri)) {
+            return parseKotlinCucumberBindingsFromText(document.getText(), document.uri, {
+                caseInsensitive: options?.caseInsensitive,
+            });
+        }
         return parseJavaCucumberBindingsFromText(document.getText(), document.uri, {
             caseInsensitive: options?.caseInsensitive,
         });
     }
 
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        if (isKotlinFile(document.uri)) {
+            return parseKotlinParameterTypesFromText(document.getText(), document.uri);
+        }
+        return parseJavaParameterTypesFromText(document.getText(), document.uri);
+    }
+
     private declaresCucumberJvmDependency(content: string, filePath: string): boolean {
         if (!/io\.cucumber/.test(content)) {
             return false;
@@ -110,7 +151,7 @@ export class JavaCucumberProvider implements IBindingProvider {
 
         if (base === 'build.gradle' || base === 'build.gradle.kts') {
             return (
-                /['"]io\.cucumber:cucumber-(java|junit)/i.test(content) ||
+                /['"]io\.cucumber:cucumber-(java|junit|bom)/i.test(content) ||
                 /io\.cucumber\s*[:('"](cucumber-java|cucumber-junit)/i.test(content)
             );
         }
@@ -118,12 +159,23 @@ export class JavaCucumberProvider implements IBindingProvider {
         return false;
     }
 
+    /** Kotlin Gradle builds (`kotlin("jvm")`, org.jetbrains.kotlin plugins) also write glue in Kotlin */
+    private buildLanguages(buildFileContent: string): string[] {
+        return /\bkotlin\s*\(\s*["']jvm["']|org\.jetbrains\.kotlin/.test(buildFileContent)
+            ? ['java', 'kotlin']
+            : ['java'];
+    }
+
     private async readFileContent(uri: vscode.Uri): Promise<string> {
         const bytes = await vscode.workspace.fs.readFile(uri);
         return Buffer.from(bytes).toString('utf-8');
     }
 }
 
+function isKotlinFile(uri: vscode.Uri): boolean {
+    return uri.fsPath.toLowerCase().endsWith('.kt');
+}
+
 let instance: JavaCucumberProvider | null = null;
 
 export function getJavaCucumberProvider(): JavaCucumberProvider {
@@ -1,7 +1,8 @@
 /**
  * JavaScript/TypeScript Cucumber.js Binding Provider (MVP)
  *
- * Detects @cucumber/cucumber in package.json and indexes step definitions.
+ * Detects @cucumber/cucumber, playwright-bdd or the Cypress cucumber preprocessor in
+ * package.json and indexes step definitions.
  */
 
 import * as vscode from 'vscode';
@@ -12,8 +13,19 @@ import {
     BindingIndexOptions,
     createDetectionResult,
 } from './types';
-import { Binding } from '../../core/domain';
-import { parseJsCucumberBindingsFromText } from '../../core/parsing/jsCucumberBindingParser';
+import { Binding, ParameterTypeDefinition } from '../../core/domain';
+import {
+    parseJsCucumberBindingsFromText,
+    parseJsParameterTypesFromText,
+} from '../../core/parsing/jsCucumberBindingParser';
+
+/** Packages whose step definitions follow Cucumber.js (Cucumber Expressions, keywords ignored) */
+const STEP_DEFINITION_PACKAGES = [
+    '@cucumber/cucumber',
+    'playwright-bdd',
+    '@badeball/cypress-cucumber-preprocessor',
+    'cypress-cucumber-preprocessor',
+];
 
 export class JsCucumberProvider implements IBindingProvider {
     public readonly id: BindingProviderId = 'js-cucumber';
@@ -21,13 +33,16 @@ export class JsCucumberProvider implements IBindingProvider {
     public readonly bindingFileExtensions = ['.js', '.ts', '.mjs', '.cjs'];
     /**
      * Narrower glob than "everything" to keep indexing snappy on large repos.
-     * We still do a hard filter in parseFile (must reference @cucumber/cucumber).
+     * We still do a hard filter in parseFile (must reference a step definition source).
      */
     public readonly bindingGlob =
         '{' +
         '**/features/**/*.{js,ts,mjs,cjs},' +
         '**/features/step_definitions/**/*.{js,ts,mjs,cjs},' +
         '**/features/support/**/*.{js,ts,mjs,cjs},' +
+        '**/steps/**/*.{js,ts,mjs,cjs},' +
+        '**/cypress/e2e/**/*.{js,ts,mjs,cjs},' +
+        '**/cypress/support/step_definitions/**/*.{js,ts,mjs,cjs},' +
         '**/*.{steps,step,definitions}.{js,ts,mjs,cjs}' +
         '}';
     
@@ -43,10 +58,10 @@ export class JsCucumberProvider implements IBindingProvider {
             const packageJsonFiles = await vscode.workspace.findFiles('**/package.json', '**/node_modules/**', 20);
             for (const pkgUri of packageJsonFiles) {
                 try {
-                    const content = await this.readFileContent(pkgUri);
-                    if (this.hasCucumberDependency(content)) {
-                        signals.push(`Found @cucumber/cucumber in ${vscode.workspace.asRelativePath(pkgUri)}`);
-                        reasons.push('Found @cucumber/cucumber in package.json');
+                    const dependency = this.findStepDefinitionDependency(await this.readFileContent(pkgUri));
+                    if (dependency) {
+                        signals.push(`Found ${dependency} in ${vscode.workspace.asRelativePath(pkgUri)}`);
+                        reasons.push(`Found ${dependency} in package.json`);
                         return createDetectionResult(0.9, reasons, signals, ['javascript', 'typescript']);
                     }
                 } catch {
@@ -57,7 +72,7 @@ export class JsCucumberProvider implements IBindingProvider {
             reasons.push(`Detection error: ${error}`);
         }
 
-        reasons.push('No @cucumber/cucumber dependency found');
+        reasons.push('No @cucumber/cucumber, playwright-bdd or Cypress cucumber preprocessor dependency found');
         return createDetectionResult(0, reasons, signals, []);
     }
     
@@ -88,18 +103,23 @@ export class JsCucumberProvider implements IBindingProvider {
         });
     }
 
-    private hasCucumberDependency(packageJsonText: string): boolean {
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        return parseJsParameterTypesFromText(document.getText(), document.uri);
+    }
+
+    private findStepDefinitionDependency(packageJsonText: string): string | null {
         // Fast string check first.
-        if (!packageJsonText.includes('@cucumber/cucumber')) {
-            return false;
+        const mentioned = STEP_DEFINITION_PACKAGES.filter((name) => packageJsonText.includes(`"${name}"`));
+        if (mentioned.length === 0) {
+            return null;
         }
         try {
             const json = JSON.parse(packageJsonText) as any;
             const deps = { ...(json.dependencies ?? {}), ...(json.devDependencies ?? {}) };
-            return Boolean(deps['@cucumber/cucumber']);
+            return mentioned.find((name) => Boolean(deps[name])) ?? null;
         } catch {
             // If JSON is invalid, still treat as signal if string is present.
-            return true;
+            return mentioned[0];
         }
     }
 
@@ -0,0 +1,111 @@
+/**
+ * PHP Behat Binding Provider
+ *
+ * Detects Behat from behat.yml or composer.json and indexes step definitions
+ * (docblock annotations and PHP 8 attributes) in Context classes.
+ */
+
+import * as vscode from 'vscode';
+import {
+    IBindingProvider,
+    BindingProviderId,
+    DetectionResult,
+    BindingIndexOptions,
+    createDetectionResult,
+} from './types';
+import { Binding } from '../../core/domain';
+import { parsePhpBehatBindingsFromText } from '../../core/parsing/phpBehatBindingParser';
+
+const PHP_FILE_EXCLUDE = '{**/vendor/**,**/node_modules/**,**/var/cache/**}';
+
+export class PhpBehatProvider implements IBindingProvider {
+    public readonly id: BindingProviderId = 'php-behat';
+    public readonly displayName = 'PHP Behat';
+    public readonly bindingFileExtensions = ['.php'];
+    public readonly bindingGlob =
+        '{' +
+        '**/features/bootstrap/**/*.php,' +
+        '**/features/**/*Context.php,' +
+        '**/tests/Behat/**/*.php,' +
+        '**/tests/**/*Context.php' +
+        '}';
+
+    async detect(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DetectionResult> {
+        if (workspaceFolders.length === 0) {
+            return createDetectionResult(0, ['No workspace folders']);
+        }
+
+        const reasons: string[] = [];
+        const signals: string[] = [];
+
+        try {
+            const configFiles = await vscode.workspace.findFiles(
+                '**/{behat.yml,behat.yml.dist,behat.dist.yml,behat.yaml,behat.dist.yaml}',
+                PHP_FILE_EXCLUDE,
+                5
+            );
+            if (configFiles.length > 0) {
+                signals.push(`Found ${vscode.workspace.asRelativePath(configFiles[0])}`);
+                reasons.push('Found Behat configuration file');
+                return createDetectionResult(0.9, reasons, signals, ['php']);
+            }
+
+            const composerFiles = await vscode.workspace.findFiles('**/composer.json', PHP_FILE_EXCLUDE, 20);
+            for (const fileUri of composerFiles) {
+                try {
+                    const content = await this.readFileContent(fileUri);
+                    if (/"behat\/behat"\s*:/.test(content)) {
+                        signals.push(`Found behat/behat in ${vscode.workspace.asRelativePath(fileUri)}`);
+                        reasons.push('Found behat/behat in composer.json');
+                        return createDetectionResult(0.9, reasons, signals, ['php']);
+                    }
+                } catch {
+                    // skip unreadable file
+                }
+            }
+        } catch (error) {
+            reasons.push(`Detection error: ${error}`);
+        }
+
+        reasons.push('No behat.yml or behat/behat dependency found');
+        return createDetectionResult(0, reasons, signals, []);
+    }
+
+    async indexBindings(
+        files: readonly vscode.Uri[],
+        options?: BindingIndexOptions
+    ): Promise<Binding[]> {
+        const bindings: Binding[] = [];
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                bindings.push(...this.parseFile(document, options));
+            } catch (error) {
+                if (options?.debug) {
+                    console.warn(`[PhpBehatProvider] Error indexing ${uri.fsPath}: ${error}`);
+                }
+            }
+        }
+        return bindings;
+    }
+
+    parseFile(document: vscode.TextDocument, options?: BindingIndexOptions): Binding[] {
+        return parsePhpBehatBindingsFromText(document.getText(), document.uri, {
+            caseInsensitive: options?.caseInsensitive,
+        });
+    }
+
+    private async readFileContent(uri: vscode.Uri): Promise<string> {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(bytes).toString('utf-8');
+    }
+}
+
+let instance: PhpBehatProvider | null = null;
+
+export function getPhpBehatProvider(): PhpBehatProvider {
+    if (!instance) {
+        instance = new PhpBehatProvider();
+    }
+    return instance;
+}
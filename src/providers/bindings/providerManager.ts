@@ -25,6 +25,9 @@ import { getJavaCucumberProvider } from './javaCucumberProvider';
 import { getPythonBehaveProvider } from './pythonBehaveProvider';
 import { getPythonPytestBddProvider } from './pythonPytestBddProvider';
 import { getGoGodogProvider } from './goGodogProvider';
+import { getPhpBehatProvider } from './phpBehatProvider';
+import { getRustCucumberProvider } from './rustCucumberProvider';
+import { getRubyCucumberProvider } from './rubyCucumberProvider';
 import { applyCSharpProviderExclusivity } from './csharpProviderExclusivity';
 
 /**
@@ -70,6 +73,15 @@ export class ProviderManager {
         
         // Go
         this.registerProvider(getGoGodogProvider());
+
+        // PHP
+        this.registerProvider(getPhpBehatProvider());
+
+        // Rust
+        this.registerProvider(getRustCucumberProvider());
+
+        // Ruby
+        this.registerProvider(getRubyCucumberProvider());
     }
     
     /**
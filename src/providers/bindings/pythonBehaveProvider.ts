@@ -12,8 +12,11 @@ import {
     BindingIndexOptions,
     createDetectionResult,
 } from './types';
-import { Binding } from '../../core/domain';
-import { parsePythonBehaveBindingsFromText } from '../../core/parsing/pythonBehaveBindingParser';
+import { Binding, ParameterTypeDefinition } from '../../core/domain';
+import {
+    parsePythonBehaveBindingsFromText,
+    parsePythonBehaveParameterTypesFromText,
+} from '../../core/parsing/pythonBehaveBindingParser';
 
 const DEP_FILE_EXCLUDE = '{**/.venv/**,**/venv/**,**/node_modules/**,**/__pycache__/**}';
 
@@ -25,6 +28,7 @@ export class PythonBehaveProvider implements IBindingProvider {
         '{' +
         '**/features/steps/**/*.py,' +
         '**/features/**/steps/**/*.py,' +
+        '**/features/environment.py,' +
         '**/*_steps.py' +
         '}';
 
@@ -106,6 +110,10 @@ export class PythonBehaveProvider implements IBindingProvider {
         });
     }
 
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        return parsePythonBehaveParameterTypesFromText(document.getText(), document.uri);
+    }
+
     private declaresBehaveDependency(content: string, pattern: string): boolean {
         if (!/\bbehave\b/.test(content)) {
             return false;
@@ -1,7 +1,8 @@
 /**
- * Python pytest-bdd Binding Provider (Stub)
- * 
- * Placeholder for future pytest-bdd support.
+ * Python pytest-bdd Binding Provider
+ *
+ * Detects pytest-bdd in Python project files and indexes step definitions
+ * (usually in conftest.py and test modules).
  */
 
 import * as vscode from 'vscode';
@@ -10,39 +11,119 @@ import {
     BindingProviderId,
     DetectionResult,
     BindingIndexOptions,
-    NOT_IMPLEMENTED_DETECTION,
+    createDetectionResult,
 } from './types';
 import { Binding } from '../../core/domain';
+import { parsePythonPytestBddBindingsFromText } from '../../core/parsing/pythonPytestBddBindingParser';
+
+const PY_FILE_EXCLUDE = '{**/.venv/**,**/venv/**,**/node_modules/**,**/__pycache__/**}';
+
+const PYTEST_BDD_IMPORT_REGEX = /\bfrom\s+pytest_bdd(?:\.\w+)?\s+import\b|\bimport\s+pytest_bdd\b/;
 
-/**
- * Python pytest-bdd Binding Provider (Stub)
- */
 export class PythonPytestBddProvider implements IBindingProvider {
     public readonly id: BindingProviderId = 'python-pytestbdd';
     public readonly displayName = 'Python pytest-bdd';
     public readonly bindingFileExtensions = ['.py'];
-    public readonly bindingGlob = '**/*.py';
-    
-    async detect(_workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DetectionResult> {
-        // TODO: Implement pytest-bdd detection
-        // Signals: pytest-bdd in requirements.txt, @given/@when/@then from pytest_bdd
-        return NOT_IMPLEMENTED_DETECTION;
+    public readonly bindingGlob =
+        '{' +
+        '**/conftest.py,' +
+        '**/test_*.py,' +
+        '**/*_test.py,' +
+        '**/steps/**/*.py,' +
+        '**/step_defs/**/*.py,' +
+        '**/*_steps.py' +
+        '}';
+
+    async detect(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DetectionResult> {
+        if (workspaceFolders.length === 0) {
+            return createDetectionResult(0, ['No workspace folders']);
+        }
+
+        const reasons: string[] = [];
+        const signals: string[] = [];
+
+        try {
+            const depPatterns = [
+                '**/requirements.txt',
+                '**/requirements/*.txt',
+                '**/pyproject.toml',
+                '**/setup.cfg',
+                '**/setup.py',
+            ] as const;
+
+            for (const pattern of depPatterns) {
+                const files = await vscode.workspace.findFiles(pattern, PY_FILE_EXCLUDE, 15);
+                for (const fileUri of files) {
+                    try {
+                        const content = await this.readFileContent(fileUri);
+                        if (this.declaresPytestBddDependency(content)) {
+                            signals.push(
+                                `Found pytest-bdd in ${vscode.workspace.asRelativePath(fileUri)}`
+                            );
+                            reasons.push(`Found pytest-bdd in ${pattern.replace('**/', '')}`);
+                            return createDetectionResult(0.9, reasons, signals, ['python']);
+                        }
+                    } catch {
+                        // skip
+                    }
+                }
+            }
+
+            const pyFiles = await vscode.workspace.findFiles(this.bindingGlob, PY_FILE_EXCLUDE, 50);
+            for (const fileUri of pyFiles) {
+                try {
+                    const content = await this.readFileContent(fileUri);
+                    if (PYTEST_BDD_IMPORT_REGEX.test(content)) {
+                        signals.push(
+                            `Found pytest_bdd import in ${vscode.workspace.asRelativePath(fileUri)}`
+                        );
+                        reasons.push('Found pytest_bdd imports');
+                        return createDetectionResult(0.8, reasons, signals, ['python']);
+                    }
+                } catch {
+                    // skip
+                }
+            }
+        } catch (error) {
+            reasons.push(`Detection error: ${error}`);
+        }
+
+        reasons.push('No pytest-bdd package or pytest_bdd imports found');
+        return createDetectionResult(0, reasons, signals, []);
     }
-    
+
     async indexBindings(
-        _files: readonly vscode.Uri[],
-        _options?: BindingIndexOptions
+        files: readonly vscode.Uri[],
+        options?: BindingIndexOptions
     ): Promise<Binding[]> {
-        // TODO: Implement pytest-bdd binding parsing
-        // Look for: @given('pattern'), @when('pattern'), @then('pattern')
-        return [];
+        const bindings: Binding[] = [];
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                bindings.push(...this.parseFile(document, options));
+            } catch (error) {
+                if (options?.debug) {
+                    console.warn(`[PythonPytestBddProvider] Error indexing ${uri.fsPath}: ${error}`);
+                }
+            }
+        }
+        return bindings;
+    }
+
+    parseFile(document: vscode.TextDocument, options?: BindingIndexOptions): Binding[] {
+        return parsePythonPytestBddBindingsFromText(document.getText(), document.uri, {
+            caseInsensitive: options?.caseInsensitive,
+        });
+    }
+
+    /** requirements*.txt, pyproject.toml, setup.cfg and setup.py all name the distribution */
+    private declaresPytestBddDependency(content: string): boolean {
+        return /(?:^|["'\s[,])pytest[-_]bdd(?:["'\s\],=<>!~;[]|$)/im.test(content);
     }
-    
-    parseFile(
-        _document: vscode.TextDocument,
-        _options?: BindingIndexOptions
-    ): Binding[] {
-        return [];
+
+    private async readFileContent(uri: vscode.Uri): Promise<string> {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(bytes).toString('utf-8');
     }
 }
 
@@ -0,0 +1,118 @@
+/**
+ * Ruby Cucumber Binding Provider
+ *
+ * Detects the cucumber gem (Gemfile, cucumber.yml) and indexes step definitions
+ * and `ParameterType` definitions under features/step_definitions and features/support.
+ */
+
+import * as vscode from 'vscode';
+import {
+    IBindingProvider,
+    BindingProviderId,
+    DetectionResult,
+    BindingIndexOptions,
+    createDetectionResult,
+} from './types';
+import { Binding, ParameterTypeDefinition } from '../../core/domain';
+import {
+    parseRubyCucumberBindingsFromText,
+    parseRubyParameterTypesFromText,
+} from '../../core/parsing/rubyCucumberBindingParser';
+
+const RUBY_FILE_EXCLUDE = '{**/vendor/**,**/node_modules/**,**/tmp/**}';
+
+const CUCUMBER_GEM_REGEX = /^\s*gem\s+['"]cucumber(?:-rails)?['"]/m;
+
+export class RubyCucumberProvider implements IBindingProvider {
+    public readonly id: BindingProviderId = 'ruby-cucumber';
+    public readonly displayName = 'Ruby Cucumber';
+    public readonly bindingFileExtensions = ['.rb'];
+    public readonly bindingGlob =
+        '{' + '**/features/step_definitions/**/*.rb,' + '**/features/support/**/*.rb' + '}';
+
+    async detect(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DetectionResult> {
+        if (workspaceFolders.length === 0) {
+            return createDetectionResult(0, ['No workspace folders']);
+        }
+
+        const reasons: string[] = [];
+        const signals: string[] = [];
+
+        try {
+            const gemfiles = await vscode.workspace.findFiles('**/Gemfile', RUBY_FILE_EXCLUDE, 20);
+            for (const fileUri of gemfiles) {
+                try {
+                    if (CUCUMBER_GEM_REGEX.test(await this.readFileContent(fileUri))) {
+                        signals.push(`Found cucumber gem in ${vscode.workspace.asRelativePath(fileUri)}`);
+                        reasons.push('Found cucumber gem in Gemfile');
+                        return createDetectionResult(0.9, reasons, signals, ['ruby']);
+                    }
+                } catch {
+                    // skip unreadable file
+                }
+            }
+
+            // cucumber.yml is shared with Cucumber.js: only count it next to Ruby step definitions
+            const profiles = await vscode.workspace.findFiles('**/cucumber.yml', RUBY_FILE_EXCLUDE, 5);
+            if (profiles.length > 0) {
+                const rubySteps = await vscode.workspace.findFiles(
+                    '**/features/step_definitions/**/*.rb',
+                    RUBY_FILE_EXCLUDE,
+                    1
+                );
+                if (rubySteps.length > 0) {
+                    signals.push(`Found ${vscode.workspace.asRelativePath(profiles[0])}`);
+                    reasons.push('Found cucumber.yml and Ruby step definitions');
+                    return createDetectionResult(0.8, reasons, signals, ['ruby']);
+                }
+            }
+        } catch (error) {
+            reasons.push(`Detection error: ${error}`);
+        }
+
+        reasons.push('No cucumber gem in Gemfile and no cucumber.yml with Ruby step definitions');
+        return createDetectionResult(0, reasons, signals, []);
+    }
+
+    async indexBindings(
+        files: readonly vscode.Uri[],
+        options?: BindingIndexOptions
+    ): Promise<Binding[]> {
+        const bindings: Binding[] = [];
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                bindings.push(...this.parseFile(document, options));
+            } catch (error) {
+                if (options?.debug) {
+                    console.warn(`[RubyCucumberProvider] Error indexing ${uri.fsPath}: ${error}`);
+                }
+            }
+        }
+        return bindings;
+    }
+
+    parseFile(document: vscode.TextDocument, options?: BindingIndexOptions): Binding[] {
+        return parseRubyCucumberBindingsFromText(document.getText(), document.uri, {
+            caseInsensitive: options?.caseInsensitive,
+        });
+    }
+
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        return parseRubyParameterTypesFromText(document.getText(), document.uri);
+    }
+
+    private async readFileContent(uri: vscode.Uri): Promise<string> {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(bytes).toString('utf-8');
+    }
+}
+
+let instance: RubyCucumberProvider | null = null;
+
+export function getRubyCucumberProvider(): RubyCucumberProvider {
+    if (!instance) {
+        instance = new RubyCucumberProvider();
+    }
+    return instance;
+}
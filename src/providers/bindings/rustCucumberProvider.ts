@@ -0,0 +1,139 @@
+/**
+ * Rust cucumber-rs Binding Provider
+ *
+ * Detects the `cucumber` crate in Cargo.toml dev-dependencies and indexes
+ * `#[given]` / `#[when]` / `#[then]` step functions in test targets.
+ */
+
+import * as vscode from 'vscode';
+import {
+    IBindingProvider,
+    BindingProviderId,
+    DetectionResult,
+    BindingIndexOptions,
+    createDetectionResult,
+} from './types';
+import { Binding, ParameterTypeDefinition } from '../../core/domain';
+import {
+    parseRustCucumberBindingsFromText,
+    parseRustCucumberParameterTypesFromText,
+} from '../../core/parsing/rustCucumberBindingParser';
+
+const CARGO_EXCLUDE = '{**/target/**,**/node_modules/**}';
+
+const CARGO_SECTION_REGEX = /^\s*\[([^\]]+)\]\s*$/;
+
+const CUCUMBER_DEPENDENCY_REGEX = /^\s*cucumber\s*(?:\.\s*\w+\s*)?=/;
+
+/**
+ * Cargo.toml section that declares the `cucumber` crate: `[dev-dependencies]` (also
+ * target-specific and `[dev-dependencies.cucumber]` tables) or `[dependencies]`
+ */
+export function findCucumberDependencySection(cargoToml: string): 'dev-dependencies' | 'dependencies' | null {
+    let section = '';
+    let found: 'dev-dependencies' | 'dependencies' | null = null;
+    for (const line of cargoToml.split(/\r?\n/)) {
+        const header = CARGO_SECTION_REGEX.exec(line);
+        if (header) {
+            section = header[1].trim();
+            if (/(?:^|\.)dev-dependencies\.cucumber$/.test(section)) return 'dev-dependencies';
+            if (/(?:^|\.)dependencies\.cucumber$/.test(section)) found = 'dependencies';
+            continue;
+        }
+        if (!CUCUMBER_DEPENDENCY_REGEX.test(line)) {
+            continue;
+        }
+        if (/(?:^|\.)dev-dependencies$/.test(section)) return 'dev-dependencies';
+        if (/(?:^|\.)dependencies$/.test(section)) found = 'dependencies';
+    }
+    return found;
+}
+
+export class RustCucumberProvider implements IBindingProvider {
+    public readonly id: BindingProviderId = 'rust-cucumber';
+    public readonly displayName = 'Rust Cucumber';
+    public readonly bindingFileExtensions = ['.rs'];
+    public readonly bindingGlob = '{' + '**/tests/**/*.rs,' + '**/steps/**/*.rs,' + '**/*_steps.rs' + '}';
+
+    async detect(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DetectionResult> {
+        if (workspaceFolders.length === 0) {
+            return createDetectionResult(0, ['No workspace folders']);
+        }
+
+        const reasons: string[] = [];
+        const signals: string[] = [];
+        let confidence = 0;
+
+        try {
+            const cargoFiles = await vscode.workspace.findFiles('**/Cargo.toml', CARGO_EXCLUDE, 30);
+            for (const fileUri of cargoFiles) {
+                try {
+                    const section = findCucumberDependencySection(await this.readFileContent(fileUri));
+                    if (!section) {
+                        continue;
+                    }
+                    signals.push(`Found cucumber in [${section}] of ${vscode.workspace.asRelativePath(fileUri)}`);
+                    if (section === 'dev-dependencies') {
+                        reasons.push('Found cucumber crate in Cargo.toml dev-dependencies');
+                        confidence = 0.9;
+                        break;
+                    }
+                    reasons.push('Found cucumber crate in Cargo.toml dependencies');
+                    confidence = Math.max(confidence, 0.75);
+                } catch {
+                    // skip unreadable file
+                }
+            }
+        } catch (error) {
+            reasons.push(`Detection error: ${error}`);
+        }
+
+        if (confidence === 0) {
+            reasons.push('No cucumber crate found in Cargo.toml');
+            return createDetectionResult(0, reasons, signals, []);
+        }
+        return createDetectionResult(confidence, reasons, signals, ['rust']);
+    }
+
+    async indexBindings(
+        files: readonly vscode.Uri[],
+        options?: BindingIndexOptions
+    ): Promise<Binding[]> {
+        const bindings: Binding[] = [];
+        for (const uri of files) {
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                bindings.push(...this.parseFile(document, options));
+            } catch (error) {
+                if (options?.debug) {
+                    console.warn(`[RustCucumberProvider] Error indexing ${uri.fsPath}: ${error}`);
+                }
+            }
+        }
+        return bindings;
+    }
+
+    parseFile(document: vscode.TextDocument, options?: BindingIndexOptions): Binding[] {
+        return parseRustCucumberBindingsFromText(document.getText(), document.uri, {
+            caseInsensitive: options?.caseInsensitive,
+        });
+    }
+
+    parseParameterTypes(document: vscode.TextDocument): ParameterTypeDefinition[] {
+        return parseRustCucumberParameterTypesFromText(document.getText(), document.uri);
+    }
+
+    private async readFileContent(uri: vscode.Uri): Promise<string> {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(bytes).toString('utf-8');
+    }
+}
+
+let instance: RustCucumberProvider | null = null;
+
+export function getRustCucumberProvider(): RustCucumberProvider {
+    if (!instance) {
+        instance = new RustCucumberProvider();
+    }
+    return instance;
+}
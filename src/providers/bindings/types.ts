@@ -6,7 +6,7 @@
  */
 
 import * as vscode from 'vscode';
-import { Binding } from '../../core/domain';
+import { Binding, BindingClassDeclaration, ParameterTypeDefinition } from '../../core/domain';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // PROVIDER IDENTIFIERS
@@ -23,7 +23,10 @@ export type BindingProviderId =
     | 'java-cucumber'
     | 'python-behave'
     | 'python-pytestbdd'
-    | 'go-godog';
+    | 'go-godog'
+    | 'php-behat'
+    | 'rust-cucumber'
+    | 'ruby-cucumber';
 
 /**
  * Display information for each provider
@@ -32,10 +35,13 @@ export const PROVIDER_INFO: Record<BindingProviderId, { displayName: string; lan
     'csharp-reqnroll': { displayName: 'C# Reqnroll', languages: ['csharp'] },
     'csharp-specflow': { displayName: 'C# SpecFlow', languages: ['csharp'] },
     'js-cucumber': { displayName: 'JavaScript Cucumber', languages: ['javascript', 'typescript'] },
-    'java-cucumber': { displayName: 'Java Cucumber', languages: ['java'] },
+    'java-cucumber': { displayName: 'Java Cucumber', languages: ['java', 'kotlin'] },
     'python-behave': { displayName: 'Python Behave', languages: ['python'] },
     'python-pytestbdd': { displayName: 'Python pytest-bdd', languages: ['python'] },
     'go-godog': { displayName: 'Go Godog', languages: ['go'] },
+    'php-behat': { displayName: 'PHP Behat', languages: ['php'] },
+    'rust-cucumber': { displayName: 'Rust Cucumber', languages: ['rust'] },
+    'ruby-cucumber': { displayName: 'Ruby Cucumber', languages: ['ruby'] },
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -145,6 +151,25 @@ export interface IBindingProvider {
         document: vscode.TextDocument,
         options?: BindingIndexOptions
     ): Binding[];
+
+    /**
+     * Custom parameter types defined in a file (`{color}` in Cucumber Expressions).
+     * Optional: providers without custom types leave it out.
+     */
+    parseParameterTypes?(document: vscode.TextDocument): ParameterTypeDefinition[];
+
+    /**
+     * Class declarations in a file, kept by the index for `linkBindings`.
+     * Optional: providers without cross-file inheritance leave it out.
+     */
+    parseClassDeclarations?(document: vscode.TextDocument): BindingClassDeclaration[];
+
+    /**
+     * Cross-file pass over all of this provider's bindings once files are (re)indexed,
+     * e.g. steps registered through derived classes declared in other files.
+     * Must accept its own previous output.
+     */
+    linkBindings?(bindings: readonly Binding[], classes: readonly BindingClassDeclaration[]): Binding[];
 }
 
 /**
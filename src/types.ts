@@ -9,13 +9,13 @@ import * as vscode from 'vscode';
 // FEATURE TYPES
 // ═══════════════════════════════════════════════════════════════════════════
 
-export type StepKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But';
+export type StepKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But' | '*';
 export type ResolvedKeyword = 'Given' | 'When' | 'Then';
 
 export interface FeatureStep {
-    /** Original keyword from the feature file (Given/When/Then/And/But) */
+    /** Original keyword from the feature file (Given/When/Then/And/But/*) */
     keywordOriginal: StepKeyword;
-    /** Resolved keyword (And/But resolved to previous concrete keyword) */
+    /** Resolved keyword (And/But/* resolved to previous concrete keyword) */
     keywordResolved: ResolvedKeyword;
     /** Step text without the keyword */
     stepText: string;
@@ -193,7 +193,7 @@ export function getConfig(): ReqnrollNavigatorConfig {
         featureGlob: config.get('featureGlob', '**/*.feature'),
         bindingsGlob: config.get('bindingsGlob', '**/*.cs'),
         excludePatterns: config.get('excludePatterns', ['**/bin/**', '**/obj/**', '**/node_modules/**']),
-        maxExampleRows: config.get('maxExampleRows', 20),
+        maxExampleRows: config.get('maxExampleRows', 500),
         enableCodeLens: config.get('enableCodeLens', true),
         enableDiagnostics: config.get('enableDiagnostics', true),
         debug: config.get('debug', false),